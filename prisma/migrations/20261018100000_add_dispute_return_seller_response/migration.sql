@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "OrderDispute" ADD COLUMN     "sellerRespondedAt" TIMESTAMP(3),
+ADD COLUMN     "sellerResponse" TEXT;
+
+-- AlterTable
+ALTER TABLE "OrderReturn" ADD COLUMN     "sellerRespondedAt" TIMESTAMP(3),
+ADD COLUMN     "sellerResponse" TEXT;
@@ -0,0 +1,56 @@
+-- CreateTable
+CREATE TABLE "OrderRefund" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "refundTransactionId" TEXT,
+    "returnId" TEXT,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "reason" TEXT,
+    "providerRefundId" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderRefund_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OrderRefundItem" (
+    "id" TEXT NOT NULL,
+    "refundId" TEXT NOT NULL,
+    "orderItemId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+
+    CONSTRAINT "OrderRefundItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrderRefund_refundTransactionId_key" ON "OrderRefund"("refundTransactionId");
+
+-- CreateIndex
+CREATE INDEX "OrderRefund_orderId_idx" ON "OrderRefund"("orderId");
+
+-- CreateIndex
+CREATE INDEX "OrderRefund_transactionId_idx" ON "OrderRefund"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "OrderRefundItem_refundId_idx" ON "OrderRefundItem"("refundId");
+
+-- CreateIndex
+CREATE INDEX "OrderRefundItem_orderItemId_idx" ON "OrderRefundItem"("orderItemId");
+
+-- AddForeignKey
+ALTER TABLE "OrderRefund" ADD CONSTRAINT "OrderRefund_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderRefund" ADD CONSTRAINT "OrderRefund_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "PaymentTransaction"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderRefund" ADD CONSTRAINT "OrderRefund_refundTransactionId_fkey" FOREIGN KEY ("refundTransactionId") REFERENCES "PaymentTransaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderRefundItem" ADD CONSTRAINT "OrderRefundItem_refundId_fkey" FOREIGN KEY ("refundId") REFERENCES "OrderRefund"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderRefundItem" ADD CONSTRAINT "OrderRefundItem_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "OrderItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,80 @@
+-- AlterTable
+ALTER TABLE "OrderItem" ADD COLUMN     "fulfillmentId" TEXT;
+
+-- CreateTable
+CREATE TABLE "OrderFulfillment" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "sellerId" TEXT NOT NULL,
+    "status" "OrderStatus" NOT NULL DEFAULT 'PENDING',
+    "deliveryStatus" "DeliveryStatus" NOT NULL DEFAULT 'PREPARING',
+    "subtotal" DECIMAL(10,2) NOT NULL,
+    "shippingCost" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "trackingNumber" TEXT,
+    "expectedDelivery" TIMESTAMP(3),
+    "actualDelivery" TIMESTAMP(3),
+    "isDeliveryLate" BOOLEAN NOT NULL DEFAULT false,
+    "statusHistory" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OrderFulfillment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrderFulfillment_sellerId_idx" ON "OrderFulfillment"("sellerId");
+
+-- CreateIndex
+CREATE INDEX "OrderFulfillment_status_idx" ON "OrderFulfillment"("status");
+
+-- CreateIndex
+CREATE INDEX "OrderFulfillment_deliveryStatus_idx" ON "OrderFulfillment"("deliveryStatus");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrderFulfillment_orderId_sellerId_key" ON "OrderFulfillment"("orderId", "sellerId");
+
+-- CreateIndex
+CREATE INDEX "OrderItem_fulfillmentId_idx" ON "OrderItem"("fulfillmentId");
+
+-- AddForeignKey
+ALTER TABLE "OrderItem" ADD CONSTRAINT "OrderItem_fulfillmentId_fkey" FOREIGN KEY ("fulfillmentId") REFERENCES "OrderFulfillment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderFulfillment" ADD CONSTRAINT "OrderFulfillment_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderFulfillment" ADD CONSTRAINT "OrderFulfillment_sellerId_fkey" FOREIGN KEY ("sellerId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Backfill: one fulfillment per seller of every existing order, inheriting the order's
+-- shipping state. Shipping cost is split evenly between the sellers of an order.
+INSERT INTO "OrderFulfillment" (
+    "id", "orderId", "sellerId", "status", "deliveryStatus", "subtotal", "shippingCost",
+    "trackingNumber", "expectedDelivery", "actualDelivery", "isDeliveryLate", "statusHistory",
+    "createdAt", "updatedAt"
+)
+SELECT
+    gen_random_uuid()::TEXT,
+    o."id",
+    s."sellerId",
+    o."status",
+    o."deliveryStatus",
+    s."subtotal",
+    ROUND(o."shippingCost" / COUNT(*) OVER (PARTITION BY o."id"), 2),
+    o."trackingNumber",
+    o."expectedDelivery",
+    o."actualDelivery",
+    o."isDeliveryLate",
+    o."statusHistory",
+    o."createdAt",
+    CURRENT_TIMESTAMP
+FROM "Order" o
+JOIN (
+    SELECT "orderId", "sellerId", SUM("price" * "quantity") AS "subtotal"
+    FROM "OrderItem"
+    GROUP BY "orderId", "sellerId"
+) s ON s."orderId" = o."id";
+
+UPDATE "OrderItem" i
+SET "fulfillmentId" = f."id"
+FROM "OrderFulfillment" f
+WHERE f."orderId" = i."orderId" AND f."sellerId" = i."sellerId";
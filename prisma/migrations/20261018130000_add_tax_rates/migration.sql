@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "TaxRate" (
+    "id" TEXT NOT NULL,
+    "country" TEXT NOT NULL,
+    "state" TEXT,
+    "rate" DECIMAL(5,4) NOT NULL,
+    "name" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TaxRate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TaxRate_country_state_key" ON "TaxRate"("country", "state");
+
+-- CreateIndex
+CREATE INDEX "TaxRate_isActive_idx" ON "TaxRate"("isActive");
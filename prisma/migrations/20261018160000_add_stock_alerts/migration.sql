@@ -0,0 +1,37 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'LOW_STOCK';
+ALTER TYPE "NotificationType" ADD VALUE 'BACK_IN_STOCK';
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "lowStockAlertedAt" TIMESTAMP(3),
+ADD COLUMN     "lowStockThreshold" INTEGER;
+
+-- AlterTable
+ALTER TABLE "ProductVariant" ADD COLUMN     "lowStockAlertedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "StockSubscription" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "variantId" TEXT,
+    "notifiedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StockSubscription_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "StockSubscription_userId_idx" ON "StockSubscription"("userId");
+
+-- CreateIndex
+CREATE INDEX "StockSubscription_productId_notifiedAt_idx" ON "StockSubscription"("productId", "notifiedAt");
+
+-- AddForeignKey
+ALTER TABLE "StockSubscription" ADD CONSTRAINT "StockSubscription_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockSubscription" ADD CONSTRAINT "StockSubscription_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockSubscription" ADD CONSTRAINT "StockSubscription_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "ProductVariant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- CreateFunction
+-- Search document for a product: name (A), tags and SKU (B), description (C).
+-- Wrapped in an IMMUTABLE function because array_to_string cannot be used directly in a generated column.
+CREATE FUNCTION product_search_vector(name TEXT, tags TEXT[], sku TEXT, description TEXT)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $$
+  SELECT setweight(to_tsvector('simple', coalesce(name, '')), 'A')
+    || setweight(to_tsvector('simple', coalesce(array_to_string(tags, ' '), '') || ' ' || coalesce(sku, '')), 'B')
+    || setweight(to_tsvector('simple', coalesce(description, '')), 'C')
+$$;
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "searchVector" tsvector
+GENERATED ALWAYS AS (product_search_vector("name", "tags", "sku", "description")) STORED;
+
+-- CreateIndex
+CREATE INDEX "Product_searchVector_idx" ON "Product" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Product_attributes_idx" ON "Product" USING GIN ("attributes" jsonb_path_ops);
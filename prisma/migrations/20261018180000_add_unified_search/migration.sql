@@ -0,0 +1,52 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+-- CreateFunction
+-- Lowercase and strip diacritics ("Gốm Bát Tràng" -> "gom bat trang").
+-- unaccent() is only STABLE, so it is wrapped to be usable in indexes and generated columns.
+CREATE FUNCTION search_normalize(value TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+STRICT
+AS $$
+  SELECT lower(public.unaccent('public.unaccent'::regdictionary, value))
+$$;
+
+-- AlterTable
+-- Rebuild the product search document without diacritics
+ALTER TABLE "Product" DROP COLUMN "searchVector";
+
+CREATE OR REPLACE FUNCTION product_search_vector(name TEXT, tags TEXT[], sku TEXT, description TEXT)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+AS $$
+  SELECT setweight(to_tsvector('simple', coalesce(search_normalize(name), '')), 'A')
+    || setweight(to_tsvector('simple', coalesce(search_normalize(array_to_string(tags, ' ')), '') || ' ' || coalesce(search_normalize(sku), '')), 'B')
+    || setweight(to_tsvector('simple', coalesce(search_normalize(description), '')), 'C')
+$$;
+
+ALTER TABLE "Product" ADD COLUMN     "searchVector" tsvector
+GENERATED ALWAYS AS (product_search_vector("name", "tags", "sku", "description")) STORED;
+
+-- CreateIndex
+CREATE INDEX "Product_searchVector_idx" ON "Product" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Product_name_trgm_idx" ON "Product" USING GIN (search_normalize("name") gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Post_title_trgm_idx" ON "Post" USING GIN (search_normalize("title") gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "ArtisanProfile_shopName_trgm_idx" ON "ArtisanProfile" USING GIN (search_normalize("shopName") gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "User_fullName_trgm_idx" ON "User" USING GIN (search_normalize("firstName" || ' ' || "lastName" || ' ' || "username") gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Category_name_trgm_idx" ON "Category" USING GIN (search_normalize("name") gin_trgm_ops);
@@ -0,0 +1,57 @@
+-- CreateEnum
+CREATE TYPE "RecommendationType" AS ENUM ('RELATED', 'ALSO_BOUGHT');
+
+-- CreateTable
+CREATE TABLE "ProductRecommendation" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "recommendedId" TEXT NOT NULL,
+    "type" "RecommendationType" NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "rank" INTEGER NOT NULL,
+    "computedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProductRecommendation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "UserRecommendation" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "rank" INTEGER NOT NULL,
+    "computedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UserRecommendation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProductRecommendation_productId_type_rank_idx" ON "ProductRecommendation"("productId", "type", "rank");
+
+-- CreateIndex
+CREATE INDEX "ProductRecommendation_recommendedId_idx" ON "ProductRecommendation"("recommendedId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductRecommendation_productId_type_recommendedId_key" ON "ProductRecommendation"("productId", "type", "recommendedId");
+
+-- CreateIndex
+CREATE INDEX "UserRecommendation_userId_rank_idx" ON "UserRecommendation"("userId", "rank");
+
+-- CreateIndex
+CREATE INDEX "UserRecommendation_productId_idx" ON "UserRecommendation"("productId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserRecommendation_userId_productId_key" ON "UserRecommendation"("userId", "productId");
+
+-- AddForeignKey
+ALTER TABLE "ProductRecommendation" ADD CONSTRAINT "ProductRecommendation_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProductRecommendation" ADD CONSTRAINT "ProductRecommendation_recommendedId_fkey" FOREIGN KEY ("recommendedId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UserRecommendation" ADD CONSTRAINT "UserRecommendation_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UserRecommendation" ADD CONSTRAINT "UserRecommendation_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
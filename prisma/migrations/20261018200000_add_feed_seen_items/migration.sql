@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "FeedItemType" AS ENUM ('POST', 'PRODUCT');
+
+-- CreateTable
+CREATE TABLE "FeedSeenItem" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "itemType" "FeedItemType" NOT NULL,
+    "itemId" TEXT NOT NULL,
+    "seenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FeedSeenItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FeedSeenItem_seenAt_idx" ON "FeedSeenItem"("seenAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FeedSeenItem_userId_itemType_itemId_key" ON "FeedSeenItem"("userId", "itemType", "itemId");
+
+-- AddForeignKey
+ALTER TABLE "FeedSeenItem" ADD CONSTRAINT "FeedSeenItem_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,129 @@
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'PRODUCT_QUESTION';
+ALTER TYPE "NotificationType" ADD VALUE 'PRODUCT_ANSWER';
+
+-- CreateEnum
+CREATE TYPE "QaReportReason" AS ENUM ('SPAM', 'OFFENSIVE', 'OFF_TOPIC', 'INCORRECT', 'OTHER');
+
+-- CreateTable
+CREATE TABLE "ProductQuestion" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "answerCount" INTEGER NOT NULL DEFAULT 0,
+    "upvoteCount" INTEGER NOT NULL DEFAULT 0,
+    "reportCount" INTEGER NOT NULL DEFAULT 0,
+    "isHidden" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProductQuestion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ProductAnswer" (
+    "id" TEXT NOT NULL,
+    "questionId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "isSeller" BOOLEAN NOT NULL DEFAULT false,
+    "isVerifiedPurchase" BOOLEAN NOT NULL DEFAULT false,
+    "upvoteCount" INTEGER NOT NULL DEFAULT 0,
+    "reportCount" INTEGER NOT NULL DEFAULT 0,
+    "isHidden" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProductAnswer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ProductQaVote" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "questionId" TEXT,
+    "answerId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProductQaVote_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ProductQaReport" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "questionId" TEXT,
+    "answerId" TEXT,
+    "reason" "QaReportReason" NOT NULL,
+    "details" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProductQaReport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProductQuestion_productId_createdAt_idx" ON "ProductQuestion"("productId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ProductQuestion_productId_upvoteCount_idx" ON "ProductQuestion"("productId", "upvoteCount");
+
+-- CreateIndex
+CREATE INDEX "ProductQuestion_userId_idx" ON "ProductQuestion"("userId");
+
+-- CreateIndex
+CREATE INDEX "ProductAnswer_questionId_idx" ON "ProductAnswer"("questionId");
+
+-- CreateIndex
+CREATE INDEX "ProductAnswer_userId_idx" ON "ProductAnswer"("userId");
+
+-- CreateIndex
+CREATE INDEX "ProductQaVote_questionId_idx" ON "ProductQaVote"("questionId");
+
+-- CreateIndex
+CREATE INDEX "ProductQaVote_answerId_idx" ON "ProductQaVote"("answerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductQaVote_userId_questionId_key" ON "ProductQaVote"("userId", "questionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductQaVote_userId_answerId_key" ON "ProductQaVote"("userId", "answerId");
+
+-- CreateIndex
+CREATE INDEX "ProductQaReport_createdAt_idx" ON "ProductQaReport"("createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductQaReport_userId_questionId_key" ON "ProductQaReport"("userId", "questionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductQaReport_userId_answerId_key" ON "ProductQaReport"("userId", "answerId");
+
+-- AddForeignKey
+ALTER TABLE "ProductQuestion" ADD CONSTRAINT "ProductQuestion_productId_fkey" FOREIGN KEY ("productId") REFERENCES "Product"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProductQuestion" ADD CONSTRAINT "ProductQuestion_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProductAnswer" ADD CONSTRAINT "ProductAnswer_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "ProductQuestion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProductAnswer" ADD CONSTRAINT "ProductAnswer_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProductQaVote" ADD CONSTRAINT "ProductQaVote_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProductQaVote" ADD CONSTRAINT "ProductQaVote_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "ProductQuestion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProductQaVote" ADD CONSTRAINT "ProductQaVote_answerId_fkey" FOREIGN KEY ("answerId") REFERENCES "ProductAnswer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProductQaReport" ADD CONSTRAINT "ProductQaReport_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProductQaReport" ADD CONSTRAINT "ProductQaReport_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "ProductQuestion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProductQaReport" ADD CONSTRAINT "ProductQaReport_answerId_fkey" FOREIGN KEY ("answerId") REFERENCES "ProductAnswer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
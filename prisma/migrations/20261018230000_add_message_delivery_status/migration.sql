@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "MessageStatus" AS ENUM ('SENT', 'DELIVERED', 'READ');
+
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "deliveredAt" TIMESTAMP(3),
+ADD COLUMN     "status" "MessageStatus" NOT NULL DEFAULT 'SENT';
+
+-- Backfill: messages already read were delivered at the latest when they were read
+UPDATE "Message" SET "status" = 'READ', "deliveredAt" = "readAt" WHERE "isRead" = true;
+
+-- CreateIndex
+CREATE INDEX "Message_receiverId_status_idx" ON "Message"("receiverId", "status");
@@ -0,0 +1,106 @@
+-- CreateEnum
+CREATE TYPE "ConversationType" AS ENUM ('DIRECT', 'GROUP');
+
+-- CreateEnum
+CREATE TYPE "ConversationRole" AS ENUM ('OWNER', 'MEMBER');
+
+-- CreateTable
+CREATE TABLE "Conversation" (
+    "id" TEXT NOT NULL,
+    "type" "ConversationType" NOT NULL DEFAULT 'DIRECT',
+    "title" TEXT,
+    "directKey" TEXT,
+    "createdById" TEXT,
+    "lastMessageAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Conversation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ConversationParticipant" (
+    "id" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "ConversationRole" NOT NULL DEFAULT 'MEMBER',
+    "isMuted" BOOLEAN NOT NULL DEFAULT false,
+    "isArchived" BOOLEAN NOT NULL DEFAULT false,
+    "isPinned" BOOLEAN NOT NULL DEFAULT false,
+    "pinnedAt" TIMESTAMP(3),
+    "lastReadAt" TIMESTAMP(3),
+    "joinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "leftAt" TIMESTAMP(3),
+
+    CONSTRAINT "ConversationParticipant_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "conversationId" TEXT,
+ALTER COLUMN "receiverId" DROP NOT NULL;
+
+-- Backfill: one direct conversation per pair of users who exchanged messages
+INSERT INTO "Conversation" ("id", "type", "directKey", "lastMessageAt", "createdAt", "updatedAt")
+SELECT gen_random_uuid()::text, 'DIRECT', pair."directKey", pair."lastMessageAt", pair."firstMessageAt", CURRENT_TIMESTAMP
+FROM (
+    SELECT LEAST("senderId", "receiverId") || ':' || GREATEST("senderId", "receiverId") AS "directKey",
+           MAX("createdAt") AS "lastMessageAt",
+           MIN("createdAt") AS "firstMessageAt"
+    FROM "Message"
+    GROUP BY 1
+) pair;
+
+-- Backfill: both users of each pair take part, having read up to their last read message
+INSERT INTO "ConversationParticipant" ("id", "conversationId", "userId", "lastReadAt", "joinedAt")
+SELECT gen_random_uuid()::text, c."id", member."userId", (
+           SELECT MAX(m."readAt") FROM "Message" m
+           WHERE m."receiverId" = member."userId"
+             AND LEAST(m."senderId", m."receiverId") || ':' || GREATEST(m."senderId", m."receiverId") = c."directKey"
+       ), c."createdAt"
+FROM "Conversation" c
+CROSS JOIN LATERAL (
+    VALUES (split_part(c."directKey", ':', 1)), (split_part(c."directKey", ':', 2))
+) AS member("userId");
+
+-- Backfill: attach messages to their conversation
+UPDATE "Message" m SET "conversationId" = c."id"
+FROM "Conversation" c
+WHERE c."directKey" = LEAST(m."senderId", m."receiverId") || ':' || GREATEST(m."senderId", m."receiverId");
+
+ALTER TABLE "Message" ALTER COLUMN "conversationId" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Conversation_directKey_key" ON "Conversation"("directKey");
+
+-- CreateIndex
+CREATE INDEX "Conversation_type_idx" ON "Conversation"("type");
+
+-- CreateIndex
+CREATE INDEX "Conversation_lastMessageAt_idx" ON "Conversation"("lastMessageAt");
+
+-- CreateIndex
+CREATE INDEX "ConversationParticipant_userId_isArchived_idx" ON "ConversationParticipant"("userId", "isArchived");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ConversationParticipant_conversationId_userId_key" ON "ConversationParticipant"("conversationId", "userId");
+
+-- CreateIndex
+CREATE INDEX "Message_conversationId_createdAt_idx" ON "Message"("conversationId", "createdAt");
+
+-- DropForeignKey
+ALTER TABLE "Message" DROP CONSTRAINT "Message_receiverId_fkey";
+
+-- AddForeignKey
+ALTER TABLE "Message" ADD CONSTRAINT "Message_receiverId_fkey" FOREIGN KEY ("receiverId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Message" ADD CONSTRAINT "Message_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "Conversation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Conversation" ADD CONSTRAINT "Conversation_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ConversationParticipant" ADD CONSTRAINT "ConversationParticipant_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "Conversation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ConversationParticipant" ADD CONSTRAINT "ConversationParticipant_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+-- Message text without diacritics, searched with the same normalization as products
+ALTER TABLE "Message" ADD COLUMN     "searchVector" tsvector
+GENERATED ALWAYS AS (to_tsvector('simple', coalesce(search_normalize("content"), ''))) STORED;
+
+-- CreateIndex
+CREATE INDEX "Message_searchVector_idx" ON "Message" USING GIN ("searchVector");
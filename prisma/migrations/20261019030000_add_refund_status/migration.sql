@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "RefundStatus" AS ENUM ('PENDING', 'COMPLETED', 'FAILED');
+
+-- AlterTable
+-- Refunds recorded so far were all settled with the provider
+ALTER TABLE "OrderRefund" ADD COLUMN     "status" "RefundStatus" NOT NULL DEFAULT 'COMPLETED',
+ADD COLUMN     "failureReason" TEXT;
+
+ALTER TABLE "OrderRefund" ALTER COLUMN "status" SET DEFAULT 'PENDING';
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "FeedSnapshot" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "items" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FeedSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FeedSnapshot_createdAt_idx" ON "FeedSnapshot"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "FeedSnapshot" ADD CONSTRAINT "FeedSnapshot_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,48 @@
+-- AlterTable
+ALTER TABLE "OrderReturn" ADD COLUMN "sellerId" TEXT;
+
+-- CreateTable
+CREATE TABLE "OrderReturnItem" (
+    "id" TEXT NOT NULL,
+    "returnId" TEXT NOT NULL,
+    "orderItemId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+
+    CONSTRAINT "OrderReturnItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrderReturn_sellerId_idx" ON "OrderReturn"("sellerId");
+
+-- CreateIndex
+CREATE INDEX "OrderReturnItem_orderItemId_idx" ON "OrderReturnItem"("orderItemId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrderReturnItem_returnId_orderItemId_key" ON "OrderReturnItem"("returnId", "orderItemId");
+
+-- AddForeignKey
+ALTER TABLE "OrderReturn" ADD CONSTRAINT "OrderReturn_sellerId_fkey" FOREIGN KEY ("sellerId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderReturnItem" ADD CONSTRAINT "OrderReturnItem_returnId_fkey" FOREIGN KEY ("returnId") REFERENCES "OrderReturn"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrderReturnItem" ADD CONSTRAINT "OrderReturnItem_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "OrderItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing returns of single-seller orders cover the whole order and belong to its seller;
+-- returns of multi-seller orders stay without a seller and are decided by admins
+UPDATE "OrderReturn" r
+SET "sellerId" = s."sellerId"
+FROM (
+    SELECT "orderId", MIN("sellerId") AS "sellerId"
+    FROM "OrderItem"
+    GROUP BY "orderId"
+    HAVING COUNT(DISTINCT "sellerId") = 1
+) s
+WHERE s."orderId" = r."orderId";
+
+INSERT INTO "OrderReturnItem" ("id", "returnId", "orderItemId", "quantity")
+SELECT gen_random_uuid()::text, r."id", oi."id", oi."quantity"
+FROM "OrderReturn" r
+JOIN "OrderItem" oi ON oi."orderId" = r."orderId"
+WHERE r."sellerId" IS NOT NULL;
@@ -194,7 +194,8 @@ export class App {
     this.logger.info('Shutting down application...');
 
     try {
-      // Close Socket.IO connections
+      // Release this instance's presence, then close Socket.IO connections
+      await this.socketService.shutdown();
       this.io.close();
       this.logger.info('Socket.IO server closed');
 
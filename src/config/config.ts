@@ -47,6 +47,42 @@ export class Config {
   static EMAIL_PASSWORD = process.env.EMAIL_PASSWORD;
   static EMAIL_FROM_NAME = process.env.EMAIL_FROM_NAME || 'Artisan Connect';
   static EMAIL_FROM_ADDRESS = process.env.EMAIL_FROM_ADDRESS;
+  static EMAIL_TRANSPORT =
+    process.env.EMAIL_TRANSPORT || (process.env.EMAIL_HOST ? 'smtp' : 'file');
+  static EMAIL_OUTBOX_DIR = process.env.EMAIL_OUTBOX_DIR || 'logs/emails';
+
+  // Background job configuration
+  static JOBS_ENABLED = process.env.JOBS_ENABLED !== 'false';
+  static JOB_LOCK_TTL_MS = parseInt(process.env.JOB_LOCK_TTL_MS || '60000');
+
+  // Payment configuration
+  static PAYMENT_PROVIDER = process.env.PAYMENT_PROVIDER || 'mock';
+  static PAYMENT_CURRENCY = process.env.PAYMENT_CURRENCY || 'VND';
+  static PAYMENT_WEBHOOK_SECRET =
+    process.env.PAYMENT_WEBHOOK_SECRET || this.generateFallbackSecret('payment_webhook');
+  static PAYMENT_GATEWAY_API_URL = process.env.PAYMENT_GATEWAY_API_URL || '';
+  static PAYMENT_GATEWAY_API_KEY = process.env.PAYMENT_GATEWAY_API_KEY || '';
+  static PAYMENT_GATEWAY_TIMEOUT_MS = parseInt(process.env.PAYMENT_GATEWAY_TIMEOUT_MS || '15000');
+  static PAYMENT_MOCK_OUTCOME = process.env.PAYMENT_MOCK_OUTCOME || 'success';
+  static PAYMENT_MOCK_DELAY_MS = parseInt(process.env.PAYMENT_MOCK_DELAY_MS || '2000');
+  // Payments still unanswered after this are failed and their held stock released
+  static PAYMENT_IN_FLIGHT_TTL_MINUTES = parseInt(
+    process.env.PAYMENT_IN_FLIGHT_TTL_MINUTES || '60',
+  );
+
+  // Pricing defaults, in the payment currency
+  static PRICING_DEFAULT_SHIPPING_RATE = parseFloat(
+    process.env.PRICING_DEFAULT_SHIPPING_RATE || '30000',
+  );
+  static PRICING_FREE_SHIPPING_THRESHOLD = parseFloat(
+    process.env.PRICING_FREE_SHIPPING_THRESHOLD || '500000',
+  );
+  static PRICING_DEFAULT_TAX_RATE = parseFloat(process.env.PRICING_DEFAULT_TAX_RATE || '0');
+
+  // Stock held for a checkout or an unpaid order before it goes back on sale
+  static INVENTORY_RESERVATION_TTL_MINUTES = parseInt(
+    process.env.INVENTORY_RESERVATION_TTL_MINUTES || '15',
+  );
 
   // Client URL
   static CLIENT_URL = process.env.CLIENT_URL || 'http://localhost:3000';
@@ -79,6 +115,26 @@ export class Config {
       }
     }
 
+    // Webhook events mark orders paid, so their signing key must never be a guessable default
+    if (!process.env.PAYMENT_WEBHOOK_SECRET && this.NODE_ENV !== 'development') {
+      throw new Error('PAYMENT_WEBHOOK_SECRET must be set outside development');
+    }
+
+    // Validate payment gateway config when a real gateway is selected
+    if (this.PAYMENT_PROVIDER === 'gateway') {
+      if (!this.PAYMENT_GATEWAY_API_URL || !this.PAYMENT_GATEWAY_API_KEY) {
+        throw new Error('PAYMENT_GATEWAY_API_URL and PAYMENT_GATEWAY_API_KEY must be set');
+      }
+      if (!process.env.PAYMENT_WEBHOOK_SECRET) {
+        throw new Error('PAYMENT_WEBHOOK_SECRET must be set when using the payment gateway');
+      }
+    }
+
+    // SMTP transport needs a server to talk to
+    if (this.EMAIL_TRANSPORT === 'smtp' && !this.EMAIL_HOST) {
+      throw new Error('EMAIL_HOST must be set when EMAIL_TRANSPORT is smtp');
+    }
+
     // Validate Cloudinary config if cloud storage is needed
     if (!this.CLOUDINARY_CLOUD_NAME || !this.CLOUDINARY_API_KEY || !this.CLOUDINARY_API_SECRET) {
       console.warn('Warning: Cloudinary configuration is incomplete. File uploads may not work.');
@@ -166,6 +222,60 @@ export class Config {
       password: this.EMAIL_PASSWORD,
       fromName: this.EMAIL_FROM_NAME,
       fromAddress: this.EMAIL_FROM_ADDRESS,
+      transport: this.EMAIL_TRANSPORT as 'smtp' | 'file',
+      outboxDir: this.EMAIL_OUTBOX_DIR,
+    };
+  }
+
+  /**
+   * Get payment configuration
+   */
+  static getPaymentConfig() {
+    return {
+      provider: this.PAYMENT_PROVIDER as 'mock' | 'gateway',
+      currency: this.PAYMENT_CURRENCY,
+      webhookSecret: this.PAYMENT_WEBHOOK_SECRET,
+      inFlightTtlMinutes: this.PAYMENT_IN_FLIGHT_TTL_MINUTES,
+      gateway: {
+        apiUrl: this.PAYMENT_GATEWAY_API_URL,
+        apiKey: this.PAYMENT_GATEWAY_API_KEY,
+        timeoutMs: this.PAYMENT_GATEWAY_TIMEOUT_MS,
+        returnUrl: `${this.CLIENT_URL}/orders/payment-return`,
+      },
+      mock: {
+        outcome: this.PAYMENT_MOCK_OUTCOME as 'success' | 'failure',
+        delayMs: this.PAYMENT_MOCK_DELAY_MS,
+      },
+    };
+  }
+
+  /**
+   * Get pricing configuration
+   */
+  static getPricingConfig() {
+    return {
+      defaultShippingRate: this.PRICING_DEFAULT_SHIPPING_RATE,
+      freeShippingThreshold: this.PRICING_FREE_SHIPPING_THRESHOLD,
+      defaultTaxRate: this.PRICING_DEFAULT_TAX_RATE,
+    };
+  }
+
+  /**
+   * Get inventory configuration
+   */
+  static getInventoryConfig() {
+    return {
+      reservationTtlMinutes: this.INVENTORY_RESERVATION_TTL_MINUTES,
+    };
+  }
+
+  /**
+   * Get background job configuration
+   */
+  static getJobConfig() {
+    return {
+      enabled: this.JOBS_ENABLED,
+      lockTtlMs: this.JOB_LOCK_TTL_MS,
     };
   }
 
@@ -4,6 +4,11 @@ import { JwtService } from '../infrastructure/security/JwtService';
 import { BcryptService } from '../infrastructure/security/BcryptService';
 import { PrismaClientManager } from '../database/PrismaClient';
 import { CloudinaryService } from '../infrastructure/storage/CloudinaryService';
+import { MockPaymentProvider } from '../infrastructure/payment/MockPaymentProvider';
+import { GatewayPaymentProvider } from '../infrastructure/payment/GatewayPaymentProvider';
+import { EmailService } from '../infrastructure/email/EmailService';
+import { SmtpEmailTransport } from '../infrastructure/email/SmtpEmailTransport';
+import { FileEmailTransport } from '../infrastructure/email/FileEmailTransport';
 
 // Prisma client
 const prisma = PrismaClientManager.getClient();
@@ -16,6 +21,44 @@ container.register('bcryptService', new BcryptService(Config.BCRYPT_SALT_ROUNDS)
 // Storage services
 container.register('cloudinaryService', new CloudinaryService(Config.getCloudinaryConfig()));
 
+// Email service
+const emailConfig = Config.getEmailConfig();
+container.register(
+  'emailService',
+  new EmailService(
+    emailConfig.transport === 'smtp'
+      ? new SmtpEmailTransport({
+          host: emailConfig.host as string,
+          port: emailConfig.port,
+          secure: emailConfig.secure,
+          user: emailConfig.user,
+          password: emailConfig.password,
+        })
+      : new FileEmailTransport(emailConfig.outboxDir),
+    {
+      fromName: emailConfig.fromName,
+      fromAddress: emailConfig.fromAddress,
+      clientUrl: Config.CLIENT_URL,
+    },
+  ),
+);
+
+// Payment provider
+const paymentConfig = Config.getPaymentConfig();
+container.register(
+  'paymentProvider',
+  paymentConfig.provider === 'gateway'
+    ? new GatewayPaymentProvider({
+        ...paymentConfig.gateway,
+        webhookSecret: paymentConfig.webhookSecret,
+        currency: paymentConfig.currency,
+      })
+    : new MockPaymentProvider({
+        ...paymentConfig.mock,
+        webhookSecret: paymentConfig.webhookSecret,
+      }),
+);
+
 // Import repositories
 import { UserRepository } from '../../modules/auth/repositories/UserRepository';
 import { RefreshTokenRepository } from '../../modules/auth/repositories/RefreshTokenRepository';
@@ -24,12 +67,15 @@ import { EmailVerificationRepository } from '../../modules/auth/repositories/Ema
 
 import { ProfileRepository } from '../../modules/user/repositories/ProfileRepository';
 import { AddressRepository } from '../../modules/user/repositories/AddressRepository';
+import { PaymentMethodRepository } from '../../modules/user/repositories/PaymentMethodRepository';
 import { FollowRepository } from '../../modules/user/repositories/FollowRepository';
 
 import { ArtisanProfileRepository } from '../../modules/artisan/repositories/ArtisanProfileRepository';
 import { UpgradeRequestRepository } from '../../modules/artisan/repositories/UpgradeRequestRepository';
 
 import { ProductRepository } from '../../modules/product/repositories/ProductRepository';
+import { ProductSearchRepository } from '../../modules/product/repositories/ProductSearchRepository';
+import { RecommendationRepository } from '../../modules/product/repositories/RecommendationRepository';
 import { CategoryRepository } from '../../modules/product/repositories/CategoryRepository';
 
 import { PostRepository } from '../../modules/post/repositories/PostRepository';
@@ -42,12 +88,22 @@ import { PriceNegotiationRepository } from '../../modules/price-negotiation/repo
 import { CustomOrderRepository } from '../../modules/custom-order/repositories/CustomOrderRepository';
 import { CartRepository } from '../../modules/cart/repositories/CartRepository';
 import { OrderRepository } from '../../modules/order/repositories/OrderRepository';
+import { PaymentRepository } from '../../modules/payment/repositories/PaymentRepository';
+import { PricingRepository } from '../../modules/pricing/repositories/PricingRepository';
+import { PromotionRepository } from '../../modules/promotion/repositories/PromotionRepository';
+import { InventoryRepository } from '../../modules/inventory/repositories/InventoryRepository';
 import { ReviewRepository } from '../../modules/review/repositories/ReviewRepository';
+import { ProductQaRepository } from '../../modules/product-qa/repositories/ProductQaRepository';
 
 import { NotificationRepository } from '../../modules/notification/repositories/NotificationRepository';
 import { MessageRepository } from '../../modules/messaging/repositories/MessageRepository';
+import { ConversationRepository } from '../../modules/messaging/repositories/ConversationRepository';
 
 import { AnalyticsRepository } from '../../modules/analytics/repositories/AnalyticsRepository';
+import { SearchRepository } from '../../modules/search/repositories/SearchRepository';
+import { FeedRepository } from '../../modules/feed/repositories/FeedRepository';
+
+import { JobRepository } from '../../modules/job/repositories/JobRepository';
 
 // Register repositories
 container.register('userRepository', new UserRepository(prisma));
@@ -57,12 +113,15 @@ container.register('emailVerificationRepository', new EmailVerificationRepositor
 
 container.register('profileRepository', new ProfileRepository(prisma));
 container.register('addressRepository', new AddressRepository(prisma));
+container.register('paymentMethodRepository', new PaymentMethodRepository(prisma));
 container.register('followRepository', new FollowRepository(prisma));
 
 container.register('artisanProfileRepository', new ArtisanProfileRepository(prisma));
 container.register('upgradeRequestRepository', new UpgradeRequestRepository(prisma));
 
 container.register('productRepository', new ProductRepository(prisma));
+container.register('productSearchRepository', new ProductSearchRepository(prisma));
+container.register('recommendationRepository', new RecommendationRepository(prisma));
 container.register('categoryRepository', new CategoryRepository(prisma));
 
 container.register('postRepository', new PostRepository(prisma));
@@ -75,12 +134,22 @@ container.register('priceNegotiationRepository', new PriceNegotiationRepository(
 container.register('customOrderRepository', new CustomOrderRepository(prisma));
 container.register('cartRepository', new CartRepository(prisma));
 container.register('orderRepository', new OrderRepository(prisma));
+container.register('paymentRepository', new PaymentRepository(prisma));
+container.register('pricingRepository', new PricingRepository(prisma));
+container.register('promotionRepository', new PromotionRepository(prisma));
+container.register('inventoryRepository', new InventoryRepository(prisma));
 container.register('reviewRepository', new ReviewRepository(prisma));
+container.register('productQaRepository', new ProductQaRepository(prisma));
 
 container.register('notificationRepository', new NotificationRepository(prisma));
 container.register('messageRepository', new MessageRepository(prisma));
+container.register('conversationRepository', new ConversationRepository(prisma));
 
 container.register('analyticsRepository', new AnalyticsRepository(prisma));
+container.register('searchRepository', new SearchRepository(prisma));
+container.register('feedRepository', new FeedRepository(prisma));
+
+container.register('jobRepository', new JobRepository(prisma));
 
 // Import services
 import { AuthService } from '../../modules/auth/services/AuthService';
@@ -91,15 +160,26 @@ import { LikeService } from '../../modules/social/services/LikeService';
 import { CommentService } from '../../modules/social/services/CommentService';
 import { WishlistService } from '../../modules/social/services/WishlistService';
 import { ProductService } from '../../modules/product/services/ProductService';
+import { ProductImportService } from '../../modules/product/services/ProductImportService';
+import { RecommendationService } from '../../modules/product/services/RecommendationService';
 import { CategoryService } from '../../modules/product/services/CategoryService';
 import { PriceNegotiationService } from '../../modules/price-negotiation/services/PriceNegotiationService';
 import { CustomOrderService } from '../../modules/custom-order/services/CustomOrderService';
+import { PromotionService } from '../../modules/promotion/services/PromotionService';
+import { InventoryService } from '../../modules/inventory/services/InventoryService';
+import { PricingService } from '../../modules/pricing/services/PricingService';
 import { CartService } from '../../modules/cart/services/CartService';
 import { OrderService } from '../../modules/order/services/OrderService';
+import { PaymentService } from '../../modules/payment/services/PaymentService';
 import { ReviewService } from '../../modules/review/services/ReviewService';
+import { ProductQaService } from '../../modules/product-qa/services/ProductQaService';
 import { NotificationService } from '../../modules/notification/services/NotificationService';
+import { ConversationService } from '../../modules/messaging/services/ConversationService';
 import { MessageService } from '../../modules/messaging/services/MessageService';
 import { AnalyticsService } from '../../modules/analytics/services/AnalyticsService';
+import { SearchService } from '../../modules/search/services/SearchService';
+import { FeedService } from '../../modules/feed/services/FeedService';
+import { JobSchedulerService } from '../../modules/job/services/JobSchedulerService';
 
 // Register services
 container.register('authService', new AuthService());
@@ -114,20 +194,32 @@ container.register('likeService', new LikeService());
 container.register('commentService', new CommentService());
 
 container.register('categoryService', new CategoryService());
+container.register('inventoryService', new InventoryService());
 container.register('productService', new ProductService());
+container.register('productImportService', new ProductImportService());
+container.register('recommendationService', new RecommendationService());
 container.register('reviewService', new ReviewService());
+container.register('productQaService', new ProductQaService());
 
 container.register('wishlistService', new WishlistService());
 
 container.register('priceNegotiationService', new PriceNegotiationService());
 container.register('customOrderService', new CustomOrderService());
 
+container.register('promotionService', new PromotionService());
+container.register('pricingService', new PricingService());
 container.register('cartService', new CartService());
+container.register('paymentService', new PaymentService());
 container.register('orderService', new OrderService());
 
+container.register('conversationService', new ConversationService());
 container.register('messageService', new MessageService());
 
 container.register('analyticsService', new AnalyticsService());
+container.register('searchService', new SearchService());
+container.register('feedService', new FeedService());
+
+container.register('jobSchedulerService', new JobSchedulerService());
 
 console.log('Dependency injection initialized');
 
@@ -0,0 +1,77 @@
+import { IEmailTransport } from './EmailTransport.interface';
+import { EmailTemplateName, EmailTemplateData, renderEmailTemplate } from './EmailTemplates';
+import { Logger } from '../../logging/Logger';
+import { AppError } from '../../errors/AppError';
+
+export interface EmailServiceConfig {
+  fromName: string;
+  fromAddress?: string;
+  clientUrl: string;
+}
+
+/**
+ * Renders templated transactional emails and hands them to the configured transport
+ */
+export class EmailService {
+  private logger = Logger.getInstance();
+
+  constructor(
+    private transport: IEmailTransport,
+    private config: EmailServiceConfig,
+  ) {}
+
+  /**
+   * Render a template and send it
+   */
+  async send<K extends EmailTemplateName>(
+    to: string,
+    template: K,
+    data: EmailTemplateData[K],
+  ): Promise<void> {
+    const rendered = renderEmailTemplate(template, data, this.config.fromName);
+    const fromAddress = this.config.fromAddress || 'no-reply@localhost';
+
+    try {
+      const result = await this.transport.send({
+        from: `"${this.config.fromName}" <${fromAddress}>`,
+        to,
+        template,
+        ...rendered,
+      });
+
+      this.logger.info(
+        `Email "${template}" sent to ${to} via ${this.transport.name} (${result.messageId})`,
+      );
+    } catch (error) {
+      this.logger.error(`Error sending "${template}" email to ${to}: ${error}`);
+      throw AppError.internal('Failed to send email', 'EMAIL_SEND_FAILED');
+    }
+  }
+
+  async sendVerificationEmail(to: string, firstName: string, token: string): Promise<void> {
+    await this.send(to, 'verifyEmail', {
+      firstName,
+      verifyUrl: this.clientUrl(`/verify-email/${token}`),
+    });
+  }
+
+  async sendPasswordResetEmail(
+    to: string,
+    firstName: string,
+    token: string,
+    expiresInMinutes: number,
+  ): Promise<void> {
+    await this.send(to, 'resetPassword', {
+      firstName,
+      resetUrl: this.clientUrl(`/reset-password?token=${encodeURIComponent(token)}`),
+      expiresInMinutes,
+    });
+  }
+
+  /**
+   * Absolute link into the client app
+   */
+  clientUrl(path: string): string {
+    return `${this.config.clientUrl.replace(/\/+$/, '')}${path}`;
+  }
+}
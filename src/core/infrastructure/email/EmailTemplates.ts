@@ -0,0 +1,191 @@
+export interface OrderEmailItem {
+  name: string;
+  quantity: number;
+  price: number;
+}
+
+/**
+ * Data required by each template, keyed by template name
+ */
+export interface EmailTemplateData {
+  verifyEmail: {
+    firstName: string;
+    verifyUrl: string;
+  };
+  resetPassword: {
+    firstName: string;
+    resetUrl: string;
+    expiresInMinutes: number;
+  };
+  orderConfirmation: {
+    firstName: string;
+    orderNumber: string;
+    items: OrderEmailItem[];
+    subtotal: number;
+    shippingCost: number;
+    taxAmount: number;
+    discountAmount: number;
+    totalAmount: number;
+    currency: string;
+    orderUrl: string;
+  };
+  orderShipped: {
+    firstName: string;
+    orderNumber: string;
+    trackingNumber?: string | null;
+    expectedDelivery?: Date | null;
+    orderUrl: string;
+  };
+  refund: {
+    firstName: string;
+    orderNumber: string;
+    amount: number;
+    currency: string;
+    reason?: string;
+    orderUrl: string;
+  };
+}
+
+export type EmailTemplateName = keyof EmailTemplateData;
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+type TemplateRenderer<K extends EmailTemplateName> = (
+  data: EmailTemplateData[K],
+  appName: string,
+) => RenderedEmail;
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatMoney = (amount: number, currency: string): string =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+
+const layout = (appName: string, body: string): string => `<!DOCTYPE html>
+<html>
+  <body style="font-family: Arial, sans-serif; color: #333; line-height: 1.5;">
+    <div style="max-width: 600px; margin: 0 auto; padding: 24px;">
+      <h2 style="color: #8b5e34;">${escapeHtml(appName)}</h2>
+      ${body}
+      <p style="margin-top: 32px; font-size: 12px; color: #999;">
+        This is an automated message from ${escapeHtml(appName)}. Please do not reply.
+      </p>
+    </div>
+  </body>
+</html>`;
+
+const button = (url: string, label: string): string =>
+  `<p><a href="${escapeHtml(url)}" style="display: inline-block; padding: 10px 20px; background: #8b5e34; color: #fff; text-decoration: none; border-radius: 4px;">${escapeHtml(label)}</a></p>`;
+
+const templates: { [K in EmailTemplateName]: TemplateRenderer<K> } = {
+  verifyEmail: (data, appName) => ({
+    subject: `Verify your email for ${appName}`,
+    html: layout(
+      appName,
+      `<p>Hi ${escapeHtml(data.firstName)},</p>
+      <p>Please confirm your email address to finish setting up your account.</p>
+      ${button(data.verifyUrl, 'Verify email')}
+      <p>This link expires in 24 hours.</p>`,
+    ),
+    text: `Hi ${data.firstName},\n\nPlease confirm your email address: ${data.verifyUrl}\n\nThis link expires in 24 hours.`,
+  }),
+
+  resetPassword: (data, appName) => ({
+    subject: `Reset your ${appName} password`,
+    html: layout(
+      appName,
+      `<p>Hi ${escapeHtml(data.firstName)},</p>
+      <p>We received a request to reset your password.</p>
+      ${button(data.resetUrl, 'Reset password')}
+      <p>This link expires in ${data.expiresInMinutes} minutes. If you did not request a reset, you can ignore this email.</p>`,
+    ),
+    text: `Hi ${data.firstName},\n\nReset your password: ${data.resetUrl}\n\nThis link expires in ${data.expiresInMinutes} minutes. If you did not request a reset, you can ignore this email.`,
+  }),
+
+  orderConfirmation: (data, appName) => {
+    const money = (amount: number) => formatMoney(amount, data.currency);
+    const rows = data.items
+      .map(
+        (item) =>
+          `<tr><td>${escapeHtml(item.name)}</td><td align="center">${item.quantity}</td><td align="right">${money(item.price * item.quantity)}</td></tr>`,
+      )
+      .join('');
+    const lines = data.items
+      .map((item) => `- ${item.name} x${item.quantity}: ${money(item.price * item.quantity)}`)
+      .join('\n');
+
+    return {
+      subject: `Order ${data.orderNumber} confirmed`,
+      html: layout(
+        appName,
+        `<p>Hi ${escapeHtml(data.firstName)},</p>
+        <p>Thanks for your order! Here is your summary for <strong>${escapeHtml(data.orderNumber)}</strong>.</p>
+        <table width="100%" cellpadding="4" style="border-collapse: collapse;">
+          <tr><th align="left">Item</th><th>Qty</th><th align="right">Total</th></tr>
+          ${rows}
+        </table>
+        <p>
+          Subtotal: ${money(data.subtotal)}<br />
+          Shipping: ${money(data.shippingCost)}<br />
+          Tax: ${money(data.taxAmount)}<br />
+          ${data.discountAmount > 0 ? `Discount: -${money(data.discountAmount)}<br />` : ''}
+          <strong>Total: ${money(data.totalAmount)}</strong>
+        </p>
+        ${button(data.orderUrl, 'View order')}`,
+      ),
+      text: `Hi ${data.firstName},\n\nThanks for your order ${data.orderNumber}!\n\n${lines}\n\nSubtotal: ${money(data.subtotal)}\nShipping: ${money(data.shippingCost)}\nTax: ${money(data.taxAmount)}\n${data.discountAmount > 0 ? `Discount: -${money(data.discountAmount)}\n` : ''}Total: ${money(data.totalAmount)}\n\nView your order: ${data.orderUrl}`,
+    };
+  },
+
+  orderShipped: (data, appName) => {
+    const tracking = data.trackingNumber ? `Tracking number: ${data.trackingNumber}` : '';
+    const eta = data.expectedDelivery
+      ? `Expected delivery: ${data.expectedDelivery.toDateString()}`
+      : '';
+
+    return {
+      subject: `Order ${data.orderNumber} has shipped`,
+      html: layout(
+        appName,
+        `<p>Hi ${escapeHtml(data.firstName)},</p>
+        <p>Good news! Your order <strong>${escapeHtml(data.orderNumber)}</strong> is on its way.</p>
+        ${tracking ? `<p>${escapeHtml(tracking)}</p>` : ''}
+        ${eta ? `<p>${escapeHtml(eta)}</p>` : ''}
+        ${button(data.orderUrl, 'Track order')}`,
+      ),
+      text: `Hi ${data.firstName},\n\nYour order ${data.orderNumber} is on its way.\n${tracking ? `${tracking}\n` : ''}${eta ? `${eta}\n` : ''}\nTrack your order: ${data.orderUrl}`,
+    };
+  },
+
+  refund: (data, appName) => {
+    const amount = formatMoney(data.amount, data.currency);
+
+    return {
+      subject: `Refund issued for order ${data.orderNumber}`,
+      html: layout(
+        appName,
+        `<p>Hi ${escapeHtml(data.firstName)},</p>
+        <p>We have issued a refund of <strong>${amount}</strong> for order <strong>${escapeHtml(data.orderNumber)}</strong>.</p>
+        ${data.reason ? `<p>Reason: ${escapeHtml(data.reason)}</p>` : ''}
+        <p>Depending on your bank, it may take a few business days to appear on your statement.</p>
+        ${button(data.orderUrl, 'View order')}`,
+      ),
+      text: `Hi ${data.firstName},\n\nWe have issued a refund of ${amount} for order ${data.orderNumber}.\n${data.reason ? `Reason: ${data.reason}\n` : ''}\nDepending on your bank, it may take a few business days to appear on your statement.\n\nView your order: ${data.orderUrl}`,
+    };
+  },
+};
+
+export const renderEmailTemplate = <K extends EmailTemplateName>(
+  name: K,
+  data: EmailTemplateData[K],
+  appName: string,
+): RenderedEmail => (templates[name] as TemplateRenderer<K>)(data, appName);
@@ -0,0 +1,23 @@
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  /**
+   * Template that produced the message, kept for logging and the file transport
+   */
+  template?: string;
+}
+
+export interface SendResult {
+  messageId: string;
+}
+
+/**
+ * Delivery backend for EmailService (SMTP in production, files locally)
+ */
+export interface IEmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<SendResult>;
+}
@@ -0,0 +1,27 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { IEmailTransport, EmailMessage, SendResult } from './EmailTransport.interface';
+
+/**
+ * Writes each message as a JSON file instead of sending it.
+ * Used for local development and test runs so emails (and their links) can be inspected.
+ */
+export class FileEmailTransport implements IEmailTransport {
+  readonly name = 'file';
+
+  constructor(private outboxDir: string) {}
+
+  async send(message: EmailMessage): Promise<SendResult> {
+    const messageId = uuidv4();
+    const fileName = `${Date.now()}-${message.template || 'email'}-${messageId}.json`;
+
+    await fs.mkdir(this.outboxDir, { recursive: true });
+    await fs.writeFile(
+      path.join(this.outboxDir, fileName),
+      JSON.stringify({ messageId, sentAt: new Date().toISOString(), ...message }, null, 2),
+    );
+
+    return { messageId };
+  }
+}
@@ -0,0 +1,39 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { IEmailTransport, EmailMessage, SendResult } from './EmailTransport.interface';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+}
+
+/**
+ * Sends email through an SMTP server using nodemailer
+ */
+export class SmtpEmailTransport implements IEmailTransport {
+  readonly name = 'smtp';
+  private transporter: Transporter;
+
+  constructor(config: SmtpConfig) {
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user ? { user: config.user, pass: config.password } : undefined,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<SendResult> {
+    const info = await this.transporter.sendMail({
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      html: message.html,
+      text: message.text,
+    });
+
+    return { messageId: info.messageId };
+  }
+}
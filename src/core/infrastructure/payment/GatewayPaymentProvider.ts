@@ -0,0 +1,215 @@
+import {
+  IPaymentProvider,
+  CreatePaymentIntentParams,
+  PaymentIntent,
+  PaymentIntentStatus,
+  CaptureResult,
+  RefundResult,
+  PaymentWebhookEvent,
+  PaymentWebhookEventType,
+} from './PaymentProvider.interface';
+import { WebhookSignature } from './WebhookSignature';
+import { Logger } from '../../logging/Logger';
+import { AppError } from '../../errors/AppError';
+
+export interface GatewayPaymentConfig {
+  apiUrl: string;
+  apiKey: string;
+  webhookSecret: string;
+  returnUrl: string;
+  currency: string;
+  timeoutMs: number;
+}
+
+// Gateway event type -> our normalized event type
+const EVENT_TYPE_MAP: Record<string, PaymentWebhookEventType> = {
+  'payment_intent.amount_capturable_updated': 'AUTHORIZED',
+  'payment_intent.succeeded': 'SUCCEEDED',
+  'payment_intent.payment_failed': 'FAILED',
+  'payment_intent.canceled': 'FAILED',
+  'charge.refunded': 'REFUNDED',
+};
+
+/**
+ * Adapter for a REST card/wallet gateway using the common
+ * "payment intent -> manual capture -> refund" API shape.
+ */
+export class GatewayPaymentProvider implements IPaymentProvider {
+  readonly name = 'gateway';
+  private logger = Logger.getInstance();
+
+  constructor(private config: GatewayPaymentConfig) {}
+
+  async createIntent(params: CreatePaymentIntentParams): Promise<PaymentIntent> {
+    const response = await this.request('POST', '/payment_intents', params.reference, {
+      amount: this.toMinorUnits(params.amount, params.currency),
+      currency: params.currency.toLowerCase(),
+      capture_method: 'manual',
+      description: params.description,
+      payment_method_types: [this.mapPaymentMethodType(params.paymentMethodType)],
+      return_url: this.config.returnUrl,
+      metadata: { ...params.metadata, reference: params.reference, customerId: params.customerId },
+    });
+
+    return {
+      id: response.id,
+      status: this.mapIntentStatus(response.status),
+      clientSecret: response.client_secret,
+      redirectUrl: response.next_action?.redirect_to_url?.url,
+      raw: response,
+    };
+  }
+
+  async capture(intentId: string, amount?: number): Promise<CaptureResult> {
+    const response = await this.request(
+      'POST',
+      `/payment_intents/${intentId}/capture`,
+      `capture_${intentId}`,
+      amount !== undefined
+        ? { amount_to_capture: this.toMinorUnits(amount, this.config.currency) }
+        : {},
+    );
+
+    return {
+      id: response.id,
+      status: this.mapIntentStatus(response.status),
+      amount:
+        response.amount_received !== undefined
+          ? this.fromMinorUnits(Number(response.amount_received), this.config.currency)
+          : (amount ?? 0),
+      raw: response,
+    };
+  }
+
+  async refund(
+    intentId: string,
+    amount: number,
+    idempotencyKey: string,
+    reason?: string,
+  ): Promise<RefundResult> {
+    const response = await this.request('POST', '/refunds', `refund_${idempotencyKey}`, {
+      payment_intent: intentId,
+      amount: this.toMinorUnits(amount, this.config.currency),
+      metadata: reason ? { reason } : undefined,
+    });
+
+    const status: RefundResult['status'] =
+      response.status === 'succeeded'
+        ? 'SUCCEEDED'
+        : response.status === 'failed'
+          ? 'FAILED'
+          : 'PENDING';
+
+    return {
+      id: response.id,
+      status,
+      amount:
+        response.amount !== undefined
+          ? this.fromMinorUnits(Number(response.amount), this.config.currency)
+          : amount,
+      raw: response,
+    };
+  }
+
+  verifyWebhookSignature(payload: Buffer, signature?: string): boolean {
+    return WebhookSignature.verify(payload, signature, this.config.webhookSecret);
+  }
+
+  parseWebhookEvent(payload: Buffer): PaymentWebhookEvent {
+    const event = JSON.parse(payload.toString('utf8'));
+    const object = event?.data?.object || {};
+    const type = EVENT_TYPE_MAP[event?.type];
+    const currency: string = object.currency || this.config.currency;
+    const amount = object.amount_capturable ?? object.amount_received ?? object.amount_refunded;
+
+    if (!type) {
+      throw AppError.badRequest(
+        `Unsupported payment event type: ${event?.type}`,
+        'UNSUPPORTED_EVENT',
+      );
+    }
+
+    return {
+      id: event.id,
+      type,
+      intentId: object.payment_intent || object.id,
+      reference: object.metadata?.reference,
+      amount: amount !== undefined ? this.fromMinorUnits(Number(amount), currency) : undefined,
+      currency: currency.toUpperCase(),
+      failureReason: object.last_payment_error?.message,
+      raw: event,
+    };
+  }
+
+  private async request(method: string, path: string, idempotencyKey: string, body: any) {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.config.timeoutMs);
+
+    try {
+      const response = await fetch(`${this.config.apiUrl}${path}`, {
+        method,
+        headers: {
+          Authorization: `Bearer ${this.config.apiKey}`,
+          'Content-Type': 'application/json',
+          'Idempotency-Key': idempotencyKey,
+        },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+
+      const data: any = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        const message = data?.error?.message || `Gateway responded with ${response.status}`;
+        throw AppError.badRequest(message, 'PAYMENT_GATEWAY_ERROR', {
+          metadata: { status: response.status, code: data?.error?.code },
+        });
+      }
+
+      return data;
+    } catch (error) {
+      this.logger.error(`Payment gateway ${method} ${path} failed: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Payment gateway unavailable', 'PAYMENT_GATEWAY_UNAVAILABLE', {
+        cause: error as Error,
+      });
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  private mapIntentStatus(status: string): PaymentIntentStatus {
+    switch (status) {
+      case 'succeeded':
+        return 'SUCCEEDED';
+      case 'requires_action':
+      case 'requires_payment_method':
+      case 'requires_confirmation':
+        return 'REQUIRES_ACTION';
+      case 'canceled':
+        return 'FAILED';
+      default:
+        return 'PROCESSING';
+    }
+  }
+
+  private mapPaymentMethodType(type: string): string {
+    switch (type) {
+      case 'BANK_TRANSFER':
+        return 'bank_transfer';
+      case 'DIGITAL_WALLET':
+        return 'wallet';
+      default:
+        return 'card';
+    }
+  }
+
+  // VND is a zero-decimal currency; other currencies are charged in cents
+  private toMinorUnits(amount: number, currency: string): number {
+    return currency.toUpperCase() === 'VND' ? Math.round(amount) : Math.round(amount * 100);
+  }
+
+  private fromMinorUnits(amount: number, currency: string): number {
+    return currency.toUpperCase() === 'VND' ? amount : amount / 100;
+  }
+}
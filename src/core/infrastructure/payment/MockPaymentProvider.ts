@@ -0,0 +1,151 @@
+import crypto from 'crypto';
+import {
+  IPaymentProvider,
+  CreatePaymentIntentParams,
+  PaymentIntent,
+  CaptureResult,
+  RefundResult,
+  PaymentWebhookEvent,
+  PaymentEventListener,
+} from './PaymentProvider.interface';
+import { WebhookSignature } from './WebhookSignature';
+import { Logger } from '../../logging/Logger';
+import { AppError } from '../../errors/AppError';
+
+export interface MockPaymentConfig {
+  webhookSecret: string;
+  outcome: 'success' | 'failure';
+  delayMs: number;
+}
+
+interface MockIntent {
+  id: string;
+  reference: string;
+  amount: number;
+  currency: string;
+  captured: number;
+  refunded: number;
+}
+
+/**
+ * In-process payment provider for local development and tests.
+ *
+ * Intents are authorized (or declined, depending on config) after a short delay and the
+ * result is delivered as a signed event, so it goes through the same webhook handling as
+ * a real gateway.
+ */
+export class MockPaymentProvider implements IPaymentProvider {
+  readonly name = 'mock';
+  private intents = new Map<string, MockIntent>();
+  private refunds = new Map<string, RefundResult>();
+  private listener?: PaymentEventListener;
+  private logger = Logger.getInstance();
+
+  constructor(private config: MockPaymentConfig) {}
+
+  subscribe(listener: PaymentEventListener): void {
+    this.listener = listener;
+  }
+
+  async createIntent(params: CreatePaymentIntentParams): Promise<PaymentIntent> {
+    const intent: MockIntent = {
+      id: `mock_pi_${crypto.randomUUID()}`,
+      reference: params.reference,
+      amount: params.amount,
+      currency: params.currency,
+      captured: 0,
+      refunded: 0,
+    };
+    this.intents.set(intent.id, intent);
+
+    setTimeout(() => {
+      const event: PaymentWebhookEvent =
+        this.config.outcome === 'failure'
+          ? {
+              id: `mock_evt_${crypto.randomUUID()}`,
+              type: 'FAILED',
+              intentId: intent.id,
+              reference: intent.reference,
+              failureReason: 'Card declined (mock provider)',
+            }
+          : {
+              id: `mock_evt_${crypto.randomUUID()}`,
+              type: 'AUTHORIZED',
+              intentId: intent.id,
+              reference: intent.reference,
+              amount: intent.amount,
+              currency: intent.currency,
+            };
+
+      this.deliver(event);
+    }, this.config.delayMs);
+
+    return { id: intent.id, status: 'PROCESSING' };
+  }
+
+  async capture(intentId: string, amount?: number): Promise<CaptureResult> {
+    const intent = this.getIntent(intentId);
+    intent.captured = amount ?? intent.amount;
+
+    return { id: intent.id, status: 'SUCCEEDED', amount: intent.captured };
+  }
+
+  async refund(
+    intentId: string,
+    amount: number,
+    idempotencyKey: string,
+    reason?: string,
+  ): Promise<RefundResult> {
+    // Same key, same refund: replayed like a real gateway would
+    const replayed = this.refunds.get(idempotencyKey);
+    if (replayed) return replayed;
+
+    const intent = this.getIntent(intentId);
+
+    if (intent.refunded + amount > intent.captured) {
+      throw AppError.badRequest('Refund exceeds captured amount', 'REFUND_EXCEEDS_CAPTURED');
+    }
+
+    intent.refunded += amount;
+    this.logger.info(`Mock refund of ${amount} for ${intentId}${reason ? ` (${reason})` : ''}`);
+
+    const refund: RefundResult = {
+      id: `mock_re_${crypto.randomUUID()}`,
+      status: 'SUCCEEDED',
+      amount,
+    };
+    this.refunds.set(idempotencyKey, refund);
+
+    return refund;
+  }
+
+  verifyWebhookSignature(payload: Buffer, signature?: string): boolean {
+    return WebhookSignature.verify(payload, signature, this.config.webhookSecret);
+  }
+
+  parseWebhookEvent(payload: Buffer): PaymentWebhookEvent {
+    return JSON.parse(payload.toString('utf8')) as PaymentWebhookEvent;
+  }
+
+  private deliver(event: PaymentWebhookEvent): void {
+    if (!this.listener) {
+      this.logger.warn(`Mock payment event ${event.type} for ${event.intentId} has no listener`);
+      return;
+    }
+
+    const payload = Buffer.from(JSON.stringify(event));
+    const signature = WebhookSignature.sign(payload, this.config.webhookSecret);
+
+    this.listener(payload, signature).catch((error) => {
+      this.logger.error(`Mock payment event delivery failed: ${error}`);
+    });
+  }
+
+  private getIntent(intentId: string): MockIntent {
+    const intent = this.intents.get(intentId);
+    if (!intent) {
+      throw AppError.notFound('Payment intent not found', 'PAYMENT_INTENT_NOT_FOUND');
+    }
+    return intent;
+  }
+}
@@ -0,0 +1,75 @@
+export type PaymentIntentStatus = 'REQUIRES_ACTION' | 'PROCESSING' | 'SUCCEEDED' | 'FAILED';
+
+export type PaymentWebhookEventType = 'AUTHORIZED' | 'SUCCEEDED' | 'FAILED' | 'REFUNDED';
+
+export interface CreatePaymentIntentParams {
+  reference: string; // Our PaymentTransaction.reference, echoed back in webhook events
+  amount: number;
+  currency: string;
+  paymentMethodType: string;
+  customerId: string;
+  description?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface PaymentIntent {
+  id: string; // Provider-side id, stored as PaymentTransaction.externalReference
+  status: PaymentIntentStatus;
+  clientSecret?: string;
+  redirectUrl?: string;
+  raw?: any;
+}
+
+export interface CaptureResult {
+  id: string;
+  status: PaymentIntentStatus;
+  amount: number;
+  raw?: any;
+}
+
+export interface RefundResult {
+  id: string;
+  status: 'SUCCEEDED' | 'PENDING' | 'FAILED';
+  amount: number;
+  raw?: any;
+}
+
+/**
+ * Provider event normalized to our own vocabulary
+ */
+export interface PaymentWebhookEvent {
+  id: string;
+  type: PaymentWebhookEventType;
+  intentId: string;
+  reference?: string;
+  amount?: number;
+  currency?: string;
+  failureReason?: string;
+  raw?: any;
+}
+
+export type PaymentEventListener = (payload: Buffer, signature: string) => Promise<void>;
+
+export interface IPaymentProvider {
+  readonly name: string;
+
+  createIntent(params: CreatePaymentIntentParams): Promise<PaymentIntent>;
+  capture(intentId: string, amount?: number): Promise<CaptureResult>;
+  /**
+   * `idempotencyKey` identifies this refund (e.g. the ledger refund id); a retry with the same
+   * key is replayed, a different key is a new refund even for the same amount
+   */
+  refund(
+    intentId: string,
+    amount: number,
+    idempotencyKey: string,
+    reason?: string,
+  ): Promise<RefundResult>;
+
+  // Webhooks
+  verifyWebhookSignature(payload: Buffer, signature?: string): boolean;
+  parseWebhookEvent(payload: Buffer): PaymentWebhookEvent;
+
+  // Providers that simulate the gateway in-process deliver their events through this hook
+  subscribe?(listener: PaymentEventListener): void;
+}
@@ -0,0 +1,48 @@
+import crypto from 'crypto';
+
+/**
+ * HMAC signatures for webhook payloads
+ *
+ * Header format: `t=<unix seconds>,v1=<hex sha256 of "<t>.<payload>">`
+ */
+export class WebhookSignature {
+  static sign(payload: Buffer | string, secret: string, timestamp?: number): string {
+    const t = timestamp ?? Math.floor(Date.now() / 1000);
+    const digest = this.digest(payload, secret, t);
+    return `t=${t},v1=${digest}`;
+  }
+
+  static verify(
+    payload: Buffer | string,
+    header: string | undefined,
+    secret: string,
+    toleranceSeconds: number = 300,
+  ): boolean {
+    if (!header || !secret) return false;
+
+    const parts = header.split(',').reduce<Record<string, string>>((acc, part) => {
+      const [key, value] = part.split('=');
+      if (key && value) acc[key.trim()] = value.trim();
+      return acc;
+    }, {});
+
+    const timestamp = Number(parts.t);
+    if (!parts.v1 || !Number.isFinite(timestamp)) return false;
+
+    const age = Math.abs(Math.floor(Date.now() / 1000) - timestamp);
+    if (age > toleranceSeconds) return false;
+
+    const expected = Buffer.from(this.digest(payload, secret, timestamp), 'hex');
+    const received = Buffer.from(parts.v1, 'hex');
+
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+  }
+
+  private static digest(payload: Buffer | string, secret: string, timestamp: number): string {
+    return crypto
+      .createHmac('sha256', secret)
+      .update(`${timestamp}.`)
+      .update(payload)
+      .digest('hex');
+  }
+}
@@ -0,0 +1,31 @@
+import { ISocketService } from './SocketService.interface';
+import { IConversationService } from '../../../modules/messaging/services/ConversationService.interface';
+import { IOrderRepository } from '../../../modules/order/repositories/OrderRepository.interface';
+import { IPriceNegotiationRepository } from '../../../modules/price-negotiation/repositories/PriceNegotiationRepository.interface';
+import container from '../../di/container';
+
+/**
+ * Register who may join the application's socket rooms (see SocketRooms for the names)
+ */
+export function registerDefaultRoomAuthorizers(socketService: ISocketService): void {
+  const conversationService = container.resolve<IConversationService>('conversationService');
+  const orderRepository = container.resolve<IOrderRepository>('orderRepository');
+  const negotiationRepository = container.resolve<IPriceNegotiationRepository>(
+    'priceNegotiationRepository',
+  );
+
+  // conversation:<conversationId> — current participants only
+  socketService.registerRoomAuthorizer('conversation', (userId, id) =>
+    conversationService.isParticipant(id, userId),
+  );
+
+  // order:<orderId> — the buyer or a seller of one of its items
+  socketService.registerRoomAuthorizer('order', (userId, id) =>
+    orderRepository.isUserInvolvedInOrder(id, userId),
+  );
+
+  // negotiation:<negotiationId> — the customer or the artisan
+  socketService.registerRoomAuthorizer('negotiation', (userId, id) =>
+    negotiationRepository.isUserInvolvedInNegotiation(id, userId),
+  );
+}
@@ -0,0 +1,42 @@
+import { IPresenceStore } from './PresenceStore.interface';
+
+/**
+ * Presence kept in this process. Correct for a single instance; with several instances
+ * each one only sees its own sockets.
+ */
+export class InMemoryPresenceStore implements IPresenceStore {
+  readonly name = 'memory';
+
+  private userSockets: Map<string, Set<string>> = new Map(); // userId -> Set of socketIds
+
+  async addSocket(userId: string, socketId: string): Promise<number> {
+    if (!this.userSockets.has(userId)) {
+      this.userSockets.set(userId, new Set());
+    }
+
+    const sockets = this.userSockets.get(userId)!;
+    sockets.add(socketId);
+
+    return sockets.size;
+  }
+
+  async removeSocket(userId: string, socketId: string): Promise<number> {
+    const sockets = this.userSockets.get(userId);
+    if (!sockets) return 0;
+
+    sockets.delete(socketId);
+    if (sockets.size === 0) {
+      this.userSockets.delete(userId);
+    }
+
+    return sockets.size;
+  }
+
+  async countSockets(userId: string): Promise<number> {
+    return this.userSockets.get(userId)?.size || 0;
+  }
+
+  async touch(): Promise<void> {
+    // Entries live as long as the process
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Where socket presence is kept. Each instance records its own sockets and asks the store
+ * whether a user has sockets anywhere.
+ *
+ * The methods map onto Redis set commands (SADD / SREM / SCARD on one key per user, with an
+ * EXPIRE renewed by `touch`), so a Redis-backed store can replace the in-memory one when
+ * several API instances share presence.
+ */
+export interface IPresenceStore {
+  readonly name: string;
+
+  /**
+   * Record a socket; returns the user's socket count across all instances
+   */
+  addSocket(userId: string, socketId: string): Promise<number>;
+
+  /**
+   * Forget a socket; returns the user's remaining socket count across all instances
+   */
+  removeSocket(userId: string, socketId: string): Promise<number>;
+
+  countSockets(userId: string): Promise<number>;
+
+  /**
+   * Keep the entries of connected users alive in stores that expire them, so sockets of an
+   * instance that died without cleaning up eventually disappear
+   */
+  touch(userIds: string[]): Promise<void>;
+}
@@ -0,0 +1,28 @@
+/**
+ * Socket room names, as `<type>:<id>`. Every socket is put in its own `user:` room; other
+ * rooms are joined with `join-chat` and only if an authorizer for their type allows it.
+ */
+export class SocketRooms {
+  static user(userId: string): string {
+    return `user:${userId}`;
+  }
+
+  static conversation(conversationId: string): string {
+    return `conversation:${conversationId}`;
+  }
+
+  static order(orderId: string): string {
+    return `order:${orderId}`;
+  }
+
+  static negotiation(negotiationId: string): string {
+    return `negotiation:${negotiationId}`;
+  }
+
+  static parse(roomId: string): { type: string; id: string } | null {
+    const separator = roomId.indexOf(':');
+    if (separator <= 0 || separator === roomId.length - 1) return null;
+
+    return { type: roomId.slice(0, separator), id: roomId.slice(separator + 1) };
+  }
+}
@@ -1,28 +1,37 @@
 import { Notification } from '../../../modules/notification/models/Notification';
 import { Message } from '../../../modules/messaging/models/Message';
 
+/**
+ * Decides whether a user may join a room of one type; `id` is the part after `<type>:`
+ */
+export type RoomAuthorizer = (userId: string, id: string) => Promise<boolean>;
+
 export interface ISocketService {
   // Connection management
   handleConnection(socket: any): void;
-  handleDisconnection(socket: any): void;
+  handleDisconnection(socket: any): Promise<void>;
 
-  // User management
-  addUserSocket(userId: string, socketId: string): void;
-  removeUserSocket(userId: string, socketId: string): void;
-  getUserSockets(userId: string): string[];
+  // Presence (shared across instances through the presence store)
+  isUserOnline(userId: string): Promise<boolean>;
+  getOnlineUsers(userIds: string[]): Promise<string[]>;
 
   // Notification methods
   sendNotification(userId: string, notification: Notification): Promise<void>;
   updateUnreadCount(userId: string, count: number): Promise<void>;
 
   // Messaging methods
-  sendMessage(receiverId: string, message: Message): Promise<void>;
+  /**
+   * Resolves true when at least one of the receiver's sockets acknowledged the message
+   */
+  sendMessage(receiverId: string, message: Message): Promise<boolean>;
   updateTypingStatus(roomId: string, userId: string, isTyping: boolean): Promise<void>;
   updateUserStatus(userId: string, status: 'online' | 'offline'): Promise<void>;
 
   // Room management
+  registerRoomAuthorizer(type: string, authorizer: RoomAuthorizer): void;
   joinRoom(socketId: string, roomId: string): void;
   leaveRoom(socketId: string, roomId: string): void;
+  removeUserFromRoom(userId: string, roomId: string): void;
   sendToRoom(roomId: string, event: string, data: any): void;
 
   // Broadcast methods
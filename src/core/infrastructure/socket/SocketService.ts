@@ -1,15 +1,25 @@
-import { Server as SocketIOServer, Socket } from 'socket.io';
-import { ISocketService } from './SocketService.interface';
+import { Server as SocketIOServer, ServerOptions, Socket } from 'socket.io';
+import { ISocketService, RoomAuthorizer } from './SocketService.interface';
+import { IPresenceStore } from './PresenceStore.interface';
+import { InMemoryPresenceStore } from './InMemoryPresenceStore';
+import { SocketRooms } from './SocketRooms';
 import { Notification } from '../../../modules/notification/models/Notification';
 import { Message } from '../../../modules/messaging/models/Message';
 import { Logger } from '../../logging/Logger';
 import { JwtService } from '../security/JwtService';
 import container from '../../di/container';
+import { IMessageService } from '../../../modules/messaging/services/MessageService.interface';
+
+export interface SocketServiceOptions {
+  presenceStore?: IPresenceStore;
+  adapter?: ServerOptions['adapter'];
+}
 
 export class SocketService implements ISocketService {
   private io: SocketIOServer;
-  private userSockets: Map<string, Set<string>> = new Map(); // userId -> Set of socketIds
-  private socketUsers: Map<string, string> = new Map(); // socketId -> userId
+  private presenceStore: IPresenceStore;
+  private socketUsers: Map<string, string> = new Map(); // socketId -> userId (this instance only)
+  private roomAuthorizers: Map<string, RoomAuthorizer> = new Map(); // room type -> authorizer
   private sessionViews: Map<string, { views: Set<string>; lastAccess: number }> = new Map();
   private logger = Logger.getInstance();
   private jwtService: JwtService;
@@ -17,11 +27,22 @@ export class SocketService implements ISocketService {
   // Cleanup intervals
   private readonly SESSION_CLEANUP_INTERVAL = 30 * 60 * 1000; // 30 minutes
   private readonly SESSION_MAX_AGE = 24 * 60 * 60 * 1000; // 24 hours
+  private readonly MESSAGE_ACK_TIMEOUT = 10 * 1000; // 10 seconds
   private cleanupTimer?: NodeJS.Timeout;
 
-  constructor(io: SocketIOServer) {
+  constructor(io: SocketIOServer, options: SocketServiceOptions = {}) {
     this.io = io;
     this.jwtService = container.resolve<JwtService>('jwtService');
+    this.presenceStore = options.presenceStore || new InMemoryPresenceStore();
+
+    // A shared adapter (e.g. Redis) relays room emits between instances
+    if (options.adapter) {
+      this.io.adapter(options.adapter);
+    }
+
+    // Users may always join their own room
+    this.registerRoomAuthorizer('user', async (userId, id) => userId === id);
+
     this.setupSocketServer();
     this.startCleanupScheduler();
   }
@@ -78,18 +99,21 @@ export class SocketService implements ISocketService {
       if (!socket) {
         // Socket không tồn tại, cleanup
         this.socketUsers.delete(socketId);
-
-        const userSockets = this.userSockets.get(userId);
-        if (userSockets) {
-          userSockets.delete(socketId);
-          if (userSockets.size === 0) {
-            this.userSockets.delete(userId);
-          }
-        }
+        this.presenceStore
+          .removeSocket(userId, socketId)
+          .catch((error) => this.logger.error(`Error removing stale presence: ${error}`));
         cleanedCount++;
       }
     }
 
+    // Keep presence of users still connected here from expiring
+    const connectedUserIds = Array.from(new Set(this.socketUsers.values()));
+    if (connectedUserIds.length > 0) {
+      this.presenceStore
+        .touch(connectedUserIds)
+        .catch((error) => this.logger.error(`Error refreshing presence: ${error}`));
+    }
+
     if (cleanedCount > 0) {
       this.logger.info(`Cleaned up ${cleanedCount} expired sessions/sockets`);
     }
@@ -103,13 +127,19 @@ export class SocketService implements ISocketService {
       return;
     }
 
-    this.addUserSocket(userId, socket.id);
-    this.updateUserStatus(userId, 'online');
+    this.socketUsers.set(socket.id, userId);
+    this.presenceStore
+      .addSocket(userId, socket.id)
+      .then((count) => {
+        // Only the first socket of a user anywhere makes them come online
+        if (count === 1) this.updateUserStatus(userId, 'online');
+      })
+      .catch((error) => this.logger.error(`Error recording presence for user ${userId}: ${error}`));
 
     this.logger.info(`User ${userId} connected with socket ${socket.id}`);
 
     // Join user to their personal room
-    socket.join(`user:${userId}`);
+    socket.join(SocketRooms.user(userId));
 
     // Handle disconnection
     socket.on('disconnect', () => {
@@ -117,9 +147,18 @@ export class SocketService implements ISocketService {
     });
 
     // Handle joining chat rooms
-    socket.on('join-chat', (data: { roomId: string }) => {
-      this.joinRoom(socket.id, data.roomId);
-      socket.emit('joined-chat', { roomId: data.roomId });
+    socket.on('join-chat', async (data: { roomId: string }) => {
+      const roomId = data?.roomId;
+      const allowed = roomId ? await this.canJoinRoom(userId, roomId) : false;
+
+      if (!allowed) {
+        this.logger.warn(`User ${userId} was denied access to room ${roomId}`);
+        socket.emit('chat-error', { roomId, message: 'Not allowed to join this room' });
+        return;
+      }
+
+      this.joinRoom(socket.id, roomId);
+      socket.emit('joined-chat', { roomId });
     });
 
     // Handle leaving chat rooms
@@ -128,56 +167,86 @@ export class SocketService implements ISocketService {
       socket.emit('left-chat', { roomId: data.roomId });
     });
 
-    // Handle typing indicators
+    // Handle typing indicators (only inside rooms the socket was allowed to join)
     socket.on('typing', (data: { roomId: string; isTyping: boolean }) => {
+      if (!data?.roomId || !socket.rooms.has(data.roomId)) return;
       this.updateTypingStatus(data.roomId, userId, data.isTyping);
     });
 
-    // Handle real-time message events
-    socket.on('message-read', (data: { messageId: string }) => {
-      // Emit to sender that message was read
-      socket.broadcast.emit('message-read-update', data);
-    });
+    // Handle read receipts: one message, everything received from one user, or a conversation
+    socket.on(
+      'message-read',
+      async (data: { messageId?: string; conversationWith?: string; conversationId?: string }) => {
+        try {
+          const messageService = container.resolve<IMessageService>('messageService');
+
+          // Both only touch messages this user received and notify their sender only
+          if (data?.messageId) {
+            await messageService.markAsRead(data.messageId, userId);
+          } else if (data?.conversationWith) {
+            await messageService.markConversationAsRead(userId, data.conversationWith);
+          } else if (data?.conversationId) {
+            await messageService.markThreadAsRead(userId, data.conversationId);
+          }
+        } catch (error) {
+          this.logger.error(`Error handling read receipt from user ${userId}: ${error}`);
+        }
+      },
+    );
   }
 
-  handleDisconnection(socket: Socket): void {
+  async handleDisconnection(socket: Socket): Promise<void> {
     const userId = (socket as any).userId;
 
     if (userId) {
-      this.removeUserSocket(userId, socket.id);
+      this.socketUsers.delete(socket.id);
 
-      // Check if user has other active connections
-      const userSockets = this.getUserSockets(userId);
-      if (userSockets.length === 0) {
-        this.updateUserStatus(userId, 'offline');
+      try {
+        // Check if user has other active connections on any instance
+        const remaining = await this.presenceStore.removeSocket(userId, socket.id);
+        if (remaining === 0) {
+          this.updateUserStatus(userId, 'offline');
+        }
+      } catch (error) {
+        this.logger.error(`Error removing presence for user ${userId}: ${error}`);
       }
 
       this.logger.info(`User ${userId} disconnected from socket ${socket.id}`);
     }
   }
 
-  addUserSocket(userId: string, socketId: string): void {
-    if (!this.userSockets.has(userId)) {
-      this.userSockets.set(userId, new Set());
+  registerRoomAuthorizer(type: string, authorizer: RoomAuthorizer): void {
+    this.roomAuthorizers.set(type, authorizer);
+  }
+
+  private async canJoinRoom(userId: string, roomId: string): Promise<boolean> {
+    const room = SocketRooms.parse(roomId);
+    if (!room) return false;
+
+    // Rooms without an authorizer cannot be joined
+    const authorizer = this.roomAuthorizers.get(room.type);
+    if (!authorizer) return false;
+
+    try {
+      return await authorizer(userId, room.id);
+    } catch (error) {
+      this.logger.error(`Error authorizing room ${roomId} for user ${userId}: ${error}`);
+      return false;
     }
-    this.userSockets.get(userId)!.add(socketId);
-    this.socketUsers.set(socketId, userId);
   }
 
-  removeUserSocket(userId: string, socketId: string): void {
-    const userSocketSet = this.userSockets.get(userId);
-    if (userSocketSet) {
-      userSocketSet.delete(socketId);
-      if (userSocketSet.size === 0) {
-        this.userSockets.delete(userId);
-      }
+  async isUserOnline(userId: string): Promise<boolean> {
+    try {
+      return (await this.presenceStore.countSockets(userId)) > 0;
+    } catch (error) {
+      this.logger.error(`Error checking presence for user ${userId}: ${error}`);
+      return false;
     }
-    this.socketUsers.delete(socketId);
   }
 
-  getUserSockets(userId: string): string[] {
-    const socketSet = this.userSockets.get(userId);
-    return socketSet ? Array.from(socketSet) : [];
+  async getOnlineUsers(userIds: string[]): Promise<string[]> {
+    const online = await Promise.all(userIds.map((userId) => this.isUserOnline(userId)));
+    return userIds.filter((_, index) => online[index]);
   }
 
   // Enhanced session tracking with TTL-like behavior
@@ -219,12 +288,24 @@ export class SocketService implements ISocketService {
     }
   }
 
-  async sendMessage(receiverId: string, message: Message): Promise<void> {
+  async sendMessage(receiverId: string, message: Message): Promise<boolean> {
     try {
-      await this.broadcastToUser(receiverId, 'new-message', message);
+      // Resolves once every socket of the receiver acknowledged or the timeout passed; one
+      // acknowledgement is enough for the message to count as delivered
+      const acknowledgements = await new Promise<unknown[]>((resolve) => {
+        this.io
+          .to(SocketRooms.user(receiverId))
+          .timeout(this.MESSAGE_ACK_TIMEOUT)
+          .emit('new-message', message, (_error: Error | null, responses: unknown[]) => {
+            resolve(responses || []);
+          });
+      });
+
       this.logger.debug(`Message sent to user ${receiverId}`);
+      return acknowledgements.length > 0;
     } catch (error) {
       this.logger.error(`Error sending message to user ${receiverId}: ${error}`);
+      return false;
     }
   }
 
@@ -264,6 +345,13 @@ export class SocketService implements ISocketService {
     }
   }
 
+  /**
+   * Make every socket of a user leave a room, e.g. after losing access to it
+   */
+  removeUserFromRoom(userId: string, roomId: string): void {
+    this.io.in(SocketRooms.user(userId)).socketsLeave(roomId);
+  }
+
   sendToRoom(roomId: string, event: string, data: any): void {
     this.io.to(roomId).emit(event, data);
   }
@@ -273,19 +361,9 @@ export class SocketService implements ISocketService {
   }
 
   async broadcastToUser(userId: string, event: string, data: any): Promise<void> {
-    const userSockets = this.getUserSockets(userId);
-
-    if (userSockets.length === 0) {
-      this.logger.debug(`User ${userId} is not connected`);
-      return;
-    }
-
-    userSockets.forEach((socketId) => {
-      const socket = this.io.sockets.sockets.get(socketId);
-      if (socket) {
-        socket.emit(event, data);
-      }
-    });
+    // Every socket of the user is in their personal room, on whichever instance it lives;
+    // the adapter relays the emit to the other instances
+    this.io.to(SocketRooms.user(userId)).emit(event, data);
   }
 
   // Cleanup on shutdown
@@ -293,7 +371,15 @@ export class SocketService implements ISocketService {
     if (this.cleanupTimer) {
       clearInterval(this.cleanupTimer);
     }
-    this.userSockets.clear();
+
+    // Only forget this instance's sockets; others may share the presence store
+    await Promise.all(
+      Array.from(this.socketUsers.entries()).map(([socketId, userId]) =>
+        this.presenceStore
+          .removeSocket(userId, socketId)
+          .catch((error) => this.logger.error(`Error removing presence on shutdown: ${error}`)),
+      ),
+    );
     this.socketUsers.clear();
     this.sessionViews.clear();
   }
@@ -1,6 +1,8 @@
 import { Config } from './config/config';
 import { Logger } from './core/logging/Logger';
 import { PrismaClientManager } from './core/database/PrismaClient';
+import container from './core/di/container';
+import { IJobSchedulerService } from './modules/job/services/JobSchedulerService.interface';
 
 // Initialize configuration and logging
 const logger = Logger.getInstance();
@@ -27,6 +29,18 @@ async function bootstrap() {
     // Setup routes
     appInstance.setupRoutes();
 
+    // Decide who may join conversation, order and negotiation socket rooms
+    const { registerDefaultRoomAuthorizers } = await import(
+      './core/infrastructure/socket/DefaultRoomAuthorizers'
+    );
+    registerDefaultRoomAuthorizers(appInstance.socketService);
+
+    // Start background jobs (only the leader instance executes them)
+    const jobScheduler = container.resolve<IJobSchedulerService>('jobSchedulerService');
+    const { registerDefaultJobs } = await import('./modules/job/services/DefaultJobs');
+    registerDefaultJobs(jobScheduler);
+    jobScheduler.start();
+
     // Start server (using server instead of app for Socket.io support)
     const server = appInstance.server.listen(Number(port), '0.0.0.0', () => {
       logger.info(`🚀 Server running in ${env} mode on port ${port}`);
@@ -39,6 +53,9 @@ async function bootstrap() {
     const gracefulShutdown = async (signal: string) => {
       logger.info(`Received ${signal}. Starting graceful shutdown...`);
 
+      // Stop jobs first so the leader lock is released while the database is still reachable
+      await jobScheduler.stop();
+
       server.close(async () => {
         logger.info('HTTP server closed');
 
@@ -66,6 +66,9 @@ export interface ArtisanBusinessAnalyticsDto {
       totalViews: number;
     };
   };
+
+  // The artisan's own promotions
+  promotionMetrics: PromotionMetrics;
 }
 
 export interface PlatformAnalyticsDto {
@@ -112,6 +115,20 @@ export interface PlatformAnalyticsDto {
     revenue: number;
     viewCount: number;
   }>;
+
+  promotionMetrics: PromotionMetrics;
+}
+
+export interface PromotionMetrics {
+  totalDiscount: number;
+  redemptionCount: number;
+  topPromotions: Array<{
+    id: string;
+    name: string;
+    code?: string | null;
+    redemptions: number;
+    discount: number;
+  }>;
 }
 
 export interface AnalyticsTimeRange {
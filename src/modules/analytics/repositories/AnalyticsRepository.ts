@@ -1,10 +1,11 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma } from '@prisma/client';
 import { IAnalyticsRepository } from './AnalyticsRepository.interface';
 import {
   UserAnalyticsDto,
   ArtisanBusinessAnalyticsDto,
   PlatformAnalyticsDto,
   AnalyticsTimeRange,
+  PromotionMetrics,
 } from '../models/AnalyticsDto';
 import { Logger } from '../../../core/logging/Logger';
 import { AppError } from '../../../core/errors/AppError';
@@ -167,12 +168,16 @@ export class AnalyticsRepository implements IAnalyticsRepository {
       // Engagement metrics
       const engagementMetrics = await this.getEngagementMetrics(artisanId, timeRange);
 
+      // Promotion metrics
+      const promotionMetrics = await this.getPromotionMetrics(timeRange, artisanId);
+
       return {
         salesMetrics,
         salesTrends,
         topProducts,
         customerMetrics,
         engagementMetrics,
+        promotionMetrics,
       };
     } catch (error) {
       this.logger.error(`Error getting artisan business analytics: ${error}`);
@@ -198,12 +203,16 @@ export class AnalyticsRepository implements IAnalyticsRepository {
         this.getTopProductsGlobal(10),
       ]);
 
+      // Promotion metrics
+      const promotionMetrics = await this.getPromotionMetrics(timeRange);
+
       return {
         userMetrics,
         businessMetrics,
         growthTrends,
         topArtisans,
         topProducts,
+        promotionMetrics,
       };
     } catch (error) {
       this.logger.error(`Error getting platform analytics: ${error}`);
@@ -212,6 +221,56 @@ export class AnalyticsRepository implements IAnalyticsRepository {
   }
 
   // Helper methods
+  private async getPromotionMetrics(
+    timeRange: AnalyticsTimeRange,
+    sellerId?: string,
+  ): Promise<PromotionMetrics> {
+    const where: Prisma.PromotionRedemptionWhereInput = {
+      createdAt: {
+        gte: timeRange.startDate,
+        lte: timeRange.endDate,
+      },
+      order: { status: { not: 'CANCELLED' } },
+      ...(sellerId && { promotion: { sellerId } }),
+    };
+
+    const [totals, byPromotion] = await Promise.all([
+      this.prisma.promotionRedemption.aggregate({
+        where,
+        _count: { id: true },
+        _sum: { amount: true },
+      }),
+      this.prisma.promotionRedemption.groupBy({
+        by: ['promotionId'],
+        where,
+        _count: { id: true },
+        _sum: { amount: true },
+        orderBy: { _sum: { amount: 'desc' } },
+        take: 10,
+      }),
+    ]);
+
+    const promotions = await this.prisma.promotion.findMany({
+      where: { id: { in: byPromotion.map((entry) => entry.promotionId) } },
+      select: { id: true, name: true, code: true },
+    });
+
+    return {
+      totalDiscount: Number(totals._sum.amount || 0),
+      redemptionCount: totals._count.id,
+      topPromotions: byPromotion.map((entry) => {
+        const promotion = promotions.find((p) => p.id === entry.promotionId);
+        return {
+          id: entry.promotionId,
+          name: promotion?.name || 'Unknown',
+          code: promotion?.code,
+          redemptions: entry._count.id,
+          discount: Number(entry._sum.amount || 0),
+        };
+      }),
+    };
+  }
+
   private async getSalesMetrics(artisanId: string, timeRange: AnalyticsTimeRange) {
     const orderItems = await this.prisma.orderItem.aggregate({
       where: {
@@ -415,9 +474,7 @@ export class AnalyticsRepository implements IAnalyticsRepository {
     };
   }
 
-  private async getCustomerMetrics(
-    artisanId: string,
-  ): Promise<{
+  private async getCustomerMetrics(artisanId: string): Promise<{
     totalCustomers: number;
     repeatCustomers: number;
     newCustomers: number;
@@ -1,5 +1,6 @@
 import Joi from 'joi';
 import { ArtisanSpecialty } from '../../models/ArtisanEnums';
+import { shippingRuleSchema } from '../../../pricing/interface/validators/pricing.validator';
 
 // Create artisan profile validation
 export const createArtisanProfileSchema = Joi.object({
@@ -38,7 +39,7 @@ export const createArtisanProfileSchema = Joi.object({
   }),
   businessAddress: Joi.string().max(500).allow(''),
   businessHours: Joi.object().allow(null),
-  shippingInfo: Joi.object().allow(null),
+  shippingInfo: Joi.object({ shippingRule: shippingRuleSchema }).unknown(true).allow(null),
   returnPolicy: Joi.string().max(2000).allow(''),
 });
 
@@ -58,7 +59,7 @@ export const updateArtisanProfileSchema = Joi.object({
   socialMedia: Joi.object().pattern(Joi.string(), Joi.string().uri()),
   businessAddress: Joi.string().max(500).allow(''),
   businessHours: Joi.object().allow(null),
-  shippingInfo: Joi.object().allow(null),
+  shippingInfo: Joi.object({ shippingRule: shippingRuleSchema }).unknown(true).allow(null),
   returnPolicy: Joi.string().max(2000).allow(''),
 }).min(1);
 
@@ -14,9 +14,10 @@ export interface IAuthService {
   logout(refreshToken: string): Promise<boolean>;
   refreshToken(refreshToken: string): Promise<{ accessToken: string; user?: any } | null>;
   getUserById(id: string): Promise<Omit<User, 'password'> | null>;
-  forgotPassword(data: ForgotPasswordDto): Promise<boolean>;
+  forgotPassword(data: ForgotPasswordDto): Promise<void>;
   resetPassword(data: ResetPasswordDto): Promise<boolean>;
   sendVerificationEmail(userId: string): Promise<boolean>;
   changePassword(userId: string, data: ChangePasswordDto): Promise<boolean>;
   verifyEmail(token: string): Promise<boolean>;
+  cleanupExpiredTokens(): Promise<number>;
 }
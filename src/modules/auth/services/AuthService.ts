@@ -14,6 +14,7 @@ import { IPasswordResetRepository } from '../repositories/PasswordResetRepositor
 import { IEmailVerificationRepository } from '../repositories/EmailVerificationRepository.interface';
 import { BcryptService } from '../../../core/infrastructure/security/BcryptService';
 import { JwtService } from '../../../core/infrastructure/security/JwtService';
+import { EmailService } from '../../../core/infrastructure/email/EmailService';
 import { AppError } from '../../../core/errors/AppError';
 import { Logger } from '../../../core/logging/Logger';
 import { v4 as uuidv4 } from 'uuid';
@@ -26,6 +27,7 @@ export class AuthService implements IAuthService {
   private emailVerificationRepository: IEmailVerificationRepository;
   private bcryptService: BcryptService;
   private jwtService: JwtService;
+  private emailService: EmailService;
   private logger = Logger.getInstance();
 
   constructor() {
@@ -39,6 +41,7 @@ export class AuthService implements IAuthService {
     );
     this.bcryptService = container.resolve<BcryptService>('bcryptService');
     this.jwtService = container.resolve<JwtService>('jwtService');
+    this.emailService = container.resolve<EmailService>('emailService');
   }
 
   async register(data: RegisterUserDto): Promise<Omit<User, 'password'>> {
@@ -205,14 +208,15 @@ export class AuthService implements IAuthService {
     return toSafeUser(user);
   }
 
-  async forgotPassword(data: ForgotPasswordDto): Promise<boolean> {
+  /**
+   * Never reports whether the email belongs to an account: unknown emails and failures end the
+   * same way, and the email is sent in the background so timing doesn't tell either
+   */
+  async forgotPassword(data: ForgotPasswordDto): Promise<void> {
     try {
       // Find user by email
       const user = await this.userRepository.findByEmail(data.email);
-      if (!user) {
-        // For security reasons, still return true even if email doesn't exist
-        return true;
-      }
+      if (!user) return;
 
       // Generate reset token
       const resetToken = uuidv4();
@@ -229,10 +233,14 @@ export class AuthService implements IAuthService {
       });
 
       this.logger.info(`Password reset token created for user ${user.id}`);
-      return true;
+
+      this.emailService
+        .sendPasswordResetEmail(user.email, user.firstName, resetToken, 60)
+        .catch((error) => {
+          this.logger.error(`Error sending password reset email to user ${user.id}: ${error}`);
+        });
     } catch (error) {
       this.logger.error(`Forgot password error: ${error}`);
-      return false;
     }
   }
 
@@ -293,6 +301,9 @@ export class AuthService implements IAuthService {
       });
 
       this.logger.info(`Verification token created for user ${user.id}`);
+
+      await this.emailService.sendVerificationEmail(user.email, user.firstName, verificationToken);
+
       return true;
     } catch (error) {
       this.logger.error(`Send verification email error: ${error}`);
@@ -353,4 +364,23 @@ export class AuthService implements IAuthService {
       return false;
     }
   }
+
+  async cleanupExpiredTokens(): Promise<number> {
+    try {
+      const [refreshTokens, passwordResets, emailVerifications] = await Promise.all([
+        this.refreshTokenRepository.deleteExpiredTokens(),
+        this.passwordResetRepository.deleteExpiredTokens(),
+        this.emailVerificationRepository.deleteExpiredTokens(),
+      ]);
+
+      this.logger.info(
+        `Deleted expired tokens: ${refreshTokens} refresh, ${passwordResets} password reset, ${emailVerifications} email verification`,
+      );
+
+      return refreshTokens + passwordResets + emailVerifications;
+    } catch (error) {
+      this.logger.error(`Cleanup expired tokens error: ${error}`);
+      throw AppError.internal('Failed to clean up expired tokens', 'SERVICE_ERROR');
+    }
+  }
 }
@@ -28,6 +28,7 @@ export function registerCartModule() {
       'Multi-seller cart grouping',
       'Checkout validation',
       'Stock availability checking',
+      'Timed stock reservation at checkout',
     ],
   };
 }
@@ -18,7 +18,11 @@ export class GetCartController extends BaseController {
     const includeDetails = req.query.details === 'true';
 
     if (includeDetails) {
-      const cartSummary = await this.cartService.getCartSummary(req.user!.id);
+      const cartSummary = await this.cartService.getCartSummary(
+        req.user!.id,
+        req.query.addressId as string,
+        req.query.couponCode as string,
+      );
       ApiResponse.success(res, cartSummary, 'Cart summary retrieved successfully');
     } else {
       const cartItems = await this.cartService.getCartItems(req.user!.id);
@@ -15,7 +15,11 @@ export class GetCartSummaryController extends BaseController {
   protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
     this.validateAuth(req);
 
-    const summary = await this.cartService.getCartSummary(req.user!.id);
+    const summary = await this.cartService.getCartSummary(
+      req.user!.id,
+      req.query.addressId as string,
+      req.query.couponCode as string,
+    );
 
     ApiResponse.success(res, summary, 'Cart summary retrieved successfully');
   }
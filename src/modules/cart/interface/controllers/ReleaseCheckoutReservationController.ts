@@ -0,0 +1,22 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../shared/utils/ApiResponse';
+import { ICartService } from '../../services/CartService.interface';
+import container from '../../../../core/di/container';
+
+export class ReleaseCheckoutReservationController extends BaseController {
+  private cartService: ICartService;
+
+  constructor() {
+    super();
+    this.cartService = container.resolve<ICartService>('cartService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    this.validateAuth(req);
+
+    await this.cartService.releaseCheckoutReservation(req.user!.id);
+
+    ApiResponse.success(res, null, 'Checkout reservation released successfully');
+  }
+}
@@ -13,6 +13,7 @@ import { GetCartController } from '../controllers/GetCartController';
 import { GetCartSummaryController } from '../controllers/GetCartSummaryController';
 import { GetCartCountController } from '../controllers/GetCartCountController';
 import { ValidateCartController } from '../controllers/ValidateCartController';
+import { ReleaseCheckoutReservationController } from '../controllers/ReleaseCheckoutReservationController';
 
 // Validators
 import {
@@ -21,6 +22,7 @@ import {
   updateCartItemSchema,
   validateCartQuerySchema,
   getCartQuerySchema,
+  getCartSummaryQuerySchema,
 } from '../validators/cart.validator';
 
 const router = Router();
@@ -35,6 +37,7 @@ const getCartController = new GetCartController();
 const getCartSummaryController = new GetCartSummaryController();
 const getCartCountController = new GetCartCountController();
 const validateCartController = new ValidateCartController();
+const releaseCheckoutReservationController = new ReleaseCheckoutReservationController();
 
 // All routes require authentication
 router.use(authenticate);
@@ -44,7 +47,11 @@ router.use(authenticate);
 router.get('/', validate(getCartQuerySchema, 'query'), getCartController.execute);
 
 // Get cart summary
-router.get('/summary', getCartSummaryController.execute);
+router.get(
+  '/summary',
+  validate(getCartSummaryQuerySchema, 'query'),
+  getCartSummaryController.execute,
+);
 
 // Get cart item count
 router.get('/count', getCartCountController.execute);
@@ -60,6 +67,9 @@ router.post(
   addNegotiatedItemToCartController.execute,
 );
 
+// Release the stock held since checkout started
+router.delete('/reservation', releaseCheckoutReservationController.execute);
+
 // Update cart item
 router.patch(
   '/:productId',
@@ -75,7 +85,7 @@ router.delete('/:productId', validateIdParam('productId'), removeFromCartControl
 router.delete('/', clearCartController.execute);
 
 // === CART VALIDATION ===
-// Validate cart
+// Validate cart; type=checkout also holds the items' stock for the buyer
 router.get('/validate', validate(validateCartQuerySchema, 'query'), validateCartController.execute);
 
 export default router;
@@ -34,6 +34,15 @@ export const validateCartQuerySchema = Joi.object({
 
 export const getCartQuerySchema = Joi.object({
   details: Joi.boolean().default(false),
+  addressId: Joi.string().uuid(),
+  couponCode: Joi.string().trim().max(50),
+});
+
+export const getCartSummaryQuerySchema = Joi.object({
+  addressId: Joi.string().uuid().messages({
+    'string.guid': 'Address ID must be a valid UUID',
+  }),
+  couponCode: Joi.string().trim().max(50),
 });
 
 export const addNegotiatedItemToCartSchema = Joi.object({
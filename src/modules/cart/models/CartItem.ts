@@ -1,4 +1,5 @@
 import { Decimal } from '@prisma/client/runtime/library';
+import { PriceBreakdown } from '../../pricing/models/Pricing';
 
 export interface CartItem {
   id: string;
@@ -64,9 +65,13 @@ export interface CartSummary {
   totalItems: number;
   totalQuantity: number;
   subtotal: number; // Keep as number for API response
+  shippingCost?: number;
+  discountAmount?: number;
+  taxAmount?: number;
   total: number; // Keep as number for API response
   groupedBySeller: SellerCartGroup[];
   hasNegotiatedItems: boolean;
+  pricing?: PriceBreakdown; // Same breakdown checkout charges
 }
 
 export interface SellerCartGroup {
@@ -80,6 +85,7 @@ export interface SellerCartGroup {
   };
   items: CartItem[];
   subtotal: number; // Keep as number for API response
+  shippingCost?: number;
   total: number; // Keep as number for API response
 }
 
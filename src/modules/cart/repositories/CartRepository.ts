@@ -1,4 +1,4 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma } from '@prisma/client';
 import { BasePrismaRepository } from '../../../shared/baseClasses/BasePrismaRepository';
 import { ICartRepository } from './CartRepository.interface';
 import {
@@ -10,6 +10,7 @@ import {
   SellerCartGroup,
   NegotiationValidationError,
 } from '../models/CartItem';
+import { availableQuantity, ReservationStatus } from '../../inventory/models/StockReservation';
 import { AppError } from '../../../core/errors/AppError';
 import { Logger } from '../../../core/logging/Logger';
 import { Decimal } from '@prisma/client/runtime/library';
@@ -279,15 +280,19 @@ export class CartRepository
 
         // 5. Determine quantity and validate stock
         const finalQuantity = quantity || negotiation.quantity;
-        let availableQuantity = product.quantity;
-
         if (negotiation.variantId && negotiation.variant) {
           if (!negotiation.variant.isActive) {
             throw new AppError('Product variant is not active', 400, 'VARIANT_INACTIVE');
           }
-          availableQuantity = negotiation.variant.quantity;
         }
 
+        const availableQuantity = await this.getAvailableQuantity(
+          userId,
+          negotiation.productId,
+          negotiation.variantId,
+          tx,
+        );
+
         if (finalQuantity > negotiation.quantity) {
           throw new AppError(
             `Requested quantity (${finalQuantity}) exceeds negotiated quantity (${negotiation.quantity})`,
@@ -399,10 +404,11 @@ export class CartRepository
         throw new AppError('Product is not available', 400, 'PRODUCT_UNAVAILABLE');
       }
 
-      let availableQuantity = product.quantity;
-      if (variantId && product.variants?.[0]) {
-        availableQuantity = product.variants[0].quantity;
-      }
+      const availableQuantity = await this.getAvailableQuantity(
+        userId,
+        productId,
+        variantId && product.variants?.[0] ? variantId : null,
+      );
 
       if (availableQuantity < quantity) {
         throw new AppError(
@@ -581,11 +587,14 @@ export class CartRepository
         }
 
         // Determine available quantity and current price
-        let availableQuantity = product.quantity;
+        const availableQuantity = await this.getAvailableQuantity(
+          userId,
+          item.productId,
+          item.variant ? item.variantId : null,
+        );
         let currentPrice = product.discountPrice || product.price;
 
         if (item.variantId && item.variant) {
-          availableQuantity = (item.variant as any).quantity ?? availableQuantity;
           currentPrice = item.variant.discountPrice || item.variant.price || currentPrice;
         }
 
@@ -866,7 +875,6 @@ export class CartRepository
       throw new AppError('You cannot add your own product to cart', 400, 'CANNOT_BUY_OWN_PRODUCT');
     }
 
-    let availableQuantity = product.quantity;
     let basePrice = product.discountPrice || product.price;
 
     // Handle variant
@@ -875,7 +883,6 @@ export class CartRepository
       if (!variant) {
         throw new AppError('Product variant not found', 404, 'VARIANT_NOT_FOUND');
       }
-      availableQuantity = variant.quantity;
       basePrice = variant.discountPrice || variant.price || basePrice;
     }
 
@@ -942,6 +949,7 @@ export class CartRepository
     }
 
     // Validate quantity availability
+    const availableQuantity = await this.getAvailableQuantity(userId, productId, variantId);
     if (availableQuantity < quantity) {
       throw new AppError(
         `Insufficient stock. Only ${availableQuantity} available.`,
@@ -952,4 +960,44 @@ export class CartRepository
 
     return { product, finalPrice, validatedNegotiation };
   }
+
+  /**
+   * Stock the user can still put in their cart: everything not held by other checkouts,
+   * plus whatever the user's own checkout is already holding
+   */
+  private async getAvailableQuantity(
+    userId: string,
+    productId: string,
+    variantId?: string | null,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<number> {
+    const [stock, ownHolds] = await Promise.all([
+      variantId
+        ? client.productVariant.findUnique({
+            where: { id: variantId },
+            select: { quantity: true, reservedQuantity: true },
+          })
+        : client.product.findUnique({
+            where: { id: productId },
+            select: { quantity: true, reservedQuantity: true },
+          }),
+      client.stockReservation.aggregate({
+        where: {
+          userId,
+          productId,
+          variantId: variantId ?? null,
+          orderId: null,
+          status: ReservationStatus.ACTIVE,
+        },
+        _sum: { quantity: true },
+      }),
+    ]);
+
+    if (!stock) return 0;
+
+    return availableQuantity({
+      quantity: stock.quantity + (ownHolds._sum.quantity || 0),
+      reservedQuantity: stock.reservedQuantity,
+    });
+  }
 }
@@ -5,6 +5,7 @@ import {
   AddToCartDto,
   UpdateCartItemDto,
 } from '../models/CartItem';
+import { CheckoutReservation } from '../../inventory/models/StockReservation';
 
 export interface ICartService {
   // Core operations
@@ -20,7 +21,7 @@ export interface ICartService {
 
   // Get cart data
   getCartItems(userId: string): Promise<CartItem[]>;
-  getCartSummary(userId: string): Promise<CartSummary>;
+  getCartSummary(userId: string, addressId?: string, couponCode?: string): Promise<CartSummary>;
   getCartItemCount(userId: string): Promise<number>;
 
   addNegotiatedItemToCart(
@@ -32,11 +33,13 @@ export interface ICartService {
   // Validation
   validateCart(userId: string): Promise<CartValidationResult>;
 
-  // Checkout preparation
+  // Checkout preparation; a valid cart is held for the buyer until the reservation expires
   validateForCheckout(userId: string): Promise<{
     isValid: boolean;
     errors: string[];
     warnings: string[];
     summary?: CartSummary;
+    reservation?: CheckoutReservation;
   }>;
+  releaseCheckoutReservation(userId: string): Promise<void>;
 }
@@ -10,6 +10,11 @@ import { ICartRepository } from '../repositories/CartRepository.interface';
 import { IProductRepository } from '../../product/repositories/ProductRepository.interface';
 import { IUserRepository } from '../../auth/repositories/UserRepository.interface';
 import { IPriceNegotiationRepository } from '../../price-negotiation/repositories/PriceNegotiationRepository.interface';
+import { IProfileRepository } from '../../user/repositories/ProfileRepository.interface';
+import { IAddressRepository } from '../../user/repositories/AddressRepository.interface';
+import { IPricingService } from '../../pricing/services/PricingService.interface';
+import { IInventoryService } from '../../inventory/services/InventoryService.interface';
+import { CheckoutReservation } from '../../inventory/models/StockReservation';
 import { AppError } from '../../../core/errors/AppError';
 import { Logger } from '../../../core/logging/Logger';
 import container from '../../../core/di/container';
@@ -19,6 +24,10 @@ export class CartService implements ICartService {
   private productRepository: IProductRepository;
   private userRepository: IUserRepository;
   private priceNegotiationRepository: IPriceNegotiationRepository;
+  private profileRepository: IProfileRepository;
+  private addressRepository: IAddressRepository;
+  private pricingService: IPricingService;
+  private inventoryService: IInventoryService;
   private logger = Logger.getInstance();
 
   constructor() {
@@ -28,6 +37,10 @@ export class CartService implements ICartService {
     this.priceNegotiationRepository = container.resolve<IPriceNegotiationRepository>(
       'priceNegotiationRepository',
     );
+    this.profileRepository = container.resolve<IProfileRepository>('profileRepository');
+    this.addressRepository = container.resolve<IAddressRepository>('addressRepository');
+    this.pricingService = container.resolve<IPricingService>('pricingService');
+    this.inventoryService = container.resolve<IInventoryService>('inventoryService');
   }
 
   async addToCart(userId: string, data: AddToCartDto): Promise<CartItem> {
@@ -143,6 +156,18 @@ export class CartService implements ICartService {
     }
   }
 
+  async releaseCheckoutReservation(userId: string): Promise<void> {
+    try {
+      await this.inventoryService.releaseCart(userId);
+
+      this.logger.info(`User ${userId} released their checkout reservation`);
+    } catch (error) {
+      this.logger.error(`Error releasing checkout reservation: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to release checkout reservation', 500, 'SERVICE_ERROR');
+    }
+  }
+
   async getCartItems(userId: string): Promise<CartItem[]> {
     try {
       const items = await this.cartRepository.getCartItems(userId);
@@ -154,14 +179,43 @@ export class CartService implements ICartService {
     }
   }
 
-  async getCartSummary(userId: string): Promise<CartSummary> {
+  async getCartSummary(
+    userId: string,
+    addressId?: string,
+    couponCode?: string,
+  ): Promise<CartSummary> {
     try {
       const summary = await this.cartRepository.getCartSummary(userId);
 
+      const pricing = await this.pricingService.calculateBreakdown(
+        summary.groupedBySeller.map((group) => ({
+          sellerId: group.sellerId,
+          subtotal: group.subtotal,
+          items: group.items.map((item) => ({
+            productId: item.productId,
+            variantId: item.variantId,
+            quantity: item.quantity,
+            price: this.getUnitPrice(item),
+          })),
+        })),
+        await this.resolveShippingAddressId(userId, addressId),
+        { userId, couponCode },
+      );
+
       // Convert Decimal to number for API response
       return {
         ...summary,
         items: summary.items.map((item) => this.convertCartItemForApi(item)),
+        shippingCost: pricing.shippingCost,
+        discountAmount: pricing.discountAmount,
+        taxAmount: pricing.taxAmount,
+        total: pricing.total,
+        groupedBySeller: summary.groupedBySeller.map((group) => {
+          const shippingCost =
+            pricing.sellers.find((seller) => seller.sellerId === group.sellerId)?.shippingCost ?? 0;
+          return { ...group, shippingCost, total: group.subtotal + shippingCost };
+        }),
+        pricing,
       };
     } catch (error) {
       this.logger.error(`Error getting cart summary: ${error}`);
@@ -170,6 +224,46 @@ export class CartService implements ICartService {
     }
   }
 
+  /**
+   * What one unit costs right now: the negotiated price, otherwise the variant or product price
+   */
+  private getUnitPrice(item: CartItem): number {
+    if (item.negotiationId) {
+      return Number(item.negotiation?.finalPrice || item.price);
+    }
+
+    return Number(
+      item.variant?.discountPrice ||
+        item.variant?.price ||
+        item.product!.discountPrice ||
+        item.product!.price,
+    );
+  }
+
+  /**
+   * The address to price the cart for: the one given, otherwise the user's default address
+   */
+  private async resolveShippingAddressId(
+    userId: string,
+    addressId?: string,
+  ): Promise<string | null> {
+    const profile = await this.profileRepository.findByUserId(userId);
+
+    if (addressId) {
+      const isOwnAddress =
+        !!profile && (await this.addressRepository.belongsToProfile(addressId, profile.id));
+      if (!isOwnAddress) {
+        throw new AppError('Invalid shipping address', 400, 'INVALID_ADDRESS');
+      }
+      return addressId;
+    }
+
+    if (!profile) return null;
+
+    const defaultAddress = await this.addressRepository.getDefaultAddress(profile.id);
+    return defaultAddress?.id ?? null;
+  }
+
   async getCartItemCount(userId: string): Promise<number> {
     try {
       return await this.cartRepository.getCartItemCount(userId);
@@ -221,6 +315,7 @@ export class CartService implements ICartService {
     errors: string[];
     warnings: string[];
     summary?: CartSummary;
+    reservation?: CheckoutReservation;
   }> {
     try {
       const errors: string[] = [];
@@ -268,11 +363,28 @@ export class CartService implements ICartService {
         warnings.push('Some items have negotiated prices. Please review before checkout.');
       }
 
+      // Hold the stock so nobody else can take the last units while the buyer pays
+      let reservation: CheckoutReservation | undefined;
+      if (errors.length === 0) {
+        try {
+          reservation = await this.inventoryService.reserveCart(userId);
+        } catch (reserveError) {
+          if (
+            !(reserveError instanceof AppError) ||
+            reserveError.errorCode !== 'INSUFFICIENT_STOCK'
+          ) {
+            throw reserveError;
+          }
+          errors.push(reserveError.message);
+        }
+      }
+
       return {
         isValid: errors.length === 0,
         errors,
         warnings,
         summary: summary,
+        reservation,
       };
     } catch (error) {
       this.logger.error(`Error validating cart for checkout: ${error}`);
@@ -571,7 +571,7 @@ export class CustomOrderRepository
       return result.count;
     } catch (error) {
       this.logger.error(`Error expiring requests: ${error}`);
-      return 0;
+      throw AppError.internal('Failed to expire custom orders', 'DATABASE_ERROR');
     }
   }
 
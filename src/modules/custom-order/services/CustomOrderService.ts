@@ -550,7 +550,8 @@ export class CustomOrderService implements ICustomOrderService {
       return expiredCount;
     } catch (error) {
       this.logger.error(`Error expiring old orders: ${error}`);
-      return 0;
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to expire custom orders', 'SERVICE_ERROR');
     }
   }
 
@@ -0,0 +1,29 @@
+/**
+ * Feed Module Exports
+ */
+
+// Export models
+export * from './models/Feed';
+
+// Export service interfaces
+export * from './services/FeedService.interface';
+
+// Export repository interfaces
+export * from './repositories/FeedRepository.interface';
+
+// Export module registration function
+export function registerFeedModule() {
+  console.log('Feed module registered');
+
+  return {
+    name: 'feed',
+    description: 'Personalised home feed of posts and new products',
+    version: '1.0.0',
+    features: [
+      'Ranking by recency, engagement and affinity with authors',
+      'Author and content-type diversity',
+      'Cursor pagination that is stable across pages',
+      'Seen items left out of later feeds',
+    ],
+  };
+}
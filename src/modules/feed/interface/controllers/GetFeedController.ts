@@ -0,0 +1,25 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../shared/utils/ApiResponse';
+import { IFeedService } from '../../services/FeedService.interface';
+import container from '../../../../core/di/container';
+
+export class GetFeedController extends BaseController {
+  private feedService: IFeedService;
+
+  constructor() {
+    super();
+    this.feedService = container.resolve<IFeedService>('feedService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    this.validateAuth(req);
+
+    const feed = await this.feedService.getFeed(req.user!.id, {
+      cursor: req.query.cursor as string | undefined,
+      limit: req.query.limit as unknown as number,
+    });
+
+    ApiResponse.success(res, feed, 'Feed retrieved successfully');
+  }
+}
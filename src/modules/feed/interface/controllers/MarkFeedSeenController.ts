@@ -0,0 +1,22 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../shared/utils/ApiResponse';
+import { IFeedService } from '../../services/FeedService.interface';
+import container from '../../../../core/di/container';
+
+export class MarkFeedSeenController extends BaseController {
+  private feedService: IFeedService;
+
+  constructor() {
+    super();
+    this.feedService = container.resolve<IFeedService>('feedService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    this.validateAuth(req);
+
+    const count = await this.feedService.markSeen(req.user!.id, req.body.items);
+
+    ApiResponse.success(res, { count }, 'Feed items marked as seen');
+  }
+}
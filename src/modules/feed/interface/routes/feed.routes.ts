@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { validate } from '../../../../shared/middlewares/validate.middleware';
+import { authenticate } from '../../../../shared/middlewares/auth.middleware';
+import { feedQuerySchema, markFeedSeenSchema } from '../validators/feed.validator';
+
+// Controllers
+import { GetFeedController } from '../controllers/GetFeedController';
+import { MarkFeedSeenController } from '../controllers/MarkFeedSeenController';
+
+const router = Router();
+
+// Initialize controllers
+const getFeedController = new GetFeedController();
+const markFeedSeenController = new MarkFeedSeenController();
+
+// Ranked posts and new products, paged with ?cursor=<nextCursor>
+router.get('/', authenticate, validate(feedQuerySchema, 'query'), getFeedController.execute);
+
+// Items shown to the user; they are left out of later feeds
+router.post('/seen', authenticate, validate(markFeedSeenSchema), markFeedSeenController.execute);
+
+export default router;
@@ -0,0 +1,27 @@
+import Joi from 'joi';
+import { FeedItemType } from '../../models/Feed';
+
+export const feedQuerySchema = Joi.object({
+  cursor: Joi.string().max(500),
+  limit: Joi.number().integer().min(1).max(50).default(20),
+});
+
+export const markFeedSeenSchema = Joi.object({
+  items: Joi.array()
+    .items(
+      Joi.object({
+        type: Joi.string()
+          .uppercase()
+          .valid(...Object.values(FeedItemType))
+          .required(),
+        id: Joi.string().uuid().required(),
+      }),
+    )
+    .min(1)
+    .max(100)
+    .required()
+    .messages({
+      'array.min': 'At least one item is required',
+      'array.max': 'Cannot mark more than 100 items at once',
+    }),
+});
@@ -0,0 +1,44 @@
+import { PostWithUser } from '../../post/models/Post';
+import { ProductWithDetails } from '../../product/models/Product';
+
+export enum FeedItemType {
+  POST = 'POST',
+  PRODUCT = 'PRODUCT',
+}
+
+export interface FeedOptions {
+  cursor?: string; // nextCursor of the previous page
+  limit?: number;
+}
+
+/**
+ * Position in a ranked feed. The first page stores its ranking as a snapshot and later pages
+ * read it, so likes and sales meanwhile don't reorder it and new items wait for a refresh.
+ */
+export interface FeedCursor {
+  snapshotId: string;
+  offset: number;
+}
+
+export interface FeedCandidate {
+  type: FeedItemType;
+  id: string;
+  authorId: string; // Post author or product seller
+  score: number;
+  key: string;
+}
+
+export type FeedItem =
+  | { type: FeedItemType.POST; id: string; score: number; post: PostWithUser }
+  | { type: FeedItemType.PRODUCT; id: string; score: number; product: ProductWithDetails };
+
+export interface FeedPage {
+  items: FeedItem[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export interface FeedItemRef {
+  type: FeedItemType;
+  id: string;
+}
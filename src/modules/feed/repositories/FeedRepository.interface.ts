@@ -0,0 +1,19 @@
+import { FeedCandidate, FeedItemRef } from '../models/Feed';
+
+export interface IFeedRepository {
+  getRankedCandidates(
+    userId: string,
+    options: {
+      now: Date;
+      since: Date; // Oldest candidate and oldest seen mark that still counts
+      limit: number;
+    },
+  ): Promise<FeedCandidate[]>;
+
+  createSnapshot(userId: string, candidates: FeedCandidate[]): Promise<string>;
+  findSnapshot(id: string, userId: string): Promise<FeedCandidate[] | null>;
+  deleteSnapshotsBefore(date: Date): Promise<number>;
+
+  markSeen(userId: string, items: FeedItemRef[]): Promise<number>;
+  deleteSeenBefore(date: Date): Promise<number>;
+}
@@ -0,0 +1,187 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { IFeedRepository } from './FeedRepository.interface';
+import { FeedCandidate, FeedItemRef } from '../models/Feed';
+import { Logger } from '../../../core/logging/Logger';
+import { AppError } from '../../../core/errors/AppError';
+
+const HALF_LIFE_HOURS = 36; // Recency halves every 36 hours
+const AUTHOR_REPEAT_PENALTY = 0.5; // The n-th item of one author is divided by 1 + 0.5 * (n - 1)
+
+/**
+ * Home feed of published posts and new products, ranked in SQL:
+ *
+ *   score = recency * (1 + engagement) * (1 + affinity) / author repeat penalty
+ *
+ * Recency is measured from the caller's `now`. A feed is ranked once for its first page and
+ * kept as a snapshot that later pages read, so live counts never reorder a feed being paged.
+ */
+export class FeedRepository implements IFeedRepository {
+  private logger = Logger.getInstance();
+
+  constructor(private prisma: PrismaClient) {}
+
+  async getRankedCandidates(
+    userId: string,
+    options: {
+      now: Date;
+      since: Date;
+      limit: number;
+    },
+  ): Promise<FeedCandidate[]> {
+    try {
+      const { now, since, limit } = options;
+
+      // Affinity per author: follows (1), liked posts (0.5 * ln) and orders from the seller (0.8 * ln)
+      return await this.prisma.$queryRaw<FeedCandidate[]>`
+        WITH affinity AS (
+          SELECT "authorId", SUM(weight) AS affinity
+          FROM (
+            SELECT "followingId" AS "authorId", 1.0 AS weight
+            FROM "Follow"
+            WHERE "followerId" = ${userId}
+            UNION ALL
+            SELECT p."userId", 0.5 * LN(1 + COUNT(*))
+            FROM "Like" l
+            JOIN "Post" p ON p.id = l."postId"
+            WHERE l."userId" = ${userId}
+            GROUP BY p."userId"
+            UNION ALL
+            SELECT oi."sellerId", 0.8 * LN(1 + COUNT(DISTINCT o.id))
+            FROM "Order" o
+            JOIN "OrderItem" oi ON oi."orderId" = o.id
+            WHERE o."userId" = ${userId} AND o.status NOT IN ('PENDING', 'CANCELLED')
+            GROUP BY oi."sellerId"
+          ) signals
+          GROUP BY "authorId"
+        ),
+        candidates AS (
+          SELECT 'POST' AS type, p.id, p."userId" AS "authorId", p."publishedAt" AS "at",
+            LN(1 + p."likeCount" + 2 * p."commentCount" + 0.05 * p."viewCount") AS engagement,
+            0 AS boost
+          FROM "Post" p
+          WHERE p.status = 'PUBLISHED'
+            AND p."deletedAt" IS NULL
+            AND p."publishedAt" > ${since}
+            AND p."publishedAt" <= ${now}
+            AND p."userId" <> ${userId}
+          UNION ALL
+          -- Products already picked for the user by the recommendation job get a boost
+          SELECT 'PRODUCT', p.id, p."sellerId", p."createdAt",
+            LN(1 + 3 * p."salesCount" + 2 * p."reviewCount" + 0.05 * p."viewCount"),
+            CASE WHEN ur.id IS NOT NULL THEN 0.8 ELSE 0 END
+          FROM "Product" p
+          LEFT JOIN "UserRecommendation" ur ON ur."productId" = p.id AND ur."userId" = ${userId}
+          WHERE p.status = 'PUBLISHED'
+            AND p."deletedAt" IS NULL
+            AND p."createdAt" > ${since}
+            AND p."createdAt" <= ${now}
+            AND p."sellerId" <> ${userId}
+        ),
+        scored AS (
+          SELECT c.type, c.id, c."authorId",
+            POWER(0.5, EXTRACT(EPOCH FROM (${now}::timestamp - c."at")) / 3600 / ${HALF_LIFE_HOURS})
+              * (1 + c.engagement)
+              * (1 + COALESCE(a.affinity, 0) + c.boost) AS score
+          FROM candidates c
+          LEFT JOIN affinity a ON a."authorId" = c."authorId"
+        ),
+        feed AS (
+          SELECT type, id, "authorId", type || ':' || id AS key,
+            (score / (1 + ${AUTHOR_REPEAT_PENALTY} * (ROW_NUMBER() OVER (
+              PARTITION BY "authorId"
+              ORDER BY score DESC, id ASC
+            ) - 1)))::float AS score
+          FROM scored
+        )
+        SELECT f.type, f.id, f."authorId", f.score, f.key
+        FROM feed f
+        WHERE NOT EXISTS (
+            SELECT 1 FROM "FeedSeenItem" s
+            WHERE s."userId" = ${userId}
+              AND s."itemType"::text = f.type
+              AND s."itemId" = f.id
+              AND s."seenAt" > ${since}
+          )
+        ORDER BY f.score DESC, f.key DESC
+        LIMIT ${limit}
+      `;
+    } catch (error) {
+      this.logger.error(`Error getting feed candidates: ${error}`);
+      throw AppError.internal('Failed to get feed', 'DATABASE_ERROR');
+    }
+  }
+
+  async createSnapshot(userId: string, candidates: FeedCandidate[]): Promise<string> {
+    try {
+      const snapshot = await this.prisma.feedSnapshot.create({
+        data: { userId, items: candidates as unknown as Prisma.InputJsonValue },
+        select: { id: true },
+      });
+
+      return snapshot.id;
+    } catch (error) {
+      this.logger.error(`Error creating feed snapshot: ${error}`);
+      throw AppError.internal('Failed to save feed', 'DATABASE_ERROR');
+    }
+  }
+
+  async findSnapshot(id: string, userId: string): Promise<FeedCandidate[] | null> {
+    try {
+      const snapshot = await this.prisma.feedSnapshot.findFirst({
+        where: { id, userId },
+        select: { items: true },
+      });
+
+      return snapshot ? (snapshot.items as unknown as FeedCandidate[]) : null;
+    } catch (error) {
+      this.logger.error(`Error finding feed snapshot: ${error}`);
+      throw AppError.internal('Failed to get feed', 'DATABASE_ERROR');
+    }
+  }
+
+  async deleteSnapshotsBefore(date: Date): Promise<number> {
+    try {
+      const result = await this.prisma.feedSnapshot.deleteMany({
+        where: { createdAt: { lt: date } },
+      });
+
+      return result.count;
+    } catch (error) {
+      this.logger.error(`Error deleting feed snapshots: ${error}`);
+      throw AppError.internal('Failed to delete feed snapshots', 'DATABASE_ERROR');
+    }
+  }
+
+  async markSeen(userId: string, items: FeedItemRef[]): Promise<number> {
+    try {
+      if (items.length === 0) return 0;
+
+      // Seeing an item again restarts its expiry
+      return await this.prisma.$executeRaw`
+        INSERT INTO "FeedSeenItem" ("id", "userId", "itemType", "itemId")
+        SELECT gen_random_uuid()::text, ${userId}, t.type::"FeedItemType", t.id
+        FROM unnest(
+          ${items.map((item) => item.type)}::text[],
+          ${items.map((item) => item.id)}::text[]
+        ) AS t(type, id)
+        ON CONFLICT ("userId", "itemType", "itemId") DO UPDATE SET "seenAt" = CURRENT_TIMESTAMP
+      `;
+    } catch (error) {
+      this.logger.error(`Error marking feed items as seen: ${error}`);
+      throw AppError.internal('Failed to mark feed items as seen', 'DATABASE_ERROR');
+    }
+  }
+
+  async deleteSeenBefore(date: Date): Promise<number> {
+    try {
+      const result = await this.prisma.feedSeenItem.deleteMany({
+        where: { seenAt: { lt: date } },
+      });
+
+      return result.count;
+    } catch (error) {
+      this.logger.error(`Error deleting seen feed items: ${error}`);
+      throw AppError.internal('Failed to delete seen feed items', 'DATABASE_ERROR');
+    }
+  }
+}
@@ -0,0 +1,8 @@
+import { FeedItemRef, FeedOptions, FeedPage } from '../models/Feed';
+
+export interface IFeedService {
+  getFeed(userId: string, options?: FeedOptions): Promise<FeedPage>;
+  markSeen(userId: string, items: FeedItemRef[]): Promise<number>;
+  cleanupSeenItems(): Promise<number>;
+  cleanupSnapshots(): Promise<number>;
+}
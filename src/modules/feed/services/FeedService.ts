@@ -0,0 +1,202 @@
+import { IFeedService } from './FeedService.interface';
+import {
+  FeedCandidate,
+  FeedCursor,
+  FeedItem,
+  FeedItemRef,
+  FeedItemType,
+  FeedOptions,
+  FeedPage,
+} from '../models/Feed';
+import { IFeedRepository } from '../repositories/FeedRepository.interface';
+import { IPostRepository } from '../../post/repositories/PostRepository.interface';
+import { IProductRepository } from '../../product/repositories/ProductRepository.interface';
+import { AppError } from '../../../core/errors/AppError';
+import { Logger } from '../../../core/logging/Logger';
+import container from '../../../core/di/container';
+
+const WINDOW_DAYS = 14; // How far back candidates go; seen marks expire with them
+const MAX_SAME_TYPE_IN_ROW = 3;
+const MAX_RANKED_ITEMS = 500; // Length of one feed, across all its pages
+const SNAPSHOT_TTL_HOURS = 24; // How long a feed can be paged before it has to be reloaded
+
+export class FeedService implements IFeedService {
+  private feedRepository: IFeedRepository;
+  private postRepository: IPostRepository;
+  private productRepository: IProductRepository;
+  private logger = Logger.getInstance();
+
+  constructor() {
+    this.feedRepository = container.resolve<IFeedRepository>('feedRepository');
+    this.postRepository = container.resolve<IPostRepository>('postRepository');
+    this.productRepository = container.resolve<IProductRepository>('productRepository');
+  }
+
+  async getFeed(userId: string, options: FeedOptions = {}): Promise<FeedPage> {
+    try {
+      const limit = options.limit || 20;
+      const cursor = options.cursor ? this.decodeCursor(options.cursor) : null;
+
+      let candidates: FeedCandidate[];
+      let snapshotId = cursor?.snapshotId;
+
+      if (cursor) {
+        const snapshot = await this.feedRepository.findSnapshot(cursor.snapshotId, userId);
+        if (!snapshot) {
+          throw AppError.badRequest('Feed has expired, reload it', 'FEED_CURSOR_EXPIRED');
+        }
+        candidates = snapshot;
+      } else {
+        const now = new Date();
+        candidates = await this.feedRepository.getRankedCandidates(userId, {
+          now,
+          since: this.windowStart(now),
+          limit: MAX_RANKED_ITEMS,
+        });
+
+        // Only a feed with further pages needs its ranking kept
+        if (candidates.length > limit) {
+          snapshotId = await this.feedRepository.createSnapshot(userId, candidates);
+        }
+      }
+
+      const offset = cursor?.offset || 0;
+      const page = candidates.slice(offset, offset + limit);
+      const hasMore = offset + limit < candidates.length;
+
+      return {
+        items: await this.loadItems(this.diversify(page), userId),
+        nextCursor:
+          hasMore && snapshotId ? this.encodeCursor({ snapshotId, offset: offset + limit }) : null,
+        hasMore,
+      };
+    } catch (error) {
+      this.logger.error(`Error getting feed: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to get feed', 'SERVICE_ERROR');
+    }
+  }
+
+  async markSeen(userId: string, items: FeedItemRef[]): Promise<number> {
+    try {
+      const unique = new Map(items.map((item) => [`${item.type}:${item.id}`, item]));
+      return await this.feedRepository.markSeen(userId, [...unique.values()]);
+    } catch (error) {
+      this.logger.error(`Error marking feed items as seen: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to mark feed items as seen', 'SERVICE_ERROR');
+    }
+  }
+
+  async cleanupSeenItems(): Promise<number> {
+    try {
+      const count = await this.feedRepository.deleteSeenBefore(this.windowStart(new Date()));
+
+      if (count > 0) {
+        this.logger.info(`Deleted ${count} expired seen feed items`);
+      }
+
+      return count;
+    } catch (error) {
+      this.logger.error(`Error cleaning up seen feed items: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to clean up seen feed items', 'SERVICE_ERROR');
+    }
+  }
+
+  async cleanupSnapshots(): Promise<number> {
+    try {
+      const count = await this.feedRepository.deleteSnapshotsBefore(
+        new Date(Date.now() - SNAPSHOT_TTL_HOURS * 60 * 60 * 1000),
+      );
+
+      if (count > 0) {
+        this.logger.info(`Deleted ${count} expired feed snapshots`);
+      }
+
+      return count;
+    } catch (error) {
+      this.logger.error(`Error cleaning up feed snapshots: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to clean up feed snapshots', 'SERVICE_ERROR');
+    }
+  }
+
+  /**
+   * Reorder a page so one author never appears twice in a row and posts and products
+   * alternate at least every few items, where the page allows it. The cursor still
+   * follows the snapshot order, so this never changes which items the next page holds.
+   */
+  private diversify(candidates: FeedCandidate[]): FeedCandidate[] {
+    const remaining = [...candidates];
+    const result: FeedCandidate[] = [];
+
+    while (remaining.length > 0) {
+      const previous = result[result.length - 1];
+      const recent = result.slice(-MAX_SAME_TYPE_IN_ROW);
+      const typeStreak =
+        recent.length === MAX_SAME_TYPE_IN_ROW &&
+        recent.every((item) => item.type === previous.type);
+
+      const index = remaining.findIndex(
+        (candidate) =>
+          (!previous || candidate.authorId !== previous.authorId) &&
+          (!typeStreak || candidate.type !== previous.type),
+      );
+
+      result.push(...remaining.splice(Math.max(index, 0), 1));
+    }
+
+    return result;
+  }
+
+  private async loadItems(candidates: FeedCandidate[], userId: string): Promise<FeedItem[]> {
+    const idsOf = (type: FeedItemType) =>
+      candidates.filter((candidate) => candidate.type === type).map((candidate) => candidate.id);
+
+    const [posts, products] = await Promise.all([
+      this.postRepository.getPostsByIds(idsOf(FeedItemType.POST), userId),
+      this.productRepository.getProductsByIds(idsOf(FeedItemType.PRODUCT), userId),
+    ]);
+
+    const postsById = new Map(posts.map((post) => [post.id, post]));
+    const productsById = new Map(products.map((product) => [product.id, product]));
+
+    // Items removed since ranking are dropped
+    return candidates.flatMap((candidate): FeedItem[] => {
+      const { type, id, score } = candidate;
+
+      if (type === FeedItemType.POST) {
+        const post = postsById.get(id);
+        return post ? [{ type, id, score, post }] : [];
+      }
+
+      const product = productsById.get(id);
+      return product ? [{ type, id, score, product }] : [];
+    });
+  }
+
+  private windowStart(now: Date): Date {
+    return new Date(now.getTime() - WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  }
+
+  private encodeCursor(cursor: FeedCursor): string {
+    return Buffer.from(JSON.stringify({ s: cursor.snapshotId, o: cursor.offset })).toString(
+      'base64url',
+    );
+  }
+
+  private decodeCursor(value: string): FeedCursor {
+    try {
+      const { s, o } = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+
+      if (typeof s !== 'string' || !Number.isInteger(o) || o < 0) {
+        throw new Error('Malformed cursor');
+      }
+
+      return { snapshotId: s, offset: o };
+    } catch {
+      throw AppError.badRequest('Invalid feed cursor', 'INVALID_CURSOR');
+    }
+  }
+}
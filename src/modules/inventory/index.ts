@@ -0,0 +1,32 @@
+/**
+ * Inventory Module Exports
+ */
+
+// Export models
+export * from './models/StockReservation';
+export * from './models/StockSubscription';
+
+// Export service interfaces
+export * from './services/InventoryService.interface';
+
+// Export repository interfaces
+export * from './repositories/InventoryRepository.interface';
+
+// Export module registration function
+export function registerInventoryModule() {
+  console.log('Inventory module registered');
+
+  return {
+    name: 'inventory',
+    description: 'Stock reservations, stock status and restock alerts',
+    version: '1.0.0',
+    features: [
+      'Timed stock holds taken when checkout starts',
+      'Holds carried onto the order and committed when it is paid',
+      'Release on payment failure, cancellation or timeout',
+      'Available stock computed as quantity minus reserved',
+      'Automatic OUT_OF_STOCK status and low-stock alerts for sellers',
+      'Back-in-stock subscriptions',
+    ],
+  };
+}
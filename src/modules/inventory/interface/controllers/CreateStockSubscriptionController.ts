@@ -0,0 +1,22 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../shared/utils/ApiResponse';
+import { IInventoryService } from '../../services/InventoryService.interface';
+import container from '../../../../core/di/container';
+
+export class CreateStockSubscriptionController extends BaseController {
+  private inventoryService: IInventoryService;
+
+  constructor() {
+    super();
+    this.inventoryService = container.resolve<IInventoryService>('inventoryService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    this.validateAuth(req);
+
+    const subscription = await this.inventoryService.subscribeToRestock(req.user!.id, req.body);
+
+    ApiResponse.created(res, subscription, 'You will be notified when this item is back in stock');
+  }
+}
@@ -0,0 +1,22 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../shared/utils/ApiResponse';
+import { IInventoryService } from '../../services/InventoryService.interface';
+import container from '../../../../core/di/container';
+
+export class GetStockSubscriptionsController extends BaseController {
+  private inventoryService: IInventoryService;
+
+  constructor() {
+    super();
+    this.inventoryService = container.resolve<IInventoryService>('inventoryService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    this.validateAuth(req);
+
+    const subscriptions = await this.inventoryService.getStockSubscriptions(req.user!.id);
+
+    ApiResponse.success(res, subscriptions, 'Stock subscriptions retrieved successfully');
+  }
+}
@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import { validate } from '../../../../shared/middlewares/validate.middleware';
+import { authenticate } from '../../../../shared/middlewares/auth.middleware';
+import { validateIdParam } from '../../../../shared/middlewares/request-validation.middleware';
+import { createStockSubscriptionSchema } from '../validators/inventory.validator';
+
+// Controllers
+import { GetStockSubscriptionsController } from '../controllers/GetStockSubscriptionsController';
+import { CreateStockSubscriptionController } from '../controllers/CreateStockSubscriptionController';
+import { DeleteStockSubscriptionController } from '../controllers/DeleteStockSubscriptionController';
+
+const router = Router();
+
+// Initialize controllers
+const getStockSubscriptionsController = new GetStockSubscriptionsController();
+const createStockSubscriptionController = new CreateStockSubscriptionController();
+const deleteStockSubscriptionController = new DeleteStockSubscriptionController();
+
+router.use(authenticate);
+
+// "Notify me when available"
+router.get('/subscriptions', getStockSubscriptionsController.execute);
+router.post(
+  '/subscriptions',
+  validate(createStockSubscriptionSchema),
+  createStockSubscriptionController.execute,
+);
+router.delete('/subscriptions/:id', validateIdParam(), deleteStockSubscriptionController.execute);
+
+export default router;
@@ -0,0 +1,8 @@
+import Joi from 'joi';
+
+export const createStockSubscriptionSchema = Joi.object({
+  productId: Joi.string().uuid().required().messages({
+    'any.required': 'Product ID is required',
+  }),
+  variantId: Joi.string().uuid(),
+});
@@ -0,0 +1,44 @@
+export enum ReservationStatus {
+  ACTIVE = 'ACTIVE',
+  COMMITTED = 'COMMITTED',
+  RELEASED = 'RELEASED',
+  EXPIRED = 'EXPIRED',
+}
+
+/**
+ * Stock held for a buyer. Cart holds are taken when checkout starts and have no orderId;
+ * order holds last until the order is paid (COMMITTED) or given up (RELEASED / EXPIRED).
+ */
+export interface StockReservation {
+  id: string;
+  userId: string;
+  productId: string;
+  variantId?: string | null;
+  orderId?: string | null;
+  quantity: number;
+  status: ReservationStatus;
+  expiresAt: Date;
+  releasedAt?: Date | null;
+  releaseReason?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ReservationItem {
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+  name?: string; // for error messages
+}
+
+export interface CheckoutReservation {
+  expiresAt: Date;
+  reservations: StockReservation[];
+}
+
+/**
+ * What can still be sold: on-hand quantity minus everything held for other checkouts
+ */
+export function availableQuantity(stock: { quantity: number; reservedQuantity: number }): number {
+  return Math.max(0, stock.quantity - stock.reservedQuantity);
+}
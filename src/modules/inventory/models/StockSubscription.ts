@@ -0,0 +1,52 @@
+/**
+ * "Notify me when available" request; pending until notifiedAt is set
+ */
+export interface StockSubscription {
+  id: string;
+  userId: string;
+  productId: string;
+  variantId?: string | null; // null = any variant of the product
+  notifiedAt?: Date | null;
+  createdAt: Date;
+}
+
+export interface StockSubscriptionWithProduct extends StockSubscription {
+  product: {
+    id: string;
+    name: string;
+    slug?: string | null;
+    featuredImage?: string | null;
+    status: string;
+  };
+  variant?: {
+    id: string;
+    name?: string | null;
+    sku: string;
+  } | null;
+}
+
+export interface CreateStockSubscriptionDto {
+  productId: string;
+  variantId?: string;
+}
+
+/**
+ * Something that holds its own stock: the product itself, or one of its active variants
+ */
+export interface StockUnit {
+  productId: string;
+  variantId: string | null;
+  name: string;
+  quantity: number;
+  reservedQuantity: number;
+  lowStockAlertedAt?: Date | null;
+}
+
+export interface StockLevel {
+  productId: string;
+  sellerId: string;
+  name: string;
+  status: string;
+  lowStockThreshold?: number | null;
+  units: StockUnit[];
+}
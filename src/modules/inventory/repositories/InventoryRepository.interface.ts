@@ -0,0 +1,45 @@
+import { BaseRepository } from '../../../shared/interfaces/BaseRepository';
+import { StockReservation, ReservationItem } from '../models/StockReservation';
+import {
+  StockSubscription,
+  StockSubscriptionWithProduct,
+  StockLevel,
+  StockUnit,
+} from '../models/StockSubscription';
+import { ProductStatus } from '../../product/models/ProductEnums';
+
+export interface IInventoryRepository extends BaseRepository<StockReservation, string> {
+  // Checkout holds on the buyer's cart
+  replaceCartHolds(
+    userId: string,
+    items: ReservationItem[],
+    expiresAt: Date,
+  ): Promise<StockReservation[]>;
+  releaseCartHolds(userId: string, reason: string): Promise<number>;
+  getCartHolds(userId: string): Promise<StockReservation[]>;
+
+  // Holds on a placed order until it is paid
+  holdOrderStock(orderId: string, expiresAt: Date): Promise<StockReservation[]>;
+  commitOrderHolds(orderId: string): Promise<number>;
+  releaseOrderHolds(orderId: string, reason: string): Promise<number>;
+
+  expireHolds(now: Date): Promise<number>;
+
+  // Stock levels and low-stock alerts
+  getStockLevels(productIds: string[]): Promise<StockLevel[]>;
+  getOrderProductIds(orderId: string): Promise<string[]>;
+  updateStockStatus(productId: string, from: ProductStatus, to: ProductStatus): Promise<boolean>;
+  setLowStockAlerted(unit: StockUnit, alertedAt: Date | null): Promise<void>;
+
+  // Back-in-stock subscriptions
+  saveStockSubscription(
+    userId: string,
+    productId: string,
+    variantId?: string | null,
+  ): Promise<StockSubscriptionWithProduct>;
+  getUserStockSubscriptions(userId: string): Promise<StockSubscriptionWithProduct[]>;
+  getStockSubscription(id: string): Promise<StockSubscription | null>;
+  getPendingStockSubscriptions(productId: string): Promise<StockSubscription[]>;
+  markStockSubscriptionsNotified(ids: string[], notifiedAt: Date): Promise<void>;
+  deleteStockSubscription(id: string): Promise<boolean>;
+}
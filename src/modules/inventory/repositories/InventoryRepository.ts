@@ -0,0 +1,362 @@
+import { PrismaClient } from '@prisma/client';
+import { BasePrismaRepository } from '../../../shared/baseClasses/BasePrismaRepository';
+import { IInventoryRepository } from './InventoryRepository.interface';
+import { StockReservation, ReservationItem, ReservationStatus } from '../models/StockReservation';
+import {
+  StockSubscription,
+  StockSubscriptionWithProduct,
+  StockLevel,
+  StockUnit,
+} from '../models/StockSubscription';
+import { createHolds, releaseHolds, commitHolds } from './stockHolds';
+import { OrderStatus, PaymentStatus } from '../../order/models/OrderEnums';
+import { ProductStatus } from '../../product/models/ProductEnums';
+import { AppError } from '../../../core/errors/AppError';
+import { Logger } from '../../../core/logging/Logger';
+
+export class InventoryRepository
+  extends BasePrismaRepository<StockReservation, string>
+  implements IInventoryRepository
+{
+  private logger = Logger.getInstance();
+
+  private readonly subscriptionInclude = {
+    product: {
+      select: { id: true, name: true, slug: true, featuredImage: true, status: true },
+    },
+    variant: { select: { id: true, name: true, sku: true } },
+  } as const;
+
+  constructor(prisma: PrismaClient) {
+    super(prisma, 'stockReservation');
+  }
+
+  async replaceCartHolds(
+    userId: string,
+    items: ReservationItem[],
+    expiresAt: Date,
+  ): Promise<StockReservation[]> {
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        // Starting checkout again replaces the previous holds instead of stacking on them
+        await releaseHolds(tx, { userId, orderId: null }, ReservationStatus.RELEASED, 'REPLACED');
+        await createHolds(tx, { userId, items, expiresAt });
+      });
+
+      return await this.getCartHolds(userId);
+    } catch (error) {
+      this.logger.error(`Error reserving cart stock: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to reserve stock', 'DATABASE_ERROR');
+    }
+  }
+
+  async releaseCartHolds(userId: string, reason: string): Promise<number> {
+    try {
+      return await this.prisma.$transaction((tx) =>
+        releaseHolds(tx, { userId, orderId: null }, ReservationStatus.RELEASED, reason),
+      );
+    } catch (error) {
+      this.logger.error(`Error releasing cart stock: ${error}`);
+      throw AppError.internal('Failed to release stock', 'DATABASE_ERROR');
+    }
+  }
+
+  async getCartHolds(userId: string): Promise<StockReservation[]> {
+    const holds = await this.prisma.stockReservation.findMany({
+      where: { userId, orderId: null, status: ReservationStatus.ACTIVE },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return holds as StockReservation[];
+  }
+
+  async holdOrderStock(orderId: string, expiresAt: Date): Promise<StockReservation[]> {
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        const reservations = await tx.stockReservation.findMany({ where: { orderId } });
+
+        // Orders without holds never needed any (custom pieces), committed ones are paid for
+        if (
+          reservations.length === 0 ||
+          reservations.some((r) => r.status === ReservationStatus.COMMITTED)
+        ) {
+          return;
+        }
+
+        if (reservations.some((r) => r.status === ReservationStatus.ACTIVE)) {
+          await tx.stockReservation.updateMany({
+            where: { orderId, status: ReservationStatus.ACTIVE },
+            data: { expiresAt },
+          });
+          return;
+        }
+
+        // The holds lapsed (failed payment or timeout); take the stock again if it is still there
+        const order = await tx.order.findUnique({
+          where: { id: orderId },
+          include: {
+            items: {
+              where: { isCustomOrder: false, productId: { not: null } },
+              include: {
+                product: { select: { name: true } },
+                fulfillment: { select: { status: true } },
+              },
+            },
+          },
+        });
+
+        if (!order) {
+          throw AppError.notFound('Order not found', 'ORDER_NOT_FOUND');
+        }
+
+        await createHolds(tx, {
+          userId: order.userId,
+          orderId,
+          expiresAt,
+          items: order.items
+            .filter((item) => item.fulfillment?.status !== OrderStatus.CANCELLED)
+            .map((item) => ({
+              productId: item.productId!,
+              variantId: item.variantId,
+              quantity: item.quantity,
+              name: item.product?.name,
+            })),
+        });
+      });
+
+      const holds = await this.prisma.stockReservation.findMany({
+        where: { orderId, status: ReservationStatus.ACTIVE },
+      });
+
+      return holds as StockReservation[];
+    } catch (error) {
+      this.logger.error(`Error reserving order stock: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to reserve stock', 'DATABASE_ERROR');
+    }
+  }
+
+  async commitOrderHolds(orderId: string): Promise<number> {
+    try {
+      return await this.prisma.$transaction((tx) => commitHolds(tx, { orderId }));
+    } catch (error) {
+      this.logger.error(`Error committing order stock: ${error}`);
+      throw AppError.internal('Failed to commit stock', 'DATABASE_ERROR');
+    }
+  }
+
+  async releaseOrderHolds(orderId: string, reason: string): Promise<number> {
+    try {
+      return await this.prisma.$transaction((tx) =>
+        releaseHolds(tx, { orderId }, ReservationStatus.RELEASED, reason),
+      );
+    } catch (error) {
+      this.logger.error(`Error releasing order stock: ${error}`);
+      throw AppError.internal('Failed to release stock', 'DATABASE_ERROR');
+    }
+  }
+
+  async expireHolds(now: Date): Promise<number> {
+    try {
+      return await this.prisma.$transaction((tx) =>
+        releaseHolds(
+          tx,
+          {
+            expiresAt: { lt: now },
+            // A payment in flight keeps its order's stock until the provider answers or the
+            // payment expires (expire-stale-payments), which releases the holds with it
+            OR: [
+              { orderId: null },
+              {
+                order: {
+                  paymentTransactions: {
+                    none: { status: { in: [PaymentStatus.PENDING, PaymentStatus.PROCESSING] } },
+                  },
+                },
+              },
+            ],
+          },
+          ReservationStatus.EXPIRED,
+          'TIMEOUT',
+        ),
+      );
+    } catch (error) {
+      this.logger.error(`Error expiring stock reservations: ${error}`);
+      throw AppError.internal('Failed to expire stock reservations', 'DATABASE_ERROR');
+    }
+  }
+
+  async getStockLevels(productIds: string[]): Promise<StockLevel[]> {
+    try {
+      const products = await this.prisma.product.findMany({
+        where: { id: { in: productIds }, deletedAt: null },
+        include: {
+          variants: { where: { isActive: true }, orderBy: { sortOrder: 'asc' } },
+        },
+      });
+
+      return products.map((product) => ({
+        productId: product.id,
+        sellerId: product.sellerId,
+        name: product.name,
+        status: product.status,
+        lowStockThreshold: product.lowStockThreshold,
+        // Products with variants keep their stock on the variants
+        units:
+          product.hasVariants && product.variants.length > 0
+            ? product.variants.map((variant) => ({
+                productId: product.id,
+                variantId: variant.id,
+                name: variant.name ? `${product.name} - ${variant.name}` : product.name,
+                quantity: variant.quantity,
+                reservedQuantity: variant.reservedQuantity,
+                lowStockAlertedAt: variant.lowStockAlertedAt,
+              }))
+            : [
+                {
+                  productId: product.id,
+                  variantId: null,
+                  name: product.name,
+                  quantity: product.quantity,
+                  reservedQuantity: product.reservedQuantity,
+                  lowStockAlertedAt: product.lowStockAlertedAt,
+                },
+              ],
+      }));
+    } catch (error) {
+      this.logger.error(`Error getting stock levels: ${error}`);
+      throw AppError.internal('Failed to get stock levels', 'DATABASE_ERROR');
+    }
+  }
+
+  async getOrderProductIds(orderId: string): Promise<string[]> {
+    const items = await this.prisma.orderItem.findMany({
+      where: { orderId, productId: { not: null } },
+      select: { productId: true },
+      distinct: ['productId'],
+    });
+
+    return items.map((item) => item.productId!);
+  }
+
+  async updateStockStatus(
+    productId: string,
+    from: ProductStatus,
+    to: ProductStatus,
+  ): Promise<boolean> {
+    try {
+      // Only moves products still in the expected status, so a seller's own change wins
+      const result = await this.prisma.product.updateMany({
+        where: { id: productId, status: from, deletedAt: null },
+        data: { status: to },
+      });
+
+      return result.count > 0;
+    } catch (error) {
+      this.logger.error(`Error updating stock status: ${error}`);
+      throw AppError.internal('Failed to update stock status', 'DATABASE_ERROR');
+    }
+  }
+
+  async setLowStockAlerted(unit: StockUnit, alertedAt: Date | null): Promise<void> {
+    try {
+      if (unit.variantId) {
+        await this.prisma.productVariant.update({
+          where: { id: unit.variantId },
+          data: { lowStockAlertedAt: alertedAt },
+        });
+      } else {
+        await this.prisma.product.update({
+          where: { id: unit.productId },
+          data: { lowStockAlertedAt: alertedAt },
+        });
+      }
+    } catch (error) {
+      this.logger.error(`Error updating low stock alert: ${error}`);
+      throw AppError.internal('Failed to update low stock alert', 'DATABASE_ERROR');
+    }
+  }
+
+  async saveStockSubscription(
+    userId: string,
+    productId: string,
+    variantId?: string | null,
+  ): Promise<StockSubscriptionWithProduct> {
+    try {
+      const existing = await this.prisma.stockSubscription.findFirst({
+        where: { userId, productId, variantId: variantId ?? null },
+      });
+
+      // Subscribing again after a notification waits for the next restock
+      const subscription = existing
+        ? await this.prisma.stockSubscription.update({
+            where: { id: existing.id },
+            data: { notifiedAt: null },
+            include: this.subscriptionInclude,
+          })
+        : await this.prisma.stockSubscription.create({
+            data: { userId, productId, variantId: variantId ?? null },
+            include: this.subscriptionInclude,
+          });
+
+      return subscription as StockSubscriptionWithProduct;
+    } catch (error) {
+      this.logger.error(`Error saving stock subscription: ${error}`);
+      throw AppError.internal('Failed to save stock subscription', 'DATABASE_ERROR');
+    }
+  }
+
+  async getUserStockSubscriptions(userId: string): Promise<StockSubscriptionWithProduct[]> {
+    try {
+      const subscriptions = await this.prisma.stockSubscription.findMany({
+        where: { userId },
+        include: this.subscriptionInclude,
+        orderBy: { createdAt: 'desc' },
+      });
+
+      return subscriptions as StockSubscriptionWithProduct[];
+    } catch (error) {
+      this.logger.error(`Error getting stock subscriptions: ${error}`);
+      throw AppError.internal('Failed to get stock subscriptions', 'DATABASE_ERROR');
+    }
+  }
+
+  async getStockSubscription(id: string): Promise<StockSubscription | null> {
+    return await this.prisma.stockSubscription.findUnique({ where: { id } });
+  }
+
+  async getPendingStockSubscriptions(productId: string): Promise<StockSubscription[]> {
+    try {
+      return await this.prisma.stockSubscription.findMany({
+        where: { productId, notifiedAt: null },
+        orderBy: { createdAt: 'asc' },
+      });
+    } catch (error) {
+      this.logger.error(`Error getting pending stock subscriptions: ${error}`);
+      throw AppError.internal('Failed to get stock subscriptions', 'DATABASE_ERROR');
+    }
+  }
+
+  async markStockSubscriptionsNotified(ids: string[], notifiedAt: Date): Promise<void> {
+    try {
+      await this.prisma.stockSubscription.updateMany({
+        where: { id: { in: ids } },
+        data: { notifiedAt },
+      });
+    } catch (error) {
+      this.logger.error(`Error marking stock subscriptions notified: ${error}`);
+      throw AppError.internal('Failed to update stock subscriptions', 'DATABASE_ERROR');
+    }
+  }
+
+  async deleteStockSubscription(id: string): Promise<boolean> {
+    try {
+      await this.prisma.stockSubscription.delete({ where: { id } });
+      return true;
+    } catch (error) {
+      this.logger.error(`Error deleting stock subscription: ${error}`);
+      throw AppError.internal('Failed to delete stock subscription', 'DATABASE_ERROR');
+    }
+  }
+}
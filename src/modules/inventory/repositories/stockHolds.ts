@@ -0,0 +1,139 @@
+import { Prisma } from '@prisma/client';
+import { ReservationItem, ReservationStatus } from '../models/StockReservation';
+import { AppError } from '../../../core/errors/AppError';
+
+/**
+ * Stock hold primitives shared by every repository that moves stock inside a transaction
+ * (cart checkout, order placement, payment and cancellation).
+ */
+
+/**
+ * Adds to the reserved quantity only while enough unreserved stock is left, so two buyers
+ * can never hold the same unit
+ */
+export async function holdStock(
+  tx: Prisma.TransactionClient,
+  item: ReservationItem,
+): Promise<void> {
+  const updated = item.variantId
+    ? await tx.$executeRaw`
+        UPDATE "ProductVariant"
+        SET "reservedQuantity" = "reservedQuantity" + ${item.quantity}
+        WHERE "id" = ${item.variantId}
+          AND "quantity" - "reservedQuantity" >= ${item.quantity}
+      `
+    : await tx.$executeRaw`
+        UPDATE "Product"
+        SET "reservedQuantity" = "reservedQuantity" + ${item.quantity}
+        WHERE "id" = ${item.productId}
+          AND "quantity" - "reservedQuantity" >= ${item.quantity}
+      `;
+
+  if (updated === 0) {
+    throw AppError.conflict(
+      `Insufficient stock for ${item.name || 'a product in your cart'}`,
+      'INSUFFICIENT_STOCK',
+    );
+  }
+}
+
+/**
+ * Holds each item and records the reservations
+ */
+export async function createHolds(
+  tx: Prisma.TransactionClient,
+  data: {
+    userId: string;
+    orderId?: string;
+    items: ReservationItem[];
+    expiresAt: Date;
+  },
+): Promise<void> {
+  for (const item of data.items) {
+    await holdStock(tx, item);
+
+    await tx.stockReservation.create({
+      data: {
+        userId: data.userId,
+        orderId: data.orderId,
+        productId: item.productId,
+        variantId: item.variantId,
+        quantity: item.quantity,
+        expiresAt: data.expiresAt,
+      },
+    });
+  }
+}
+
+/**
+ * Gives active holds back to the pool. Each reservation is closed with a conditional update
+ * first, so a hold released twice concurrently only returns its stock once.
+ */
+export async function releaseHolds(
+  tx: Prisma.TransactionClient,
+  where: Prisma.StockReservationWhereInput,
+  status: ReservationStatus.RELEASED | ReservationStatus.EXPIRED,
+  reason: string,
+): Promise<number> {
+  const holds = await tx.stockReservation.findMany({
+    where: { ...where, status: ReservationStatus.ACTIVE },
+  });
+
+  let released = 0;
+  for (const hold of holds) {
+    const closed = await tx.stockReservation.updateMany({
+      where: { id: hold.id, status: ReservationStatus.ACTIVE },
+      data: { status, releasedAt: new Date(), releaseReason: reason },
+    });
+    if (closed.count === 0) continue;
+
+    await adjustStock(tx, hold, { reservedQuantity: { decrement: hold.quantity } });
+    released++;
+  }
+
+  return released;
+}
+
+/**
+ * Turns active holds into sold stock: the units leave both the on-hand and reserved counts
+ */
+export async function commitHolds(
+  tx: Prisma.TransactionClient,
+  where: Prisma.StockReservationWhereInput,
+): Promise<number> {
+  const holds = await tx.stockReservation.findMany({
+    where: { ...where, status: ReservationStatus.ACTIVE },
+  });
+
+  let committed = 0;
+  for (const hold of holds) {
+    const closed = await tx.stockReservation.updateMany({
+      where: { id: hold.id, status: ReservationStatus.ACTIVE },
+      data: { status: ReservationStatus.COMMITTED },
+    });
+    if (closed.count === 0) continue;
+
+    await adjustStock(tx, hold, {
+      quantity: { decrement: hold.quantity },
+      reservedQuantity: { decrement: hold.quantity },
+    });
+    committed++;
+  }
+
+  return committed;
+}
+
+async function adjustStock(
+  tx: Prisma.TransactionClient,
+  hold: { productId: string; variantId: string | null },
+  data: {
+    quantity?: { decrement: number };
+    reservedQuantity: { decrement: number };
+  },
+): Promise<void> {
+  if (hold.variantId) {
+    await tx.productVariant.update({ where: { id: hold.variantId }, data });
+  } else {
+    await tx.product.update({ where: { id: hold.productId }, data });
+  }
+}
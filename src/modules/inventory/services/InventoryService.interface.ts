@@ -0,0 +1,41 @@
+import { CheckoutReservation } from '../models/StockReservation';
+import {
+  StockSubscriptionWithProduct,
+  CreateStockSubscriptionDto,
+} from '../models/StockSubscription';
+
+export interface IInventoryService {
+  /**
+   * Holds every item in the buyer's cart, replacing holds from an earlier checkout.
+   * Throws INSUFFICIENT_STOCK when another buyer already holds the last units.
+   */
+  reserveCart(userId: string): Promise<CheckoutReservation>;
+  releaseCart(userId: string): Promise<void>;
+
+  // Order holds follow the payment: renewed on each attempt, committed once paid
+  reserveOrder(orderId: string): Promise<void>;
+  commitOrder(orderId: string): Promise<void>;
+  releaseOrder(orderId: string, reason: string): Promise<void>;
+
+  /**
+   * Releases holds past their expiry; returns how many were released
+   */
+  expireReservations(): Promise<number>;
+
+  getReservationExpiry(): Date;
+
+  /**
+   * Re-evaluates products after their stock changed: flips PUBLISHED / OUT_OF_STOCK,
+   * sends low-stock alerts to the seller and back-in-stock notifications to subscribers.
+   * Never throws; the stock change that triggered it has already been saved.
+   */
+  syncStockLevels(productIds: string[]): Promise<void>;
+
+  // "Notify me when available"
+  subscribeToRestock(
+    userId: string,
+    data: CreateStockSubscriptionDto,
+  ): Promise<StockSubscriptionWithProduct>;
+  getStockSubscriptions(userId: string): Promise<StockSubscriptionWithProduct[]>;
+  unsubscribeFromRestock(id: string, userId: string): Promise<void>;
+}
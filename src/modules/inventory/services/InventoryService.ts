@@ -0,0 +1,291 @@
+import { IInventoryService } from './InventoryService.interface';
+import { CheckoutReservation, availableQuantity } from '../models/StockReservation';
+import {
+  StockSubscriptionWithProduct,
+  CreateStockSubscriptionDto,
+  StockLevel,
+} from '../models/StockSubscription';
+import { IInventoryRepository } from '../repositories/InventoryRepository.interface';
+import { ICartRepository } from '../../cart/repositories/CartRepository.interface';
+import { IProductRepository } from '../../product/repositories/ProductRepository.interface';
+import { INotificationService } from '../../notification/services/NotificationService.interface';
+import { ProductStatus } from '../../product/models/ProductEnums';
+import { Config } from '../../../config/config';
+import { AppError } from '../../../core/errors/AppError';
+import { Logger } from '../../../core/logging/Logger';
+import container from '../../../core/di/container';
+
+export class InventoryService implements IInventoryService {
+  private inventoryRepository: IInventoryRepository;
+  private cartRepository: ICartRepository;
+  private productRepository: IProductRepository;
+  private notificationService: INotificationService;
+  private logger = Logger.getInstance();
+
+  constructor() {
+    this.inventoryRepository = container.resolve<IInventoryRepository>('inventoryRepository');
+    this.cartRepository = container.resolve<ICartRepository>('cartRepository');
+    this.productRepository = container.resolve<IProductRepository>('productRepository');
+    this.notificationService = container.resolve<INotificationService>('notificationService');
+  }
+
+  async reserveCart(userId: string): Promise<CheckoutReservation> {
+    try {
+      const cartItems = await this.cartRepository.getCartItems(userId);
+      if (cartItems.length === 0) {
+        throw AppError.badRequest('Cart is empty', 'EMPTY_CART');
+      }
+
+      const expiresAt = this.getReservationExpiry();
+      const reservations = await this.inventoryRepository.replaceCartHolds(
+        userId,
+        cartItems.map((item) => ({
+          productId: item.productId,
+          variantId: item.variantId,
+          quantity: item.quantity,
+          name: item.variant?.name || item.product?.name,
+        })),
+        expiresAt,
+      );
+
+      this.logger.info(
+        `Reserved ${reservations.length} cart items for user ${userId} until ${expiresAt.toISOString()}`,
+      );
+
+      return { expiresAt, reservations };
+    } catch (error) {
+      this.logger.error(`Error reserving cart: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to reserve cart items', 'SERVICE_ERROR');
+    }
+  }
+
+  async releaseCart(userId: string): Promise<void> {
+    try {
+      await this.inventoryRepository.releaseCartHolds(userId, 'CHECKOUT_ABANDONED');
+    } catch (error) {
+      this.logger.error(`Error releasing cart reservation: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to release cart reservation', 'SERVICE_ERROR');
+    }
+  }
+
+  async reserveOrder(orderId: string): Promise<void> {
+    try {
+      await this.inventoryRepository.holdOrderStock(orderId, this.getReservationExpiry());
+    } catch (error) {
+      this.logger.error(`Error reserving order stock: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to reserve order stock', 'SERVICE_ERROR');
+    }
+  }
+
+  async commitOrder(orderId: string): Promise<void> {
+    try {
+      const committed = await this.inventoryRepository.commitOrderHolds(orderId);
+      if (committed > 0) {
+        this.logger.info(`Committed ${committed} stock reservations for order ${orderId}`);
+        await this.syncStockLevels(await this.inventoryRepository.getOrderProductIds(orderId));
+      }
+    } catch (error) {
+      this.logger.error(`Error committing order stock: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to commit order stock', 'SERVICE_ERROR');
+    }
+  }
+
+  async releaseOrder(orderId: string, reason: string): Promise<void> {
+    try {
+      const released = await this.inventoryRepository.releaseOrderHolds(orderId, reason);
+      if (released > 0) {
+        this.logger.info(
+          `Released ${released} stock reservations for order ${orderId} (${reason})`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(`Error releasing order stock: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to release order stock', 'SERVICE_ERROR');
+    }
+  }
+
+  async expireReservations(): Promise<number> {
+    try {
+      const expiredCount = await this.inventoryRepository.expireHolds(new Date());
+
+      if (expiredCount > 0) {
+        this.logger.info(`Released ${expiredCount} expired stock reservations`);
+      }
+
+      return expiredCount;
+    } catch (error) {
+      this.logger.error(`Error expiring stock reservations: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to expire stock reservations', 'SERVICE_ERROR');
+    }
+  }
+
+  async syncStockLevels(productIds: string[]): Promise<void> {
+    const ids = [...new Set(productIds)];
+    if (ids.length === 0) return;
+
+    try {
+      const levels = await this.inventoryRepository.getStockLevels(ids);
+      for (const level of levels) {
+        await this.syncStockLevel(level);
+      }
+    } catch (error) {
+      // Stock changes are already saved; status and alerts catch up on the next change
+      this.logger.error(`Error syncing stock levels: ${error}`);
+    }
+  }
+
+  async subscribeToRestock(
+    userId: string,
+    data: CreateStockSubscriptionDto,
+  ): Promise<StockSubscriptionWithProduct> {
+    try {
+      const product = await this.productRepository.getProductById(data.productId);
+      if (
+        !product ||
+        (product.status !== ProductStatus.PUBLISHED &&
+          product.status !== ProductStatus.OUT_OF_STOCK)
+      ) {
+        throw AppError.notFound('Product not found', 'PRODUCT_NOT_FOUND');
+      }
+
+      if (data.variantId && !product.variants?.some((v) => v.id === data.variantId && v.isActive)) {
+        throw AppError.notFound('Product variant not found', 'VARIANT_NOT_FOUND');
+      }
+
+      const [level] = await this.inventoryRepository.getStockLevels([product.id]);
+      const units = level.units.filter(
+        (unit) => !data.variantId || unit.variantId === data.variantId,
+      );
+      if (
+        product.status === ProductStatus.PUBLISHED &&
+        units.some((unit) => availableQuantity(unit) > 0)
+      ) {
+        throw AppError.badRequest('Product is in stock', 'PRODUCT_IN_STOCK');
+      }
+
+      return await this.inventoryRepository.saveStockSubscription(
+        userId,
+        data.productId,
+        data.variantId,
+      );
+    } catch (error) {
+      this.logger.error(`Error subscribing to restock: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to subscribe to restock', 'SERVICE_ERROR');
+    }
+  }
+
+  async getStockSubscriptions(userId: string): Promise<StockSubscriptionWithProduct[]> {
+    try {
+      return await this.inventoryRepository.getUserStockSubscriptions(userId);
+    } catch (error) {
+      this.logger.error(`Error getting stock subscriptions: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to get stock subscriptions', 'SERVICE_ERROR');
+    }
+  }
+
+  async unsubscribeFromRestock(id: string, userId: string): Promise<void> {
+    try {
+      const subscription = await this.inventoryRepository.getStockSubscription(id);
+      if (!subscription || subscription.userId !== userId) {
+        throw AppError.notFound('Subscription not found', 'SUBSCRIPTION_NOT_FOUND');
+      }
+
+      await this.inventoryRepository.deleteStockSubscription(id);
+    } catch (error) {
+      this.logger.error(`Error unsubscribing from restock: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to unsubscribe from restock', 'SERVICE_ERROR');
+    }
+  }
+
+  getReservationExpiry(): Date {
+    const { reservationTtlMinutes } = Config.getInventoryConfig();
+    return new Date(Date.now() + reservationTtlMinutes * 60 * 1000);
+  }
+
+  private async syncStockLevel(level: StockLevel): Promise<void> {
+    // Only stock on hand counts here; checkout holds come and go too quickly to flip status
+    const inStock = level.units.some((unit) => unit.quantity > 0);
+    let status = level.status;
+
+    if (status === ProductStatus.PUBLISHED && !inStock) {
+      if (
+        await this.inventoryRepository.updateStockStatus(
+          level.productId,
+          ProductStatus.PUBLISHED,
+          ProductStatus.OUT_OF_STOCK,
+        )
+      ) {
+        status = ProductStatus.OUT_OF_STOCK;
+        this.logger.info(`Product ${level.productId} is out of stock`);
+      }
+    } else if (status === ProductStatus.OUT_OF_STOCK && inStock) {
+      if (
+        await this.inventoryRepository.updateStockStatus(
+          level.productId,
+          ProductStatus.OUT_OF_STOCK,
+          ProductStatus.PUBLISHED,
+        )
+      ) {
+        status = ProductStatus.PUBLISHED;
+        this.logger.info(`Product ${level.productId} is back in stock`);
+      }
+    }
+
+    // Alert once when a unit drops to the threshold; re-arm once it is restocked above it
+    for (const unit of level.units) {
+      const isLow = level.lowStockThreshold != null && unit.quantity <= level.lowStockThreshold;
+
+      if (isLow && !unit.lowStockAlertedAt) {
+        await this.inventoryRepository.setLowStockAlerted(unit, new Date());
+        await this.notificationService.notifyLowStock(
+          level.sellerId,
+          level.productId,
+          unit.name,
+          unit.quantity,
+        );
+      } else if (!isLow && unit.lowStockAlertedAt) {
+        await this.inventoryRepository.setLowStockAlerted(unit, null);
+      }
+    }
+
+    if (status !== ProductStatus.PUBLISHED) return;
+
+    const subscriptions = await this.inventoryRepository.getPendingStockSubscriptions(
+      level.productId,
+    );
+    const available = subscriptions.filter((subscription) =>
+      level.units.some(
+        (unit) =>
+          (!subscription.variantId || unit.variantId === subscription.variantId) &&
+          availableQuantity(unit) > 0,
+      ),
+    );
+    if (available.length === 0) return;
+
+    for (const subscription of available) {
+      const unit = level.units.find((u) => u.variantId === subscription.variantId);
+      await this.notificationService.notifyBackInStock(
+        subscription.userId,
+        level.productId,
+        unit?.name || level.name,
+      );
+    }
+
+    await this.inventoryRepository.markStockSubscriptionsNotified(
+      available.map((subscription) => subscription.id),
+      new Date(),
+    );
+    this.logger.info(
+      `Notified ${available.length} subscribers that product ${level.productId} is back in stock`,
+    );
+  }
+}
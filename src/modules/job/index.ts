@@ -0,0 +1,32 @@
+/**
+ * Job Module Exports
+ */
+
+// Export models
+export * from './models/Job';
+
+// Export service interfaces
+export * from './services/JobSchedulerService.interface';
+
+// Export repository interfaces
+export * from './repositories/JobRepository.interface';
+
+// Export validators
+export * from './interface/validators/job.validator';
+
+// Export module registration function
+export function registerJobModule() {
+  console.log('Job module registered');
+
+  return {
+    name: 'job',
+    description: 'Background job scheduler with run history',
+    version: '1.0.0',
+    features: [
+      'Central registry of cron-scheduled jobs',
+      'Single-leader execution across instances',
+      'Run history with outcomes and durations',
+      'Admin job run listing',
+    ],
+  };
+}
@@ -0,0 +1,35 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../shared/utils/ApiResponse';
+import { IJobSchedulerService } from '../../services/JobSchedulerService.interface';
+import { JobRunStatus } from '../../models/Job';
+import container from '../../../../core/di/container';
+
+export class GetJobRunsController extends BaseController {
+  private jobSchedulerService: IJobSchedulerService;
+
+  constructor() {
+    super();
+    this.jobSchedulerService = container.resolve<IJobSchedulerService>('jobSchedulerService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    this.validateAuth(req);
+    this.validateRole(req, ['ADMIN']);
+
+    const options = {
+      page: parseInt(req.query.page as string) || 1,
+      limit: parseInt(req.query.limit as string) || 20,
+      jobName: req.query.jobName as string,
+      status: req.query.status as JobRunStatus,
+    };
+
+    const runs = await this.jobSchedulerService.getJobRuns(options);
+
+    ApiResponse.success(
+      res,
+      { jobs: this.jobSchedulerService.getJobs(), ...runs },
+      'Job runs retrieved successfully',
+    );
+  }
+}
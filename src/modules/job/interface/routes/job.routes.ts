@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { validate } from '../../../../shared/middlewares/validate.middleware';
+import { authenticate, authorize } from '../../../../shared/middlewares/auth.middleware';
+import { getJobRunsQuerySchema } from '../validators/job.validator';
+
+// Controllers
+import { GetJobRunsController } from '../controllers/GetJobRunsController';
+
+const router = Router();
+
+// Initialize controllers
+const getJobRunsController = new GetJobRunsController();
+
+// All routes are admin only
+router.use(authenticate, authorize(['ADMIN']));
+
+router.get('/runs', validate(getJobRunsQuerySchema, 'query'), getJobRunsController.execute);
+
+export default router;
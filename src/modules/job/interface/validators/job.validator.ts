@@ -0,0 +1,9 @@
+import Joi from 'joi';
+import { JobRunStatus } from '../../models/Job';
+
+export const getJobRunsQuerySchema = Joi.object({
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+  jobName: Joi.string().max(100),
+  status: Joi.string().valid(...Object.values(JobRunStatus)),
+});
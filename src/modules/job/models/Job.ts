@@ -0,0 +1,48 @@
+export enum JobRunStatus {
+  RUNNING = 'RUNNING',
+  SUCCEEDED = 'SUCCEEDED',
+  FAILED = 'FAILED',
+}
+
+export interface JobRun {
+  id: string;
+  jobName: string;
+  status: JobRunStatus;
+  instanceId: string;
+  processedCount?: number | null;
+  error?: string | null;
+  startedAt: Date;
+  finishedAt?: Date | null;
+  durationMs?: number | null;
+}
+
+export interface FinishJobRunDto {
+  status: JobRunStatus.SUCCEEDED | JobRunStatus.FAILED;
+  processedCount?: number;
+  error?: string;
+  durationMs: number;
+}
+
+export interface JobRunQueryOptions {
+  page?: number;
+  limit?: number;
+  jobName?: string;
+  status?: JobRunStatus;
+}
+
+/**
+ * A recurring background job. The handler returns the number of records it processed.
+ */
+export interface JobDefinition {
+  name: string;
+  description: string;
+  schedule: string; // cron expression
+  handler: () => Promise<number | void>;
+}
+
+export interface JobInfo {
+  name: string;
+  description: string;
+  schedule: string;
+  isRunning: boolean;
+}
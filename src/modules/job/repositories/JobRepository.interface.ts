@@ -0,0 +1,16 @@
+import { BaseRepository } from '../../../shared/interfaces/BaseRepository';
+import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
+import { JobRun, FinishJobRunDto, JobRunQueryOptions } from '../models/Job';
+
+export interface IJobRepository extends BaseRepository<JobRun, string> {
+  // Run history
+  startRun(jobName: string, instanceId: string): Promise<JobRun>;
+  finishRun(id: string, data: FinishJobRunDto): Promise<JobRun>;
+  getRuns(options: JobRunQueryOptions): Promise<PaginatedResult<JobRun>>;
+
+  /**
+   * Take or renew a lease-based lock. Returns true if ownerId holds the lock afterwards.
+   */
+  acquireLock(name: string, ownerId: string, ttlMs: number): Promise<boolean>;
+  releaseLock(name: string, ownerId: string): Promise<void>;
+}
@@ -0,0 +1,128 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { BasePrismaRepository } from '../../../shared/baseClasses/BasePrismaRepository';
+import { IJobRepository } from './JobRepository.interface';
+import { JobRun, JobRunStatus, FinishJobRunDto, JobRunQueryOptions } from '../models/Job';
+import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
+import { AppError } from '../../../core/errors/AppError';
+import { Logger } from '../../../core/logging/Logger';
+
+export class JobRepository extends BasePrismaRepository<JobRun, string> implements IJobRepository {
+  private logger = Logger.getInstance();
+
+  constructor(prisma: PrismaClient) {
+    super(prisma, 'jobRun');
+  }
+
+  async startRun(jobName: string, instanceId: string): Promise<JobRun> {
+    try {
+      const run = await this.prisma.jobRun.create({
+        data: {
+          jobName,
+          instanceId,
+          status: JobRunStatus.RUNNING,
+        },
+      });
+
+      return run as JobRun;
+    } catch (error) {
+      this.logger.error(`Error starting job run: ${error}`);
+      throw AppError.internal('Failed to record job run', 'DATABASE_ERROR');
+    }
+  }
+
+  async finishRun(id: string, data: FinishJobRunDto): Promise<JobRun> {
+    try {
+      const run = await this.prisma.jobRun.update({
+        where: { id },
+        data: {
+          status: data.status,
+          processedCount: data.processedCount,
+          error: data.error,
+          durationMs: data.durationMs,
+          finishedAt: new Date(),
+        },
+      });
+
+      return run as JobRun;
+    } catch (error) {
+      this.logger.error(`Error finishing job run: ${error}`);
+      throw AppError.internal('Failed to record job run', 'DATABASE_ERROR');
+    }
+  }
+
+  async getRuns(options: JobRunQueryOptions): Promise<PaginatedResult<JobRun>> {
+    try {
+      const { page = 1, limit = 20, jobName, status } = options;
+      const skip = (page - 1) * limit;
+
+      const where: Prisma.JobRunWhereInput = {};
+      if (jobName) where.jobName = jobName;
+      if (status) where.status = status;
+
+      const [total, runs] = await Promise.all([
+        this.prisma.jobRun.count({ where }),
+        this.prisma.jobRun.findMany({
+          where,
+          orderBy: { startedAt: 'desc' },
+          skip,
+          take: limit,
+        }),
+      ]);
+
+      return {
+        data: runs as JobRun[],
+        meta: {
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit),
+        },
+      };
+    } catch (error) {
+      this.logger.error(`Error getting job runs: ${error}`);
+      throw AppError.internal('Failed to get job runs', 'DATABASE_ERROR');
+    }
+  }
+
+  async acquireLock(name: string, ownerId: string, ttlMs: number): Promise<boolean> {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + ttlMs);
+
+    try {
+      // Renew our own lease or take over an expired one in a single conditional update
+      const updated = await this.prisma.jobLock.updateMany({
+        where: {
+          name,
+          OR: [{ ownerId }, { expiresAt: { lt: now } }],
+        },
+        data: { ownerId, expiresAt },
+      });
+
+      if (updated.count > 0) return true;
+
+      // No row yet: the first instance to insert it wins
+      await this.prisma.jobLock.create({
+        data: { name, ownerId, expiresAt },
+      });
+
+      return true;
+    } catch (error) {
+      if ((error as any).code === 'P2002') {
+        return false; // Another instance holds (or just created) the lock
+      }
+
+      this.logger.error(`Error acquiring job lock ${name}: ${error}`);
+      return false;
+    }
+  }
+
+  async releaseLock(name: string, ownerId: string): Promise<void> {
+    try {
+      await this.prisma.jobLock.deleteMany({
+        where: { name, ownerId },
+      });
+    } catch (error) {
+      this.logger.error(`Error releasing job lock ${name}: ${error}`);
+    }
+  }
+}
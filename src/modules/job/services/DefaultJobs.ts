@@ -0,0 +1,87 @@
+import { IJobSchedulerService } from './JobSchedulerService.interface';
+import { IPriceNegotiationService } from '../../price-negotiation/services/PriceNegotiationService.interface';
+import { ICustomOrderService } from '../../custom-order/services/CustomOrderService.interface';
+import { IAuthService } from '../../auth/services/AuthService.interface';
+import { IOrderService } from '../../order/services/OrderService.interface';
+import { IInventoryService } from '../../inventory/services/InventoryService.interface';
+import { IPaymentService } from '../../payment/services/PaymentService.interface';
+import { IRecommendationService } from '../../product/services/RecommendationService.interface';
+import { IFeedService } from '../../feed/services/FeedService.interface';
+import container from '../../../core/di/container';
+
+/**
+ * Register the application's recurring maintenance jobs
+ */
+export function registerDefaultJobs(scheduler: IJobSchedulerService): void {
+  const negotiationService = container.resolve<IPriceNegotiationService>('priceNegotiationService');
+  const customOrderService = container.resolve<ICustomOrderService>('customOrderService');
+  const authService = container.resolve<IAuthService>('authService');
+  const orderService = container.resolve<IOrderService>('orderService');
+  const inventoryService = container.resolve<IInventoryService>('inventoryService');
+  const paymentService = container.resolve<IPaymentService>('paymentService');
+  const recommendationService = container.resolve<IRecommendationService>('recommendationService');
+  const feedService = container.resolve<IFeedService>('feedService');
+
+  scheduler.register({
+    name: 'expire-negotiations',
+    description: 'Expire pending and countered price negotiations past their deadline',
+    schedule: '0 * * * *', // Every hour
+    handler: () => negotiationService.expireOldNegotiations(),
+  });
+
+  scheduler.register({
+    name: 'expire-custom-orders',
+    description: 'Expire pending and countered custom order requests past their deadline',
+    schedule: '15 * * * *', // Every hour at :15
+    handler: () => customOrderService.expireOldOrders(),
+  });
+
+  scheduler.register({
+    name: 'cleanup-expired-tokens',
+    description: 'Delete expired password reset, email verification and refresh tokens',
+    schedule: '30 3 * * *', // Daily at 03:30
+    handler: () => authService.cleanupExpiredTokens(),
+  });
+
+  scheduler.register({
+    name: 'flag-late-deliveries',
+    description: 'Flag undelivered orders whose expected delivery date has passed',
+    schedule: '*/30 * * * *', // Every 30 minutes
+    handler: () => orderService.flagLateDeliveries(),
+  });
+
+  scheduler.register({
+    name: 'expire-stock-reservations',
+    description: 'Put stock held by abandoned checkouts and unpaid orders back on sale',
+    schedule: '* * * * *', // Every minute
+    handler: () => inventoryService.expireReservations(),
+  });
+
+  scheduler.register({
+    name: 'expire-stale-payments',
+    description: 'Fail payments the provider never answered and release their held stock',
+    schedule: '*/5 * * * *', // Every 5 minutes
+    handler: () => paymentService.expireStalePayments(),
+  });
+
+  scheduler.register({
+    name: 'compute-recommendations',
+    description: 'Rebuild related, also-bought and personal product recommendations',
+    schedule: '0 4 * * *', // Daily at 04:00
+    handler: () => recommendationService.computeRecommendations(),
+  });
+
+  scheduler.register({
+    name: 'cleanup-feed-seen-items',
+    description: 'Delete seen feed item marks older than the feed window',
+    schedule: '45 3 * * *', // Daily at 03:45
+    handler: () => feedService.cleanupSeenItems(),
+  });
+
+  scheduler.register({
+    name: 'cleanup-feed-snapshots',
+    description: 'Delete home feed rankings that can no longer be paged',
+    schedule: '50 * * * *', // Every hour at :50
+    handler: () => feedService.cleanupSnapshots(),
+  });
+}
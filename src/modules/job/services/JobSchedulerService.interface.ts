@@ -0,0 +1,22 @@
+import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
+import { JobDefinition, JobInfo, JobRun, JobRunQueryOptions } from '../models/Job';
+
+export interface IJobSchedulerService {
+  /**
+   * Add a job to the registry. Must be called before start().
+   */
+  register(job: JobDefinition): void;
+
+  /**
+   * Schedule all registered jobs and start competing for the leader lock
+   */
+  start(): void;
+
+  /**
+   * Stop scheduling and release the leader lock
+   */
+  stop(): Promise<void>;
+
+  getJobs(): JobInfo[];
+  getJobRuns(options: JobRunQueryOptions): Promise<PaginatedResult<JobRun>>;
+}
@@ -0,0 +1,172 @@
+import os from 'os';
+import cron, { ScheduledTask } from 'node-cron';
+import { v4 as uuidv4 } from 'uuid';
+import { IJobSchedulerService } from './JobSchedulerService.interface';
+import { IJobRepository } from '../repositories/JobRepository.interface';
+import { JobDefinition, JobInfo, JobRun, JobRunQueryOptions, JobRunStatus } from '../models/Job';
+import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
+import { Config } from '../../../config/config';
+import { AppError } from '../../../core/errors/AppError';
+import { Logger } from '../../../core/logging/Logger';
+import container from '../../../core/di/container';
+
+const LEADER_LOCK_NAME = 'job-scheduler';
+
+/**
+ * Central registry for recurring background jobs.
+ *
+ * Every instance schedules the jobs, but only the instance holding the leader lock
+ * executes them. The lock is a lease renewed well before it expires, so if the leader
+ * dies another instance takes over within one lease period.
+ */
+export class JobSchedulerService implements IJobSchedulerService {
+  private jobRepository: IJobRepository;
+  private logger = Logger.getInstance();
+
+  private jobs = new Map<string, JobDefinition>();
+  private tasks: ScheduledTask[] = [];
+  private running = new Set<string>();
+  private leaseTimer?: NodeJS.Timeout;
+  private isLeader = false;
+  private started = false;
+  private readonly instanceId = `${os.hostname()}-${process.pid}-${uuidv4().slice(0, 8)}`;
+
+  constructor() {
+    this.jobRepository = container.resolve<IJobRepository>('jobRepository');
+  }
+
+  register(job: JobDefinition): void {
+    if (this.started) {
+      throw AppError.internal('Cannot register jobs after the scheduler has started');
+    }
+
+    if (this.jobs.has(job.name)) {
+      throw AppError.internal(`Job "${job.name}" is already registered`);
+    }
+
+    if (!cron.validate(job.schedule)) {
+      throw AppError.internal(`Invalid cron expression for job "${job.name}": ${job.schedule}`);
+    }
+
+    this.jobs.set(job.name, job);
+  }
+
+  start(): void {
+    const { enabled, lockTtlMs } = Config.getJobConfig();
+
+    if (!enabled) {
+      this.logger.info('Background jobs are disabled (JOBS_ENABLED=false)');
+      return;
+    }
+
+    if (this.started) return;
+    this.started = true;
+
+    for (const job of this.jobs.values()) {
+      this.tasks.push(
+        cron.schedule(job.schedule, () => this.runJob(job), { name: job.name, noOverlap: true }),
+      );
+    }
+
+    // Renew at a third of the TTL so a single missed renewal does not lose the lease
+    void this.renewLease(lockTtlMs);
+    this.leaseTimer = setInterval(() => this.renewLease(lockTtlMs), Math.floor(lockTtlMs / 3));
+    this.leaseTimer.unref();
+
+    this.logger.info(
+      `Job scheduler started on ${this.instanceId} with ${this.jobs.size} jobs: ${[
+        ...this.jobs.keys(),
+      ].join(', ')}`,
+    );
+  }
+
+  async stop(): Promise<void> {
+    if (!this.started) return;
+
+    this.tasks.forEach((task) => task.stop());
+    this.tasks = [];
+
+    if (this.leaseTimer) {
+      clearInterval(this.leaseTimer);
+      this.leaseTimer = undefined;
+    }
+
+    if (this.isLeader) {
+      await this.jobRepository.releaseLock(LEADER_LOCK_NAME, this.instanceId);
+      this.isLeader = false;
+    }
+
+    this.started = false;
+    this.logger.info('Job scheduler stopped');
+  }
+
+  getJobs(): JobInfo[] {
+    return [...this.jobs.values()].map((job) => ({
+      name: job.name,
+      description: job.description,
+      schedule: job.schedule,
+      isRunning: this.running.has(job.name),
+    }));
+  }
+
+  async getJobRuns(options: JobRunQueryOptions): Promise<PaginatedResult<JobRun>> {
+    try {
+      return await this.jobRepository.getRuns(options);
+    } catch (error) {
+      this.logger.error(`Error getting job runs: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to get job runs', 'SERVICE_ERROR');
+    }
+  }
+
+  // PRIVATE HELPER METHODS
+  private async renewLease(ttlMs: number): Promise<void> {
+    const acquired = await this.jobRepository.acquireLock(LEADER_LOCK_NAME, this.instanceId, ttlMs);
+
+    if (acquired !== this.isLeader) {
+      this.logger.info(
+        acquired
+          ? `Instance ${this.instanceId} is now the job leader`
+          : `Instance ${this.instanceId} lost job leadership`,
+      );
+    }
+
+    this.isLeader = acquired;
+  }
+
+  private async runJob(job: JobDefinition): Promise<void> {
+    if (!this.isLeader || this.running.has(job.name)) return;
+
+    this.running.add(job.name);
+    const startedAt = Date.now();
+    let run: JobRun | null = null;
+
+    try {
+      run = await this.jobRepository.startRun(job.name, this.instanceId);
+
+      const processedCount = await job.handler();
+
+      await this.jobRepository.finishRun(run.id, {
+        status: JobRunStatus.SUCCEEDED,
+        processedCount: typeof processedCount === 'number' ? processedCount : undefined,
+        durationMs: Date.now() - startedAt,
+      });
+    } catch (error) {
+      this.logger.error(`Job ${job.name} failed: ${error}`);
+
+      if (run) {
+        await this.jobRepository
+          .finishRun(run.id, {
+            status: JobRunStatus.FAILED,
+            error: error instanceof Error ? error.message : String(error),
+            durationMs: Date.now() - startedAt,
+          })
+          .catch((finishError) =>
+            this.logger.error(`Error recording failure of job ${job.name}: ${finishError}`),
+          );
+      }
+    } finally {
+      this.running.delete(job.name);
+    }
+  }
+}
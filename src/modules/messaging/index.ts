@@ -4,15 +4,19 @@
 
 // Export models
 export * from './models/Message';
+export * from './models/Conversation';
 
 // Export service interfaces
 export * from './services/MessageService.interface';
+export * from './services/ConversationService.interface';
 
 // Export repository interfaces
 export * from './repositories/MessageRepository.interface';
+export * from './repositories/ConversationRepository.interface';
 
 // Export validators
 export * from './interface/validators/message.validator';
+export * from './interface/validators/conversation.validator';
 
 // Export module registration function
 export function registerMessagingModule() {
@@ -25,6 +29,8 @@ export function registerMessagingModule() {
     features: [
       'Real-time messaging via Socket.io',
       'Conversation management',
+      'Group conversations',
+      'Per-participant mute, archive and pin',
       'Read receipts and typing indicators',
       'Media file sharing',
       'Quote discussion integration',
@@ -0,0 +1,30 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../shared/utils/ApiResponse';
+import { IConversationService } from '../../services/ConversationService.interface';
+import container from '../../../../core/di/container';
+
+export class AddConversationParticipantsController extends BaseController {
+  private conversationService: IConversationService;
+
+  constructor() {
+    super();
+    this.conversationService = container.resolve<IConversationService>('conversationService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      this.validateAuth(req);
+
+      const conversation = await this.conversationService.addParticipants(
+        req.user!.id,
+        req.params.id,
+        req.body.participantIds,
+      );
+
+      ApiResponse.success(res, conversation, 'Participants added successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+}
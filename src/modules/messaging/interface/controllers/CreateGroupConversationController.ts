@@ -0,0 +1,26 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../shared/utils/ApiResponse';
+import { IConversationService } from '../../services/ConversationService.interface';
+import container from '../../../../core/di/container';
+
+export class CreateGroupConversationController extends BaseController {
+  private conversationService: IConversationService;
+
+  constructor() {
+    super();
+    this.conversationService = container.resolve<IConversationService>('conversationService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      this.validateAuth(req);
+
+      const conversation = await this.conversationService.createGroup(req.user!.id, req.body);
+
+      ApiResponse.created(res, conversation, 'Group conversation created successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import { BaseController } from '../../../../shared/baseClasses/BaseController';
 import { ApiResponse } from '../../../../shared/utils/ApiResponse';
 import { IMessageService } from '../../services/MessageService.interface';
+import { MessageDeleteScope } from '../../models/Message';
 import container from '../../../../core/di/container';
 
 export class DeleteMessageController extends BaseController {
@@ -17,10 +18,15 @@ export class DeleteMessageController extends BaseController {
       this.validateAuth(req);
 
       const { id } = req.params;
-      const result = await this.messageService.deleteMessage(id, req.user!.id);
+      const scope = req.query.scope as unknown as MessageDeleteScope;
+      const result = await this.messageService.deleteMessage(id, req.user!.id, scope);
 
       if (result) {
-        ApiResponse.success(res, null, 'Message deleted successfully');
+        const message =
+          scope === MessageDeleteScope.ME
+            ? 'Message deleted for you'
+            : 'Message deleted successfully';
+        ApiResponse.success(res, null, message);
       } else {
         ApiResponse.notFound(res, 'Message not found or you cannot delete this message');
       }
@@ -0,0 +1,30 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../shared/utils/ApiResponse';
+import { IMessageService } from '../../services/MessageService.interface';
+import container from '../../../../core/di/container';
+
+export class EditMessageController extends BaseController {
+  private messageService: IMessageService;
+
+  constructor() {
+    super();
+    this.messageService = container.resolve<IMessageService>('messageService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      this.validateAuth(req);
+
+      const message = await this.messageService.editMessage(
+        req.params.id,
+        req.user!.id,
+        req.body.content,
+      );
+
+      ApiResponse.success(res, message, 'Message edited successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -20,14 +20,15 @@ export class GetConversationMessagesController extends BaseController {
       const page = parseInt(req.query.page as string) || 1;
       const limit = parseInt(req.query.limit as string) || 20;
 
-      const messages = await this.messageService.getConversationMessages(
-        req.user!.id,
-        userId,
-        page,
-        limit,
-      );
+      // Cursor pages don't shift when new messages arrive
+      const messages = this.isCursorPagination(req)
+        ? await this.messageService.getConversationMessagesByCursor(req.user!.id, userId, {
+            cursor: req.query.cursor as string | undefined,
+            limit,
+          })
+        : await this.messageService.getConversationMessages(req.user!.id, userId, page, limit);
 
-      ApiResponse.success(res, messages, 'Conversation messages retrieved successfully');
+      ApiResponse.paginated(res, messages, 'Conversation messages retrieved successfully');
     } catch (error) {
       next(error);
     }
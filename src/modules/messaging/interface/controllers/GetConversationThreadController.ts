@@ -0,0 +1,36 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../shared/utils/ApiResponse';
+import { IMessageService } from '../../services/MessageService.interface';
+import container from '../../../../core/di/container';
+
+export class GetConversationThreadController extends BaseController {
+  private messageService: IMessageService;
+
+  constructor() {
+    super();
+    this.messageService = container.resolve<IMessageService>('messageService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      this.validateAuth(req);
+
+      const { id } = req.params;
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 20;
+
+      // Cursor pages don't shift when new messages arrive
+      const messages = this.isCursorPagination(req)
+        ? await this.messageService.getThreadMessagesByCursor(req.user!.id, id, {
+            cursor: req.query.cursor as string | undefined,
+            limit,
+          })
+        : await this.messageService.getThreadMessages(req.user!.id, id, page, limit);
+
+      ApiResponse.paginated(res, messages, 'Conversation messages retrieved successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -1,22 +1,24 @@
 import { Request, Response, NextFunction } from 'express';
 import { BaseController } from '../../../../shared/baseClasses/BaseController';
 import { ApiResponse } from '../../../../shared/utils/ApiResponse';
-import { IMessageService } from '../../services/MessageService.interface';
+import { IConversationService } from '../../services/ConversationService.interface';
 import container from '../../../../core/di/container';
 
 export class GetConversationsController extends BaseController {
-  private messageService: IMessageService;
+  private conversationService: IConversationService;
 
   constructor() {
     super();
-    this.messageService = container.resolve<IMessageService>('messageService');
+    this.conversationService = container.resolve<IConversationService>('conversationService');
   }
 
   protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       this.validateAuth(req);
 
-      const conversations = await this.messageService.getConversations(req.user!.id);
+      const conversations = await this.conversationService.getConversations(req.user!.id, {
+        archived: String(req.query.archived) === 'true',
+      });
 
       ApiResponse.success(res, conversations, 'Conversations retrieved successfully');
     } catch (error) {
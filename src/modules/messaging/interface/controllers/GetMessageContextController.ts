@@ -0,0 +1,32 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../shared/utils/ApiResponse';
+import { IMessageService } from '../../services/MessageService.interface';
+import container from '../../../../core/di/container';
+
+export class GetMessageContextController extends BaseController {
+  private messageService: IMessageService;
+
+  constructor() {
+    super();
+    this.messageService = container.resolve<IMessageService>('messageService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      this.validateAuth(req);
+
+      const limit = parseInt(req.query.limit as string) || 10;
+
+      const context = await this.messageService.getMessageContext(
+        req.params.id,
+        req.user!.id,
+        limit,
+      );
+
+      ApiResponse.success(res, context, 'Message context retrieved successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../shared/utils/ApiResponse';
+import { IMessageService } from '../../services/MessageService.interface';
+import container from '../../../../core/di/container';
+
+export class MarkConversationThreadAsReadController extends BaseController {
+  private messageService: IMessageService;
+
+  constructor() {
+    super();
+    this.messageService = container.resolve<IMessageService>('messageService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      this.validateAuth(req);
+
+      await this.messageService.markThreadAsRead(req.user!.id, req.params.id);
+
+      ApiResponse.success(res, null, 'Conversation marked as read');
+    } catch (error) {
+      next(error);
+    }
+  }
+}
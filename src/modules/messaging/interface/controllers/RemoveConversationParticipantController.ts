@@ -0,0 +1,33 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../shared/utils/ApiResponse';
+import { IConversationService } from '../../services/ConversationService.interface';
+import container from '../../../../core/di/container';
+
+export class RemoveConversationParticipantController extends BaseController {
+  private conversationService: IConversationService;
+
+  constructor() {
+    super();
+    this.conversationService = container.resolve<IConversationService>('conversationService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      this.validateAuth(req);
+
+      const { id, userId } = req.params;
+      const conversation = await this.conversationService.removeParticipant(
+        req.user!.id,
+        id,
+        userId,
+      );
+
+      const message =
+        userId === req.user!.id ? 'You left the conversation' : 'Participant removed successfully';
+      ApiResponse.success(res, conversation, message);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
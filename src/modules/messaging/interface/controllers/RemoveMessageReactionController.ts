@@ -0,0 +1,30 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../shared/utils/ApiResponse';
+import { IMessageService } from '../../services/MessageService.interface';
+import container from '../../../../core/di/container';
+
+export class RemoveMessageReactionController extends BaseController {
+  private messageService: IMessageService;
+
+  constructor() {
+    super();
+    this.messageService = container.resolve<IMessageService>('messageService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      this.validateAuth(req);
+
+      await this.messageService.removeReaction(
+        req.params.id,
+        req.user!.id,
+        req.query.emoji as string,
+      );
+
+      ApiResponse.success(res, null, 'Reaction removed');
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../shared/utils/ApiResponse';
+import { IConversationService } from '../../services/ConversationService.interface';
+import container from '../../../../core/di/container';
+
+export class UpdateConversationController extends BaseController {
+  private conversationService: IConversationService;
+
+  constructor() {
+    super();
+    this.conversationService = container.resolve<IConversationService>('conversationService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      this.validateAuth(req);
+
+      const conversation = await this.conversationService.updateTitle(
+        req.user!.id,
+        req.params.id,
+        req.body.title,
+      );
+
+      ApiResponse.success(res, conversation, 'Conversation updated successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+}
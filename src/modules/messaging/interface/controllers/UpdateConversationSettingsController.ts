@@ -0,0 +1,30 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../shared/utils/ApiResponse';
+import { IConversationService } from '../../services/ConversationService.interface';
+import container from '../../../../core/di/container';
+
+export class UpdateConversationSettingsController extends BaseController {
+  private conversationService: IConversationService;
+
+  constructor() {
+    super();
+    this.conversationService = container.resolve<IConversationService>('conversationService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      this.validateAuth(req);
+
+      const settings = await this.conversationService.updateSettings(
+        req.user!.id,
+        req.params.id,
+        req.body,
+      );
+
+      ApiResponse.success(res, settings, 'Conversation settings updated successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+}
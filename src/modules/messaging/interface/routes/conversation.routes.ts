@@ -0,0 +1,109 @@
+import { Router } from 'express';
+import { validate } from '../../../../shared/middlewares/validate.middleware';
+import { authenticate } from '../../../../shared/middlewares/auth.middleware';
+import { validateIdParam } from '../../../../shared/middlewares/request-validation.middleware';
+
+// Controllers
+import { GetConversationsController } from '../controllers/GetConversationsController';
+import { GetConversationController } from '../controllers/GetConversationController';
+import { CreateGroupConversationController } from '../controllers/CreateGroupConversationController';
+import { UpdateConversationController } from '../controllers/UpdateConversationController';
+import { UpdateConversationSettingsController } from '../controllers/UpdateConversationSettingsController';
+import { GetConversationThreadController } from '../controllers/GetConversationThreadController';
+import { SendConversationMessageController } from '../controllers/SendConversationMessageController';
+import { MarkConversationThreadAsReadController } from '../controllers/MarkConversationThreadAsReadController';
+import { AddConversationParticipantsController } from '../controllers/AddConversationParticipantsController';
+import { RemoveConversationParticipantController } from '../controllers/RemoveConversationParticipantController';
+
+// Validators
+import {
+  getConversationsQuerySchema,
+  createGroupConversationSchema,
+  updateConversationSchema,
+  updateConversationSettingsSchema,
+  addConversationParticipantsSchema,
+  sendConversationMessageSchema,
+} from '../validators/conversation.validator';
+import { getConversationMessagesQuerySchema } from '../validators/message.validator';
+
+const router = Router();
+
+// Initialize controllers
+const getConversationsController = new GetConversationsController();
+const getConversationController = new GetConversationController();
+const createGroupConversationController = new CreateGroupConversationController();
+const updateConversationController = new UpdateConversationController();
+const updateConversationSettingsController = new UpdateConversationSettingsController();
+const getConversationThreadController = new GetConversationThreadController();
+const sendConversationMessageController = new SendConversationMessageController();
+const markConversationThreadAsReadController = new MarkConversationThreadAsReadController();
+const addConversationParticipantsController = new AddConversationParticipantsController();
+const removeConversationParticipantController = new RemoveConversationParticipantController();
+
+// All routes require authentication
+router.use(authenticate);
+
+// ===== CONVERSATIONS =====
+// List own conversations (direct and group), pinned first
+router.get('/', validate(getConversationsQuerySchema, 'query'), getConversationsController.execute);
+
+// Start a group conversation
+router.post(
+  '/',
+  validate(createGroupConversationSchema),
+  createGroupConversationController.execute,
+);
+
+router.get('/:id', validateIdParam(), getConversationController.execute);
+
+// Rename a group (owner only)
+router.patch(
+  '/:id',
+  validateIdParam(),
+  validate(updateConversationSchema),
+  updateConversationController.execute,
+);
+
+// Mute, archive or pin for the current user only
+router.patch(
+  '/:id/settings',
+  validateIdParam(),
+  validate(updateConversationSettingsSchema),
+  updateConversationSettingsController.execute,
+);
+
+// ===== MESSAGES =====
+router.get(
+  '/:id/messages',
+  validateIdParam(),
+  validate(getConversationMessagesQuerySchema, 'query'),
+  getConversationThreadController.execute,
+);
+
+router.post(
+  '/:id/messages',
+  validateIdParam(),
+  validate(sendConversationMessageSchema),
+  sendConversationMessageController.execute,
+);
+
+router.patch('/:id/read', validateIdParam(), markConversationThreadAsReadController.execute);
+
+// ===== PARTICIPANTS =====
+// Add people to a group (owner only)
+router.post(
+  '/:id/participants',
+  validateIdParam(),
+  validate(addConversationParticipantsSchema),
+  addConversationParticipantsController.execute,
+);
+
+// Remove someone (owner), or leave when it is yourself
+router.delete(
+  '/:id/participants/:userId',
+  validateIdParam(),
+  validateIdParam('userId'),
+  removeConversationParticipantController.execute,
+);
+
+export default router;
@@ -8,9 +8,15 @@ import { SendMessageController } from '../controllers/SendMessageController';
 import { GetConversationsController } from '../controllers/GetConversationsController';
 import { GetConversationMessagesController } from '../controllers/GetConversationMessagesController';
 import { GetMessagesController } from '../controllers/GetMessagesController';
+import { SearchMessagesController } from '../controllers/SearchMessagesController';
+import { GetMessageContextController } from '../controllers/GetMessageContextController';
 import { MarkAsReadController } from '../controllers/MarkAsReadController';
 import { MarkConversationAsReadController } from '../controllers/MarkConversationAsReadController';
 import { DeleteMessageController } from '../controllers/DeleteMessageController';
+import { EditMessageController } from '../controllers/EditMessageController';
+import { GetMessageRevisionsController } from '../controllers/GetMessageRevisionsController';
+import { AddMessageReactionController } from '../controllers/AddMessageReactionController';
+import { RemoveMessageReactionController } from '../controllers/RemoveMessageReactionController';
 import { GetUnreadCountController } from '../controllers/GetUnreadCountController';
 import { SendCustomOrderController } from '../controllers/SendCustomOrderController';
 
@@ -18,10 +24,17 @@ import { SendCustomOrderController } from '../controllers/SendCustomOrderControl
 import {
   sendMessageSchema,
   getMessagesQuerySchema,
+  searchMessagesQuerySchema,
+  messageContextQuerySchema,
+  getConversationMessagesQuerySchema,
   sendQuoteMessageSchema,
   sendMediaMessageSchema,
+  editMessageSchema,
+  messageReactionSchema,
+  deleteMessageQuerySchema,
 } from '../validators/message.validator';
 import { sendCustomOrderMessageSchema } from '../validators/customOrderMessage.validator';
+import { getConversationsQuerySchema } from '../validators/conversation.validator';
 
 const router = Router();
 
@@ -30,9 +43,15 @@ const sendMessageController = new SendMessageController();
 const getConversationsController = new GetConversationsController();
 const getConversationMessagesController = new GetConversationMessagesController();
 const getMessagesController = new GetMessagesController();
+const searchMessagesController = new SearchMessagesController();
+const getMessageContextController = new GetMessageContextController();
 const markAsReadController = new MarkAsReadController();
 const markConversationAsReadController = new MarkConversationAsReadController();
 const deleteMessageController = new DeleteMessageController();
+const editMessageController = new EditMessageController();
+const getMessageRevisionsController = new GetMessageRevisionsController();
+const addMessageReactionController = new AddMessageReactionController();
+const removeMessageReactionController = new RemoveMessageReactionController();
 const getUnreadCountController = new GetUnreadCountController();
 const sendCustomOrderController = new SendCustomOrderController();
 
@@ -43,16 +62,36 @@ router.use(authenticate);
 // Send message (supports all types: text, image, file, quote discussion)
 router.post('/', validate(sendMessageSchema), sendMessageController.execute);
 
-// Get conversations list
-router.get('/conversations', getConversationsController.execute);
+// Get conversations list (same as GET /api/conversations)
+router.get(
+  '/conversations',
+  validate(getConversationsQuerySchema, 'query'),
+  getConversationsController.execute,
+);
 
 // Get messages (with filtering)
 router.get('/', validate(getMessagesQuerySchema, 'query'), getMessagesController.execute);
 
+// Full-text search over own messages (keyword, partner, type, date range)
+router.get(
+  '/search',
+  validate(searchMessagesQuerySchema, 'query'),
+  searchMessagesController.execute,
+);
+
+// Messages around a search result, to jump into the conversation
+router.get(
+  '/:id/context',
+  validateIdParam(),
+  validate(messageContextQuerySchema, 'query'),
+  getMessageContextController.execute,
+);
+
 // Get conversation messages with specific user
 router.get(
   '/conversations/:userId',
   validateIdParam('userId'),
+  validate(getConversationMessagesQuerySchema, 'query'),
   getConversationMessagesController.execute,
 );
 
@@ -78,7 +117,32 @@ router.patch(
   markConversationAsReadController.execute,
 );
 
-// Delete message
-router.delete('/:id', validateIdParam(), deleteMessageController.execute);
+// Edit own message (within 15 minutes); earlier versions are kept
+router.patch('/:id', validateIdParam(), validate(editMessageSchema), editMessageController.execute);
+
+router.get('/:id/revisions', validateIdParam(), getMessageRevisionsController.execute);
+
+// Emoji reactions
+router.put(
+  '/:id/reactions',
+  validateIdParam(),
+  validate(messageReactionSchema),
+  addMessageReactionController.execute,
+);
+
+router.delete(
+  '/:id/reactions',
+  validateIdParam(),
+  validate(messageReactionSchema, 'query'),
+  removeMessageReactionController.execute,
+);
+
+// Delete message: ?scope=everyone (sender only, default) or ?scope=me
+router.delete(
+  '/:id',
+  validateIdParam(),
+  validate(deleteMessageQuerySchema, 'query'),
+  deleteMessageController.execute,
+);
 
 export default router;
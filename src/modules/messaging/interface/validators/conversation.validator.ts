@@ -0,0 +1,76 @@
+import Joi from 'joi';
+import { MessageType } from '../../models/Message';
+
+export const getConversationsQuerySchema = Joi.object({
+  archived: Joi.boolean().default(false),
+});
+
+export const createGroupConversationSchema = Joi.object({
+  title: Joi.string().trim().min(1).max(100).required().messages({
+    'string.empty': 'Title is required',
+    'string.max': 'Title cannot exceed 100 characters',
+    'any.required': 'Title is required',
+  }),
+  participantIds: Joi.array()
+    .items(Joi.string().uuid())
+    .min(1)
+    .max(49)
+    .unique()
+    .required()
+    .messages({
+      'array.min': 'At least one participant is required',
+      'array.max': 'A group conversation cannot have more than 50 participants',
+      'any.required': 'Participants are required',
+    }),
+});
+
+export const updateConversationSchema = Joi.object({
+  title: Joi.string().trim().min(1).max(100).required().messages({
+    'string.empty': 'Title is required',
+    'string.max': 'Title cannot exceed 100 characters',
+    'any.required': 'Title is required',
+  }),
+});
+
+export const updateConversationSettingsSchema = Joi.object({
+  isMuted: Joi.boolean(),
+  isArchived: Joi.boolean(),
+  isPinned: Joi.boolean(),
+})
+  .min(1)
+  .messages({
+    'object.min': 'At least one setting must be provided',
+  });
+
+export const addConversationParticipantsSchema = Joi.object({
+  participantIds: Joi.array()
+    .items(Joi.string().uuid())
+    .min(1)
+    .max(49)
+    .unique()
+    .required()
+    .messages({
+      'array.min': 'At least one participant is required',
+      'any.required': 'Participants are required',
+    }),
+});
+
+export const sendConversationMessageSchema = Joi.object({
+  content: Joi.string().required().min(1).max(2000).messages({
+    'string.empty': 'Message content is required',
+    'string.min': 'Message cannot be empty',
+    'string.max': 'Message cannot exceed 2000 characters',
+    'any.required': 'Message content is required',
+  }),
+  type: Joi.string()
+    .valid(...Object.values(MessageType))
+    .default(MessageType.TEXT),
+  attachments: Joi.array().items(Joi.string().uri()).max(10).messages({
+    'array.max': 'Maximum 10 attachments allowed',
+  }),
+  quoteRequestId: Joi.string().uuid().allow(null),
+  productMentions: Joi.object().allow(null),
+  replyToId: Joi.string().uuid().messages({
+    'string.uuid': 'Reply target must be a valid message ID',
+  }),
+});
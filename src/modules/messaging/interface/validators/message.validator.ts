@@ -1,10 +1,12 @@
 import Joi from 'joi';
-import { MessageType } from '../../models/Message';
+import { MessageDeleteScope, MessageType } from '../../models/Message';
 
 export const sendMessageSchema = Joi.object({
-  receiverId: Joi.string().uuid().required().messages({
+  receiverId: Joi.string().uuid().messages({
     'string.uuid': 'Receiver ID must be a valid UUID',
-    'any.required': 'Receiver ID is required',
+  }),
+  conversationId: Joi.string().uuid().messages({
+    'string.uuid': 'Conversation ID must be a valid UUID',
   }),
   content: Joi.string().required().min(1).max(2000).messages({
     'string.empty': 'Message content is required',
@@ -20,7 +22,15 @@ export const sendMessageSchema = Joi.object({
   }),
   quoteRequestId: Joi.string().uuid().allow(null),
   productMentions: Joi.object().allow(null),
-});
+  replyToId: Joi.string().uuid().messages({
+    'string.uuid': 'Reply target must be a valid message ID',
+  }),
+})
+  .xor('receiverId', 'conversationId')
+  .messages({
+    'object.missing': 'Receiver ID or conversation ID is required',
+    'object.xor': 'Provide either a receiver ID or a conversation ID, not both',
+  });
 
 export const getMessagesQuerySchema = Joi.object({
   page: Joi.number().integer().min(1).default(1),
@@ -32,6 +42,31 @@ export const getMessagesQuerySchema = Joi.object({
   dateTo: Joi.date().iso().min(Joi.ref('dateFrom')),
 });
 
+export const searchMessagesQuerySchema = Joi.object({
+  q: Joi.string().trim().min(1).max(200).required().messages({
+    'string.empty': 'Search keyword is required',
+    'any.required': 'Search keyword is required',
+  }),
+  partnerId: Joi.string().uuid(),
+  conversationId: Joi.string().uuid(),
+  type: Joi.string().valid(...Object.values(MessageType)),
+  dateFrom: Joi.date().iso(),
+  dateTo: Joi.date().iso().min(Joi.ref('dateFrom')),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(50).default(20),
+});
+
+export const messageContextQuerySchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(50).default(10),
+});
+
+export const getConversationMessagesQuerySchema = Joi.object({
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+  pagination: Joi.string().valid('offset', 'cursor').default('offset'),
+  cursor: Joi.string().max(200),
+});
+
 export const sendQuoteMessageSchema = Joi.object({
   quoteId: Joi.string().uuid().required().messages({
     'string.uuid': 'Quote ID must be a valid UUID',
@@ -54,3 +89,26 @@ export const sendMediaMessageSchema = Joi.object({
   mediaType: Joi.string().valid('image', 'file').required(),
   content: Joi.string().max(500).allow(''),
 });
+
+export const editMessageSchema = Joi.object({
+  content: Joi.string().required().min(1).max(2000).messages({
+    'string.empty': 'Message content is required',
+    'string.min': 'Message cannot be empty',
+    'string.max': 'Message cannot exceed 2000 characters',
+    'any.required': 'Message content is required',
+  }),
+});
+
+export const messageReactionSchema = Joi.object({
+  emoji: Joi.string().trim().min(1).max(32).required().messages({
+    'string.empty': 'Emoji is required',
+    'string.max': 'Emoji is too long',
+    'any.required': 'Emoji is required',
+  }),
+});
+
+export const deleteMessageQuerySchema = Joi.object({
+  scope: Joi.string()
+    .valid(...Object.values(MessageDeleteScope))
+    .default(MessageDeleteScope.EVERYONE),
+});
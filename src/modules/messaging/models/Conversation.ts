@@ -0,0 +1,91 @@
+import { Message, MessageReadPointer } from './Message';
+
+export interface ConversationUser {
+  id: string;
+  username: string;
+  firstName: string;
+  lastName: string;
+  avatarUrl?: string;
+  role: string;
+  lastSeenAt?: Date | null;
+}
+
+export interface ConversationParticipant {
+  id: string;
+  conversationId: string;
+  userId: string;
+  role: ConversationRole;
+  isMuted: boolean;
+  isArchived: boolean;
+  isPinned: boolean;
+  pinnedAt?: Date | null;
+  lastReadAt?: Date | null;
+  joinedAt: Date;
+  leftAt?: Date | null;
+  user: ConversationUser;
+}
+
+export interface Conversation {
+  id: string;
+  type: ConversationType;
+  title?: string | null;
+  directKey?: string | null;
+  createdById?: string | null;
+  lastMessageAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ConversationWithParticipants extends Conversation {
+  /**
+   * Current participants only; people who left keep their row with `leftAt` set
+   */
+  participants: ConversationParticipant[];
+}
+
+/**
+ * One entry of a user's conversation list, with that user's own settings
+ */
+export interface ConversationSummary {
+  id: string;
+  type: ConversationType;
+  title?: string | null;
+  participants: ConversationUser[];
+  /**
+   * The other user of a direct conversation
+   */
+  participantId?: string;
+  participant?: ConversationUser;
+  lastMessage?: Message;
+  unreadCount: number;
+  lastActivity: Date;
+  lastRead: MessageReadPointer | null;
+  isMuted: boolean;
+  isArchived: boolean;
+  isPinned: boolean;
+}
+
+export interface ConversationQueryOptions {
+  archived?: boolean;
+}
+
+export interface CreateGroupConversationDto {
+  title: string;
+  participantIds: string[];
+}
+
+export interface UpdateConversationSettingsDto {
+  isMuted?: boolean;
+  isArchived?: boolean;
+  isPinned?: boolean;
+}
+
+export enum ConversationType {
+  DIRECT = 'DIRECT',
+  GROUP = 'GROUP',
+}
+
+export enum ConversationRole {
+  OWNER = 'OWNER',
+  MEMBER = 'MEMBER',
+}
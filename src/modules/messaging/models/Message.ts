@@ -1,16 +1,27 @@
 export interface Message {
   id: string;
+  conversationId: string;
   senderId: string;
-  receiverId: string;
+  /**
+   * Only set in direct conversations
+   */
+  receiverId?: string | null;
   content: string;
   type: MessageType;
   attachments: string[];
   quoteRequestId?: string | null;
   productMentions?: any | null;
+  status: MessageStatus;
+  deliveredAt?: Date | null;
   isRead: boolean;
   readAt?: Date | null;
   isEdited: boolean;
   editedAt?: Date | null;
+  replyToId?: string | null;
+  /**
+   * Deleted for everyone; content and attachments are cleared
+   */
+  deletedAt?: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -25,7 +36,7 @@ export interface MessageWithUsers extends Message {
     role: string;
     lastSeenAt?: Date | null;
   };
-  receiver: {
+  receiver?: {
     id: string;
     username: string;
     firstName: string;
@@ -33,21 +44,56 @@ export interface MessageWithUsers extends Message {
     avatarUrl?: string;
     role: string;
     lastSeenAt?: Date | null;
-  };
+  } | null;
   quoteRequest?: {
     id: string;
     title: string;
     status: string;
   } | null;
+  replyTo?: {
+    id: string;
+    senderId: string;
+    content: string;
+    type: MessageType;
+    deletedAt?: Date | null;
+    sender: {
+      id: string;
+      username: string;
+      firstName: string;
+      lastName: string;
+    };
+  } | null;
+  reactions?: MessageReaction[];
+}
+
+export interface MessageReaction {
+  userId: string;
+  emoji: string;
+  createdAt: Date;
 }
 
+/**
+ * Earlier version of an edited message
+ */
+export interface MessageRevision {
+  id: string;
+  messageId: string;
+  content: string;
+  createdAt: Date;
+}
+
+/**
+ * Either `receiverId` (direct conversation, started on first message) or `conversationId`
+ */
 export interface CreateMessageDto {
-  receiverId: string;
+  receiverId?: string;
+  conversationId?: string;
   content: string;
   type?: MessageType;
   attachments?: string[];
   quoteRequestId?: string;
   productMentions?: any;
+  replyToId?: string;
 }
 
 export interface MessageQueryOptions {
@@ -60,20 +106,73 @@ export interface MessageQueryOptions {
   dateTo?: Date;
 }
 
-export interface Conversation {
-  participantId: string;
-  participant: {
-    id: string;
-    username: string;
-    firstName: string;
-    lastName: string;
-    avatarUrl?: string;
-    role: string;
-    lastSeenAt?: Date | null;
-  };
-  lastMessage?: Message;
-  unreadCount: number;
-  lastActivity: Date;
+/**
+ * Full-text search over the messages a user can still see
+ */
+export interface MessageSearchOptions {
+  q: string;
+  /**
+   * Messages exchanged with this user: their direct conversation, or sent by them in a group
+   */
+  partnerId?: string;
+  conversationId?: string;
+  type?: MessageType;
+  dateFrom?: Date;
+  dateTo?: Date;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * A message with the messages right before and after it in its conversation,
+ * both in chronological order
+ */
+export interface MessageContext {
+  message: MessageWithUsers;
+  before: MessageWithUsers[];
+  after: MessageWithUsers[];
+  hasMoreBefore: boolean;
+  hasMoreAfter: boolean;
+}
+
+/**
+ * Newest of a user's own messages that the other participants have read
+ */
+export interface MessageReadPointer {
+  messageId: string;
+  readAt: Date;
+}
+
+/**
+ * Payload of the `message-status` socket event sent to a message's sender
+ */
+export interface MessageStatusUpdate {
+  messageIds: string[];
+  status: MessageStatus;
+  /**
+   * The receiver, i.e. the other side of the sender's conversation
+   */
+  userId: string;
+  at: Date;
+}
+
+/**
+ * Messages whose state changed, grouped by their sender
+ */
+export interface MessageStatusChange {
+  senderId: string;
+  messageIds: string[];
+}
+
+export enum MessageStatus {
+  SENT = 'SENT',
+  DELIVERED = 'DELIVERED',
+  READ = 'READ',
+}
+
+export enum MessageDeleteScope {
+  ME = 'me',
+  EVERYONE = 'everyone',
 }
 
 export enum MessageType {
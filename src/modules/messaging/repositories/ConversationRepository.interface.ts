@@ -0,0 +1,34 @@
+import {
+  ConversationParticipant,
+  ConversationQueryOptions,
+  ConversationSummary,
+  ConversationWithParticipants,
+  UpdateConversationSettingsDto,
+} from '../models/Conversation';
+
+export interface IConversationRepository {
+  findById(id: string): Promise<ConversationWithParticipants | null>;
+  findDirect(userId: string, otherUserId: string): Promise<ConversationWithParticipants | null>;
+  findOrCreateDirect(userId: string, otherUserId: string): Promise<ConversationWithParticipants>;
+  createGroup(
+    createdById: string,
+    title: string,
+    participantIds: string[],
+  ): Promise<ConversationWithParticipants>;
+  updateTitle(id: string, title: string): Promise<ConversationWithParticipants>;
+
+  findParticipant(conversationId: string, userId: string): Promise<ConversationParticipant | null>;
+  addParticipants(conversationId: string, userIds: string[]): Promise<ConversationWithParticipants>;
+  removeParticipant(conversationId: string, userId: string): Promise<ConversationWithParticipants>;
+  updateSettings(
+    conversationId: string,
+    userId: string,
+    data: UpdateConversationSettingsDto,
+  ): Promise<ConversationParticipant>;
+  markRead(conversationId: string, userId: string, readAt: Date): Promise<void>;
+
+  getUserConversations(
+    userId: string,
+    options?: ConversationQueryOptions,
+  ): Promise<ConversationSummary[]>;
+}
@@ -0,0 +1,408 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { IConversationRepository } from './ConversationRepository.interface';
+import {
+  ConversationParticipant,
+  ConversationQueryOptions,
+  ConversationRole,
+  ConversationSummary,
+  ConversationType,
+  ConversationWithParticipants,
+  UpdateConversationSettingsDto,
+} from '../models/Conversation';
+import { Message, MessageReadPointer } from '../models/Message';
+import { AppError } from '../../../core/errors/AppError';
+import { Logger } from '../../../core/logging/Logger';
+
+const userSelect = {
+  id: true,
+  username: true,
+  firstName: true,
+  lastName: true,
+  avatarUrl: true,
+  role: true,
+  lastSeenAt: true,
+};
+
+export class ConversationRepository implements IConversationRepository {
+  private logger = Logger.getInstance();
+
+  constructor(private prisma: PrismaClient) {}
+
+  async findById(id: string): Promise<ConversationWithParticipants | null> {
+    try {
+      return (await this.prisma.conversation.findUnique({
+        where: { id },
+        include: this.participantsInclude(),
+      })) as unknown as ConversationWithParticipants | null;
+    } catch (error) {
+      this.logger.error(`Error finding conversation: ${error}`);
+      throw new AppError('Failed to find conversation', 500, 'CONVERSATION_FIND_FAILED');
+    }
+  }
+
+  async findDirect(
+    userId: string,
+    otherUserId: string,
+  ): Promise<ConversationWithParticipants | null> {
+    try {
+      return (await this.prisma.conversation.findUnique({
+        where: { directKey: this.directKey(userId, otherUserId) },
+        include: this.participantsInclude(),
+      })) as unknown as ConversationWithParticipants | null;
+    } catch (error) {
+      this.logger.error(`Error finding direct conversation: ${error}`);
+      throw new AppError('Failed to find conversation', 500, 'CONVERSATION_FIND_FAILED');
+    }
+  }
+
+  async findOrCreateDirect(
+    userId: string,
+    otherUserId: string,
+  ): Promise<ConversationWithParticipants> {
+    const directKey = this.directKey(userId, otherUserId);
+
+    try {
+      return (await this.prisma.conversation.upsert({
+        where: { directKey },
+        update: {},
+        create: {
+          type: ConversationType.DIRECT,
+          directKey,
+          createdById: userId,
+          participants: {
+            create: [{ userId }, { userId: otherUserId }],
+          },
+        },
+        include: this.participantsInclude(),
+      })) as unknown as ConversationWithParticipants;
+    } catch (error) {
+      // Both users sent their first message at the same time; the other request created it
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const existing = await this.findDirect(userId, otherUserId);
+        if (existing) return existing;
+      }
+      this.logger.error(`Error creating direct conversation: ${error}`);
+      throw new AppError('Failed to create conversation', 500, 'CONVERSATION_CREATE_FAILED');
+    }
+  }
+
+  async createGroup(
+    createdById: string,
+    title: string,
+    participantIds: string[],
+  ): Promise<ConversationWithParticipants> {
+    try {
+      return (await this.prisma.conversation.create({
+        data: {
+          type: ConversationType.GROUP,
+          title,
+          createdById,
+          participants: {
+            create: [
+              { userId: createdById, role: ConversationRole.OWNER },
+              ...participantIds.map((userId) => ({ userId })),
+            ],
+          },
+        },
+        include: this.participantsInclude(),
+      })) as unknown as ConversationWithParticipants;
+    } catch (error) {
+      this.logger.error(`Error creating group conversation: ${error}`);
+      throw new AppError('Failed to create conversation', 500, 'CONVERSATION_CREATE_FAILED');
+    }
+  }
+
+  async updateTitle(id: string, title: string): Promise<ConversationWithParticipants> {
+    try {
+      return (await this.prisma.conversation.update({
+        where: { id },
+        data: { title },
+        include: this.participantsInclude(),
+      })) as unknown as ConversationWithParticipants;
+    } catch (error) {
+      this.logger.error(`Error updating conversation title: ${error}`);
+      throw new AppError('Failed to update conversation', 500, 'CONVERSATION_UPDATE_FAILED');
+    }
+  }
+
+  async findParticipant(
+    conversationId: string,
+    userId: string,
+  ): Promise<ConversationParticipant | null> {
+    try {
+      return (await this.prisma.conversationParticipant.findFirst({
+        where: { conversationId, userId, leftAt: null },
+        include: { user: { select: userSelect } },
+      })) as unknown as ConversationParticipant | null;
+    } catch (error) {
+      this.logger.error(`Error finding conversation participant: ${error}`);
+      throw new AppError('Failed to find participant', 500, 'PARTICIPANT_FIND_FAILED');
+    }
+  }
+
+  async addParticipants(
+    conversationId: string,
+    userIds: string[],
+  ): Promise<ConversationWithParticipants> {
+    try {
+      // People who left earlier rejoin with a fresh membership
+      await this.prisma.$transaction(
+        userIds.map((userId) =>
+          this.prisma.conversationParticipant.upsert({
+            where: { conversationId_userId: { conversationId, userId } },
+            update: {
+              leftAt: null,
+              joinedAt: new Date(),
+              role: ConversationRole.MEMBER,
+              lastReadAt: null,
+            },
+            create: { conversationId, userId },
+          }),
+        ),
+      );
+
+      return (await this.findById(conversationId))!;
+    } catch (error) {
+      this.logger.error(`Error adding conversation participants: ${error}`);
+      throw new AppError('Failed to add participants', 500, 'PARTICIPANT_ADD_FAILED');
+    }
+  }
+
+  async removeParticipant(
+    conversationId: string,
+    userId: string,
+  ): Promise<ConversationWithParticipants> {
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        const participant = await tx.conversationParticipant.update({
+          where: { conversationId_userId: { conversationId, userId } },
+          data: { leftAt: new Date(), isPinned: false, pinnedAt: null },
+        });
+
+        if (participant.role !== ConversationRole.OWNER) return;
+
+        // Ownership passes to the longest-standing remaining member
+        const successor = await tx.conversationParticipant.findFirst({
+          where: { conversationId, leftAt: null },
+          orderBy: { joinedAt: 'asc' },
+        });
+
+        await tx.conversationParticipant.update({
+          where: { id: participant.id },
+          data: { role: ConversationRole.MEMBER },
+        });
+
+        if (successor) {
+          await tx.conversationParticipant.update({
+            where: { id: successor.id },
+            data: { role: ConversationRole.OWNER },
+          });
+        }
+      });
+
+      return (await this.findById(conversationId))!;
+    } catch (error) {
+      this.logger.error(`Error removing conversation participant: ${error}`);
+      throw new AppError('Failed to remove participant', 500, 'PARTICIPANT_REMOVE_FAILED');
+    }
+  }
+
+  async updateSettings(
+    conversationId: string,
+    userId: string,
+    data: UpdateConversationSettingsDto,
+  ): Promise<ConversationParticipant> {
+    try {
+      const update: Prisma.ConversationParticipantUpdateInput = {};
+
+      if (data.isMuted !== undefined) update.isMuted = data.isMuted;
+      if (data.isArchived !== undefined) update.isArchived = data.isArchived;
+      if (data.isPinned !== undefined) {
+        update.isPinned = data.isPinned;
+        update.pinnedAt = data.isPinned ? new Date() : null;
+      }
+
+      return (await this.prisma.conversationParticipant.update({
+        where: { conversationId_userId: { conversationId, userId } },
+        data: update,
+        include: { user: { select: userSelect } },
+      })) as unknown as ConversationParticipant;
+    } catch (error) {
+      this.logger.error(`Error updating conversation settings: ${error}`);
+      throw new AppError(
+        'Failed to update conversation settings',
+        500,
+        'CONVERSATION_SETTINGS_FAILED',
+      );
+    }
+  }
+
+  async markRead(conversationId: string, userId: string, readAt: Date): Promise<void> {
+    try {
+      // Never move the pointer backwards
+      await this.prisma.conversationParticipant.updateMany({
+        where: {
+          conversationId,
+          userId,
+          OR: [{ lastReadAt: null }, { lastReadAt: { lt: readAt } }],
+        },
+        data: { lastReadAt: readAt },
+      });
+    } catch (error) {
+      this.logger.error(`Error marking conversation as read: ${error}`);
+      throw new AppError('Failed to mark conversation as read', 500, 'CONVERSATION_READ_FAILED');
+    }
+  }
+
+  async getUserConversations(
+    userId: string,
+    options: ConversationQueryOptions = {},
+  ): Promise<ConversationSummary[]> {
+    try {
+      const memberships = await this.prisma.conversationParticipant.findMany({
+        where: {
+          userId,
+          leftAt: null,
+          isArchived: options.archived ?? false,
+        },
+        include: {
+          conversation: {
+            include: {
+              ...this.participantsInclude(),
+              messages: {
+                orderBy: { createdAt: 'desc' },
+                take: 1,
+              },
+            },
+          },
+        },
+      });
+
+      const summaries = await Promise.all(
+        memberships
+          // Group chats show up right away; direct ones once a message was sent
+          .filter(
+            (membership) =>
+              membership.conversation.type === ConversationType.GROUP ||
+              membership.conversation.messages.length > 0,
+          )
+          .map((membership) => this.toSummary(userId, membership)),
+      );
+
+      // Pinned conversations first, most recently pinned on top; then by activity
+      return summaries
+        .sort((a, b) => {
+          if (a.summary.isPinned !== b.summary.isPinned) return a.summary.isPinned ? -1 : 1;
+          if (a.summary.isPinned) {
+            return (b.pinnedAt?.getTime() || 0) - (a.pinnedAt?.getTime() || 0);
+          }
+          return b.summary.lastActivity.getTime() - a.summary.lastActivity.getTime();
+        })
+        .map((entry) => entry.summary);
+    } catch (error) {
+      this.logger.error(`Error getting conversations: ${error}`);
+      throw new AppError('Failed to get conversations', 500, 'CONVERSATION_LIST_FAILED');
+    }
+  }
+
+  private async toSummary(
+    userId: string,
+    membership: any,
+  ): Promise<{ summary: ConversationSummary; pinnedAt?: Date | null }> {
+    const conversation = membership.conversation;
+    const others = conversation.participants.filter((p: any) => p.userId !== userId);
+    const isDirect = conversation.type === ConversationType.DIRECT;
+
+    const [unreadCount, lastRead] = await Promise.all([
+      this.countUnread(userId, membership),
+      this.findLastRead(userId, conversation.id, isDirect, others),
+    ]);
+
+    const lastMessage = conversation.messages[0] as Message | undefined;
+
+    return {
+      pinnedAt: membership.pinnedAt,
+      summary: {
+        id: conversation.id,
+        type: conversation.type,
+        title: conversation.title,
+        participants: others.map((p: any) => p.user),
+        ...(isDirect && others[0]
+          ? { participantId: others[0].userId, participant: others[0].user }
+          : {}),
+        lastMessage,
+        unreadCount,
+        lastActivity: lastMessage?.createdAt || conversation.lastMessageAt,
+        lastRead,
+        isMuted: membership.isMuted,
+        isArchived: membership.isArchived,
+        isPinned: membership.isPinned,
+      },
+    };
+  }
+
+  /**
+   * Direct messages carry their own read flag; group messages are unread past the user's
+   * read pointer (or since they joined)
+   */
+  private countUnread(userId: string, membership: any): Promise<number> {
+    if (membership.conversation.type === ConversationType.DIRECT) {
+      return this.prisma.message.count({
+        where: { conversationId: membership.conversationId, receiverId: userId, isRead: false },
+      });
+    }
+
+    return this.prisma.message.count({
+      where: {
+        conversationId: membership.conversationId,
+        senderId: { not: userId },
+        createdAt: { gt: membership.lastReadAt || membership.joinedAt },
+      },
+    });
+  }
+
+  /**
+   * Newest of the user's messages read by the other side; in a group, by everyone in it
+   */
+  private async findLastRead(
+    userId: string,
+    conversationId: string,
+    isDirect: boolean,
+    others: any[],
+  ): Promise<MessageReadPointer | null> {
+    if (isDirect) {
+      const message = await this.prisma.message.findFirst({
+        where: { conversationId, senderId: userId, isRead: true, readAt: { not: null } },
+        orderBy: { createdAt: 'desc' },
+        select: { id: true, readAt: true },
+      });
+
+      return message ? { messageId: message.id, readAt: message.readAt! } : null;
+    }
+
+    if (others.length === 0 || others.some((p) => !p.lastReadAt)) return null;
+
+    const readByAll = new Date(Math.min(...others.map((p) => p.lastReadAt.getTime())));
+    const message = await this.prisma.message.findFirst({
+      where: { conversationId, senderId: userId, createdAt: { lte: readByAll } },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true },
+    });
+
+    return message ? { messageId: message.id, readAt: readByAll } : null;
+  }
+
+  private directKey(userId: string, otherUserId: string): string {
+    return [userId, otherUserId].sort().join(':');
+  }
+
+  private participantsInclude() {
+    return {
+      participants: {
+        where: { leftAt: null },
+        include: { user: { select: userSelect } },
+        orderBy: { joinedAt: 'asc' as const },
+      },
+    };
+  }
+}
@@ -3,9 +3,16 @@ import {
   MessageWithUsers,
   CreateMessageDto,
   MessageQueryOptions,
-  Conversation,
+  MessageStatusChange,
+  MessageRevision,
+  MessageSearchOptions,
+  MessageContext,
 } from '../models/Message';
-import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
+import {
+  PaginatedResult,
+  CursorPaginatedResult,
+  CursorPaginationOptions,
+} from '../../../shared/interfaces/PaginatedResult';
 
 export interface IMessageRepository {
   createMessage(senderId: string, data: CreateMessageDto): Promise<MessageWithUsers>;
@@ -15,14 +22,40 @@ export interface IMessageRepository {
     userId: string,
   ): Promise<PaginatedResult<MessageWithUsers>>;
   getConversationMessages(
+    conversationId: string,
     userId: string,
-    otherUserId: string,
     page?: number,
     limit?: number,
   ): Promise<PaginatedResult<MessageWithUsers>>;
+  getConversationMessagesByCursor(
+    conversationId: string,
+    userId: string,
+    options?: CursorPaginationOptions,
+  ): Promise<CursorPaginatedResult<MessageWithUsers>>;
+
+  // Search
+  searchMessages(
+    userId: string,
+    options: MessageSearchOptions,
+  ): Promise<PaginatedResult<MessageWithUsers>>;
+  getMessageContext(
+    messageId: string,
+    userId: string,
+    limit?: number,
+  ): Promise<MessageContext | null>;
+
+  markAsDelivered(messageIds: string[], userId: string): Promise<MessageStatusChange[]>;
   markAsRead(messageId: string, userId: string): Promise<boolean>;
-  markConversationAsRead(userId: string, otherUserId: string): Promise<number>;
-  getConversations(userId: string): Promise<Conversation[]>;
+  markConversationAsRead(userId: string, otherUserId: string): Promise<string[]>;
   getUnreadMessageCount(userId: string): Promise<number>;
-  deleteMessage(messageId: string, userId: string): Promise<boolean>;
+
+  // Editing and reactions
+  editMessage(messageId: string, content: string): Promise<MessageWithUsers>;
+  getRevisions(messageId: string): Promise<MessageRevision[]>;
+  addReaction(messageId: string, userId: string, emoji: string): Promise<boolean>;
+  removeReaction(messageId: string, userId: string, emoji: string): Promise<boolean>;
+
+  // Deletion
+  deleteForEveryone(messageId: string): Promise<MessageWithUsers>;
+  deleteForUser(messageId: string, userId: string): Promise<void>;
 }
@@ -1,63 +1,54 @@
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import { IMessageRepository } from './MessageRepository.interface';
 import {
   Message,
   MessageWithUsers,
   CreateMessageDto,
   MessageQueryOptions,
-  Conversation,
+  MessageStatusChange,
+  MessageRevision,
+  MessageSearchOptions,
+  MessageContext,
 } from '../models/Message';
-import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
+import {
+  PaginatedResult,
+  CursorPaginatedResult,
+  CursorPaginationOptions,
+} from '../../../shared/interfaces/PaginatedResult';
 import { PaginationUtils } from '../../../shared/utils/PaginationUtils';
+import { SearchTextUtils } from '../../../shared/utils/SearchTextUtils';
 import { AppError } from '../../../core/errors/AppError';
+import { Logger } from '../../../core/logging/Logger';
 
 export class MessageRepository implements IMessageRepository {
+  private logger = Logger.getInstance();
+
   constructor(private prisma: PrismaClient) {}
 
   async createMessage(senderId: string, data: CreateMessageDto): Promise<MessageWithUsers> {
     try {
-      return (await this.prisma.message.create({
-        data: {
-          senderId,
-          receiverId: data.receiverId,
-          content: data.content,
-          type: data.type || 'TEXT',
-          attachments: data.attachments || [],
-          quoteRequestId: data.quoteRequestId,
-          productMentions: data.productMentions,
-        },
-        include: {
-          sender: {
-            select: {
-              id: true,
-              username: true,
-              firstName: true,
-              lastName: true,
-              avatarUrl: true,
-              role: true,
-              lastSeenAt: true,
-            },
+      const [message] = await this.prisma.$transaction([
+        this.prisma.message.create({
+          data: {
+            conversationId: data.conversationId!,
+            senderId,
+            receiverId: data.receiverId,
+            content: data.content,
+            type: data.type || 'TEXT',
+            attachments: data.attachments || [],
+            quoteRequestId: data.quoteRequestId,
+            productMentions: data.productMentions,
+            replyToId: data.replyToId,
           },
-          receiver: {
-            select: {
-              id: true,
-              username: true,
-              firstName: true,
-              lastName: true,
-              avatarUrl: true,
-              role: true,
-              lastSeenAt: true,
-            },
-          },
-          quoteRequest: {
-            select: {
-              id: true,
-              title: true,
-              status: true,
-            },
-          },
-        },
-      })) as unknown as MessageWithUsers;
+          include: this.messageInclude(),
+        }),
+        this.prisma.conversation.update({
+          where: { id: data.conversationId! },
+          data: { lastMessageAt: new Date() },
+        }),
+      ]);
+
+      return message as unknown as MessageWithUsers;
     } catch (error) {
       throw new AppError('Failed to create message', 500, 'MESSAGE_CREATE_FAILED');
     }
@@ -67,37 +58,7 @@ export class MessageRepository implements IMessageRepository {
     try {
       return (await this.prisma.message.findUnique({
         where: { id },
-        include: {
-          sender: {
-            select: {
-              id: true,
-              username: true,
-              firstName: true,
-              lastName: true,
-              avatarUrl: true,
-              role: true,
-              lastSeenAt: true,
-            },
-          },
-          receiver: {
-            select: {
-              id: true,
-              username: true,
-              firstName: true,
-              lastName: true,
-              avatarUrl: true,
-              role: true,
-              lastSeenAt: true,
-            },
-          },
-          quoteRequest: {
-            select: {
-              id: true,
-              title: true,
-              status: true,
-            },
-          },
-        },
+        include: this.messageInclude(),
       })) as unknown as MessageWithUsers | null;
     } catch (error) {
       throw new AppError('Failed to find message', 500, 'MESSAGE_FIND_FAILED');
@@ -113,7 +74,18 @@ export class MessageRepository implements IMessageRepository {
       const skip = PaginationUtils.calculateSkip(page, limit);
 
       const where: any = {
-        OR: [{ senderId: userId }, { receiverId: userId }],
+        OR: [
+          { senderId: userId },
+          { receiverId: userId },
+          {
+            conversation: {
+              type: 'GROUP',
+              participants: { some: { userId, leftAt: null } },
+            },
+          },
+        ],
+        // Deleted for me
+        deletions: { none: { userId } },
       };
 
       if (conversationWith) {
@@ -141,37 +113,7 @@ export class MessageRepository implements IMessageRepository {
       const [messages, total] = await Promise.all([
         this.prisma.message.findMany({
           where,
-          include: {
-            sender: {
-              select: {
-                id: true,
-                username: true,
-                firstName: true,
-                lastName: true,
-                avatarUrl: true,
-                role: true,
-                lastSeenAt: true,
-              },
-            },
-            receiver: {
-              select: {
-                id: true,
-                username: true,
-                firstName: true,
-                lastName: true,
-                avatarUrl: true,
-                role: true,
-                lastSeenAt: true,
-              },
-            },
-            quoteRequest: {
-              select: {
-                id: true,
-                title: true,
-                status: true,
-              },
-            },
-          },
+          include: this.messageInclude(),
           orderBy: { createdAt: 'desc' },
           skip,
           take: limit,
@@ -186,55 +128,19 @@ export class MessageRepository implements IMessageRepository {
   }
 
   async getConversationMessages(
+    conversationId: string,
     userId: string,
-    otherUserId: string,
     page: number = 1,
     limit: number = 20,
   ): Promise<PaginatedResult<MessageWithUsers>> {
     try {
       const skip = PaginationUtils.calculateSkip(page, limit);
-
-      const where = {
-        OR: [
-          { senderId: userId, receiverId: otherUserId },
-          { senderId: otherUserId, receiverId: userId },
-        ],
-      };
+      const where = this.visibleInConversation(conversationId, userId);
 
       const [messages, total] = await Promise.all([
         this.prisma.message.findMany({
           where,
-          include: {
-            sender: {
-              select: {
-                id: true,
-                username: true,
-                firstName: true,
-                lastName: true,
-                avatarUrl: true,
-                role: true,
-                lastSeenAt: true,
-              },
-            },
-            receiver: {
-              select: {
-                id: true,
-                username: true,
-                firstName: true,
-                lastName: true,
-                avatarUrl: true,
-                role: true,
-                lastSeenAt: true,
-              },
-            },
-            quoteRequest: {
-              select: {
-                id: true,
-                title: true,
-                status: true,
-              },
-            },
-          },
+          include: this.messageInclude(),
           orderBy: { createdAt: 'desc' },
           skip,
           take: limit,
@@ -248,136 +154,492 @@ export class MessageRepository implements IMessageRepository {
     }
   }
 
-  async markAsRead(messageId: string, userId: string): Promise<boolean> {
+  async getConversationMessagesByCursor(
+    conversationId: string,
+    userId: string,
+    options: CursorPaginationOptions = {},
+  ): Promise<CursorPaginatedResult<MessageWithUsers>> {
+    const { cursor, limit = 20 } = options;
+    const after = PaginationUtils.cursorWhere(cursor);
+
     try {
-      const result = await this.prisma.message.updateMany({
+      const messages = await this.prisma.message.findMany({
+        where: { AND: [this.visibleInConversation(conversationId, userId), after] },
+        include: this.messageInclude(),
+        orderBy: PaginationUtils.cursorOrderBy(),
+        take: limit + 1,
+      });
+
+      return PaginationUtils.createCursorPaginatedResult(messages as any, limit);
+    } catch (error) {
+      this.logger.error(`Error getting conversation messages: ${error}`);
+      throw new AppError('Failed to get conversation messages', 500, 'CONVERSATION_GET_FAILED');
+    }
+  }
+
+  async searchMessages(
+    userId: string,
+    options: MessageSearchOptions,
+  ): Promise<PaginatedResult<MessageWithUsers>> {
+    const { page = 1, limit = 20 } = options;
+    const expression = SearchTextUtils.toPrefixTsQuery(options.q);
+
+    if (!expression) {
+      return PaginationUtils.createPaginatedResult([], 0, page, limit);
+    }
+
+    try {
+      const query = Prisma.sql`to_tsquery('simple', ${expression})`;
+      const where = this.buildSearchWhere(userId, options, query);
+
+      const [rows, [{ total }]] = await Promise.all([
+        this.prisma.$queryRaw<Array<{ id: string }>>`
+          SELECT m.id
+          FROM "Message" m
+          JOIN "Conversation" c ON c.id = m."conversationId"
+          WHERE ${where}
+          ORDER BY ts_rank_cd(m."searchVector", ${query}) DESC, m."createdAt" DESC, m.id ASC
+          LIMIT ${limit} OFFSET ${PaginationUtils.calculateSkip(page, limit)}
+        `,
+        this.prisma.$queryRaw<Array<{ total: number }>>`
+          SELECT COUNT(*)::int AS total
+          FROM "Message" m
+          JOIN "Conversation" c ON c.id = m."conversationId"
+          WHERE ${where}
+        `,
+      ]);
+
+      const ids = rows.map((row) => row.id);
+      const messages = await this.prisma.message.findMany({
+        where: { id: { in: ids } },
+        include: this.messageInclude(),
+      });
+
+      // Keep the relevance order of the search
+      const byId = new Map(messages.map((message) => [message.id, message]));
+      const ordered = ids.map((id) => byId.get(id)).filter(Boolean);
+
+      return PaginationUtils.createPaginatedResult(ordered as any, total, page, limit);
+    } catch (error) {
+      this.logger.error(`Error searching messages: ${error}`);
+      throw new AppError('Failed to search messages', 500, 'MESSAGE_SEARCH_FAILED');
+    }
+  }
+
+  async getMessageContext(
+    messageId: string,
+    userId: string,
+    limit: number = 10,
+  ): Promise<MessageContext | null> {
+    try {
+      const message = await this.prisma.message.findFirst({
+        where: { id: messageId, deletions: { none: { userId } } },
+        include: this.messageInclude(),
+      });
+
+      if (!message) return null;
+
+      const visible = this.visibleInConversation(message.conversationId, userId);
+      const position = PaginationUtils.encodeCursor(message);
+
+      const [before, after] = await Promise.all([
+        this.prisma.message.findMany({
+          where: { AND: [visible, PaginationUtils.cursorWhere(position, 'desc')] },
+          include: this.messageInclude(),
+          orderBy: PaginationUtils.cursorOrderBy('desc'),
+          take: limit + 1,
+        }),
+        this.prisma.message.findMany({
+          where: { AND: [visible, PaginationUtils.cursorWhere(position, 'asc')] },
+          include: this.messageInclude(),
+          orderBy: PaginationUtils.cursorOrderBy('asc'),
+          take: limit + 1,
+        }),
+      ]);
+
+      return {
+        message: message as unknown as MessageWithUsers,
+        before: before.slice(0, limit).reverse() as unknown as MessageWithUsers[],
+        after: after.slice(0, limit) as unknown as MessageWithUsers[],
+        hasMoreBefore: before.length > limit,
+        hasMoreAfter: after.length > limit,
+      };
+    } catch (error) {
+      this.logger.error(`Error getting message context: ${error}`);
+      throw new AppError('Failed to get message context', 500, 'MESSAGE_CONTEXT_FAILED');
+    }
+  }
+
+  async markAsDelivered(messageIds: string[], userId: string): Promise<MessageStatusChange[]> {
+    try {
+      const pending = await this.prisma.message.findMany({
         where: {
-          id: messageId,
+          id: { in: messageIds },
           receiverId: userId,
+          status: 'SENT',
+        },
+        select: { id: true, senderId: true },
+      });
+
+      if (pending.length === 0) return [];
+
+      await this.prisma.message.updateMany({
+        where: {
+          id: { in: pending.map((message) => message.id) },
+          status: 'SENT',
         },
         data: {
-          isRead: true,
-          readAt: new Date(),
+          status: 'DELIVERED',
+          deliveredAt: new Date(),
         },
       });
 
+      return this.groupBySender(pending);
+    } catch (error) {
+      this.logger.error(`Error marking messages as delivered: ${error}`);
+      throw new AppError('Failed to mark messages as delivered', 500, 'MESSAGE_DELIVERED_FAILED');
+    }
+  }
+
+  async markAsRead(messageId: string, userId: string): Promise<boolean> {
+    try {
+      const now = new Date();
+
+      // A message read before its delivery was acknowledged counts as delivered at the same time
+      const [, result] = await this.prisma.$transaction([
+        this.prisma.message.updateMany({
+          where: { id: messageId, receiverId: userId, deliveredAt: null },
+          data: { deliveredAt: now },
+        }),
+        this.prisma.message.updateMany({
+          where: {
+            id: messageId,
+            receiverId: userId,
+            isRead: false,
+          },
+          data: {
+            isRead: true,
+            readAt: now,
+            status: 'READ',
+          },
+        }),
+      ]);
+
       return result.count > 0;
     } catch (error) {
       throw new AppError('Failed to mark message as read', 500, 'MESSAGE_READ_FAILED');
     }
   }
 
-  async markConversationAsRead(userId: string, otherUserId: string): Promise<number> {
+  async markConversationAsRead(userId: string, otherUserId: string): Promise<string[]> {
     try {
-      const result = await this.prisma.message.updateMany({
+      const unread = await this.prisma.message.findMany({
         where: {
           senderId: otherUserId,
           receiverId: userId,
           isRead: false,
         },
-        data: {
-          isRead: true,
-          readAt: new Date(),
-        },
+        select: { id: true },
       });
 
-      return result.count;
+      if (unread.length === 0) return [];
+
+      const ids = unread.map((message) => message.id);
+      const now = new Date();
+
+      await this.prisma.$transaction([
+        this.prisma.message.updateMany({
+          where: { id: { in: ids }, deliveredAt: null },
+          data: { deliveredAt: now },
+        }),
+        this.prisma.message.updateMany({
+          where: { id: { in: ids } },
+          data: {
+            isRead: true,
+            readAt: now,
+            status: 'READ',
+          },
+        }),
+      ]);
+
+      return ids;
     } catch (error) {
       throw new AppError('Failed to mark conversation as read', 500, 'CONVERSATION_READ_FAILED');
     }
   }
 
-  async getConversations(userId: string): Promise<Conversation[]> {
+  async getUnreadMessageCount(userId: string): Promise<number> {
     try {
-      const messages = await this.prisma.message.findMany({
-        where: {
-          OR: [{ senderId: userId }, { receiverId: userId }],
-        },
-        orderBy: {
-          createdAt: 'desc',
-        },
-        include: {
-          sender: {
-            select: {
-              id: true,
-              username: true,
-              firstName: true,
-              lastName: true,
-              avatarUrl: true,
-              role: true,
-              lastSeenAt: true,
-            },
-          },
-          receiver: {
-            select: {
-              id: true,
-              username: true,
-              firstName: true,
-              lastName: true,
-              avatarUrl: true,
-              role: true,
-              lastSeenAt: true,
-            },
-          },
-        },
+      // Group messages are unread past the user's read pointer (or since they joined)
+      const groupMemberships = await this.prisma.conversationParticipant.findMany({
+        where: { userId, leftAt: null, conversation: { type: 'GROUP' } },
+        select: { conversationId: true, lastReadAt: true, joinedAt: true },
       });
 
-      const conversationMap = new Map<string, any>();
-
-      messages.forEach((message) => {
-        const partnerId = message.senderId === userId ? message.receiverId : message.senderId;
-        const partner = message.senderId === userId ? message.receiver : message.sender;
-
-        if (!conversationMap.has(partnerId)) {
-          conversationMap.set(partnerId, {
-            participantId: partnerId,
-            participant: partner,
-            lastMessage: message,
-            lastActivity: message.createdAt,
-            unreadCount: 0,
-          });
-        }
-
-        if (message.receiverId === userId && !message.isRead) {
-          conversationMap.get(partnerId).unreadCount++;
-        }
-      });
+      const [direct, group] = await Promise.all([
+        this.prisma.message.count({
+          where: {
+            receiverId: userId,
+            isRead: false,
+          },
+        }),
+        groupMemberships.length > 0
+          ? this.prisma.message.count({
+              where: {
+                senderId: { not: userId },
+                OR: groupMemberships.map((membership) => ({
+                  conversationId: membership.conversationId,
+                  createdAt: { gt: membership.lastReadAt || membership.joinedAt },
+                })),
+              },
+            })
+          : 0,
+      ]);
 
-      const conversations = Array.from(conversationMap.values()).sort(
-        (a, b) => new Date(b.lastActivity).getTime() - new Date(a.lastActivity).getTime(),
-      );
+      return direct + group;
+    } catch (error) {
+      throw new AppError('Failed to get unread message count', 500, 'MESSAGE_COUNT_FAILED');
+    }
+  }
+
+  async editMessage(messageId: string, content: string): Promise<MessageWithUsers> {
+    try {
+      return (await this.prisma.$transaction(async (tx) => {
+        const current = await tx.message.findUniqueOrThrow({
+          where: { id: messageId },
+          select: { content: true },
+        });
+
+        // Keep the version being replaced
+        await tx.messageRevision.create({
+          data: { messageId, content: current.content },
+        });
 
-      return conversations;
+        return tx.message.update({
+          where: { id: messageId },
+          data: {
+            content,
+            isEdited: true,
+            editedAt: new Date(),
+          },
+          include: this.messageInclude(),
+        });
+      })) as unknown as MessageWithUsers;
     } catch (error) {
-      throw new AppError('Failed to get conversations', 500, 'CONVERSATION_LIST_FAILED');
+      this.logger.error(`Error editing message: ${error}`);
+      throw new AppError('Failed to edit message', 500, 'MESSAGE_EDIT_FAILED');
     }
   }
 
-  async getUnreadMessageCount(userId: string): Promise<number> {
+  async getRevisions(messageId: string): Promise<MessageRevision[]> {
     try {
-      return await this.prisma.message.count({
-        where: {
-          receiverId: userId,
-          isRead: false,
-        },
+      return await this.prisma.messageRevision.findMany({
+        where: { messageId },
+        orderBy: { createdAt: 'asc' },
       });
     } catch (error) {
-      throw new AppError('Failed to get unread message count', 500, 'MESSAGE_COUNT_FAILED');
+      this.logger.error(`Error getting message revisions: ${error}`);
+      throw new AppError('Failed to get message revisions', 500, 'MESSAGE_REVISIONS_FAILED');
     }
   }
 
-  async deleteMessage(messageId: string, userId: string): Promise<boolean> {
+  async addReaction(messageId: string, userId: string, emoji: string): Promise<boolean> {
     try {
-      const result = await this.prisma.message.deleteMany({
-        where: {
-          id: messageId,
-          senderId: userId,
-        },
+      await this.prisma.messageReaction.create({
+        data: { messageId, userId, emoji },
+      });
+
+      return true;
+    } catch (error) {
+      // Already reacted with this emoji
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return false;
+      }
+      this.logger.error(`Error adding reaction: ${error}`);
+      throw new AppError('Failed to add reaction', 500, 'MESSAGE_REACTION_FAILED');
+    }
+  }
+
+  async removeReaction(messageId: string, userId: string, emoji: string): Promise<boolean> {
+    try {
+      const result = await this.prisma.messageReaction.deleteMany({
+        where: { messageId, userId, emoji },
       });
 
       return result.count > 0;
     } catch (error) {
+      this.logger.error(`Error removing reaction: ${error}`);
+      throw new AppError('Failed to remove reaction', 500, 'MESSAGE_REACTION_FAILED');
+    }
+  }
+
+  async deleteForEveryone(messageId: string): Promise<MessageWithUsers> {
+    try {
+      // The row stays as a placeholder so replies and read pointers keep working
+      const [, , message] = await this.prisma.$transaction([
+        this.prisma.messageRevision.deleteMany({ where: { messageId } }),
+        this.prisma.messageReaction.deleteMany({ where: { messageId } }),
+        this.prisma.message.update({
+          where: { id: messageId },
+          data: {
+            content: '',
+            attachments: [],
+            productMentions: Prisma.DbNull,
+            deletedAt: new Date(),
+          },
+          include: this.messageInclude(),
+        }),
+      ]);
+
+      return message as unknown as MessageWithUsers;
+    } catch (error) {
+      this.logger.error(`Error deleting message for everyone: ${error}`);
       throw new AppError('Failed to delete message', 500, 'MESSAGE_DELETE_FAILED');
     }
   }
+
+  async deleteForUser(messageId: string, userId: string): Promise<void> {
+    try {
+      await this.prisma.messageDeletion.upsert({
+        where: { messageId_userId: { messageId, userId } },
+        update: {},
+        create: { messageId, userId },
+      });
+    } catch (error) {
+      this.logger.error(`Error deleting message for user: ${error}`);
+      throw new AppError('Failed to delete message', 500, 'MESSAGE_DELETE_FAILED');
+    }
+  }
+
+  private visibleInConversation(conversationId: string, userId: string) {
+    return {
+      conversationId,
+      deletions: { none: { userId } },
+    };
+  }
+
+  /**
+   * Matching messages the user can still see: in conversations they are part of,
+   * not deleted for everyone and not deleted for them
+   */
+  private buildSearchWhere(
+    userId: string,
+    options: MessageSearchOptions,
+    query: Prisma.Sql,
+  ): Prisma.Sql {
+    const conditions: Prisma.Sql[] = [
+      Prisma.sql`m."searchVector" @@ ${query}`,
+      Prisma.sql`m."deletedAt" IS NULL`,
+      Prisma.sql`EXISTS (
+        SELECT 1 FROM "ConversationParticipant" cp
+        WHERE cp."conversationId" = m."conversationId" AND cp."userId" = ${userId} AND cp."leftAt" IS NULL
+      )`,
+      Prisma.sql`NOT EXISTS (
+        SELECT 1 FROM "MessageDeletion" md WHERE md."messageId" = m.id AND md."userId" = ${userId}
+      )`,
+    ];
+
+    if (options.partnerId) {
+      conditions.push(Prisma.sql`(
+        m."senderId" = ${options.partnerId}
+        OR (c.type = 'DIRECT' AND EXISTS (
+          SELECT 1 FROM "ConversationParticipant" pp
+          WHERE pp."conversationId" = m."conversationId" AND pp."userId" = ${options.partnerId}
+        ))
+      )`);
+    }
+
+    if (options.conversationId) {
+      conditions.push(Prisma.sql`m."conversationId" = ${options.conversationId}`);
+    }
+
+    if (options.type) {
+      conditions.push(Prisma.sql`m.type = ${options.type}::"MessageType"`);
+    }
+
+    if (options.dateFrom) {
+      conditions.push(Prisma.sql`m."createdAt" >= ${options.dateFrom}`);
+    }
+
+    if (options.dateTo) {
+      conditions.push(Prisma.sql`m."createdAt" <= ${options.dateTo}`);
+    }
+
+    return Prisma.join(conditions, ' AND ');
+  }
+
+  private groupBySender(messages: { id: string; senderId: string }[]): MessageStatusChange[] {
+    const bySender = new Map<string, string[]>();
+
+    messages.forEach((message) => {
+      if (!bySender.has(message.senderId)) {
+        bySender.set(message.senderId, []);
+      }
+      bySender.get(message.senderId)!.push(message.id);
+    });
+
+    return Array.from(bySender.entries()).map(([senderId, messageIds]) => ({
+      senderId,
+      messageIds,
+    }));
+  }
+
+  private messageInclude() {
+    return {
+      sender: {
+        select: {
+          id: true,
+          username: true,
+          firstName: true,
+          lastName: true,
+          avatarUrl: true,
+          role: true,
+          lastSeenAt: true,
+        },
+      },
+      receiver: {
+        select: {
+          id: true,
+          username: true,
+          firstName: true,
+          lastName: true,
+          avatarUrl: true,
+          role: true,
+          lastSeenAt: true,
+        },
+      },
+      quoteRequest: {
+        select: {
+          id: true,
+          title: true,
+          status: true,
+        },
+      },
+      replyTo: {
+        select: {
+          id: true,
+          senderId: true,
+          content: true,
+          type: true,
+          deletedAt: true,
+          sender: {
+            select: {
+              id: true,
+              username: true,
+              firstName: true,
+              lastName: true,
+            },
+          },
+        },
+      },
+      reactions: {
+        select: {
+          userId: true,
+          emoji: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: 'asc' as const },
+      },
+    };
+  }
 }
@@ -0,0 +1,49 @@
+import {
+  ConversationParticipant,
+  ConversationQueryOptions,
+  ConversationSummary,
+  ConversationWithParticipants,
+  CreateGroupConversationDto,
+  UpdateConversationSettingsDto,
+} from '../models/Conversation';
+
+export interface IConversationService {
+  // Access
+  canStartConversation(userId: string, otherUserId: string): Promise<boolean>;
+  isParticipant(conversationId: string, userId: string): Promise<boolean>;
+
+  // Conversations
+  getConversations(
+    userId: string,
+    options?: ConversationQueryOptions,
+  ): Promise<ConversationSummary[]>;
+  getConversation(userId: string, conversationId: string): Promise<ConversationWithParticipants>;
+  createGroup(
+    userId: string,
+    data: CreateGroupConversationDto,
+  ): Promise<ConversationWithParticipants>;
+  updateTitle(
+    userId: string,
+    conversationId: string,
+    title: string,
+  ): Promise<ConversationWithParticipants>;
+
+  // Participants
+  addParticipants(
+    userId: string,
+    conversationId: string,
+    participantIds: string[],
+  ): Promise<ConversationWithParticipants>;
+  removeParticipant(
+    userId: string,
+    conversationId: string,
+    participantId: string,
+  ): Promise<ConversationWithParticipants>;
+
+  // Per-participant settings
+  updateSettings(
+    userId: string,
+    conversationId: string,
+    data: UpdateConversationSettingsDto,
+  ): Promise<ConversationParticipant>;
+}
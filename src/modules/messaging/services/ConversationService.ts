@@ -0,0 +1,353 @@
+import { IConversationService } from './ConversationService.interface';
+import {
+  ConversationParticipant,
+  ConversationQueryOptions,
+  ConversationRole,
+  ConversationSummary,
+  ConversationType,
+  ConversationWithParticipants,
+  CreateGroupConversationDto,
+  UpdateConversationSettingsDto,
+} from '../models/Conversation';
+import { IConversationRepository } from '../repositories/ConversationRepository.interface';
+import { IUserRepository } from '../../auth/repositories/UserRepository.interface';
+import { ISocketService } from '../../../core/infrastructure/socket/SocketService.interface';
+import { SocketRooms } from '../../../core/infrastructure/socket/SocketRooms';
+import { AppError } from '../../../core/errors/AppError';
+import { Logger } from '../../../core/logging/Logger';
+import container from '../../../core/di/container';
+
+export class ConversationService implements IConversationService {
+  private conversationRepository: IConversationRepository;
+  private userRepository: IUserRepository;
+  private _socketService?: ISocketService;
+  private logger = Logger.getInstance();
+
+  // Including the owner
+  private readonly MAX_GROUP_SIZE = 50;
+
+  constructor() {
+    this.conversationRepository =
+      container.resolve<IConversationRepository>('conversationRepository');
+    this.userRepository = container.resolve<IUserRepository>('userRepository');
+  }
+
+  private get socketService(): ISocketService {
+    if (!this._socketService) {
+      this._socketService = container.resolve<ISocketService>('socketService');
+    }
+    return this._socketService;
+  }
+
+  // Business logic: Who can start talking to whom
+  async canStartConversation(userId: string, otherUserId: string): Promise<boolean> {
+    try {
+      // Can't talk to self
+      if (userId === otherUserId) {
+        return false;
+      }
+
+      // Get both users
+      const [user, otherUser] = await Promise.all([
+        this.userRepository.findById(userId),
+        this.userRepository.findById(otherUserId),
+      ]);
+
+      if (!user || !otherUser) {
+        return false;
+      }
+
+      // Business rules:
+      // 1. Anyone can message ARTISAN (since artisans can sell)
+      if (otherUser.role === 'ARTISAN') {
+        return true;
+      }
+
+      // 2. ARTISAN can message anyone (since artisans are also customers)
+      if (user.role === 'ARTISAN') {
+        return true;
+      }
+
+      // 3. Pure CUSTOMER cannot message pure CUSTOMER
+      if (user.role === 'CUSTOMER' && otherUser.role === 'CUSTOMER') {
+        return false;
+      }
+
+      // Default allow for other cases
+      return true;
+    } catch (error) {
+      this.logger.error(`Error checking conversation permission: ${error}`);
+      return false;
+    }
+  }
+
+  async isParticipant(conversationId: string, userId: string): Promise<boolean> {
+    try {
+      return !!(await this.conversationRepository.findParticipant(conversationId, userId));
+    } catch (error) {
+      this.logger.error(`Error checking conversation participant: ${error}`);
+      return false;
+    }
+  }
+
+  async getConversations(
+    userId: string,
+    options?: ConversationQueryOptions,
+  ): Promise<ConversationSummary[]> {
+    try {
+      return await this.conversationRepository.getUserConversations(userId, options);
+    } catch (error) {
+      this.logger.error(`Error getting conversations: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to get conversations', 500, 'SERVICE_ERROR');
+    }
+  }
+
+  async getConversation(
+    userId: string,
+    conversationId: string,
+  ): Promise<ConversationWithParticipants> {
+    try {
+      return await this.getConversationForParticipant(userId, conversationId);
+    } catch (error) {
+      this.logger.error(`Error getting conversation: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to get conversation', 500, 'SERVICE_ERROR');
+    }
+  }
+
+  async createGroup(
+    userId: string,
+    data: CreateGroupConversationDto,
+  ): Promise<ConversationWithParticipants> {
+    try {
+      const participantIds = Array.from(new Set(data.participantIds)).filter((id) => id !== userId);
+
+      if (participantIds.length === 0) {
+        throw new AppError(
+          'A group conversation needs at least one other participant',
+          400,
+          'PARTICIPANTS_REQUIRED',
+        );
+      }
+
+      if (participantIds.length + 1 > this.MAX_GROUP_SIZE) {
+        throw new AppError(
+          `A group conversation cannot have more than ${this.MAX_GROUP_SIZE} participants`,
+          400,
+          'GROUP_TOO_LARGE',
+        );
+      }
+
+      await this.validateNewParticipants(userId, participantIds);
+
+      const conversation = await this.conversationRepository.createGroup(
+        userId,
+        data.title.trim(),
+        participantIds,
+      );
+
+      await this.emitToParticipants(conversation, 'conversation-created', conversation);
+
+      this.logger.info(
+        `Group conversation ${conversation.id} created by ${userId} with ${participantIds.length} participants`,
+      );
+
+      return conversation;
+    } catch (error) {
+      this.logger.error(`Error creating group conversation: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to create group conversation', 500, 'SERVICE_ERROR');
+    }
+  }
+
+  async updateTitle(
+    userId: string,
+    conversationId: string,
+    title: string,
+  ): Promise<ConversationWithParticipants> {
+    try {
+      const conversation = await this.getConversationForParticipant(userId, conversationId);
+      this.assertGroupOwner(conversation, userId);
+
+      const updated = await this.conversationRepository.updateTitle(conversationId, title.trim());
+
+      await this.emitToParticipants(updated, 'conversation-updated', updated);
+
+      return updated;
+    } catch (error) {
+      this.logger.error(`Error updating conversation title: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to update conversation', 500, 'SERVICE_ERROR');
+    }
+  }
+
+  async addParticipants(
+    userId: string,
+    conversationId: string,
+    participantIds: string[],
+  ): Promise<ConversationWithParticipants> {
+    try {
+      const conversation = await this.getConversationForParticipant(userId, conversationId);
+      this.assertGroupOwner(conversation, userId);
+
+      const current = new Set(conversation.participants.map((p) => p.userId));
+      const newIds = Array.from(new Set(participantIds)).filter((id) => !current.has(id));
+
+      if (newIds.length === 0) {
+        return conversation;
+      }
+
+      if (current.size + newIds.length > this.MAX_GROUP_SIZE) {
+        throw new AppError(
+          `A group conversation cannot have more than ${this.MAX_GROUP_SIZE} participants`,
+          400,
+          'GROUP_TOO_LARGE',
+        );
+      }
+
+      await this.validateNewParticipants(userId, newIds);
+
+      const updated = await this.conversationRepository.addParticipants(conversationId, newIds);
+
+      await this.emitToParticipants(updated, 'conversation-updated', updated);
+
+      this.logger.info(`${newIds.length} participants added to conversation ${conversationId}`);
+
+      return updated;
+    } catch (error) {
+      this.logger.error(`Error adding conversation participants: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to add participants', 500, 'SERVICE_ERROR');
+    }
+  }
+
+  async removeParticipant(
+    userId: string,
+    conversationId: string,
+    participantId: string,
+  ): Promise<ConversationWithParticipants> {
+    try {
+      const conversation = await this.getConversationForParticipant(userId, conversationId);
+
+      if (conversation.type !== ConversationType.GROUP) {
+        throw new AppError(
+          'Participants can only be removed from group conversations',
+          400,
+          'NOT_A_GROUP',
+        );
+      }
+
+      // Anyone can leave; only the owner can remove others
+      if (participantId !== userId) {
+        this.assertGroupOwner(conversation, userId);
+      }
+
+      if (!conversation.participants.some((p) => p.userId === participantId)) {
+        throw new AppError('User is not in this conversation', 404, 'PARTICIPANT_NOT_FOUND');
+      }
+
+      const updated = await this.conversationRepository.removeParticipant(
+        conversationId,
+        participantId,
+      );
+
+      await this.emitToParticipants(updated, 'conversation-updated', updated);
+      await this.socketService.broadcastToUser(participantId, 'conversation-removed', {
+        conversationId,
+      });
+      this.socketService.removeUserFromRoom(
+        participantId,
+        SocketRooms.conversation(conversationId),
+      );
+
+      this.logger.info(`User ${participantId} removed from conversation ${conversationId}`);
+
+      return updated;
+    } catch (error) {
+      this.logger.error(`Error removing conversation participant: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to remove participant', 500, 'SERVICE_ERROR');
+    }
+  }
+
+  async updateSettings(
+    userId: string,
+    conversationId: string,
+    data: UpdateConversationSettingsDto,
+  ): Promise<ConversationParticipant> {
+    try {
+      await this.getConversationForParticipant(userId, conversationId);
+
+      return await this.conversationRepository.updateSettings(conversationId, userId, data);
+    } catch (error) {
+      this.logger.error(`Error updating conversation settings: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to update conversation settings', 500, 'SERVICE_ERROR');
+    }
+  }
+
+  private async getConversationForParticipant(
+    userId: string,
+    conversationId: string,
+  ): Promise<ConversationWithParticipants> {
+    const conversation = await this.conversationRepository.findById(conversationId);
+    if (!conversation) {
+      throw new AppError('Conversation not found', 404, 'CONVERSATION_NOT_FOUND');
+    }
+
+    if (!conversation.participants.some((p) => p.userId === userId)) {
+      throw new AppError('You are not part of this conversation', 403, 'CONVERSATION_FORBIDDEN');
+    }
+
+    return conversation;
+  }
+
+  private assertGroupOwner(conversation: ConversationWithParticipants, userId: string): void {
+    if (conversation.type !== ConversationType.GROUP) {
+      throw new AppError('Only group conversations can be changed', 400, 'NOT_A_GROUP');
+    }
+
+    const participant = conversation.participants.find((p) => p.userId === userId);
+    if (participant?.role !== ConversationRole.OWNER) {
+      throw new AppError(
+        'Only the owner can change this conversation',
+        403,
+        'CONVERSATION_OWNER_REQUIRED',
+      );
+    }
+  }
+
+  /**
+   * Everyone added to a group must exist and be someone the adder could message directly
+   */
+  private async validateNewParticipants(userId: string, participantIds: string[]): Promise<void> {
+    for (const participantId of participantIds) {
+      const user = await this.userRepository.findById(participantId);
+      if (!user) {
+        throw new AppError(`User ${participantId} not found`, 404, 'USER_NOT_FOUND');
+      }
+
+      const allowed = await this.canStartConversation(userId, participantId);
+      if (!allowed) {
+        throw new AppError(
+          `You cannot start a conversation with ${user.username}`,
+          403,
+          'MESSAGE_FORBIDDEN',
+        );
+      }
+    }
+  }
+
+  private async emitToParticipants(
+    conversation: ConversationWithParticipants,
+    event: string,
+    data: any,
+  ): Promise<void> {
+    await Promise.all(
+      conversation.participants.map((p) =>
+        this.socketService.broadcastToUser(p.userId, event, data),
+      ),
+    );
+  }
+}
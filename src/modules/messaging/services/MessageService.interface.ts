@@ -3,7 +3,10 @@ import {
   MessageWithUsers,
   CreateMessageDto,
   MessageQueryOptions,
-  Conversation,
+  MessageDeleteScope,
+  MessageRevision,
+  MessageSearchOptions,
+  MessageContext,
 } from '../models/Message';
 import {
   CustomOrderChatDto,
@@ -12,7 +15,11 @@ import {
   AcceptOfferDto,
   RejectOfferDto,
 } from '../../custom-order/models/CustomOrder';
-import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
+import {
+  PaginatedResult,
+  CursorPaginatedResult,
+  CursorPaginationOptions,
+} from '../../../shared/interfaces/PaginatedResult';
 
 export interface IMessageService {
   // Core messaging
@@ -27,17 +34,47 @@ export interface IMessageService {
     page?: number,
     limit?: number,
   ): Promise<PaginatedResult<MessageWithUsers>>;
+  getConversationMessagesByCursor(
+    userId: string,
+    otherUserId: string,
+    options?: CursorPaginationOptions,
+  ): Promise<CursorPaginatedResult<MessageWithUsers>>;
+  getThreadMessages(
+    userId: string,
+    conversationId: string,
+    page?: number,
+    limit?: number,
+  ): Promise<PaginatedResult<MessageWithUsers>>;
+  getThreadMessagesByCursor(
+    userId: string,
+    conversationId: string,
+    options?: CursorPaginationOptions,
+  ): Promise<CursorPaginatedResult<MessageWithUsers>>;
+
+  // Search
+  searchMessages(
+    userId: string,
+    options: MessageSearchOptions,
+  ): Promise<PaginatedResult<MessageWithUsers>>;
+  getMessageContext(messageId: string, userId: string, limit?: number): Promise<MessageContext>;
 
-  // Read status
+  // Delivery and read status
+  markAsDelivered(messageIds: string[], userId: string): Promise<number>;
   markAsRead(messageId: string, userId: string): Promise<boolean>;
   markConversationAsRead(userId: string, otherUserId: string): Promise<number>;
+  markThreadAsRead(userId: string, conversationId: string): Promise<void>;
 
-  // Conversations
-  getConversations(userId: string): Promise<Conversation[]>;
+  // Unread
   getUnreadMessageCount(userId: string): Promise<number>;
 
+  // Editing and reactions
+  editMessage(messageId: string, userId: string, content: string): Promise<MessageWithUsers>;
+  getMessageRevisions(messageId: string, userId: string): Promise<MessageRevision[]>;
+  addReaction(messageId: string, userId: string, emoji: string): Promise<void>;
+  removeReaction(messageId: string, userId: string, emoji: string): Promise<void>;
+
   // Delete
-  deleteMessage(messageId: string, userId: string): Promise<boolean>;
+  deleteMessage(messageId: string, userId: string, scope?: MessageDeleteScope): Promise<boolean>;
 
   // FIXED: Custom order chat integration (IMPROVED APPROACH)
 
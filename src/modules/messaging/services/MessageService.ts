@@ -5,8 +5,13 @@ import {
   MessageWithUsers,
   CreateMessageDto,
   MessageQueryOptions,
-  Conversation,
+  MessageStatus,
+  MessageStatusUpdate,
   MessageType,
+  MessageDeleteScope,
+  MessageRevision,
+  MessageSearchOptions,
+  MessageContext,
 } from '../models/Message';
 import {
   CustomOrderChatDto,
@@ -15,25 +20,41 @@ import {
   AcceptOfferDto,
   RejectOfferDto,
 } from '../../custom-order/models/CustomOrder';
+import { ConversationType, ConversationWithParticipants } from '../models/Conversation';
 import { IMessageRepository } from '../repositories/MessageRepository.interface';
+import { IConversationRepository } from '../repositories/ConversationRepository.interface';
+import { IConversationService } from './ConversationService.interface';
 import { IUserRepository } from '../../auth/repositories/UserRepository.interface';
 import { INotificationService } from '../../notification/services/NotificationService.interface';
 import { ISocketService } from '../../../core/infrastructure/socket/SocketService.interface';
 import { AppError } from '../../../core/errors/AppError';
 import { Logger } from '../../../core/logging/Logger';
-import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
+import {
+  PaginatedResult,
+  CursorPaginatedResult,
+  CursorPaginationOptions,
+} from '../../../shared/interfaces/PaginatedResult';
+import { PaginationUtils } from '../../../shared/utils/PaginationUtils';
+import { SocketRooms } from '../../../core/infrastructure/socket/SocketRooms';
 import container from '../../../core/di/container';
 
 export class MessageService implements IMessageService {
   private messageRepository: IMessageRepository;
+  private conversationRepository: IConversationRepository;
+  private conversationService: IConversationService;
   private userRepository: IUserRepository;
   private customOrderService: ICustomOrderService;
   private notificationService: INotificationService;
   private _socketService?: ISocketService;
   private logger = Logger.getInstance();
 
+  private readonly EDIT_WINDOW_MS = 15 * 60 * 1000; // 15 minutes
+
   constructor() {
     this.messageRepository = container.resolve<IMessageRepository>('messageRepository');
+    this.conversationRepository =
+      container.resolve<IConversationRepository>('conversationRepository');
+    this.conversationService = container.resolve<IConversationService>('conversationService');
     this.userRepository = container.resolve<IUserRepository>('userRepository');
     this.customOrderService = container.resolve<ICustomOrderService>('customOrderService');
     this.notificationService = container.resolve<INotificationService>('notificationService');
@@ -48,26 +69,11 @@ export class MessageService implements IMessageService {
 
   async sendMessage(senderId: string, data: CreateMessageDto): Promise<MessageWithUsers> {
     try {
-      // Validate users exist
-      const [sender, receiver] = await Promise.all([
-        this.userRepository.findById(senderId),
-        this.userRepository.findById(data.receiverId),
-      ]);
-
+      const sender = await this.userRepository.findById(senderId);
       if (!sender) {
         throw new AppError('Sender not found', 404, 'SENDER_NOT_FOUND');
       }
 
-      if (!receiver) {
-        throw new AppError('Receiver not found', 404, 'RECEIVER_NOT_FOUND');
-      }
-
-      // Check messaging permissions
-      const canSend = await this.canSendMessageTo(senderId, data.receiverId);
-      if (!canSend) {
-        throw new AppError('You cannot send messages to this user', 403, 'MESSAGE_FORBIDDEN');
-      }
-
       // Validate content
       if (!data.content || data.content.trim().length === 0) {
         throw new AppError('Message content cannot be empty', 400, 'EMPTY_MESSAGE');
@@ -81,6 +87,17 @@ export class MessageService implements IMessageService {
         );
       }
 
+      const conversation = data.conversationId
+        ? await this.getConversationForSender(senderId, data.conversationId)
+        : await this.getDirectConversationForSender(senderId, data.receiverId);
+
+      // Direct messages keep their receiver so delivery and read states stay per message
+      const recipientIds = conversation.participants
+        .map((p) => p.userId)
+        .filter((userId) => userId !== senderId);
+      const receiverId =
+        conversation.type === ConversationType.DIRECT ? recipientIds[0] : undefined;
+
       // Validate quote request if provided
       if (data.quoteRequestId) {
         const hasAccess = await this.customOrderService.validateOrderAccess(
@@ -97,19 +114,47 @@ export class MessageService implements IMessageService {
         }
       }
 
+      // Replies quote a message of the same conversation that still has its content
+      if (data.replyToId) {
+        const replyTo = await this.messageRepository.findById(data.replyToId);
+        if (!replyTo || replyTo.conversationId !== conversation.id || replyTo.deletedAt) {
+          throw new AppError('Cannot reply to this message', 400, 'INVALID_REPLY');
+        }
+      }
+
       // Create message
       const message = await this.messageRepository.createMessage(senderId, {
         ...data,
+        conversationId: conversation.id,
+        receiverId,
         content: data.content.trim(),
       });
 
-      // Send real-time notification via Socket.io
-      await this.socketService.sendMessage(data.receiverId, message);
+      if (receiverId) {
+        // Send real-time notification via Socket.io; the message counts as delivered once one of
+        // the receiver's sockets acknowledges it, which must not hold up the response
+        this.socketService
+          .sendMessage(receiverId, message)
+          .then((delivered) => (delivered ? this.markAsDelivered([message.id], receiverId) : 0))
+          .catch((error) =>
+            this.logger.error(`Error confirming delivery of ${message.id}: ${error}`),
+          );
+      } else {
+        // Group messages are followed by each participant's read pointer instead
+        recipientIds.forEach((userId) => {
+          this.socketService
+            .sendMessage(userId, message)
+            .catch((error) => this.logger.error(`Error sending message to ${userId}: ${error}`));
+        });
+      }
 
-      // Send push notification
-      await this.notificationService.notifyMessage(message.id, senderId, data.receiverId);
+      // Send push notification, except to participants who muted the conversation
+      const notified = conversation.participants.filter((p) => p.userId !== senderId && !p.isMuted);
+      await Promise.all(
+        notified.map((p) => this.notificationService.notifyMessage(message.id, senderId, p.userId)),
+      );
 
-      this.logger.info(`Message sent from ${senderId} to ${data.receiverId}`);
+      this.logger.info(`Message sent from ${senderId} to conversation ${conversation.id}`);
 
       return message;
     } catch (error) {
@@ -127,34 +172,15 @@ export class MessageService implements IMessageService {
         return false;
       }
 
-      // Get both users
-      const [sender, receiver] = await Promise.all([
-        this.userRepository.findById(senderId),
-        this.userRepository.findById(receiverId),
-      ]);
-
-      if (!sender || !receiver) {
-        return false;
+      // Both participants of an existing direct conversation can keep using it
+      const conversation = await this.conversationRepository.findDirect(senderId, receiverId);
+      if (conversation) {
+        const participantIds = conversation.participants.map((p) => p.userId);
+        return participantIds.includes(senderId) && participantIds.includes(receiverId);
       }
 
-      // Business rules:
-      // 1. Anyone can message ARTISAN (since artisans can sell)
-      if (receiver.role === 'ARTISAN') {
-        return true;
-      }
-
-      // 2. ARTISAN can message anyone (since artisans are also customers)
-      if (sender.role === 'ARTISAN') {
-        return true;
-      }
-
-      // 3. Pure CUSTOMER cannot message pure CUSTOMER
-      if (sender.role === 'CUSTOMER' && receiver.role === 'CUSTOMER') {
-        return false;
-      }
-
-      // Default allow for other cases
-      return true;
+      // Otherwise the rules for starting a conversation apply
+      return await this.conversationService.canStartConversation(senderId, receiverId);
     } catch (error) {
       this.logger.error(`Error checking message permission: ${error}`);
       return false;
@@ -582,22 +608,70 @@ export class MessageService implements IMessageService {
   async getConversationMessages(
     userId: string,
     otherUserId: string,
-    page?: number,
-    limit?: number,
+    page: number = 1,
+    limit: number = 20,
   ): Promise<PaginatedResult<MessageWithUsers>> {
     try {
-      const otherUser = await this.userRepository.findById(otherUserId);
-      if (!otherUser) {
-        throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+      await this.validateConversationAccess(userId, otherUserId);
+
+      const conversation = await this.conversationRepository.findDirect(userId, otherUserId);
+      if (!conversation) {
+        return PaginationUtils.createPaginatedResult([], 0, page, limit);
       }
 
-      // Check if they can message each other
-      const canMessage = await this.canSendMessageTo(userId, otherUserId);
-      if (!canMessage) {
-        throw new AppError('You cannot view messages with this user', 403, 'MESSAGE_FORBIDDEN');
+      return await this.messageRepository.getConversationMessages(
+        conversation.id,
+        userId,
+        page,
+        limit,
+      );
+    } catch (error) {
+      this.logger.error(`Error getting conversation messages: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to get conversation messages', 500, 'SERVICE_ERROR');
+    }
+  }
+
+  async getConversationMessagesByCursor(
+    userId: string,
+    otherUserId: string,
+    options: CursorPaginationOptions = {},
+  ): Promise<CursorPaginatedResult<MessageWithUsers>> {
+    try {
+      await this.validateConversationAccess(userId, otherUserId);
+
+      const conversation = await this.conversationRepository.findDirect(userId, otherUserId);
+      if (!conversation) {
+        return PaginationUtils.createCursorPaginatedResult([], options.limit || 20);
       }
 
-      return await this.messageRepository.getConversationMessages(userId, otherUserId, page, limit);
+      return await this.messageRepository.getConversationMessagesByCursor(
+        conversation.id,
+        userId,
+        options,
+      );
+    } catch (error) {
+      this.logger.error(`Error getting conversation messages: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to get conversation messages', 500, 'SERVICE_ERROR');
+    }
+  }
+
+  async getThreadMessages(
+    userId: string,
+    conversationId: string,
+    page: number = 1,
+    limit: number = 20,
+  ): Promise<PaginatedResult<MessageWithUsers>> {
+    try {
+      await this.getConversationForSender(userId, conversationId);
+
+      return await this.messageRepository.getConversationMessages(
+        conversationId,
+        userId,
+        page,
+        limit,
+      );
     } catch (error) {
       this.logger.error(`Error getting conversation messages: ${error}`);
       if (error instanceof AppError) throw error;
@@ -605,6 +679,89 @@ export class MessageService implements IMessageService {
     }
   }
 
+  async getThreadMessagesByCursor(
+    userId: string,
+    conversationId: string,
+    options: CursorPaginationOptions = {},
+  ): Promise<CursorPaginatedResult<MessageWithUsers>> {
+    try {
+      await this.getConversationForSender(userId, conversationId);
+
+      return await this.messageRepository.getConversationMessagesByCursor(
+        conversationId,
+        userId,
+        options,
+      );
+    } catch (error) {
+      this.logger.error(`Error getting conversation messages: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to get conversation messages', 500, 'SERVICE_ERROR');
+    }
+  }
+
+  async searchMessages(
+    userId: string,
+    options: MessageSearchOptions,
+  ): Promise<PaginatedResult<MessageWithUsers>> {
+    try {
+      if (options.conversationId) {
+        await this.getConversationForSender(userId, options.conversationId);
+      }
+
+      return await this.messageRepository.searchMessages(userId, options);
+    } catch (error) {
+      this.logger.error(`Error searching messages: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to search messages', 500, 'SERVICE_ERROR');
+    }
+  }
+
+  async getMessageContext(
+    messageId: string,
+    userId: string,
+    limit: number = 10,
+  ): Promise<MessageContext> {
+    try {
+      await this.getMessageForParticipant(messageId, userId);
+
+      // Messages deleted for the user are gone from their point of view
+      const context = await this.messageRepository.getMessageContext(messageId, userId, limit);
+      if (!context) {
+        throw new AppError('Message not found', 404, 'MESSAGE_NOT_FOUND');
+      }
+
+      return context;
+    } catch (error) {
+      this.logger.error(`Error getting message context: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to get message context', 500, 'SERVICE_ERROR');
+    }
+  }
+
+  async markAsDelivered(messageIds: string[], userId: string): Promise<number> {
+    try {
+      const changes = await this.messageRepository.markAsDelivered(messageIds, userId);
+      const deliveredAt = new Date();
+
+      await Promise.all(
+        changes.map((change) =>
+          this.sendStatusUpdate(change.senderId, {
+            messageIds: change.messageIds,
+            status: MessageStatus.DELIVERED,
+            userId,
+            at: deliveredAt,
+          }),
+        ),
+      );
+
+      return changes.reduce((total, change) => total + change.messageIds.length, 0);
+    } catch (error) {
+      this.logger.error(`Error marking messages as delivered: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to mark messages as delivered', 500, 'SERVICE_ERROR');
+    }
+  }
+
   async markAsRead(messageId: string, userId: string): Promise<boolean> {
     try {
       const result = await this.messageRepository.markAsRead(messageId, userId);
@@ -612,10 +769,11 @@ export class MessageService implements IMessageService {
       if (result) {
         const message = await this.messageRepository.findById(messageId);
         if (message && message.senderId !== userId) {
-          await this.socketService.broadcastToUser(message.senderId, 'message-read', {
-            messageId,
-            readBy: userId,
-            readAt: new Date(),
+          await this.sendStatusUpdate(message.senderId, {
+            messageIds: [messageId],
+            status: MessageStatus.READ,
+            userId,
+            at: message.readAt || new Date(),
           });
         }
       }
@@ -630,17 +788,23 @@ export class MessageService implements IMessageService {
 
   async markConversationAsRead(userId: string, otherUserId: string): Promise<number> {
     try {
-      const count = await this.messageRepository.markConversationAsRead(userId, otherUserId);
+      const messageIds = await this.messageRepository.markConversationAsRead(userId, otherUserId);
 
-      if (count > 0) {
-        await this.socketService.broadcastToUser(otherUserId, 'conversation-read', {
+      const conversation = await this.conversationRepository.findDirect(userId, otherUserId);
+      if (conversation) {
+        await this.conversationRepository.markRead(conversation.id, userId, new Date());
+      }
+
+      if (messageIds.length > 0) {
+        await this.sendStatusUpdate(otherUserId, {
+          messageIds,
+          status: MessageStatus.READ,
           userId,
-          readCount: count,
-          readAt: new Date(),
+          at: new Date(),
         });
       }
 
-      return count;
+      return messageIds.length;
     } catch (error) {
       this.logger.error(`Error marking conversation as read: ${error}`);
       if (error instanceof AppError) throw error;
@@ -648,13 +812,37 @@ export class MessageService implements IMessageService {
     }
   }
 
-  async getConversations(userId: string): Promise<Conversation[]> {
+  async markThreadAsRead(userId: string, conversationId: string): Promise<void> {
     try {
-      return await this.messageRepository.getConversations(userId);
+      const conversation = await this.getConversationForSender(userId, conversationId);
+
+      if (conversation.type === ConversationType.DIRECT) {
+        const other = conversation.participants.find((p) => p.userId !== userId);
+        if (other) {
+          await this.markConversationAsRead(userId, other.userId);
+        }
+        return;
+      }
+
+      const readAt = new Date();
+      await this.conversationRepository.markRead(conversationId, userId, readAt);
+
+      // Group read receipts go to the other participants only
+      await Promise.all(
+        conversation.participants
+          .filter((p) => p.userId !== userId)
+          .map((p) =>
+            this.socketService.broadcastToUser(p.userId, 'conversation-read', {
+              conversationId,
+              userId,
+              readAt,
+            }),
+          ),
+      );
     } catch (error) {
-      this.logger.error(`Error getting conversations: ${error}`);
+      this.logger.error(`Error marking conversation as read: ${error}`);
       if (error instanceof AppError) throw error;
-      throw new AppError('Failed to get conversations', 500, 'SERVICE_ERROR');
+      throw new AppError('Failed to mark conversation as read', 500, 'SERVICE_ERROR');
     }
   }
 
@@ -667,15 +855,168 @@ export class MessageService implements IMessageService {
     }
   }
 
-  async deleteMessage(messageId: string, userId: string): Promise<boolean> {
+  async editMessage(messageId: string, userId: string, content: string): Promise<MessageWithUsers> {
     try {
-      const result = await this.messageRepository.deleteMessage(messageId, userId);
+      const message = await this.getMessageForParticipant(messageId, userId);
 
-      if (result) {
-        this.logger.info(`Message ${messageId} deleted by user ${userId}`);
+      if (message.senderId !== userId) {
+        throw new AppError('You can only edit your own messages', 403, 'MESSAGE_FORBIDDEN');
       }
 
-      return result;
+      if (message.deletedAt) {
+        throw new AppError('Deleted messages cannot be edited', 400, 'MESSAGE_DELETED');
+      }
+
+      // Custom order cards mirror the order itself
+      if (message.type === MessageType.CUSTOM_ORDER) {
+        throw new AppError('This message cannot be edited', 400, 'MESSAGE_NOT_EDITABLE');
+      }
+
+      if (Date.now() - new Date(message.createdAt).getTime() > this.EDIT_WINDOW_MS) {
+        throw new AppError(
+          'Messages can only be edited within 15 minutes of sending',
+          400,
+          'EDIT_WINDOW_EXPIRED',
+        );
+      }
+
+      const trimmed = content.trim();
+      if (trimmed.length === 0) {
+        throw new AppError('Message content cannot be empty', 400, 'EMPTY_MESSAGE');
+      }
+
+      if (trimmed.length > 2000) {
+        throw new AppError(
+          'Message content cannot exceed 2000 characters',
+          400,
+          'MESSAGE_TOO_LONG',
+        );
+      }
+
+      if (trimmed === message.content) {
+        return message;
+      }
+
+      const updated = await this.messageRepository.editMessage(messageId, trimmed);
+
+      this.socketService.sendToRoom(
+        SocketRooms.conversation(message.conversationId),
+        'message-updated',
+        updated,
+      );
+
+      this.logger.info(`Message ${messageId} edited by user ${userId}`);
+
+      return updated;
+    } catch (error) {
+      this.logger.error(`Error editing message: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to edit message', 500, 'SERVICE_ERROR');
+    }
+  }
+
+  async getMessageRevisions(messageId: string, userId: string): Promise<MessageRevision[]> {
+    try {
+      await this.getMessageForParticipant(messageId, userId);
+
+      return await this.messageRepository.getRevisions(messageId);
+    } catch (error) {
+      this.logger.error(`Error getting message revisions: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to get message revisions', 500, 'SERVICE_ERROR');
+    }
+  }
+
+  async addReaction(messageId: string, userId: string, emoji: string): Promise<void> {
+    try {
+      const message = await this.getMessageForParticipant(messageId, userId);
+
+      if (message.deletedAt) {
+        throw new AppError('Deleted messages cannot be reacted to', 400, 'MESSAGE_DELETED');
+      }
+
+      const added = await this.messageRepository.addReaction(messageId, userId, emoji);
+
+      if (added) {
+        this.socketService.sendToRoom(
+          SocketRooms.conversation(message.conversationId),
+          'message-reaction',
+          { messageId, conversationId: message.conversationId, userId, emoji, action: 'added' },
+        );
+      }
+    } catch (error) {
+      this.logger.error(`Error adding reaction: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to add reaction', 500, 'SERVICE_ERROR');
+    }
+  }
+
+  async removeReaction(messageId: string, userId: string, emoji: string): Promise<void> {
+    try {
+      const message = await this.getMessageForParticipant(messageId, userId);
+
+      const removed = await this.messageRepository.removeReaction(messageId, userId, emoji);
+
+      if (removed) {
+        this.socketService.sendToRoom(
+          SocketRooms.conversation(message.conversationId),
+          'message-reaction',
+          { messageId, conversationId: message.conversationId, userId, emoji, action: 'removed' },
+        );
+      }
+    } catch (error) {
+      this.logger.error(`Error removing reaction: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to remove reaction', 500, 'SERVICE_ERROR');
+    }
+  }
+
+  async deleteMessage(
+    messageId: string,
+    userId: string,
+    scope: MessageDeleteScope = MessageDeleteScope.EVERYONE,
+  ): Promise<boolean> {
+    try {
+      const message = await this.messageRepository.findById(messageId);
+      if (
+        !message ||
+        !(await this.conversationService.isParticipant(message.conversationId, userId))
+      ) {
+        return false;
+      }
+
+      if (scope === MessageDeleteScope.ME) {
+        await this.messageRepository.deleteForUser(messageId, userId);
+
+        // Only the user's other devices need to know
+        this.socketService.sendToRoom(SocketRooms.user(userId), 'message-deleted', {
+          messageId,
+          conversationId: message.conversationId,
+          scope,
+        });
+
+        this.logger.info(`Message ${messageId} deleted for user ${userId}`);
+        return true;
+      }
+
+      // Only the sender can delete for everyone
+      if (message.senderId !== userId) {
+        return false;
+      }
+
+      if (!message.deletedAt) {
+        await this.messageRepository.deleteForEveryone(messageId);
+
+        this.socketService.sendToRoom(
+          SocketRooms.conversation(message.conversationId),
+          'message-deleted',
+          { messageId, conversationId: message.conversationId, scope },
+        );
+
+        this.logger.info(`Message ${messageId} deleted for everyone by user ${userId}`);
+      }
+
+      return true;
     } catch (error) {
       this.logger.error(`Error deleting message: ${error}`);
       if (error instanceof AppError) throw error;
@@ -691,10 +1032,86 @@ export class MessageService implements IMessageService {
         return false;
       }
 
-      return message.senderId === userId || message.receiverId === userId;
+      return await this.conversationService.isParticipant(message.conversationId, userId);
     } catch (error) {
       this.logger.error(`Error validating message access: ${error}`);
       return false;
     }
   }
+
+  private async getMessageForParticipant(
+    messageId: string,
+    userId: string,
+  ): Promise<MessageWithUsers> {
+    const message = await this.messageRepository.findById(messageId);
+    if (!message) {
+      throw new AppError('Message not found', 404, 'MESSAGE_NOT_FOUND');
+    }
+
+    await this.getConversationForSender(userId, message.conversationId);
+
+    return message;
+  }
+
+  private async getConversationForSender(
+    userId: string,
+    conversationId: string,
+  ): Promise<ConversationWithParticipants> {
+    const conversation = await this.conversationRepository.findById(conversationId);
+    if (!conversation) {
+      throw new AppError('Conversation not found', 404, 'CONVERSATION_NOT_FOUND');
+    }
+
+    // Only current participants can read or write in a conversation
+    if (!conversation.participants.some((p) => p.userId === userId)) {
+      throw new AppError('You are not part of this conversation', 403, 'CONVERSATION_FORBIDDEN');
+    }
+
+    return conversation;
+  }
+
+  /**
+   * The direct conversation with a user, started on the first message
+   */
+  private async getDirectConversationForSender(
+    senderId: string,
+    receiverId?: string,
+  ): Promise<ConversationWithParticipants> {
+    if (!receiverId) {
+      throw new AppError('Receiver or conversation is required', 400, 'RECEIVER_REQUIRED');
+    }
+
+    const receiver = await this.userRepository.findById(receiverId);
+    if (!receiver) {
+      throw new AppError('Receiver not found', 404, 'RECEIVER_NOT_FOUND');
+    }
+
+    // Check messaging permissions
+    const canSend = await this.canSendMessageTo(senderId, receiverId);
+    if (!canSend) {
+      throw new AppError('You cannot send messages to this user', 403, 'MESSAGE_FORBIDDEN');
+    }
+
+    return await this.conversationRepository.findOrCreateDirect(senderId, receiverId);
+  }
+
+  /**
+   * Tell a sender that their messages were delivered or read; only the sender receives it
+   */
+  private async sendStatusUpdate(senderId: string, update: MessageStatusUpdate): Promise<void> {
+    await this.socketService.broadcastToUser(senderId, 'message-status', update);
+  }
+
+  private async validateConversationAccess(userId: string, otherUserId: string): Promise<void> {
+    const otherUser = await this.userRepository.findById(otherUserId);
+    if (!otherUser) {
+      throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+    }
+
+    // Check if they can message each other
+    const canMessage = await this.canSendMessageTo(userId, otherUserId);
+    if (!canMessage) {
+      throw new AppError('You cannot view messages with this user', 403, 'MESSAGE_FORBIDDEN');
+    }
+  }
 }
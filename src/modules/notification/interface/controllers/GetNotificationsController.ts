@@ -20,7 +20,7 @@ export class GetNotificationsController extends BaseController {
       const options: NotificationQueryOptions = {
         page: parseInt(req.query.page as string) || 1,
         limit: parseInt(req.query.limit as string) || 20,
-        isRead: req.query.isRead ? req.query.isRead === 'true' : undefined,
+        isRead: req.query.isRead !== undefined ? String(req.query.isRead) === 'true' : undefined,
         types: req.query.types
           ? Array.isArray(req.query.types)
             ? (req.query.types as any[])
@@ -30,12 +30,14 @@ export class GetNotificationsController extends BaseController {
         dateTo: req.query.dateTo ? new Date(req.query.dateTo as string) : undefined,
       };
 
-      const notifications = await this.notificationService.getUserNotifications(
-        req.user!.id,
-        options,
-      );
+      const notifications = this.isCursorPagination(req)
+        ? await this.notificationService.getUserNotificationsByCursor(req.user!.id, {
+            ...options,
+            cursor: req.query.cursor as string | undefined,
+          })
+        : await this.notificationService.getUserNotifications(req.user!.id, options);
 
-      ApiResponse.success(res, notifications, 'Notifications retrieved successfully');
+      ApiResponse.paginated(res, notifications, 'Notifications retrieved successfully');
     } catch (error) {
       next(error);
     }
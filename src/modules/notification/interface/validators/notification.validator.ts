@@ -34,6 +34,8 @@ export const createNotificationSchema = Joi.object({
 export const getNotificationsQuerySchema = Joi.object({
   page: Joi.number().integer().min(1).default(1),
   limit: Joi.number().integer().min(1).max(100).default(20),
+  pagination: Joi.string().valid('offset', 'cursor').default('offset'),
+  cursor: Joi.string().max(200),
   isRead: Joi.boolean(),
   types: Joi.alternatives().try(
     Joi.string().valid(...Object.values(NotificationType)),
@@ -54,8 +54,12 @@ export enum NotificationType {
   CUSTOM_ORDER = 'CUSTOM_ORDER',
   CUSTOM_ORDER_UPDATE = 'CUSTOM_ORDER_UPDATE',
   MESSAGE = 'MESSAGE',
-  // DISPUTE = 'DISPUTE',
-  // RETURN = 'RETURN',
+  DISPUTE = 'DISPUTE',
+  RETURN = 'RETURN',
   PRICE_NEGOTIATION = 'PRICE_NEGOTIATION',
+  LOW_STOCK = 'LOW_STOCK',
+  BACK_IN_STOCK = 'BACK_IN_STOCK',
+  PRODUCT_QUESTION = 'PRODUCT_QUESTION',
+  PRODUCT_ANSWER = 'PRODUCT_ANSWER',
   SYSTEM = 'SYSTEM',
 }
@@ -4,7 +4,11 @@ import {
   CreateNotificationDto,
   NotificationQueryOptions,
 } from '../models/Notification';
-import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
+import {
+  PaginatedResult,
+  CursorPaginatedResult,
+  CursorPaginationOptions,
+} from '../../../shared/interfaces/PaginatedResult';
 
 export interface INotificationRepository {
   createNotification(data: CreateNotificationDto): Promise<Notification>;
@@ -13,6 +17,10 @@ export interface INotificationRepository {
     userId: string,
     options?: NotificationQueryOptions,
   ): Promise<PaginatedResult<NotificationWithSender>>;
+  getUserNotificationsByCursor(
+    userId: string,
+    options?: Omit<NotificationQueryOptions, 'page'> & CursorPaginationOptions,
+  ): Promise<CursorPaginatedResult<NotificationWithSender>>;
   markAsRead(id: string, userId: string): Promise<boolean>;
   markAllAsRead(userId: string): Promise<number>;
   deleteNotification(id: string, userId: string): Promise<boolean>;
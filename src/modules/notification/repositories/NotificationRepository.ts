@@ -6,11 +6,18 @@ import {
   CreateNotificationDto,
   NotificationQueryOptions,
 } from '../models/Notification';
-import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
+import {
+  PaginatedResult,
+  CursorPaginatedResult,
+  CursorPaginationOptions,
+} from '../../../shared/interfaces/PaginatedResult';
 import { PaginationUtils } from '../../../shared/utils/PaginationUtils';
 import { AppError } from '../../../core/errors/AppError';
+import { Logger } from '../../../core/logging/Logger';
 
 export class NotificationRepository implements INotificationRepository {
+  private logger = Logger.getInstance();
+
   constructor(private prisma: PrismaClient) {}
 
   async createNotification(data: CreateNotificationDto): Promise<Notification> {
@@ -49,41 +56,14 @@ export class NotificationRepository implements INotificationRepository {
     options: NotificationQueryOptions = {},
   ): Promise<PaginatedResult<NotificationWithSender>> {
     try {
-      const { page = 1, limit = 20, isRead, types, dateFrom, dateTo } = options;
+      const { page = 1, limit = 20 } = options;
       const skip = PaginationUtils.calculateSkip(page, limit);
-
-      const where: any = {
-        recipientId: userId,
-      };
-
-      if (isRead !== undefined) {
-        where.isRead = isRead;
-      }
-
-      if (types && types.length > 0) {
-        where.type = { in: types };
-      }
-
-      if (dateFrom || dateTo) {
-        where.createdAt = {};
-        if (dateFrom) where.createdAt.gte = dateFrom;
-        if (dateTo) where.createdAt.lte = dateTo;
-      }
+      const where = this.buildWhere(userId, options);
 
       const [notifications, total] = await Promise.all([
         this.prisma.notification.findMany({
           where,
-          include: {
-            sender: {
-              select: {
-                id: true,
-                username: true,
-                firstName: true,
-                lastName: true,
-                avatarUrl: true,
-              },
-            },
-          },
+          include: this.senderInclude(),
           orderBy: { createdAt: 'desc' },
           skip,
           take: limit,
@@ -97,6 +77,28 @@ export class NotificationRepository implements INotificationRepository {
     }
   }
 
+  async getUserNotificationsByCursor(
+    userId: string,
+    options: Omit<NotificationQueryOptions, 'page'> & CursorPaginationOptions = {},
+  ): Promise<CursorPaginatedResult<NotificationWithSender>> {
+    const { cursor, limit = 20 } = options;
+    const after = PaginationUtils.cursorWhere(cursor);
+
+    try {
+      const notifications = await this.prisma.notification.findMany({
+        where: { AND: [this.buildWhere(userId, options), after] },
+        include: this.senderInclude(),
+        orderBy: PaginationUtils.cursorOrderBy(),
+        take: limit + 1,
+      });
+
+      return PaginationUtils.createCursorPaginatedResult(notifications as any, limit);
+    } catch (error) {
+      this.logger.error(`Error getting user notifications: ${error}`);
+      throw new AppError('Failed to get user notifications', 500, 'NOTIFICATION_GET_FAILED');
+    }
+  }
+
   async markAsRead(id: string, userId: string): Promise<boolean> {
     try {
       const result = await this.prisma.notification.updateMany({
@@ -186,4 +188,45 @@ export class NotificationRepository implements INotificationRepository {
       throw new AppError('Failed to cleanup notifications', 500, 'NOTIFICATION_CLEANUP_FAILED');
     }
   }
+
+  private buildWhere(
+    userId: string,
+    options: Pick<NotificationQueryOptions, 'isRead' | 'types' | 'dateFrom' | 'dateTo'>,
+  ) {
+    const { isRead, types, dateFrom, dateTo } = options;
+
+    const where: any = {
+      recipientId: userId,
+    };
+
+    if (isRead !== undefined) {
+      where.isRead = isRead;
+    }
+
+    if (types && types.length > 0) {
+      where.type = { in: types };
+    }
+
+    if (dateFrom || dateTo) {
+      where.createdAt = {};
+      if (dateFrom) where.createdAt.gte = dateFrom;
+      if (dateTo) where.createdAt.lte = dateTo;
+    }
+
+    return where;
+  }
+
+  private senderInclude() {
+    return {
+      sender: {
+        select: {
+          id: true,
+          username: true,
+          firstName: true,
+          lastName: true,
+          avatarUrl: true,
+        },
+      },
+    };
+  }
 }
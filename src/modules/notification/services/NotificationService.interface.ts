@@ -4,7 +4,11 @@ import {
   CreateNotificationDto,
   NotificationQueryOptions,
 } from '../models/Notification';
-import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
+import {
+  PaginatedResult,
+  CursorPaginatedResult,
+  CursorPaginationOptions,
+} from '../../../shared/interfaces/PaginatedResult';
 
 export interface INotificationService {
   // Core operations
@@ -16,6 +20,10 @@ export interface INotificationService {
     userId: string,
     options?: NotificationQueryOptions,
   ): Promise<PaginatedResult<NotificationWithSender>>;
+  getUserNotificationsByCursor(
+    userId: string,
+    options?: Omit<NotificationQueryOptions, 'page'> & CursorPaginationOptions,
+  ): Promise<CursorPaginatedResult<NotificationWithSender>>;
   getNotificationById(id: string, userId: string): Promise<NotificationWithSender | null>;
   getUnreadCount(userId: string): Promise<number>;
 
@@ -69,13 +77,13 @@ export interface INotificationService {
     artisanId: string,
   ): Promise<void>;
 
-  // // DISPUTE NOTIFICATIONS
-  // notifyDisputeCreated(complainantId: string, disputeId: string): Promise<void>;
-  // notifyDisputeUpdated(recipientId: string, disputeId: string): Promise<void>;
+  // DISPUTE NOTIFICATIONS
+  notifyDisputeCreated(complainantId: string, disputeId: string): Promise<void>;
+  notifyDisputeUpdated(recipientId: string, disputeId: string): Promise<void>;
 
-  // // RETURN NOTIFICATIONS
-  // notifyReturnCreated(sellerId: string, returnId: string): Promise<void>;
-  // notifyReturnUpdated(requesterId: string, returnId: string): Promise<void>;
+  // RETURN NOTIFICATIONS
+  notifyReturnCreated(sellerId: string, returnId: string): Promise<void>;
+  notifyReturnUpdated(requesterId: string, returnId: string): Promise<void>;
 
   // PRICE NEGOTIATION NOTIFICATIONS
   notifyPriceNegotiationRequest(
@@ -91,4 +99,30 @@ export interface INotificationService {
     action: string,
     price?: number,
   ): Promise<void>;
+
+  // INVENTORY NOTIFICATIONS
+  notifyLowStock(
+    sellerId: string,
+    productId: string,
+    productName: string,
+    quantity: number,
+  ): Promise<void>;
+  notifyBackInStock(userId: string, productId: string, productName: string): Promise<void>;
+
+  // PRODUCT Q&A NOTIFICATIONS
+  notifyProductQuestion(
+    sellerId: string,
+    askerId: string,
+    productId: string,
+    productName: string,
+    questionId: string,
+  ): Promise<void>;
+  notifyProductAnswer(
+    askerId: string,
+    answererId: string,
+    productId: string,
+    productName: string,
+    questionId: string,
+    isSeller: boolean,
+  ): Promise<void>;
 }
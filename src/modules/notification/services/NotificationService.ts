@@ -10,7 +10,11 @@ import { INotificationRepository } from '../repositories/NotificationRepository.
 import { ISocketService } from '../../../core/infrastructure/socket/SocketService.interface';
 import { AppError } from '../../../core/errors/AppError';
 import { Logger } from '../../../core/logging/Logger';
-import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
+import {
+  PaginatedResult,
+  CursorPaginatedResult,
+  CursorPaginationOptions,
+} from '../../../shared/interfaces/PaginatedResult';
 import container from '../../../core/di/container';
 
 export class NotificationService implements INotificationService {
@@ -90,6 +94,19 @@ export class NotificationService implements INotificationService {
     }
   }
 
+  async getUserNotificationsByCursor(
+    userId: string,
+    options?: Omit<NotificationQueryOptions, 'page'> & CursorPaginationOptions,
+  ): Promise<CursorPaginatedResult<NotificationWithSender>> {
+    try {
+      return await this.notificationRepository.getUserNotificationsByCursor(userId, options);
+    } catch (error) {
+      this.logger.error(`Error getting user notifications: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to get notifications', 500, 'SERVICE_ERROR');
+    }
+  }
+
   async getNotificationById(id: string, userId: string): Promise<NotificationWithSender | null> {
     try {
       const notification = await this.notificationRepository.findById(id);
@@ -448,51 +465,51 @@ export class NotificationService implements INotificationService {
     });
   }
 
-  // // DISPUTE NOTIFICATIONS
-  // async notifyDisputeCreated(complainantId: string, disputeId: string): Promise<void> {
-  //   await this.sendNotification({
-  //     recipientId: complainantId,
-  //     type: NotificationType.DISPUTE,
-  //     title: 'Dispute Created',
-  //     message: 'Your dispute has been submitted and is under review',
-  //     data: { disputeId },
-  //     actionUrl: `/disputes/${disputeId}`,
-  //   });
-  // }
-
-  // async notifyDisputeUpdated(recipientId: string, disputeId: string): Promise<void> {
-  //   await this.sendNotification({
-  //     recipientId,
-  //     type: NotificationType.DISPUTE,
-  //     title: 'Dispute Update',
-  //     message: 'There is an update on your dispute',
-  //     data: { disputeId },
-  //     actionUrl: `/disputes/${disputeId}`,
-  //   });
-  // }
-
-  // // RETURN NOTIFICATIONS
-  // async notifyReturnCreated(sellerId: string, returnId: string): Promise<void> {
-  //   await this.sendNotification({
-  //     recipientId: sellerId,
-  //     type: NotificationType.RETURN,
-  //     title: 'Return Request',
-  //     message: 'A customer has requested a return for your order',
-  //     data: { returnId },
-  //     actionUrl: `/returns/${returnId}`,
-  //   });
-  // }
-
-  // async notifyReturnUpdated(requesterId: string, returnId: string): Promise<void> {
-  //   await this.sendNotification({
-  //     recipientId: requesterId,
-  //     type: NotificationType.RETURN,
-  //     title: 'Return Update',
-  //     message: 'There is an update on your return request',
-  //     data: { returnId },
-  //     actionUrl: `/returns/${returnId}`,
-  //   });
-  // }
+  // DISPUTE NOTIFICATIONS
+  async notifyDisputeCreated(complainantId: string, disputeId: string): Promise<void> {
+    await this.sendNotification({
+      recipientId: complainantId,
+      type: NotificationType.DISPUTE,
+      title: 'Dispute Created',
+      message: 'Your dispute has been submitted and is under review',
+      data: { disputeId },
+      actionUrl: `/disputes/${disputeId}`,
+    });
+  }
+
+  async notifyDisputeUpdated(recipientId: string, disputeId: string): Promise<void> {
+    await this.sendNotification({
+      recipientId,
+      type: NotificationType.DISPUTE,
+      title: 'Dispute Update',
+      message: 'There is an update on your dispute',
+      data: { disputeId },
+      actionUrl: `/disputes/${disputeId}`,
+    });
+  }
+
+  // RETURN NOTIFICATIONS
+  async notifyReturnCreated(sellerId: string, returnId: string): Promise<void> {
+    await this.sendNotification({
+      recipientId: sellerId,
+      type: NotificationType.RETURN,
+      title: 'Return Request',
+      message: 'A customer has requested a return for your order',
+      data: { returnId },
+      actionUrl: `/returns/${returnId}`,
+    });
+  }
+
+  async notifyReturnUpdated(requesterId: string, returnId: string): Promise<void> {
+    await this.sendNotification({
+      recipientId: requesterId,
+      type: NotificationType.RETURN,
+      title: 'Return Update',
+      message: 'There is an update on your return request',
+      data: { returnId },
+      actionUrl: `/returns/${returnId}`,
+    });
+  }
 
   // PRICE NEGOTIATION NOTIFICATIONS
   async notifyPriceNegotiationRequest(
@@ -550,4 +567,75 @@ export class NotificationService implements INotificationService {
       actionUrl: `/products/${productId}`, // Link đến product page
     });
   }
+
+  // INVENTORY NOTIFICATIONS
+  async notifyLowStock(
+    sellerId: string,
+    productId: string,
+    productName: string,
+    quantity: number,
+  ): Promise<void> {
+    await this.sendNotification({
+      recipientId: sellerId,
+      type: NotificationType.LOW_STOCK,
+      title: quantity > 0 ? 'Low Stock' : 'Out of Stock',
+      message:
+        quantity > 0
+          ? `Only ${quantity} left of "${productName}"`
+          : `"${productName}" is out of stock`,
+      data: { productId, quantity },
+      actionUrl: `/products/${productId}`,
+    });
+  }
+
+  async notifyBackInStock(userId: string, productId: string, productName: string): Promise<void> {
+    await this.sendNotification({
+      recipientId: userId,
+      type: NotificationType.BACK_IN_STOCK,
+      title: 'Back in Stock',
+      message: `"${productName}" is available again`,
+      data: { productId },
+      actionUrl: `/products/${productId}`,
+    });
+  }
+
+  // PRODUCT Q&A NOTIFICATIONS
+  async notifyProductQuestion(
+    sellerId: string,
+    askerId: string,
+    productId: string,
+    productName: string,
+    questionId: string,
+  ): Promise<void> {
+    await this.sendNotification({
+      recipientId: sellerId,
+      senderId: askerId,
+      type: NotificationType.PRODUCT_QUESTION,
+      title: 'New Product Question',
+      message: `Someone asked a question about "${productName}"`,
+      data: { productId, questionId },
+      actionUrl: `/products/${productId}?question=${questionId}`,
+    });
+  }
+
+  async notifyProductAnswer(
+    askerId: string,
+    answererId: string,
+    productId: string,
+    productName: string,
+    questionId: string,
+    isSeller: boolean,
+  ): Promise<void> {
+    await this.sendNotification({
+      recipientId: askerId,
+      senderId: answererId,
+      type: NotificationType.PRODUCT_ANSWER,
+      title: 'Your Question Was Answered',
+      message: isSeller
+        ? `The seller answered your question about "${productName}"`
+        : `A buyer answered your question about "${productName}"`,
+      data: { productId, questionId, isSeller },
+      actionUrl: `/products/${productId}?question=${questionId}`,
+    });
+  }
 }
@@ -25,13 +25,15 @@ export function registerOrderModule() {
     version: '2.0.0', // Updated version
     features: [
       'Order creation from cart',
+      'Coupon and promotion redemptions recorded per order',
       'Custom order creation from quotes',
       'Order status tracking with JSON history',
       'Payment processing simulation',
-      'Multi-seller order support',
+      'Partial and per-item refunds with a refund ledger',
+      'Multi-seller orders with per-seller fulfillments',
       'Delivery status tracking',
-      // 'Order dispute management',
-      // 'Return request management',
+      'Order dispute management with seller responses',
+      'Return request management with refunds and restocking',
       'Role-based access control',
       'Order analytics & statistics',
       'Real-time notifications',
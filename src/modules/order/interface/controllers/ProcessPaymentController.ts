@@ -16,8 +16,8 @@ export class ProcessPaymentController extends BaseController {
     this.validateAuth(req);
 
     const { id } = req.params;
-    const order = await this.orderService.processPayment(id, req.body);
+    const order = await this.orderService.processPayment(id, req.user!.id, req.body);
 
-    ApiResponse.success(res, order, 'Payment processed successfully');
+    ApiResponse.success(res, order, 'Payment initiated successfully');
   }
 }
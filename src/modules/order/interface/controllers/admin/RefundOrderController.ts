@@ -0,0 +1,24 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../../shared/utils/ApiResponse';
+import { IOrderService } from '../../../services/OrderService.interface';
+import container from '../../../../../core/di/container';
+
+export class RefundOrderController extends BaseController {
+  private orderService: IOrderService;
+
+  constructor() {
+    super();
+    this.orderService = container.resolve<IOrderService>('orderService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    this.validateAuth(req);
+    this.validateRole(req, ['ADMIN']);
+
+    const { id } = req.params;
+    const order = await this.orderService.refundPayment(id, req.body, req.user!.id);
+
+    ApiResponse.success(res, order, 'Refund processed successfully');
+  }
+}
@@ -0,0 +1,24 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../../shared/utils/ApiResponse';
+import { IOrderService } from '../../../services/OrderService.interface';
+import container from '../../../../../core/di/container';
+
+export class RespondToDisputeController extends BaseController {
+  private orderService: IOrderService;
+
+  constructor() {
+    super();
+    this.orderService = container.resolve<IOrderService>('orderService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    this.validateAuth(req);
+    this.validateRole(req, ['ARTISAN']);
+
+    const { id } = req.params;
+    const dispute = await this.orderService.respondToDispute(id, req.user!.id, req.body);
+
+    ApiResponse.success(res, dispute, 'Response submitted successfully');
+  }
+}
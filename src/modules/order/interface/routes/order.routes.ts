@@ -16,17 +16,19 @@ import { ProcessPaymentController } from '../controllers/ProcessPaymentControlle
 import { GetOrderStatsController } from '../controllers/GetOrderStatsController';
 import { GetOrderStatusHistoryController } from '../controllers/GetOrderStatusHistoryController';
 
-// // Dispute Controllers
-// import { CreateDisputeController } from '../controllers/dispute/CreateDisputeController';
-// import { GetMyDisputesController } from '../controllers/dispute/GetMyDisputesController';
-// import { UpdateDisputeController } from '../controllers/dispute/UpdateDisputeController';
-// import { GetDisputeController } from '../controllers/dispute/GetDisputeController';
-
-// // Return Controllers
-// import { CreateReturnController } from '../controllers/return/CreateReturnController';
-// import { GetMyReturnsController } from '../controllers/return/GetMyReturnsController';
-// import { UpdateReturnController } from '../controllers/return/UpdateReturnController';
-// import { GetReturnController } from '../controllers/return/GetReturnController';
+// Dispute Controllers
+import { CreateDisputeController } from '../controllers/dispute/CreateDisputeController';
+import { GetMyDisputesController } from '../controllers/dispute/GetMyDisputesController';
+import { UpdateDisputeController } from '../controllers/dispute/UpdateDisputeController';
+import { GetDisputeController } from '../controllers/dispute/GetDisputeController';
+import { RespondToDisputeController } from '../controllers/dispute/RespondToDisputeController';
+
+// Return Controllers
+import { CreateReturnController } from '../controllers/return/CreateReturnController';
+import { GetMyReturnsController } from '../controllers/return/GetMyReturnsController';
+import { UpdateReturnController } from '../controllers/return/UpdateReturnController';
+import { GetReturnController } from '../controllers/return/GetReturnController';
+import { RespondToReturnController } from '../controllers/return/RespondToReturnController';
 
 // Admin Controllers
 import { GetAllDisputesController } from '../controllers/dispute/GetAllDisputesController';
@@ -37,6 +39,7 @@ import { GetAllOrdersController } from '../controllers/admin/GetAllOrdersControl
 import { DeleteOrderController } from '../controllers/admin/DeleteOrderController';
 import { AdminUpdateOrderStatusController } from '../controllers/admin/AdminUpdateOrderStatusController';
 import { GetAdminOrderStatsController } from '../controllers/admin/GetAdminOrderStatsController';
+import { RefundOrderController } from '../controllers/admin/RefundOrderController';
 
 // Validators
 import {
@@ -45,14 +48,16 @@ import {
   updateOrderStatusSchema,
   cancelOrderSchema,
   processPaymentSchema,
+  refundOrderSchema,
   getOrdersQuerySchema,
   getOrderStatsQuerySchema,
-  // createDisputeSchema,
-  // updateDisputeSchema,
-  // getDisputesQuerySchema,
-  // createReturnSchema,
-  // updateReturnSchema,
-  // getReturnsQuerySchema,
+  createDisputeSchema,
+  updateDisputeSchema,
+  getDisputesQuerySchema,
+  createReturnSchema,
+  updateReturnSchema,
+  getReturnsQuerySchema,
+  sellerResponseSchema,
 } from '../validators/order.validator';
 
 const router = Router();
@@ -70,15 +75,17 @@ const processPaymentController = new ProcessPaymentController();
 const getOrderStatsController = new GetOrderStatsController();
 const getOrderStatusHistoryController = new GetOrderStatusHistoryController();
 
-// const createDisputeController = new CreateDisputeController();
-// const getMyDisputesController = new GetMyDisputesController();
-// const updateDisputeController = new UpdateDisputeController();
-// const getDisputeController = new GetDisputeController();
+const createDisputeController = new CreateDisputeController();
+const getMyDisputesController = new GetMyDisputesController();
+const updateDisputeController = new UpdateDisputeController();
+const getDisputeController = new GetDisputeController();
+const respondToDisputeController = new RespondToDisputeController();
 
-// const createReturnController = new CreateReturnController();
-// const getMyReturnsController = new GetMyReturnsController();
-// const updateReturnController = new UpdateReturnController();
-// const getReturnController = new GetReturnController();
+const createReturnController = new CreateReturnController();
+const getMyReturnsController = new GetMyReturnsController();
+const updateReturnController = new UpdateReturnController();
+const getReturnController = new GetReturnController();
+const respondToReturnController = new RespondToReturnController();
 
 const getAllDisputesController = new GetAllDisputesController();
 const getAllReturnsController = new GetAllReturnsController();
@@ -87,6 +94,7 @@ const getAllOrdersController = new GetAllOrdersController();
 const deleteOrderController = new DeleteOrderController();
 const adminUpdateOrderStatusController = new AdminUpdateOrderStatusController();
 const getAdminOrderStatsController = new GetAdminOrderStatsController();
+const refundOrderController = new RefundOrderController();
 
 // All routes require authentication
 router.use(authenticate);
@@ -143,48 +151,59 @@ router.post(
   processPaymentController.execute,
 );
 
-// // === DISPUTE ROUTES ===
-// router.post('/disputes', validate(createDisputeSchema), createDisputeController.execute);
-// router.get(
-//   '/disputes/my',
-//   validate(getDisputesQuerySchema, 'query'),
-//   getMyDisputesController.execute,
-// );
-// router.get('/disputes/:id', validateIdParam(), getDisputeController.execute);
-// router.patch(
-//   '/disputes/:id',
-//   validateIdParam(),
-//   validate(updateDisputeSchema),
-//   updateDisputeController.execute,
-// );
-
-// // === RETURN ROUTES ===
-// router.post('/returns', validate(createReturnSchema), createReturnController.execute);
-// router.get('/returns/my', validate(getReturnsQuerySchema, 'query'), getMyReturnsController.execute);
-// router.get('/returns/:id', validateIdParam(), getReturnController.execute);
-// router.patch(
-//   '/returns/:id',
-//   validateIdParam(),
-//   validate(updateReturnSchema),
-//   updateReturnController.execute,
-// );
+// === DISPUTE ROUTES ===
+router.post('/disputes', validate(createDisputeSchema), createDisputeController.execute);
+router.get(
+  '/disputes/my',
+  validate(getDisputesQuerySchema, 'query'),
+  getMyDisputesController.execute,
+);
+router.get('/disputes/:id', validateIdParam(), getDisputeController.execute);
+router.patch(
+  '/disputes/:id',
+  validateIdParam(),
+  validate(updateDisputeSchema),
+  updateDisputeController.execute,
+);
+router.post(
+  '/disputes/:id/respond',
+  validateIdParam(),
+  validate(sellerResponseSchema),
+  respondToDisputeController.execute,
+);
 
-// === ADMIN ROUTES ===
-// router.get(
-//   '/admin/disputes',
-//   authorize(['ADMIN']),
-//   validate(getDisputesQuerySchema, 'query'),
-//   getAllDisputesController.execute,
-// );
-
-// router.get(
-//   '/admin/returns',
-//   authorize(['ADMIN']),
-//   validate(getReturnsQuerySchema, 'query'),
-//   getAllReturnsController.execute,
-// );
+// === RETURN ROUTES ===
+router.post('/returns', validate(createReturnSchema), createReturnController.execute);
+router.get('/returns/my', validate(getReturnsQuerySchema, 'query'), getMyReturnsController.execute);
+router.get('/returns/:id', validateIdParam(), getReturnController.execute);
+router.patch(
+  '/returns/:id',
+  validateIdParam(),
+  validate(updateReturnSchema),
+  updateReturnController.execute,
+);
+router.post(
+  '/returns/:id/respond',
+  validateIdParam(),
+  validate(sellerResponseSchema),
+  respondToReturnController.execute,
+);
 
 // === ADMIN ROUTES ===
+router.get(
+  '/admin/disputes',
+  authorize(['ADMIN']),
+  validate(getDisputesQuerySchema, 'query'),
+  getAllDisputesController.execute,
+);
+
+router.get(
+  '/admin/returns',
+  authorize(['ADMIN']),
+  validate(getReturnsQuerySchema, 'query'),
+  getAllReturnsController.execute,
+);
+
 router.get(
   '/admin/all',
   authorize(['ADMIN']),
@@ -202,6 +221,14 @@ router.patch(
   adminUpdateOrderStatusController.execute,
 );
 
+router.post(
+  '/admin/:id/refunds',
+  authorize(['ADMIN']),
+  validateIdParam(),
+  validate(refundOrderSchema),
+  refundOrderController.execute,
+);
+
 router.delete('/admin/:id', authorize(['ADMIN']), validateIdParam(), deleteOrderController.execute);
 
 export default router;
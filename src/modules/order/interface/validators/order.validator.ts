@@ -22,6 +22,7 @@ export const createOrderFromCartSchema = Joi.object({
       'any.required': 'Payment method is required',
       'any.only': 'Invalid payment method',
     }),
+  couponCode: Joi.string().trim().max(50),
   notes: Joi.string().max(500).allow('').messages({
     'string.max': 'Notes cannot exceed 500 characters',
   }),
@@ -62,6 +63,9 @@ export const updateOrderStatusSchema = Joi.object({
   estimatedDelivery: Joi.date().iso().min('now').messages({
     'date.min': 'Estimated delivery must be in the future',
   }),
+  trackingNumber: Joi.string().trim().max(100).messages({
+    'string.max': 'Tracking number cannot exceed 100 characters',
+  }),
 });
 
 export const cancelOrderSchema = Joi.object({
@@ -70,10 +74,45 @@ export const cancelOrderSchema = Joi.object({
   }),
 });
 
+const refundItemsSchema = Joi.array()
+  .items(
+    Joi.object({
+      orderItemId: Joi.string().uuid().required().messages({
+        'string.uuid': 'Order item ID must be a valid UUID',
+        'any.required': 'Order item ID is required',
+      }),
+      quantity: Joi.number().integer().min(1).required().messages({
+        'number.min': 'Refund quantity must be at least 1',
+        'any.required': 'Refund quantity is required',
+      }),
+    }),
+  )
+  .min(1)
+  .unique('orderItemId')
+  .messages({
+    'array.min': 'At least one item is required',
+    'array.unique': 'Each order item can only be listed once',
+  });
+
+export const refundOrderSchema = Joi.object({
+  items: refundItemsSchema,
+  amount: Joi.number().positive().precision(2).messages({
+    'number.positive': 'Refund amount must be positive',
+  }),
+  reason: Joi.string().max(500).messages({
+    'string.max': 'Refund reason cannot exceed 500 characters',
+  }),
+});
+
 export const processPaymentSchema = Joi.object({
   paymentMethodId: Joi.string().uuid().messages({
     'string.uuid': 'Payment method ID must be a valid UUID',
   }),
+  paymentMethodType: Joi.string()
+    .valid(...Object.values(PaymentMethodType))
+    .messages({
+      'any.only': 'Invalid payment method type',
+    }),
   paymentReference: Joi.string().max(100).messages({
     'string.max': 'Payment reference cannot exceed 100 characters',
   }),
@@ -112,94 +151,125 @@ export const getOrderStatsQuerySchema = Joi.object({
   dateTo: Joi.date().iso().min(Joi.ref('dateFrom')),
 });
 
-// // Dispute validators
-// export const createDisputeSchema = Joi.object({
-//   orderId: Joi.string().uuid().required().messages({
-//     'string.uuid': 'Order ID must be a valid UUID',
-//     'any.required': 'Order ID is required',
-//   }),
-//   type: Joi.string()
-//     .valid(...Object.values(DisputeType))
-//     .required()
-//     .messages({
-//       'any.required': 'Dispute type is required',
-//       'any.only': 'Invalid dispute type',
-//     }),
-//   reason: Joi.string().required().max(1000).messages({
-//     'any.required': 'Dispute reason is required',
-//     'string.max': 'Dispute reason cannot exceed 1000 characters',
-//   }),
-//   evidence: Joi.array().items(Joi.string().uri()).max(10).messages({
-//     'array.max': 'Maximum 10 evidence files allowed',
-//     'string.uri': 'Evidence must be valid URLs',
-//   }),
-// });
-
-// export const updateDisputeSchema = Joi.object({
-//   status: Joi.string()
-//     .valid(...Object.values(DisputeStatus))
-//     .required()
-//     .messages({
-//       'any.required': 'Dispute status is required',
-//       'any.only': 'Invalid dispute status',
-//     }),
-//   resolution: Joi.string().max(1000).messages({
-//     'string.max': 'Resolution cannot exceed 1000 characters',
-//   }),
-// });
-
-// export const getDisputesQuerySchema = Joi.object({
-//   page: Joi.number().integer().min(1).default(1),
-//   limit: Joi.number().integer().min(1).max(100).default(10),
-//   status: Joi.string().valid(...Object.values(DisputeStatus)),
-//   type: Joi.string().valid(...Object.values(DisputeType)),
-//   dateFrom: Joi.date().iso(),
-//   dateTo: Joi.date().iso().min(Joi.ref('dateFrom')),
-// });
-
-// // Return validators
-// export const createReturnSchema = Joi.object({
-//   orderId: Joi.string().uuid().required().messages({
-//     'string.uuid': 'Order ID must be a valid UUID',
-//     'any.required': 'Order ID is required',
-//   }),
-//   reason: Joi.string()
-//     .valid(...Object.values(ReturnReason))
-//     .required()
-//     .messages({
-//       'any.required': 'Return reason is required',
-//       'any.only': 'Invalid return reason',
-//     }),
-//   description: Joi.string().max(1000).messages({
-//     'string.max': 'Description cannot exceed 1000 characters',
-//   }),
-//   evidence: Joi.array().items(Joi.string().uri()).max(10).messages({
-//     'array.max': 'Maximum 10 evidence files allowed',
-//     'string.uri': 'Evidence must be valid URLs',
-//   }),
-// });
-
-// export const updateReturnSchema = Joi.object({
-//   status: Joi.string()
-//     .valid(...Object.values(ReturnStatus))
-//     .required()
-//     .messages({
-//       'any.required': 'Return status is required',
-//       'any.only': 'Invalid return status',
-//     }),
-//   refundAmount: Joi.number().positive().messages({
-//     'number.positive': 'Refund amount must be positive',
-//   }),
-//   refundReason: Joi.string().max(500).messages({
-//     'string.max': 'Refund reason cannot exceed 500 characters',
-//   }),
-// });
-
-// export const getReturnsQuerySchema = Joi.object({
-//   page: Joi.number().integer().min(1).default(1),
-//   limit: Joi.number().integer().min(1).max(100).default(10),
-//   status: Joi.string().valid(...Object.values(ReturnStatus)),
-//   reason: Joi.string().valid(...Object.values(ReturnReason)),
-//   dateFrom: Joi.date().iso(),
-//   dateTo: Joi.date().iso().min(Joi.ref('dateFrom')),
-// });
+// Dispute validators
+export const createDisputeSchema = Joi.object({
+  orderId: Joi.string().uuid().required().messages({
+    'string.uuid': 'Order ID must be a valid UUID',
+    'any.required': 'Order ID is required',
+  }),
+  type: Joi.string()
+    .valid(...Object.values(DisputeType))
+    .required()
+    .messages({
+      'any.required': 'Dispute type is required',
+      'any.only': 'Invalid dispute type',
+    }),
+  reason: Joi.string().required().max(1000).messages({
+    'any.required': 'Dispute reason is required',
+    'string.max': 'Dispute reason cannot exceed 1000 characters',
+  }),
+  evidence: Joi.array().items(Joi.string().uri()).max(10).messages({
+    'array.max': 'Maximum 10 evidence files allowed',
+    'string.uri': 'Evidence must be valid URLs',
+  }),
+});
+
+export const updateDisputeSchema = Joi.object({
+  status: Joi.string()
+    .valid(...Object.values(DisputeStatus))
+    .required()
+    .messages({
+      'any.required': 'Dispute status is required',
+      'any.only': 'Invalid dispute status',
+    }),
+  resolution: Joi.string().max(1000).messages({
+    'string.max': 'Resolution cannot exceed 1000 characters',
+  }),
+});
+
+export const sellerResponseSchema = Joi.object({
+  response: Joi.string().trim().min(1).max(1000).required().messages({
+    'any.required': 'Response is required',
+    'string.empty': 'Response cannot be empty',
+    'string.max': 'Response cannot exceed 1000 characters',
+  }),
+});
+
+export const getDisputesQuerySchema = Joi.object({
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(10),
+  status: Joi.string().valid(...Object.values(DisputeStatus)),
+  type: Joi.string().valid(...Object.values(DisputeType)),
+  dateFrom: Joi.date().iso(),
+  dateTo: Joi.date().iso().min(Joi.ref('dateFrom')),
+});
+
+// Return validators
+export const createReturnSchema = Joi.object({
+  orderId: Joi.string().uuid().required().messages({
+    'string.uuid': 'Order ID must be a valid UUID',
+    'any.required': 'Order ID is required',
+  }),
+  items: Joi.array()
+    .items(
+      Joi.object({
+        orderItemId: Joi.string().uuid().required().messages({
+          'string.uuid': 'Order item ID must be a valid UUID',
+          'any.required': 'Order item ID is required',
+        }),
+        quantity: Joi.number().integer().min(1).required().messages({
+          'number.min': 'Return quantity must be at least 1',
+          'any.required': 'Return quantity is required',
+        }),
+      }),
+    )
+    .min(1)
+    .unique('orderItemId')
+    .messages({
+      'array.min': 'At least one item is required',
+      'array.unique': 'Each order item can only be listed once',
+    }),
+  reason: Joi.string()
+    .valid(...Object.values(ReturnReason))
+    .required()
+    .messages({
+      'any.required': 'Return reason is required',
+      'any.only': 'Invalid return reason',
+    }),
+  description: Joi.string().max(1000).messages({
+    'string.max': 'Description cannot exceed 1000 characters',
+  }),
+  evidence: Joi.array().items(Joi.string().uri()).max(10).messages({
+    'array.max': 'Maximum 10 evidence files allowed',
+    'string.uri': 'Evidence must be valid URLs',
+  }),
+});
+
+export const updateReturnSchema = Joi.object({
+  status: Joi.string()
+    .valid(...Object.values(ReturnStatus))
+    .required()
+    .messages({
+      'any.required': 'Return status is required',
+      'any.only': 'Invalid return status',
+    }),
+  refundAmount: Joi.number().positive().messages({
+    'number.positive': 'Refund amount must be positive',
+  }),
+  refundReason: Joi.string().max(500).messages({
+    'string.max': 'Refund reason cannot exceed 500 characters',
+  }),
+  refundItems: refundItemsSchema.when('status', {
+    is: ReturnStatus.REFUND_PROCESSED,
+    otherwise: Joi.forbidden(),
+  }),
+});
+
+export const getReturnsQuerySchema = Joi.object({
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(10),
+  status: Joi.string().valid(...Object.values(ReturnStatus)),
+  reason: Joi.string().valid(...Object.values(ReturnReason)),
+  dateFrom: Joi.date().iso(),
+  dateTo: Joi.date().iso().min(Joi.ref('dateFrom')),
+});
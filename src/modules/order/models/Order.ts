@@ -7,6 +7,7 @@ import {
   DisputeStatus,
   ReturnReason,
   ReturnStatus,
+  RefundStatus,
 } from './OrderEnums';
 
 export interface Order {
@@ -59,19 +60,29 @@ export interface OrderWithDetails extends Order {
     country: string;
   } | null;
   items: OrderItemWithDetails[];
+  fulfillments: OrderFulfillment[];
   paymentTransactions: PaymentTransaction[];
+  refunds: OrderRefund[];
   disputes: OrderDispute[];
   returns: OrderReturn[];
+  promotionRedemptions: {
+    promotionId: string;
+    code?: string | null;
+    name: string;
+    amount: number;
+  }[];
 }
 
 export interface OrderItem {
   id: string;
   orderId: string;
+  fulfillmentId?: string | null;
   productId: string;
   variantId?: string | null;
   sellerId: string;
   quantity: number;
   price: number; // Decimal converted to number
+  discountAmount: number; // Decimal converted to number; promotion share for the whole line
   createdAt: Date;
 }
 
@@ -108,6 +119,24 @@ export interface OrderItemWithDetails extends OrderItem {
   customDescription?: string | null;
 }
 
+// Fulfillment models
+export interface OrderFulfillment {
+  id: string;
+  orderId: string;
+  sellerId: string;
+  status: OrderStatus;
+  deliveryStatus: DeliveryStatus;
+  subtotal: number; // Decimal converted to number
+  shippingCost: number; // Decimal converted to number
+  trackingNumber?: string | null;
+  expectedDelivery?: Date | null;
+  actualDelivery?: Date | null;
+  isDeliveryLate: boolean;
+  statusHistory?: any; // Json
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface PaymentTransaction {
   id: string;
   orderId: string;
@@ -126,6 +155,45 @@ export interface PaymentTransaction {
   updatedAt: Date;
 }
 
+// Refund models
+export interface OrderRefund {
+  id: string;
+  orderId: string;
+  transactionId: string;
+  refundTransactionId?: string | null;
+  returnId?: string | null;
+  amount: number; // Decimal converted to number
+  reason?: string | null;
+  status: RefundStatus;
+  failureReason?: string | null;
+  providerRefundId?: string | null;
+  createdBy?: string | null;
+  createdAt: Date;
+  items: OrderRefundItem[];
+}
+
+export interface OrderRefundItem {
+  id: string;
+  refundId: string;
+  orderItemId: string;
+  quantity: number;
+  amount: number; // Decimal converted to number
+}
+
+/**
+ * What is left to refund on an order, per item and in total
+ */
+export interface RefundSummary {
+  capturedAmount: number;
+  refundedAmount: number;
+  items: {
+    orderItemId: string;
+    price: number;
+    quantity: number;
+    refundedQuantity: number;
+  }[];
+}
+
 // Dispute models
 export interface OrderDispute {
   id: string;
@@ -138,6 +206,8 @@ export interface OrderDispute {
   resolution?: string | null;
   resolvedBy?: string | null;
   resolvedAt?: Date | null;
+  sellerResponse?: string | null;
+  sellerRespondedAt?: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -160,6 +230,8 @@ export interface OrderReturn {
   id: string;
   orderId: string;
   requesterId: string;
+  sellerId?: string | null; // Owner of the returned items; null on older multi-seller returns
+  items: OrderReturnItem[];
   reason: ReturnReason;
   description?: string | null;
   evidence: string[];
@@ -167,10 +239,17 @@ export interface OrderReturn {
   approvedBy?: string | null;
   refundAmount?: number | null; // Decimal converted to number
   refundReason?: string | null;
+  sellerResponse?: string | null;
+  sellerRespondedAt?: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface OrderReturnItem {
+  orderItemId: string;
+  quantity: number;
+}
+
 export interface OrderReturnWithDetails extends OrderReturn {
   order: {
     id: string;
@@ -188,6 +267,7 @@ export interface OrderReturnWithDetails extends OrderReturn {
 export interface CreateOrderFromCartDto {
   addressId: string;
   paymentMethod: PaymentMethodType;
+  couponCode?: string;
   notes?: string;
 }
 
@@ -202,10 +282,12 @@ export interface UpdateOrderStatusDto {
   status: OrderStatus;
   note?: string;
   estimatedDelivery?: Date;
+  trackingNumber?: string;
 }
 
 export interface ProcessPaymentDto {
   paymentMethodId?: string;
+  paymentMethodType?: PaymentMethodType;
   paymentReference?: string;
   externalReference?: string;
 }
@@ -243,6 +325,16 @@ export interface OrderSummary {
     name: string;
     shopName?: string;
   };
+  // Set on seller listings: the seller's own part of the order
+  fulfillment?: {
+    id: string;
+    status: OrderStatus;
+    deliveryStatus: DeliveryStatus;
+    subtotal: number;
+    shippingCost: number;
+    trackingNumber?: string | null;
+    expectedDelivery?: Date | null;
+  };
 }
 
 export interface OrderStats {
@@ -254,6 +346,37 @@ export interface OrderStats {
   averageOrderValue: number;
 }
 
+// Refund DTOs
+export interface RefundItemDto {
+  orderItemId: string;
+  quantity: number;
+}
+
+export interface CreateRefundDto {
+  items?: RefundItemDto[];
+  amount?: number;
+  reason?: string;
+}
+
+/**
+ * Refund recorded as PENDING before the provider is asked for it
+ */
+export interface RecordRefundDto {
+  amount: number;
+  items: (RefundItemDto & { amount: number })[];
+  reason?: string;
+  returnId?: string;
+  createdBy?: string;
+}
+
+export interface CompleteRefundDto {
+  providerRefundId?: string;
+  /**
+   * Refund made while cancelling the order; the cancellation sets the order status
+   */
+  cancellation?: boolean;
+}
+
 // Dispute DTOs
 export interface CreateDisputeDto {
   orderId: string;
@@ -270,6 +393,7 @@ export interface UpdateDisputeDto {
 // Return DTOs
 export interface CreateReturnDto {
   orderId: string;
+  items?: OrderReturnItem[]; // Required when the order has several sellers; defaults to all items
   reason: ReturnReason;
   description?: string;
   evidence?: string[];
@@ -279,6 +403,11 @@ export interface UpdateReturnDto {
   status: ReturnStatus;
   refundAmount?: number;
   refundReason?: string;
+  refundItems?: RefundItemDto[];
+}
+
+export interface SellerResponseDto {
+  response: string;
 }
 
 // Query options cho dispute và return
@@ -18,6 +18,12 @@ export enum PaymentStatus {
   REFUNDED = 'REFUNDED',
 }
 
+export enum RefundStatus {
+  PENDING = 'PENDING',
+  COMPLETED = 'COMPLETED',
+  FAILED = 'FAILED',
+}
+
 export enum PaymentMethodType {
   CREDIT_CARD = 'CREDIT_CARD',
   DEBIT_CARD = 'DEBIT_CARD',
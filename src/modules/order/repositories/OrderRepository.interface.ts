@@ -7,7 +7,6 @@ import {
   CreateOrderFromCartDto,
   CreateOrderFromQuoteDto,
   UpdateOrderStatusDto,
-  ProcessPaymentDto,
   OrderQueryOptions,
   OrderStats,
   OrderDispute,
@@ -20,14 +19,29 @@ import {
   CreateReturnDto,
   UpdateReturnDto,
   ReturnQueryOptions,
+  RefundSummary,
+  RecordRefundDto,
+  CompleteRefundDto,
+  OrderRefund,
+  OrderFulfillment,
 } from '../models/Order';
 import { OrderStatus, PaymentStatus } from '../models/OrderEnums';
+import { PriceBreakdown } from '../../pricing/models/Pricing';
 import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
 
 export interface IOrderRepository extends BaseRepository<Order, string> {
   // Order creation
-  createOrderFromCart(userId: string, data: CreateOrderFromCartDto): Promise<OrderWithDetails>;
-  createOrderFromQuote(userId: string, data: CreateOrderFromQuoteDto): Promise<OrderWithDetails>;
+  createOrderFromCart(
+    userId: string,
+    data: CreateOrderFromCartDto,
+    pricing: PriceBreakdown,
+    reservationExpiresAt: Date,
+  ): Promise<OrderWithDetails>;
+  createOrderFromQuote(
+    userId: string,
+    data: CreateOrderFromQuoteDto,
+    pricing: PriceBreakdown,
+  ): Promise<OrderWithDetails>;
 
   // Order retrieval
   findByIdWithDetails(id: string): Promise<OrderWithDetails | null>;
@@ -50,9 +64,25 @@ export interface IOrderRepository extends BaseRepository<Order, string> {
   ): Promise<OrderWithDetails>;
   cancelOrder(id: string, reason?: string, cancelledBy?: string): Promise<OrderWithDetails>;
 
+  // Seller fulfillments
+  findFulfillment(orderId: string, sellerId: string): Promise<OrderFulfillment | null>;
+  updateFulfillmentStatus(
+    orderId: string,
+    sellerId: string,
+    data: UpdateOrderStatusDto,
+    updatedBy?: string,
+    restock?: boolean,
+  ): Promise<OrderWithDetails>;
+
   // Payment
-  processPayment(id: string, data: ProcessPaymentDto): Promise<OrderWithDetails>;
-  refundPayment(id: string, reason?: string): Promise<OrderWithDetails>;
+  getRefundSummary(orderId: string): Promise<RefundSummary>;
+  /**
+   * Refunds are recorded PENDING under the order lock before the provider is asked, so
+   * concurrent refunds can never both pass the limits; then completed or failed
+   */
+  createPendingRefund(orderId: string, data: RecordRefundDto): Promise<OrderRefund>;
+  completeRefund(refundId: string, data?: CompleteRefundDto): Promise<OrderWithDetails>;
+  failRefund(refundId: string, reason: string): Promise<void>;
 
   // Status history (Json field thay vì bảng riêng)
   addStatusToHistory(
@@ -68,6 +98,9 @@ export interface IOrderRepository extends BaseRepository<Order, string> {
   getOrderStats(userId?: string, sellerId?: string): Promise<OrderStats>;
   isUserInvolvedInOrder(orderId: string, userId: string): Promise<boolean>;
 
+  // Background tasks
+  markLateDeliveries(): Promise<number>;
+
   // Dispute methods
   createDispute(
     data: CreateDisputeDto & { complainantId: string },
@@ -83,6 +116,7 @@ export interface IOrderRepository extends BaseRepository<Order, string> {
     options?: Partial<DisputeQueryOptions>,
   ): Promise<PaginatedResult<OrderDisputeWithDetails>>;
   getDisputeById(id: string): Promise<OrderDisputeWithDetails | null>;
+  respondToDispute(id: string, response: string): Promise<OrderDisputeWithDetails>;
 
   // Return methods
   createReturn(data: CreateReturnDto & { requesterId: string }): Promise<OrderReturnWithDetails>;
@@ -97,6 +131,7 @@ export interface IOrderRepository extends BaseRepository<Order, string> {
     options?: Partial<ReturnQueryOptions>,
   ): Promise<PaginatedResult<OrderReturnWithDetails>>;
   getReturnById(id: string): Promise<OrderReturnWithDetails | null>;
+  respondToReturn(id: string, response: string): Promise<OrderReturnWithDetails>;
 
   // Access control and validation methods
   canUserAccessDispute(disputeId: string, userId: string): Promise<boolean>;
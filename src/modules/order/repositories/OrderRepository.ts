@@ -9,7 +9,6 @@ import {
   CreateOrderFromCartDto,
   CreateOrderFromQuoteDto,
   UpdateOrderStatusDto,
-  ProcessPaymentDto,
   OrderQueryOptions,
   OrderStats,
   OrderDispute,
@@ -22,17 +21,44 @@ import {
   CreateReturnDto,
   UpdateReturnDto,
   ReturnQueryOptions,
+  RefundSummary,
+  RecordRefundDto,
+  CompleteRefundDto,
+  OrderRefund,
+  OrderFulfillment,
 } from '../models/Order';
 import {
   OrderStatus,
   PaymentStatus,
-  PaymentMethodType,
   DeliveryStatus,
+  PaymentMethodType,
+  RefundStatus,
 } from '../models/OrderEnums';
+import { PriceBreakdown } from '../../pricing/models/Pricing';
+import { ReservationItem, ReservationStatus } from '../../inventory/models/StockReservation';
+import { createHolds, releaseHolds, commitHolds } from '../../inventory/repositories/stockHolds';
 import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
 import { AppError } from '../../../core/errors/AppError';
 import { Logger } from '../../../core/logging/Logger';
 
+// Progression of a fulfillment; CANCELLED and REFUNDED are terminal and ranked apart
+const FULFILLMENT_STATUS_RANK: OrderStatus[] = [
+  OrderStatus.PENDING,
+  OrderStatus.CONFIRMED,
+  OrderStatus.PAID,
+  OrderStatus.PROCESSING,
+  OrderStatus.SHIPPED,
+  OrderStatus.DELIVERED,
+];
+
+const DELIVERY_STATUS_RANK: DeliveryStatus[] = [
+  DeliveryStatus.PREPARING,
+  DeliveryStatus.SHIPPED,
+  DeliveryStatus.IN_TRANSIT,
+  DeliveryStatus.OUT_FOR_DELIVERY,
+  DeliveryStatus.DELIVERED,
+];
+
 export class OrderRepository
   extends BasePrismaRepository<Order, string>
   implements IOrderRepository
@@ -46,6 +72,8 @@ export class OrderRepository
   async createOrderFromCart(
     userId: string,
     data: CreateOrderFromCartDto,
+    pricing: PriceBreakdown,
+    reservationExpiresAt: Date,
   ): Promise<OrderWithDetails> {
     try {
       const createdOrder = await this.prisma.$transaction(async (tx) => {
@@ -75,6 +103,7 @@ export class OrderRepository
         // Validate products and variants, calculate totals
         let subtotal = 0;
         const orderItems: any[] = [];
+        const stockItems: ReservationItem[] = [];
 
         for (const item of cartItems) {
           const product = item.product;
@@ -87,8 +116,6 @@ export class OrderRepository
             );
           }
 
-          let availableQuantity = product.quantity;
-
           // ===== FIXED: Use correct price logic =====
           let price: number;
 
@@ -106,42 +133,35 @@ export class OrderRepository
           }
 
           // Handle variant-specific validation
-          if (item.variantId && item.variant) {
-            availableQuantity = item.variant.quantity;
-
-            if (!item.variant.isActive) {
-              throw new AppError(`Product variant is not available`, 400, 'VARIANT_UNAVAILABLE');
-            }
-          }
-
-          if (availableQuantity < item.quantity) {
-            const productName = item.variant?.name || product.name;
-            throw new AppError(`Insufficient stock for ${productName}`, 400, 'INSUFFICIENT_STOCK');
+          if (item.variantId && item.variant && !item.variant.isActive) {
+            throw new AppError(`Product variant is not available`, 400, 'VARIANT_UNAVAILABLE');
           }
 
           // ===== FIXED: Use the correct price for calculation =====
           subtotal += price * item.quantity;
 
+          // Share of the order's promotions carried by this line, so refunds give back what was paid
+          const lineDiscount = pricing.lineDiscounts.find(
+            (discount) =>
+              discount.productId === item.productId &&
+              (discount.variantId ?? null) === (item.variantId ?? null),
+          );
+
           orderItems.push({
             productId: item.productId,
             variantId: item.variantId,
             sellerId: product.sellerId,
             quantity: item.quantity,
             price: price, // ===== FIXED: Use correct price (negotiated if available)
+            discountAmount: lineDiscount?.amount ?? 0,
           });
 
-          // Update stock
-          if (item.variantId) {
-            await tx.productVariant.update({
-              where: { id: item.variantId },
-              data: { quantity: { decrement: item.quantity } },
-            });
-          } else {
-            await tx.product.update({
-              where: { id: item.productId },
-              data: { quantity: { decrement: item.quantity } },
-            });
-          }
+          stockItems.push({
+            productId: item.productId,
+            variantId: item.variantId,
+            quantity: item.quantity,
+            name: item.variant?.name || product.name,
+          });
         }
 
         // Validate address
@@ -158,11 +178,43 @@ export class OrderRepository
           throw new AppError('Invalid shipping address', 400, 'INVALID_ADDRESS');
         }
 
+        // Each seller ships separately, so shipping is charged per seller
+        const sellerGroups = new Map<string, { subtotal: number; items: any[] }>();
+        for (const orderItem of orderItems) {
+          const group = sellerGroups.get(orderItem.sellerId) || { subtotal: 0, items: [] };
+          group.subtotal += orderItem.price * orderItem.quantity;
+          group.items.push(orderItem);
+          sellerGroups.set(orderItem.sellerId, group);
+        }
+
+        // The breakdown was priced before the transaction; refuse it if prices moved since
+        if (Math.abs(subtotal - pricing.subtotal) > 0.005) {
+          throw new AppError(
+            'Cart prices have changed, please review your cart',
+            409,
+            'PRICE_CHANGED',
+          );
+        }
+
+        const fulfillments = [...sellerGroups.entries()].map(([sellerId, group]) => {
+          const sellerPricing = pricing.sellers.find((seller) => seller.sellerId === sellerId);
+          if (!sellerPricing) {
+            throw new AppError('Cart has changed, please review your cart', 409, 'PRICE_CHANGED');
+          }
+
+          return {
+            sellerId,
+            subtotal: group.subtotal,
+            shippingCost: sellerPricing.shippingCost,
+            items: group.items,
+          };
+        });
+
         // Calculate costs
-        const shippingCost = subtotal > 50 ? 0 : 10; // Free shipping over $50
-        const taxAmount = subtotal * 0.08; // 8% tax
-        const discountAmount = 0; // No discount for now
-        const totalAmount = subtotal + shippingCost + taxAmount - discountAmount;
+        const shippingCost = pricing.shippingCost;
+        const taxAmount = pricing.taxAmount;
+        const discountAmount = pricing.discountAmount;
+        const totalAmount = pricing.total;
 
         // Generate order number
         const orderNumber = await this.generateOrderNumber();
@@ -203,12 +255,47 @@ export class OrderRepository
             isDeliveryLate: false,
             notes: data.notes,
             statusHistory: initialStatusHistory,
-            items: {
-              create: orderItems,
-            },
           },
         });
 
+        for (const fulfillment of fulfillments) {
+          await tx.orderFulfillment.create({
+            data: {
+              orderId: order.id,
+              sellerId: fulfillment.sellerId,
+              status: OrderStatus.PENDING,
+              deliveryStatus: DeliveryStatus.PREPARING,
+              subtotal: fulfillment.subtotal,
+              shippingCost: fulfillment.shippingCost,
+              statusHistory: initialStatusHistory,
+              items: {
+                create: fulfillment.items.map((item) => ({ ...item, orderId: order.id })),
+              },
+            },
+          });
+        }
+
+        // Checkout holds become the order's own; stock that was not held yet is taken now
+        await releaseHolds(
+          tx,
+          { userId, orderId: null },
+          ReservationStatus.RELEASED,
+          'ORDER_PLACED',
+        );
+        await createHolds(tx, {
+          userId,
+          orderId: order.id,
+          items: stockItems,
+          expiresAt: reservationExpiresAt,
+        });
+
+        // Cash on delivery has no payment to wait for, so the stock is sold right away
+        if (data.paymentMethod === PaymentMethodType.CASH_ON_DELIVERY) {
+          await commitHolds(tx, { orderId: order.id });
+        }
+
+        await this.redeemPromotions(tx, order.id, userId, pricing);
+
         // Mark negotiations as completed
         const negotiationIds = cartItems
           .filter((item) => item.negotiationId)
@@ -251,6 +338,7 @@ export class OrderRepository
   async createOrderFromQuote(
     userId: string,
     data: CreateOrderFromQuoteDto,
+    pricing: PriceBreakdown,
   ): Promise<OrderWithDetails> {
     try {
       return await this.prisma.$transaction(async (tx) => {
@@ -306,10 +394,14 @@ export class OrderRepository
 
         // Calculate pricing
         const subtotal = Number(quote.finalPrice);
-        const shippingCost = 0; // Custom orders usually include shipping
-        const taxAmount = subtotal * 0.08; // 8% tax
-        const discountAmount = 0;
-        const totalAmount = subtotal + shippingCost + taxAmount - discountAmount;
+        if (Math.abs(subtotal - pricing.subtotal) > 0.005) {
+          throw new AppError('Quote price has changed', 409, 'PRICE_CHANGED');
+        }
+
+        const shippingCost = pricing.shippingCost;
+        const taxAmount = pricing.taxAmount;
+        const discountAmount = pricing.discountAmount;
+        const totalAmount = pricing.total;
 
         // Generate order number
         const orderNumber = await this.generateOrderNumber();
@@ -369,11 +461,25 @@ export class OrderRepository
           },
         });
 
+        // Custom orders have a single seller who ships under their own shipping rule
+        const fulfillment = await tx.orderFulfillment.create({
+          data: {
+            orderId: createdOrder.id,
+            sellerId: quote.artisanId,
+            status: OrderStatus.CONFIRMED,
+            deliveryStatus: DeliveryStatus.PREPARING,
+            subtotal,
+            shippingCost,
+            statusHistory: initialStatusHistory,
+          },
+        });
+
         // Create order item
         await tx.orderItem.create({
           data: {
             ...orderItemData,
             orderId: createdOrder.id,
+            fulfillmentId: fulfillment.id,
           },
         });
 
@@ -438,6 +544,9 @@ export class OrderRepository
                 },
               },
             },
+            fulfillments: {
+              orderBy: { createdAt: 'asc' },
+            },
             paymentTransactions: {
               orderBy: { createdAt: 'desc' },
             },
@@ -463,6 +572,7 @@ export class OrderRepository
                     email: true,
                   },
                 },
+                items: { select: { orderItemId: true, quantity: true } },
               },
             },
           },
@@ -490,11 +600,19 @@ export class OrderRepository
           items: orderWithDetails.items.map((item) => ({
             ...item,
             price: Number(item.price),
+            discountAmount: Number(item.discountAmount),
+          })),
+          fulfillments: orderWithDetails.fulfillments.map((fulfillment) => ({
+            ...fulfillment,
+            subtotal: Number(fulfillment.subtotal),
+            shippingCost: Number(fulfillment.shippingCost),
           })),
           paymentTransactions: orderWithDetails.paymentTransactions.map((tx) => ({
             ...tx,
             amount: Number(tx.amount),
           })),
+          refunds: [],
+          promotionRedemptions: [],
           disputes: orderWithDetails.disputes.map((dispute) => ({
             ...dispute,
             order: {
@@ -576,9 +694,16 @@ export class OrderRepository
               },
             },
           },
+          fulfillments: {
+            orderBy: { createdAt: 'asc' },
+          },
           paymentTransactions: {
             orderBy: { createdAt: 'desc' },
           },
+          refunds: {
+            include: { items: true },
+            orderBy: { createdAt: 'desc' },
+          },
           disputes: {
             include: {
               complainant: {
@@ -601,6 +726,12 @@ export class OrderRepository
                   email: true,
                 },
               },
+              items: { select: { orderItemId: true, quantity: true } },
+            },
+          },
+          promotionRedemptions: {
+            include: {
+              promotion: { select: { name: true } },
             },
           },
         },
@@ -618,15 +749,26 @@ export class OrderRepository
         items: order.items.map((item) => ({
           ...item,
           price: Number(item.price),
+          discountAmount: Number(item.discountAmount),
           // ✅ Handle custom order display name
           displayName: item.isCustomOrder
             ? item.customTitle || item.customOrder?.title || 'Custom Order'
             : item.product?.name || 'Product',
         })),
+        fulfillments: order.fulfillments.map((fulfillment) => ({
+          ...fulfillment,
+          subtotal: Number(fulfillment.subtotal),
+          shippingCost: Number(fulfillment.shippingCost),
+        })),
         paymentTransactions: order.paymentTransactions.map((tx) => ({
           ...tx,
           amount: Number(tx.amount),
         })),
+        refunds: order.refunds.map((refund) => ({
+          ...refund,
+          amount: Number(refund.amount),
+          items: refund.items.map((item) => ({ ...item, amount: Number(item.amount) })),
+        })),
         disputes: order.disputes.map((dispute) => ({
           ...dispute,
           order: {
@@ -642,6 +784,12 @@ export class OrderRepository
             orderNumber: order.orderNumber,
           },
         })),
+        promotionRedemptions: order.promotionRedemptions.map((redemption) => ({
+          promotionId: redemption.promotionId,
+          code: redemption.code,
+          name: redemption.promotion.name,
+          amount: Number(redemption.amount),
+        })),
       } as OrderWithDetails;
     } catch (error) {
       this.logger.error(`Error finding order by ID ${id}: ${error}`);
@@ -714,11 +862,22 @@ export class OrderRepository
             deliveryStatus,
             expectedDelivery: data.estimatedDelivery,
             actualDelivery: data.status === OrderStatus.DELIVERED ? new Date() : undefined,
+            trackingNumber: data.trackingNumber,
             statusHistory: updatedHistory,
             updatedAt: new Date(),
           },
         });
 
+        await this.applyStatusToFulfillments(tx, id, newHistoryEntry, {
+          expectedDelivery: data.estimatedDelivery,
+          trackingNumber: data.trackingNumber,
+        });
+
+        if (data.status === OrderStatus.CANCELLED) {
+          await this.releasePromotions(tx, id);
+          await releaseHolds(tx, { orderId: id }, ReservationStatus.RELEASED, 'ORDER_CANCELLED');
+        }
+
         return (await this.findByIdWithDetails(id)) as OrderWithDetails;
       });
     } catch (error) {
@@ -774,20 +933,19 @@ export class OrderRepository
           },
         });
 
-        // Restore product quantities
-        for (const item of order.items) {
-          if (item.variantId) {
-            await tx.productVariant.update({
-              where: { id: item.variantId },
-              data: { quantity: { increment: item.quantity } },
-            });
-          } else {
-            await tx.product.update({
-              where: { id: item.productId as string },
-              data: { quantity: { increment: item.quantity } },
-            });
-          }
-        }
+        await this.applyStatusToFulfillments(tx, id, newHistoryEntry);
+        await this.releasePromotions(tx, id);
+
+        // Restore product quantities; refunded items were already restocked by their refund
+        const refundedQuantities = await this.getRefundedQuantities(tx, id);
+        const unrefundedItems = order.items
+          .map((item) => ({
+            ...item,
+            quantity: item.quantity - (refundedQuantities.get(item.id) || 0),
+          }))
+          .filter((item) => item.quantity > 0);
+
+        await this.returnOrderStock(tx, id, unrefundedItems, 'ORDER_CANCELLED');
 
         return (await this.findByIdWithDetails(id)) as OrderWithDetails;
       });
@@ -798,66 +956,84 @@ export class OrderRepository
     }
   }
 
-  async processPayment(id: string, data: ProcessPaymentDto): Promise<OrderWithDetails> {
+  async updateFulfillmentStatus(
+    orderId: string,
+    sellerId: string,
+    data: UpdateOrderStatusDto,
+    updatedBy?: string,
+    restock: boolean = true,
+  ): Promise<OrderWithDetails> {
     try {
       return await this.prisma.$transaction(async (tx) => {
-        const order = await tx.order.findUnique({
-          where: { id },
-          select: { totalAmount: true, userId: true, paymentStatus: true, statusHistory: true },
+        const fulfillment = await tx.orderFulfillment.findUnique({
+          where: { orderId_sellerId: { orderId, sellerId } },
+          include: { items: true },
         });
 
-        if (!order) {
-          throw new AppError('Order not found', 404, 'ORDER_NOT_FOUND');
-        }
-
-        if (order.paymentStatus === PaymentStatus.COMPLETED) {
-          throw new AppError('Order is already paid', 400, 'ORDER_ALREADY_PAID');
+        if (!fulfillment) {
+          throw new AppError('Fulfillment not found', 404, 'FULFILLMENT_NOT_FOUND');
         }
 
-        // Create payment transaction
-        const paymentTransaction = await tx.paymentTransaction.create({
-          data: {
-            orderId: id,
-            userId: order.userId,
-            paymentMethodId: data.paymentMethodId,
-            amount: order.totalAmount,
-            currency: 'VND',
-            status: PaymentStatus.COMPLETED,
-            paymentMethodType: PaymentMethodType.CREDIT_CARD,
-            reference: `PAY_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-            externalReference: data.externalReference,
-            processedAt: new Date(),
-          },
-        });
+        this.validateStatusTransition(fulfillment.status as OrderStatus, data.status);
 
-        // Update status history
-        const currentHistory = Array.isArray(order.statusHistory) ? order.statusHistory : [];
+        const currentHistory = Array.isArray(fulfillment.statusHistory)
+          ? fulfillment.statusHistory
+          : [];
         const newHistoryEntry = {
-          status: OrderStatus.PAID,
-          note: 'Payment completed successfully',
+          status: data.status,
+          note: data.note,
           timestamp: new Date().toISOString(),
-          updatedBy: null,
+          updatedBy: updatedBy,
         };
-        const updatedHistory = [...currentHistory, newHistoryEntry];
 
-        // Update order payment status
-        await tx.order.update({
-          where: { id },
+        await tx.orderFulfillment.update({
+          where: { id: fulfillment.id },
           data: {
-            paymentStatus: PaymentStatus.COMPLETED,
-            paymentReference: paymentTransaction.reference,
-            status: OrderStatus.PAID,
-            statusHistory: updatedHistory,
+            status: data.status,
+            deliveryStatus: this.deliveryStatusFor(
+              data.status,
+              fulfillment.deliveryStatus as DeliveryStatus,
+            ),
+            expectedDelivery: data.estimatedDelivery,
+            actualDelivery: data.status === OrderStatus.DELIVERED ? new Date() : undefined,
+            trackingNumber: data.trackingNumber,
+            statusHistory: [...currentHistory, newHistoryEntry],
             updatedAt: new Date(),
           },
         });
 
-        return (await this.findByIdWithDetails(id)) as OrderWithDetails;
+        // Put the seller's items back on sale; refunded items were already restocked
+        if (data.status === OrderStatus.CANCELLED && restock) {
+          await this.returnOrderStock(tx, orderId, fulfillment.items, 'FULFILLMENT_CANCELLED');
+        }
+
+        await this.syncOrderWithFulfillments(tx, orderId, updatedBy);
+
+        return (await this.findByIdWithDetails(orderId)) as OrderWithDetails;
       });
     } catch (error) {
-      this.logger.error(`Error processing payment: ${error}`);
+      this.logger.error(`Error updating fulfillment status: ${error}`);
       if (error instanceof AppError) throw error;
-      throw new AppError('Failed to process payment', 500, 'PAYMENT_PROCESSING_FAILED');
+      throw new AppError('Failed to update fulfillment status', 500, 'FULFILLMENT_UPDATE_FAILED');
+    }
+  }
+
+  async findFulfillment(orderId: string, sellerId: string): Promise<OrderFulfillment | null> {
+    try {
+      const fulfillment = await this.prisma.orderFulfillment.findUnique({
+        where: { orderId_sellerId: { orderId, sellerId } },
+      });
+
+      if (!fulfillment) return null;
+
+      return {
+        ...fulfillment,
+        subtotal: Number(fulfillment.subtotal),
+        shippingCost: Number(fulfillment.shippingCost),
+      } as OrderFulfillment;
+    } catch (error) {
+      this.logger.error(`Error finding fulfillment: ${error}`);
+      return null;
     }
   }
 
@@ -914,6 +1090,43 @@ export class OrderRepository
     }
   }
 
+  async markLateDeliveries(): Promise<number> {
+    try {
+      const now = new Date();
+
+      await this.prisma.orderFulfillment.updateMany({
+        where: {
+          isDeliveryLate: false,
+          expectedDelivery: { lt: now },
+          status: { in: [OrderStatus.PAID, OrderStatus.PROCESSING, OrderStatus.SHIPPED] },
+          deliveryStatus: { notIn: [DeliveryStatus.DELIVERED, DeliveryStatus.RETURNED] },
+        },
+        data: { isDeliveryLate: true },
+      });
+
+      // An order is late as soon as one seller is late, even if its own date has not passed
+      const result = await this.prisma.order.updateMany({
+        where: {
+          isDeliveryLate: false,
+          status: { in: [OrderStatus.PAID, OrderStatus.PROCESSING, OrderStatus.SHIPPED] },
+          OR: [
+            {
+              expectedDelivery: { lt: now },
+              deliveryStatus: { notIn: [DeliveryStatus.DELIVERED, DeliveryStatus.RETURNED] },
+            },
+            { fulfillments: { some: { isDeliveryLate: true } } },
+          ],
+        },
+        data: { isDeliveryLate: true },
+      });
+
+      return result.count;
+    } catch (error) {
+      this.logger.error(`Error marking late deliveries: ${error}`);
+      throw new AppError('Failed to mark late deliveries', 500, 'ORDER_UPDATE_FAILED');
+    }
+  }
+
   // Continue with other methods...
   async generateOrderNumber(): Promise<string> {
     const currentDate = new Date();
@@ -965,6 +1178,324 @@ export class OrderRepository
     }
   }
 
+  private deliveryStatusFor(status: OrderStatus, current: DeliveryStatus): DeliveryStatus {
+    if (status === OrderStatus.SHIPPED) return DeliveryStatus.SHIPPED;
+    if (status === OrderStatus.DELIVERED) return DeliveryStatus.DELIVERED;
+    return current;
+  }
+
+  /**
+   * Pushes an order-wide status change down to the fulfillments it moves forward
+   */
+  private async applyStatusToFulfillments(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    entry: { status: OrderStatus; note?: string; timestamp: string; updatedBy?: string },
+    extra: { expectedDelivery?: Date; trackingNumber?: string } = {},
+  ): Promise<void> {
+    const fulfillments = await tx.orderFulfillment.findMany({
+      where: {
+        orderId,
+        status: { notIn: [OrderStatus.CANCELLED, OrderStatus.REFUNDED] },
+      },
+    });
+
+    const terminal =
+      entry.status === OrderStatus.CANCELLED || entry.status === OrderStatus.REFUNDED;
+
+    for (const fulfillment of fulfillments) {
+      // Never move a seller backwards, e.g. when the order is confirmed after they shipped
+      const isForward =
+        FULFILLMENT_STATUS_RANK.indexOf(entry.status) >
+        FULFILLMENT_STATUS_RANK.indexOf(fulfillment.status as OrderStatus);
+      if (!terminal && !isForward) continue;
+
+      const currentHistory = Array.isArray(fulfillment.statusHistory)
+        ? fulfillment.statusHistory
+        : [];
+
+      await tx.orderFulfillment.update({
+        where: { id: fulfillment.id },
+        data: {
+          status: entry.status,
+          deliveryStatus: this.deliveryStatusFor(
+            entry.status,
+            fulfillment.deliveryStatus as DeliveryStatus,
+          ),
+          expectedDelivery: extra.expectedDelivery,
+          actualDelivery: entry.status === OrderStatus.DELIVERED ? new Date() : undefined,
+          trackingNumber: extra.trackingNumber,
+          statusHistory: [...currentHistory, entry],
+          updatedAt: new Date(),
+        },
+      });
+    }
+  }
+
+  /**
+   * Counts the order against each applied promotion's limits. The usage count is only bumped
+   * while it is below the limit, so concurrent checkouts cannot overspend a coupon.
+   */
+  private async redeemPromotions(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    userId: string,
+    pricing: PriceBreakdown,
+  ): Promise<void> {
+    for (const applied of pricing.promotions) {
+      // Lock the promotion first so concurrent checkouts by the same user count each other's
+      // redemptions instead of both passing the per-user limit
+      const [promotion] = await tx.$queryRaw<{ perUserLimit: number | null }[]>`
+        SELECT "perUserLimit" FROM "Promotion" WHERE "id" = ${applied.promotionId} FOR UPDATE
+      `;
+
+      if (promotion?.perUserLimit) {
+        const used = await tx.promotionRedemption.count({
+          where: {
+            promotionId: applied.promotionId,
+            userId,
+            order: { status: { not: OrderStatus.CANCELLED } },
+          },
+        });
+
+        if (used >= promotion.perUserLimit) {
+          throw new AppError(
+            `You have already used promotion ${applied.code || applied.name}`,
+            409,
+            'PROMOTION_UNAVAILABLE',
+          );
+        }
+      }
+
+      const updated = await tx.$executeRaw`
+        UPDATE "Promotion"
+        SET "usageCount" = "usageCount" + 1, "updatedAt" = NOW()
+        WHERE "id" = ${applied.promotionId}
+          AND "isActive" = true
+          AND ("usageLimit" IS NULL OR "usageCount" < "usageLimit")
+      `;
+
+      if (updated === 0) {
+        throw new AppError(
+          `Promotion ${applied.code || applied.name} is no longer available`,
+          409,
+          'PROMOTION_UNAVAILABLE',
+        );
+      }
+
+      await tx.promotionRedemption.create({
+        data: {
+          promotionId: applied.promotionId,
+          orderId,
+          userId,
+          code: applied.code,
+          amount: applied.amount,
+        },
+      });
+    }
+  }
+
+  /**
+   * Puts cancelled items back on sale. Stock only held for the order is released; stock already
+   * sold (paid, cash on delivery, or placed before holds existed) goes back on the shelf.
+   */
+  private async returnOrderStock(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    items: {
+      productId: string | null;
+      variantId: string | null;
+      quantity: number;
+      isCustomOrder: boolean;
+    }[],
+    reason: string,
+  ): Promise<void> {
+    const stockItems = items.filter((item) => !item.isCustomOrder && item.productId);
+    if (stockItems.length === 0) return;
+
+    const reservations = await tx.stockReservation.findMany({ where: { orderId } });
+
+    await releaseHolds(
+      tx,
+      { orderId, productId: { in: stockItems.map((item) => item.productId!) } },
+      ReservationStatus.RELEASED,
+      reason,
+    );
+
+    for (const item of stockItems) {
+      const sold =
+        reservations.length === 0 ||
+        reservations.some(
+          (r) =>
+            r.status === ReservationStatus.COMMITTED &&
+            r.productId === item.productId &&
+            r.variantId === item.variantId,
+        );
+      if (!sold) continue;
+
+      if (item.variantId) {
+        await tx.productVariant.update({
+          where: { id: item.variantId },
+          data: { quantity: { increment: item.quantity } },
+        });
+      } else {
+        await tx.product.update({
+          where: { id: item.productId! },
+          data: { quantity: { increment: item.quantity } },
+        });
+      }
+    }
+  }
+
+  /**
+   * Gives a cancelled order's promotion uses back to their usage limits
+   */
+  /**
+   * Quantities refunded per order item, counting refunds still pending at the provider
+   */
+  private async getRefundedQuantities(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+  ): Promise<Map<string, number>> {
+    const refundedItems = await tx.orderRefundItem.groupBy({
+      by: ['orderItemId'],
+      where: { refund: { orderId, status: { not: RefundStatus.FAILED } } },
+      _sum: { quantity: true },
+    });
+
+    return new Map(refundedItems.map((item) => [item.orderItemId, item._sum.quantity || 0]));
+  }
+
+  private transformRefund(refund: any): OrderRefund {
+    return {
+      ...refund,
+      amount: Number(refund.amount),
+      items: refund.items.map((item: any) => ({ ...item, amount: Number(item.amount) })),
+    };
+  }
+
+  private async releasePromotions(tx: Prisma.TransactionClient, orderId: string): Promise<void> {
+    const redemptions = await tx.promotionRedemption.findMany({
+      where: { orderId },
+      select: { promotionId: true },
+    });
+
+    for (const redemption of redemptions) {
+      await tx.promotion.updateMany({
+        where: { id: redemption.promotionId, usageCount: { gt: 0 } },
+        data: { usageCount: { decrement: 1 } },
+      });
+    }
+  }
+
+  /**
+   * Derives the parent order's status and delivery state from its fulfillments
+   */
+  private async syncOrderWithFulfillments(
+    tx: Prisma.TransactionClient,
+    orderId: string,
+    updatedBy?: string,
+  ): Promise<void> {
+    const order = await tx.order.findUnique({
+      where: { id: orderId },
+      select: {
+        status: true,
+        deliveryStatus: true,
+        statusHistory: true,
+        fulfillments: true,
+      },
+    });
+
+    if (!order || order.fulfillments.length === 0) return;
+
+    // Cancelled and refunded orders are closed; fulfillments no longer drive them
+    if (order.status === OrderStatus.CANCELLED || order.status === OrderStatus.REFUNDED) return;
+
+    const fulfillments = order.fulfillments;
+    const active = fulfillments.filter(
+      (f) => f.status !== OrderStatus.CANCELLED && f.status !== OrderStatus.REFUNDED,
+    );
+
+    let status: OrderStatus;
+    if (active.length === 0) {
+      status = fulfillments.some((f) => f.status === OrderStatus.REFUNDED)
+        ? OrderStatus.REFUNDED
+        : OrderStatus.CANCELLED;
+    } else {
+      // The order is as far along as its slowest seller, and in progress once any seller starts
+      const ranks = active.map((f) => FULFILLMENT_STATUS_RANK.indexOf(f.status as OrderStatus));
+      const slowest = FULFILLMENT_STATUS_RANK[Math.min(...ranks)];
+      const started = Math.max(...ranks) >= FULFILLMENT_STATUS_RANK.indexOf(OrderStatus.PROCESSING);
+      status =
+        started &&
+        FULFILLMENT_STATUS_RANK.indexOf(slowest) <
+          FULFILLMENT_STATUS_RANK.indexOf(OrderStatus.PROCESSING)
+          ? OrderStatus.PROCESSING
+          : slowest;
+    }
+
+    let deliveryStatus = order.deliveryStatus as DeliveryStatus;
+    if (active.length > 0) {
+      const deliveryStatuses = active.map((f) => f.deliveryStatus as DeliveryStatus);
+      if (deliveryStatuses.includes(DeliveryStatus.DELIVERY_FAILED)) {
+        deliveryStatus = DeliveryStatus.DELIVERY_FAILED;
+      } else if (deliveryStatuses.every((d) => d === DeliveryStatus.RETURNED)) {
+        deliveryStatus = DeliveryStatus.RETURNED;
+      } else {
+        const ranks = deliveryStatuses
+          .filter((d) => d !== DeliveryStatus.RETURNED)
+          .map((d) => DELIVERY_STATUS_RANK.indexOf(d));
+        deliveryStatus = DELIVERY_STATUS_RANK[Math.min(...ranks)];
+      }
+    }
+
+    const expectedDeliveries = active
+      .map((f) => f.expectedDelivery?.getTime())
+      .filter((time): time is number => time !== undefined);
+    const actualDeliveries = active
+      .map((f) => f.actualDelivery?.getTime())
+      .filter((time): time is number => time !== undefined);
+
+    const currentHistory = Array.isArray(order.statusHistory) ? order.statusHistory : [];
+    const statusHistory =
+      status !== order.status
+        ? [
+            ...currentHistory,
+            {
+              status,
+              note: 'Updated from seller fulfillments',
+              timestamp: new Date().toISOString(),
+              updatedBy: updatedBy,
+            },
+          ]
+        : undefined;
+
+    await tx.order.update({
+      where: { id: orderId },
+      data: {
+        status,
+        deliveryStatus,
+        // A single tracking number only makes sense when one seller ships everything
+        trackingNumber: fulfillments.length === 1 ? fulfillments[0].trackingNumber : undefined,
+        expectedDelivery: expectedDeliveries.length
+          ? new Date(Math.max(...expectedDeliveries))
+          : undefined,
+        actualDelivery:
+          status === OrderStatus.DELIVERED && actualDeliveries.length
+            ? new Date(Math.max(...actualDeliveries))
+            : undefined,
+        isDeliveryLate: active.some((f) => f.isDeliveryLate),
+        statusHistory,
+        updatedAt: new Date(),
+      },
+    });
+
+    // Every seller cancelled: the order is cancelled like any other, promotion uses included
+    if (status === OrderStatus.CANCELLED) {
+      await this.releasePromotions(tx, orderId);
+    }
+  }
+
   async getOrders(options: OrderQueryOptions): Promise<PaginatedResult<OrderSummary>> {
     try {
       const {
@@ -1097,69 +1628,413 @@ export class OrderRepository
     sellerId: string,
     options: Partial<OrderQueryOptions> = {},
   ): Promise<PaginatedResult<OrderSummary>> {
-    return this.getOrders({ ...options, sellerId });
-  }
-
-  async refundPayment(id: string, reason?: string): Promise<OrderWithDetails> {
     try {
-      return await this.prisma.$transaction(async (tx) => {
-        const order = await tx.order.findUnique({
-          where: { id },
-          select: { totalAmount: true, userId: true, paymentStatus: true, statusHistory: true },
-        });
-
-        if (!order) {
-          throw new AppError('Order not found', 404, 'ORDER_NOT_FOUND');
-        }
+      const {
+        page = 1,
+        limit = 10,
+        status,
+        paymentStatus,
+        deliveryStatus,
+        dateFrom,
+        dateTo,
+        sortBy = 'createdAt',
+        sortOrder = 'desc',
+      } = options;
 
-        if (order.paymentStatus !== PaymentStatus.COMPLETED) {
-          throw new AppError('Order payment is not completed', 400, 'PAYMENT_NOT_COMPLETED');
-        }
+      // Sellers see their own fulfillment, so status filters apply to it rather than the order
+      const where: Prisma.OrderFulfillmentWhereInput = { sellerId };
+      const orderWhere: Prisma.OrderWhereInput = {};
 
-        // Create refund transaction
-        await tx.paymentTransaction.create({
-          data: {
-            orderId: id,
-            userId: order.userId,
-            amount: -order.totalAmount,
-            currency: 'VND',
-            status: PaymentStatus.REFUNDED,
-            paymentMethodType: PaymentMethodType.CREDIT_CARD,
-            reference: `REF_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      if (status) {
+        where.status = Array.isArray(status) ? { in: status } : status;
+      }
+      if (deliveryStatus) {
+        where.deliveryStatus = Array.isArray(deliveryStatus)
+          ? { in: deliveryStatus }
+          : deliveryStatus;
+      }
+      if (paymentStatus) {
+        orderWhere.paymentStatus = Array.isArray(paymentStatus)
+          ? { in: paymentStatus }
+          : paymentStatus;
+      }
+      if (dateFrom || dateTo) {
+        where.createdAt = {};
+        if (dateFrom) where.createdAt.gte = dateFrom;
+        if (dateTo) where.createdAt.lte = dateTo;
+      }
+      if (Object.keys(orderWhere).length > 0) {
+        where.order = orderWhere;
+      }
+
+      const total = await this.prisma.orderFulfillment.count({ where });
+
+      const fulfillments = await this.prisma.orderFulfillment.findMany({
+        where,
+        include: {
+          order: {
+            include: {
+              customer: {
+                select: {
+                  id: true,
+                  firstName: true,
+                  lastName: true,
+                  email: true,
+                },
+              },
+            },
+          },
+          seller: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              artisanProfile: {
+                select: { shopName: true },
+              },
+            },
+          },
+          _count: {
+            select: { items: true },
+          },
+        },
+        orderBy: { order: { [sortBy]: sortOrder } },
+        skip: (page - 1) * limit,
+        take: limit,
+      });
+
+      const orderSummaries: OrderSummary[] = fulfillments.map((fulfillment) => {
+        const { order, seller } = fulfillment;
+
+        return {
+          id: order.id,
+          orderNumber: order.orderNumber,
+          status: fulfillment.status as OrderStatus,
+          paymentStatus: order.paymentStatus as PaymentStatus,
+          deliveryStatus: fulfillment.deliveryStatus as DeliveryStatus,
+          totalAmount: Number(fulfillment.subtotal) + Number(fulfillment.shippingCost),
+          itemCount: fulfillment._count.items,
+          createdAt: order.createdAt,
+          customer: order.customer
+            ? {
+                id: order.customer.id,
+                name: `${order.customer.firstName} ${order.customer.lastName}`,
+                email: order.customer.email,
+              }
+            : undefined,
+          primarySeller: {
+            id: seller.id,
+            name: `${seller.firstName} ${seller.lastName}`,
+            shopName: seller.artisanProfile?.shopName,
+          },
+          fulfillment: {
+            id: fulfillment.id,
+            status: fulfillment.status as OrderStatus,
+            deliveryStatus: fulfillment.deliveryStatus as DeliveryStatus,
+            subtotal: Number(fulfillment.subtotal),
+            shippingCost: Number(fulfillment.shippingCost),
+            trackingNumber: fulfillment.trackingNumber,
+            expectedDelivery: fulfillment.expectedDelivery,
+          },
+        };
+      });
+
+      return {
+        data: orderSummaries,
+        meta: {
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit),
+        },
+      };
+    } catch (error) {
+      this.logger.error(`Error getting seller orders: ${error}`);
+      throw new AppError('Failed to get seller orders', 500, 'ORDER_QUERY_FAILED');
+    }
+  }
+
+  async getRefundSummary(orderId: string): Promise<RefundSummary> {
+    try {
+      const captured = await this.prisma.paymentTransaction.findFirst({
+        where: { orderId, status: PaymentStatus.COMPLETED, amount: { gt: 0 } },
+        orderBy: { createdAt: 'desc' },
+        select: { id: true, amount: true },
+      });
+
+      const [refunded, items, refundedQuantities] = await Promise.all([
+        this.prisma.orderRefund.aggregate({
+          where: { orderId, status: { not: RefundStatus.FAILED } },
+          _sum: { amount: true },
+        }),
+        this.prisma.orderItem.findMany({
+          where: { orderId },
+          select: { id: true, price: true, quantity: true, discountAmount: true },
+        }),
+        this.getRefundedQuantities(this.prisma, orderId),
+      ]);
+
+      return {
+        capturedAmount: captured ? Number(captured.amount) : 0,
+        refundedAmount: Number(refunded._sum.amount || 0),
+        items: items.map((item) => ({
+          orderItemId: item.id,
+          // Customers get back what they paid, so promotion discounts come off the unit price
+          price: Number(item.price) - Number(item.discountAmount) / item.quantity,
+          quantity: item.quantity,
+          refundedQuantity: refundedQuantities.get(item.id) || 0,
+        })),
+      };
+    } catch (error) {
+      this.logger.error(`Error getting refund summary: ${error}`);
+      throw new AppError('Failed to get refund summary', 500, 'REFUND_SUMMARY_FAILED');
+    }
+  }
+
+  async createPendingRefund(orderId: string, data: RecordRefundDto): Promise<OrderRefund> {
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        // Lock the order so concurrent refunds are checked against each other
+        await tx.$queryRaw`SELECT id FROM "Order" WHERE id = ${orderId} FOR UPDATE`;
+
+        const order = await tx.order.findUnique({
+          where: { id: orderId },
+          select: { items: { select: { id: true, quantity: true } } },
+        });
+
+        if (!order) {
+          throw new AppError('Order not found', 404, 'ORDER_NOT_FOUND');
+        }
+
+        const captured = await tx.paymentTransaction.findFirst({
+          where: { orderId, status: PaymentStatus.COMPLETED, amount: { gt: 0 } },
+          orderBy: { createdAt: 'desc' },
+          select: { id: true, amount: true },
+        });
+
+        if (!captured) {
+          throw new AppError('Order payment is not completed', 400, 'PAYMENT_NOT_COMPLETED');
+        }
+
+        // Pending refunds count too: the provider may already be moving that money
+        const refunded = await tx.orderRefund.aggregate({
+          where: { transactionId: captured.id, status: { not: RefundStatus.FAILED } },
+          _sum: { amount: true },
+        });
+
+        if (Number(refunded._sum.amount || 0) + data.amount > Number(captured.amount) + 0.005) {
+          throw new AppError(
+            'Refund amount exceeds the captured payment',
+            400,
+            'REFUND_EXCEEDS_CAPTURED',
+          );
+        }
+
+        const refundedQuantities = await this.getRefundedQuantities(tx, orderId);
+
+        for (const refundItem of data.items) {
+          const orderItem = order.items.find((item) => item.id === refundItem.orderItemId);
+          if (!orderItem) {
+            throw new AppError('Order item not found', 404, 'ORDER_ITEM_NOT_FOUND');
+          }
+
+          const alreadyRefunded = refundedQuantities.get(orderItem.id) || 0;
+          if (alreadyRefunded + refundItem.quantity > orderItem.quantity) {
+            throw new AppError(
+              'Refund quantity exceeds the quantity left to refund',
+              400,
+              'REFUND_QUANTITY_EXCEEDED',
+            );
+          }
+
+          refundedQuantities.set(orderItem.id, alreadyRefunded + refundItem.quantity);
+        }
+
+        const refund = await tx.orderRefund.create({
+          data: {
+            orderId,
+            transactionId: captured.id,
+            returnId: data.returnId,
+            amount: data.amount,
+            reason: data.reason,
+            status: RefundStatus.PENDING,
+            createdBy: data.createdBy,
+            items: {
+              create: data.items.map((item) => ({
+                orderItemId: item.orderItemId,
+                quantity: item.quantity,
+                amount: item.amount,
+              })),
+            },
+          },
+          include: { items: true },
+        });
+
+        return this.transformRefund(refund);
+      });
+    } catch (error) {
+      this.logger.error(`Error creating refund: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to refund payment', 500, 'REFUND_FAILED');
+    }
+  }
+
+  async completeRefund(refundId: string, data: CompleteRefundDto = {}): Promise<OrderWithDetails> {
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        const pending = await tx.orderRefund.findUnique({
+          where: { id: refundId },
+          select: { orderId: true },
+        });
+
+        if (!pending) {
+          throw new AppError('Refund not found', 404, 'REFUND_NOT_FOUND');
+        }
+
+        const orderId = pending.orderId;
+        await tx.$queryRaw`SELECT id FROM "Order" WHERE id = ${orderId} FOR UPDATE`;
+
+        const refund = await tx.orderRefund.findUnique({
+          where: { id: refundId },
+          include: {
+            items: true,
+            transaction: {
+              select: {
+                id: true,
+                amount: true,
+                currency: true,
+                paymentMethodId: true,
+                paymentMethodType: true,
+              },
+            },
+          },
+        });
+
+        if (!refund || refund.status !== RefundStatus.PENDING) {
+          throw new AppError('Refund is not pending', 409, 'REFUND_NOT_PENDING');
+        }
+
+        const order = await tx.order.findUnique({
+          where: { id: orderId },
+          select: {
+            userId: true,
+            status: true,
+            statusHistory: true,
+            items: {
+              select: {
+                id: true,
+                productId: true,
+                variantId: true,
+                isCustomOrder: true,
+              },
+            },
+          },
+        });
+
+        if (!order) {
+          throw new AppError('Order not found', 404, 'ORDER_NOT_FOUND');
+        }
+
+        const captured = refund.transaction;
+        const amount = Number(refund.amount);
+
+        // Negative ledger entry mirroring the captured transaction
+        const refundTransaction = await tx.paymentTransaction.create({
+          data: {
+            orderId,
+            userId: order.userId,
+            paymentMethodId: captured.paymentMethodId,
+            amount: -amount,
+            currency: captured.currency,
+            status: PaymentStatus.REFUNDED,
+            paymentMethodType: captured.paymentMethodType,
+            reference: `REF_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            externalReference: data.providerRefundId,
+            metadata: { refundOf: captured.id, refundId },
             processedAt: new Date(),
           },
         });
 
+        await tx.orderRefund.update({
+          where: { id: refundId },
+          data: {
+            status: RefundStatus.COMPLETED,
+            refundTransactionId: refundTransaction.id,
+            providerRefundId: data.providerRefundId,
+          },
+        });
+
+        // Restock only what was refunded; custom pieces have no stock to restore
+        for (const refundItem of refund.items) {
+          const orderItem = order.items.find((item) => item.id === refundItem.orderItemId);
+          if (!orderItem || orderItem.isCustomOrder || !orderItem.productId) continue;
+
+          if (orderItem.variantId) {
+            await tx.productVariant.update({
+              where: { id: orderItem.variantId },
+              data: { quantity: { increment: refundItem.quantity } },
+            });
+          } else {
+            await tx.product.update({
+              where: { id: orderItem.productId },
+              data: { quantity: { increment: refundItem.quantity } },
+            });
+          }
+        }
+
+        const completed = await tx.orderRefund.aggregate({
+          where: { transactionId: captured.id, status: RefundStatus.COMPLETED },
+          _sum: { amount: true },
+        });
+
+        // Returning every item is not enough; the money has to be back too
+        const fullyRefunded = Number(completed._sum.amount || 0) >= Number(captured.amount) - 0.005;
+        const closesOrder = fullyRefunded && !data.cancellation;
+
         // Update status history
         const currentHistory = Array.isArray(order.statusHistory) ? order.statusHistory : [];
         const newHistoryEntry = {
-          status: OrderStatus.REFUNDED,
-          note: reason || 'Payment refunded',
+          status: closesOrder ? OrderStatus.REFUNDED : order.status,
+          note:
+            refund.reason || (fullyRefunded ? 'Payment refunded' : 'Payment partially refunded'),
           timestamp: new Date().toISOString(),
-          updatedBy: null,
+          updatedBy: refund.createdBy || null,
         };
         const updatedHistory = [...currentHistory, newHistoryEntry];
 
-        // Update order
+        // Only a complete refund moves the order itself to REFUNDED (a cancellation to CANCELLED)
         await tx.order.update({
-          where: { id },
+          where: { id: orderId },
           data: {
-            paymentStatus: PaymentStatus.REFUNDED,
-            status: OrderStatus.REFUNDED,
+            ...(fullyRefunded && { paymentStatus: PaymentStatus.REFUNDED }),
+            ...(closesOrder && { status: OrderStatus.REFUNDED }),
             statusHistory: updatedHistory,
             updatedAt: new Date(),
           },
         });
 
-        return (await this.findByIdWithDetails(id)) as OrderWithDetails;
+        return (await this.findByIdWithDetails(orderId)) as OrderWithDetails;
       });
     } catch (error) {
-      this.logger.error(`Error refunding payment: ${error}`);
+      this.logger.error(`Error completing refund: ${error}`);
       if (error instanceof AppError) throw error;
       throw new AppError('Failed to refund payment', 500, 'REFUND_FAILED');
     }
   }
 
+  async failRefund(refundId: string, reason: string): Promise<void> {
+    try {
+      // Failed refunds stay in the ledger but no longer count against the limits
+      await this.prisma.orderRefund.updateMany({
+        where: { id: refundId, status: RefundStatus.PENDING },
+        data: { status: RefundStatus.FAILED, failureReason: reason },
+      });
+    } catch (error) {
+      this.logger.error(`Error failing refund: ${error}`);
+      throw new AppError('Failed to update refund', 500, 'REFUND_UPDATE_FAILED');
+    }
+  }
+
   async getOrderStats(userId?: string, sellerId?: string): Promise<OrderStats> {
     try {
       const where: Prisma.OrderWhereInput = {};
@@ -1270,14 +2145,76 @@ export class OrderRepository
     updatedBy?: string,
   ): Promise<OrderDisputeWithDetails> {
     try {
+      const isClosing = data.status === 'RESOLVED' || data.status === 'CLOSED';
+
+      return await this.prisma.$transaction(async (tx) => {
+        const dispute = await tx.orderDispute.update({
+          where: { id },
+          data: {
+            status: data.status,
+            resolution: data.resolution,
+            resolvedBy: isClosing ? updatedBy : undefined,
+            resolvedAt: isClosing ? new Date() : undefined,
+            updatedAt: new Date(),
+          },
+          include: {
+            order: {
+              select: {
+                id: true,
+                orderNumber: true,
+              },
+            },
+            complainant: {
+              select: {
+                id: true,
+                firstName: true,
+                lastName: true,
+                email: true,
+              },
+            },
+          },
+        });
+
+        // Clear the order flag once no other dispute on it is still open
+        if (isClosing) {
+          const openDisputes = await tx.orderDispute.count({
+            where: {
+              orderId: dispute.orderId,
+              id: { not: id },
+              status: { in: ['OPEN', 'UNDER_REVIEW'] },
+            },
+          });
+
+          if (openDisputes === 0) {
+            await tx.order.update({
+              where: { id: dispute.orderId },
+              data: { hasDispute: false },
+            });
+          }
+        }
+
+        return dispute as OrderDisputeWithDetails;
+      });
+    } catch (error) {
+      this.logger.error(`Error updating dispute: ${error}`);
+      throw new AppError('Failed to update dispute', 500, 'DISPUTE_UPDATE_FAILED');
+    }
+  }
+
+  async respondToDispute(id: string, response: string): Promise<OrderDisputeWithDetails> {
+    try {
+      const current = await this.prisma.orderDispute.findUnique({
+        where: { id },
+        select: { status: true },
+      });
+
       const dispute = await this.prisma.orderDispute.update({
         where: { id },
         data: {
-          status: data.status,
-          resolution: data.resolution,
-          resolvedBy: updatedBy,
-          resolvedAt:
-            data.status === 'RESOLVED' || data.status === 'CLOSED' ? new Date() : undefined,
+          sellerResponse: response,
+          sellerRespondedAt: new Date(),
+          // A seller reply moves a fresh dispute into review
+          status: current?.status === 'OPEN' ? 'UNDER_REVIEW' : undefined,
           updatedAt: new Date(),
         },
         include: {
@@ -1300,8 +2237,8 @@ export class OrderRepository
 
       return dispute as OrderDisputeWithDetails;
     } catch (error) {
-      this.logger.error(`Error updating dispute: ${error}`);
-      throw new AppError('Failed to update dispute', 500, 'DISPUTE_UPDATE_FAILED');
+      this.logger.error(`Error responding to dispute: ${error}`);
+      throw new AppError('Failed to respond to dispute', 500, 'DISPUTE_RESPONSE_FAILED');
     }
   }
 
@@ -1310,36 +2247,116 @@ export class OrderRepository
     data: CreateReturnDto & { requesterId: string },
   ): Promise<OrderReturnWithDetails> {
     try {
-      const returnRequest = await this.prisma.orderReturn.create({
-        data: {
-          orderId: data.orderId,
-          requesterId: data.requesterId,
-          reason: data.reason,
-          description: data.description,
-          evidence: data.evidence || [],
-          status: 'REQUESTED',
-        },
-        include: {
-          order: {
-            select: {
-              id: true,
-              orderNumber: true,
+      return await this.prisma.$transaction(async (tx) => {
+        // Returns of one order are created one at a time so their items can't overlap
+        await tx.$queryRaw`SELECT id FROM "Order" WHERE id = ${data.orderId} FOR UPDATE`;
+
+        const orderItems = await tx.orderItem.findMany({
+          where: { orderId: data.orderId },
+          select: { id: true, sellerId: true, quantity: true },
+        });
+
+        const alreadyReturned = new Map<string, number>();
+        const openReturnItems = await tx.orderReturnItem.findMany({
+          where: { return: { orderId: data.orderId, status: { not: 'REJECTED' } } },
+          select: { orderItemId: true, quantity: true },
+        });
+        for (const item of openReturnItems) {
+          alreadyReturned.set(
+            item.orderItemId,
+            (alreadyReturned.get(item.orderItemId) || 0) + item.quantity,
+          );
+        }
+
+        const returnable = (item: { id: string; quantity: number }) =>
+          item.quantity - (alreadyReturned.get(item.id) || 0);
+
+        let items = data.items;
+        if (!items?.length) {
+          if (new Set(orderItems.map((item) => item.sellerId)).size > 1) {
+            throw new AppError(
+              'Choose the items to return; each seller handles returns of their own items',
+              400,
+              'RETURN_ITEMS_REQUIRED',
+            );
+          }
+
+          items = orderItems
+            .filter((item) => returnable(item) > 0)
+            .map((item) => ({ orderItemId: item.id, quantity: returnable(item) }));
+        }
+
+        if (items.length === 0) {
+          throw new AppError('Nothing left to return', 400, 'NOTHING_TO_RETURN');
+        }
+
+        const sellerIds = new Set<string>();
+        for (const returnItem of items) {
+          const item = orderItems.find((i) => i.id === returnItem.orderItemId);
+          if (!item) {
+            throw new AppError('Order item not found', 404, 'ORDER_ITEM_NOT_FOUND');
+          }
+
+          if (returnItem.quantity > returnable(item)) {
+            throw new AppError(
+              'Return quantity exceeds the quantity left to return',
+              400,
+              'RETURN_QUANTITY_EXCEEDED',
+            );
+          }
+
+          sellerIds.add(item.sellerId);
+        }
+
+        // The seller of the items decides the return, so one return covers one seller
+        if (sellerIds.size > 1) {
+          throw new AppError(
+            'Items from different sellers need separate returns',
+            400,
+            'RETURN_MIXED_SELLERS',
+          );
+        }
+
+        const returnRequest = await tx.orderReturn.create({
+          data: {
+            orderId: data.orderId,
+            requesterId: data.requesterId,
+            sellerId: [...sellerIds][0],
+            reason: data.reason,
+            description: data.description,
+            evidence: data.evidence || [],
+            status: 'REQUESTED',
+            items: {
+              create: items.map((item) => ({
+                orderItemId: item.orderItemId,
+                quantity: item.quantity,
+              })),
             },
           },
-          requester: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              email: true,
+          include: {
+            order: {
+              select: {
+                id: true,
+                orderNumber: true,
+              },
+            },
+            requester: {
+              select: {
+                id: true,
+                firstName: true,
+                lastName: true,
+                email: true,
+              },
             },
+            items: { select: { orderItemId: true, quantity: true } },
           },
-        },
-      });
+        });
 
-      return returnRequest as OrderReturnWithDetails;
+        return returnRequest as OrderReturnWithDetails;
+      });
     } catch (error) {
       this.logger.error(`Error creating return: ${error}`);
+      if (error instanceof AppError) throw error;
       throw new AppError('Failed to create return', 500, 'RETURN_CREATE_FAILED');
     }
   }
@@ -1546,6 +2563,7 @@ export class OrderRepository
               email: true,
             },
           },
+          items: { select: { orderItemId: true, quantity: true } },
         },
       });
 
@@ -1559,6 +2577,44 @@ export class OrderRepository
     }
   }
 
+  async respondToReturn(id: string, response: string): Promise<OrderReturnWithDetails> {
+    try {
+      const returnRequest = await this.prisma.orderReturn.update({
+        where: { id },
+        data: {
+          sellerResponse: response,
+          sellerRespondedAt: new Date(),
+          updatedAt: new Date(),
+        },
+        include: {
+          order: {
+            select: {
+              id: true,
+              orderNumber: true,
+            },
+          },
+          requester: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              email: true,
+            },
+          },
+          items: { select: { orderItemId: true, quantity: true } },
+        },
+      });
+
+      return {
+        ...returnRequest,
+        refundAmount: returnRequest.refundAmount ? Number(returnRequest.refundAmount) : null,
+      } as OrderReturnWithDetails;
+    } catch (error) {
+      this.logger.error(`Error responding to return: ${error}`);
+      throw new AppError('Failed to respond to return', 500, 'RETURN_RESPONSE_FAILED');
+    }
+  }
+
   async getReturns(options: ReturnQueryOptions): Promise<PaginatedResult<OrderReturnWithDetails>> {
     try {
       const { page = 1, limit = 10, status, reason, dateFrom, dateTo } = options;
@@ -1592,6 +2648,7 @@ export class OrderRepository
               email: true,
             },
           },
+          items: { select: { orderItemId: true, quantity: true } },
         },
         orderBy: { createdAt: 'desc' },
         skip: (page - 1) * limit,
@@ -1626,7 +2683,9 @@ export class OrderRepository
       const where: Prisma.OrderReturnWhereInput = {
         OR: [
           { requesterId: userId },
+          { sellerId: userId },
           {
+            sellerId: null,
             order: {
               items: {
                 some: { sellerId: userId },
@@ -1663,6 +2722,7 @@ export class OrderRepository
               email: true,
             },
           },
+          items: { select: { orderItemId: true, quantity: true } },
         },
         orderBy: { createdAt: 'desc' },
         skip: (page - 1) * limit,
@@ -1712,6 +2772,7 @@ export class OrderRepository
               email: true,
             },
           },
+          items: { select: { orderItemId: true, quantity: true } },
         },
       });
 
@@ -1785,8 +2846,10 @@ export class OrderRepository
       // User is customer of the order
       if (returnRequest.order.userId === userId) return true;
 
-      // User is seller in the order
-      const isSeller = returnRequest.order.items.some((item) => item.sellerId === userId);
+      // User is the seller of the returned items; older returns without one are open to all sellers
+      const isSeller = returnRequest.sellerId
+        ? returnRequest.sellerId === userId
+        : returnRequest.order.items.some((item) => item.sellerId === userId);
       if (isSeller) return true;
 
       return false;
@@ -1851,16 +2914,9 @@ export class OrderRepository
       // Check return deadline
       if (order.returnDeadline && new Date() > order.returnDeadline) return false;
 
-      // Can only return delivered orders
+      // Can only return delivered orders; which items are still returnable is checked on creation
       if (order.status !== 'DELIVERED') return false;
 
-      // Check if return already exists
-      const existingReturn = await this.prisma.orderReturn.findFirst({
-        where: { orderId, requesterId: userId },
-      });
-
-      if (existingReturn) return false;
-
       return true;
     } catch (error) {
       this.logger.error(`Error checking return creation: ${error}`);
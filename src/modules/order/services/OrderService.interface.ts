@@ -18,6 +18,8 @@ import {
   CreateReturnDto,
   UpdateReturnDto,
   ReturnQueryOptions,
+  SellerResponseDto,
+  CreateRefundDto,
 } from '../models/Order';
 import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
 
@@ -48,8 +50,8 @@ export interface IOrderService {
   cancelOrder(id: string, userId: string, reason?: string): Promise<OrderWithDetails>;
 
   // Payment
-  processPayment(id: string, data: ProcessPaymentDto): Promise<OrderWithDetails>;
-  refundPayment(id: string, reason?: string): Promise<OrderWithDetails>;
+  processPayment(id: string, userId: string, data: ProcessPaymentDto): Promise<OrderWithDetails>;
+  refundPayment(id: string, data: CreateRefundDto, refundedBy?: string): Promise<OrderWithDetails>;
 
   // Status history (Json field)
   getOrderStatusHistory(orderId: string): Promise<any[]>;
@@ -57,6 +59,9 @@ export interface IOrderService {
   // Analytics
   getOrderStats(userId?: string, sellerId?: string): Promise<OrderStats>;
 
+  // Background tasks
+  flagLateDeliveries(): Promise<number>;
+
   // Validation
   validateOrderAccess(orderId: string, userId: string, action?: string): Promise<boolean>;
 
@@ -73,6 +78,11 @@ export interface IOrderService {
   ): Promise<PaginatedResult<OrderDisputeWithDetails>>;
   getDisputeById(id: string): Promise<OrderDisputeWithDetails | null>;
   validateDisputeAccess(disputeId: string, userId: string): Promise<boolean>;
+  respondToDispute(
+    id: string,
+    sellerId: string,
+    data: SellerResponseDto,
+  ): Promise<OrderDisputeWithDetails>;
 
   // Return methods
   createReturn(userId: string, data: CreateReturnDto): Promise<OrderReturnWithDetails>;
@@ -87,6 +97,11 @@ export interface IOrderService {
   ): Promise<PaginatedResult<OrderReturnWithDetails>>;
   getReturnById(id: string): Promise<OrderReturnWithDetails | null>;
   validateReturnAccess(returnId: string, userId: string): Promise<boolean>;
+  respondToReturn(
+    id: string,
+    sellerId: string,
+    data: SellerResponseDto,
+  ): Promise<OrderReturnWithDetails>;
 
   getAllOrdersForAdmin(options?: OrderQueryOptions): Promise<PaginatedResult<OrderSummary>>;
   deleteOrder(id: string, adminId: string): Promise<boolean>;
@@ -20,13 +20,27 @@ import {
   CreateReturnDto,
   UpdateReturnDto,
   ReturnQueryOptions,
+  SellerResponseDto,
+  CreateRefundDto,
+  RecordRefundDto,
+  OrderFulfillment,
 } from '../models/Order';
-import { OrderStatus, DisputeStatus, ReturnStatus } from '../models/OrderEnums';
+import { OrderStatus, PaymentStatus, DisputeStatus, ReturnStatus } from '../models/OrderEnums';
 import { IOrderRepository } from '../repositories/OrderRepository.interface';
 import { ICartRepository } from '../../cart/repositories/CartRepository.interface';
+import { ICartService } from '../../cart/services/CartService.interface';
+import { IPricingService } from '../../pricing/services/PricingService.interface';
+import { IInventoryService } from '../../inventory/services/InventoryService.interface';
 import { ICustomOrderRepository } from '../../custom-order/repositories/CustomOrderRepository.interface';
 import { IUserRepository } from '../../auth/repositories/UserRepository.interface';
 import { INotificationService } from '../../notification';
+import { IPaymentService } from '../../payment/services/PaymentService.interface';
+import { EmailService } from '../../../core/infrastructure/email/EmailService';
+import {
+  EmailTemplateData,
+  EmailTemplateName,
+} from '../../../core/infrastructure/email/EmailTemplates';
+import { Config } from '../../../config/config';
 import { AppError } from '../../../core/errors/AppError';
 import { Logger } from '../../../core/logging/Logger';
 import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
@@ -35,17 +49,27 @@ import container from '../../../core/di/container';
 export class OrderService implements IOrderService {
   private orderRepository: IOrderRepository;
   private cartRepository: ICartRepository;
+  private cartService: ICartService;
+  private pricingService: IPricingService;
+  private inventoryService: IInventoryService;
   private customOrderRepository: ICustomOrderRepository;
   private userRepository: IUserRepository;
   private notificationService: INotificationService;
+  private paymentService: IPaymentService;
+  private emailService: EmailService;
   private logger = Logger.getInstance();
 
   constructor() {
     this.orderRepository = container.resolve<IOrderRepository>('orderRepository');
     this.cartRepository = container.resolve<ICartRepository>('cartRepository');
+    this.cartService = container.resolve<ICartService>('cartService');
+    this.pricingService = container.resolve<IPricingService>('pricingService');
+    this.inventoryService = container.resolve<IInventoryService>('inventoryService');
     this.customOrderRepository = container.resolve<ICustomOrderRepository>('customOrderRepository');
     this.userRepository = container.resolve<IUserRepository>('userRepository');
     this.notificationService = container.resolve<INotificationService>('notificationService');
+    this.paymentService = container.resolve<IPaymentService>('paymentService');
+    this.emailService = container.resolve<EmailService>('emailService');
   }
 
   // ORDER CREATION METHODS
@@ -67,8 +91,24 @@ export class OrderService implements IOrderService {
         throw AppError.badRequest(`Cart validation failed: ${errors}`, 'INVALID_CART');
       }
 
+      // Price the cart exactly as the cart summary shows it
+      const summary = await this.cartService.getCartSummary(
+        userId,
+        data.addressId,
+        data.couponCode,
+      );
+
       // Create order
-      const order = await this.orderRepository.createOrderFromCart(userId, data);
+      // Stock stays held for the order until it is paid
+      const order = await this.orderRepository.createOrderFromCart(
+        userId,
+        data,
+        summary.pricing!,
+        this.inventoryService.getReservationExpiry(),
+      );
+
+      // Cash on delivery takes the stock right away
+      await this.syncStock(order);
 
       // Send notifications to sellers
       try {
@@ -118,8 +158,25 @@ export class OrderService implements IOrderService {
         );
       }
 
+      if (!quote.finalPrice) {
+        throw AppError.badRequest('Quote has no final price', 'NO_FINAL_PRICE');
+      }
+
+      const pricing = await this.pricingService.calculateBreakdown(
+        [
+          {
+            sellerId: quote.artisanId,
+            subtotal: Number(quote.finalPrice),
+            items: quote.referenceProductId
+              ? [{ productId: quote.referenceProductId, quantity: 1 }]
+              : [],
+          },
+        ],
+        data.addressId,
+      );
+
       // Create order through repository
-      const order = await this.orderRepository.createOrderFromQuote(userId, data);
+      const order = await this.orderRepository.createOrderFromQuote(userId, data, pricing);
 
       // ✅ CRITICAL: Validate order creation success
       if (!order) {
@@ -247,14 +304,25 @@ export class OrderService implements IOrderService {
       }
 
       // Additional business logic validation
-      await this.validateStatusUpdate(id, data, updatedBy);
+      const role = await this.validateStatusUpdate(id, data, updatedBy);
+
+      // Sellers only move their own part of the order; the order status follows from all parts
+      let order: OrderWithDetails;
+      let fulfillment: OrderFulfillment | undefined;
+      if (role === 'ARTISAN') {
+        order = await this.updateSellerFulfillment(id, data, updatedBy);
+        fulfillment = order.fulfillments.find((f) => f.sellerId === updatedBy);
+      } else {
+        order = await this.orderRepository.updateOrderStatus(id, data, updatedBy);
+      }
 
-      // Update order status
-      const order = await this.orderRepository.updateOrderStatus(id, data, updatedBy);
+      if (data.status === OrderStatus.CANCELLED) {
+        await this.syncStock(order);
+      }
 
       // Send notifications
       try {
-        await this.notifyOrderStatusChanged(order, data.status);
+        await this.notifyOrderStatusChanged(order, data.status, fulfillment);
       } catch (notifError) {
         this.logger.error(`Error sending status change notifications: ${notifError}`);
       }
@@ -289,8 +357,18 @@ export class OrderService implements IOrderService {
         throw AppError.badRequest(`Cannot cancel order in ${order.status} status`, 'CANNOT_CANCEL');
       }
 
+      // Paid orders get back whatever is not refunded yet before they are cancelled
+      if (order.paymentStatus === PaymentStatus.COMPLETED) {
+        await this.executeRefund(
+          id,
+          { reason: reason || 'Order cancelled' },
+          { refundedBy: userId, cancellation: true },
+        );
+      }
+
       // Cancel order
       const cancelledOrder = await this.orderRepository.cancelOrder(id, reason, userId);
+      await this.syncStock(cancelledOrder);
 
       // Send notifications
       try {
@@ -310,32 +388,27 @@ export class OrderService implements IOrderService {
   }
 
   // PAYMENT METHODS
-  async processPayment(id: string, data: ProcessPaymentDto): Promise<OrderWithDetails> {
+  async processPayment(
+    id: string,
+    userId: string,
+    data: ProcessPaymentDto,
+  ): Promise<OrderWithDetails> {
     try {
-      // Get order to validate
-      const order = await this.orderRepository.findByIdWithDetails(id);
+      const order = await this.orderRepository.findById(id);
       if (!order) {
         throw AppError.notFound('Order not found', 'ORDER_NOT_FOUND');
       }
 
-      // Basic payment validation
-      if (order.paymentStatus === 'COMPLETED') {
-        throw AppError.badRequest('Order is already paid', 'ORDER_ALREADY_PAID');
+      if (order.userId !== userId) {
+        throw AppError.forbidden('You can only pay for your own orders', 'FORBIDDEN');
       }
 
-      // Process payment
-      const processedOrder = await this.orderRepository.processPayment(id, data);
+      // Settlement is asynchronous: the order is marked PAID once the provider confirms
+      const transaction = await this.paymentService.initiatePayment(id, data);
 
-      // Send notifications
-      try {
-        await this.notifyPaymentProcessed(processedOrder);
-      } catch (notifError) {
-        this.logger.error(`Error sending payment notifications: ${notifError}`);
-      }
-
-      this.logger.info(`Payment processed for order: ${id}`);
+      this.logger.info(`Payment initiated for order: ${id} (${transaction.reference})`);
 
-      return processedOrder;
+      return (await this.orderRepository.findByIdWithDetails(id)) as OrderWithDetails;
     } catch (error) {
       this.logger.error(`Error processing payment: ${error}`);
       if (error instanceof AppError) throw error;
@@ -343,16 +416,13 @@ export class OrderService implements IOrderService {
     }
   }
 
-  async refundPayment(id: string, reason?: string): Promise<OrderWithDetails> {
+  async refundPayment(
+    id: string,
+    data: CreateRefundDto,
+    refundedBy?: string,
+  ): Promise<OrderWithDetails> {
     try {
-      const order = await this.orderRepository.refundPayment(id, reason);
-
-      // Send notifications
-      try {
-        await this.notifyPaymentRefunded(order, reason);
-      } catch (notifError) {
-        this.logger.error(`Error sending refund notifications: ${notifError}`);
-      }
+      const { order } = await this.executeRefund(id, data, { refundedBy });
 
       this.logger.info(`Payment refunded for order: ${id}`);
 
@@ -375,6 +445,23 @@ export class OrderService implements IOrderService {
     }
   }
 
+  // BACKGROUND TASKS
+  async flagLateDeliveries(): Promise<number> {
+    try {
+      const flaggedCount = await this.orderRepository.markLateDeliveries();
+
+      if (flaggedCount > 0) {
+        this.logger.info(`Flagged ${flaggedCount} orders as late for delivery`);
+      }
+
+      return flaggedCount;
+    } catch (error) {
+      this.logger.error(`Error flagging late deliveries: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to flag late deliveries', 'SERVICE_ERROR');
+    }
+  }
+
   // ANALYTICS
   async getOrderStats(userId?: string, sellerId?: string): Promise<OrderStats> {
     try {
@@ -544,6 +631,45 @@ export class OrderService implements IOrderService {
     }
   }
 
+  async respondToDispute(
+    id: string,
+    sellerId: string,
+    data: SellerResponseDto,
+  ): Promise<OrderDisputeWithDetails> {
+    try {
+      const currentDispute = await this.orderRepository.getDisputeById(id);
+      if (!currentDispute) {
+        throw AppError.notFound('Dispute not found', 'DISPUTE_NOT_FOUND');
+      }
+
+      await this.validateSellerOfOrder(currentDispute.orderId, sellerId);
+
+      if (
+        currentDispute.status === DisputeStatus.RESOLVED ||
+        currentDispute.status === DisputeStatus.CLOSED
+      ) {
+        throw AppError.badRequest('Dispute is already closed', 'DISPUTE_CLOSED');
+      }
+
+      const dispute = await this.orderRepository.respondToDispute(id, data.response);
+
+      // Send notifications
+      try {
+        await this.notificationService.notifyDisputeUpdated(dispute.complainantId, dispute.id);
+      } catch (notifError) {
+        this.logger.error(`Error sending dispute response notifications: ${notifError}`);
+      }
+
+      this.logger.info(`Seller ${sellerId} responded to dispute ${id}`);
+
+      return dispute;
+    } catch (error) {
+      this.logger.error(`Error responding to dispute: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to respond to dispute', 'SERVICE_ERROR');
+    }
+  }
+
   // RETURN METHODS
   async createReturn(userId: string, data: CreateReturnDto): Promise<OrderReturnWithDetails> {
     try {
@@ -601,8 +727,14 @@ export class OrderService implements IOrderService {
 
       await this.validateReturnStatusUpdate(currentReturn, data, updatedBy);
 
+      // Money goes back before the return is marked processed, so a declined refund can be retried
+      let updateData = data;
+      if (data.status === ReturnStatus.REFUND_PROCESSED) {
+        updateData = await this.processReturnRefund(currentReturn, data, updatedBy);
+      }
+
       // Update return
-      const returnRequest = await this.orderRepository.updateReturn(id, data, updatedBy);
+      const returnRequest = await this.orderRepository.updateReturn(id, updateData, updatedBy);
 
       // Send notifications
       try {
@@ -660,12 +792,54 @@ export class OrderService implements IOrderService {
     }
   }
 
+  async respondToReturn(
+    id: string,
+    sellerId: string,
+    data: SellerResponseDto,
+  ): Promise<OrderReturnWithDetails> {
+    try {
+      const currentReturn = await this.orderRepository.getReturnById(id);
+      if (!currentReturn) {
+        throw AppError.notFound('Return not found', 'RETURN_NOT_FOUND');
+      }
+
+      this.validateSellerOfReturn(currentReturn, sellerId);
+
+      if (
+        currentReturn.status === ReturnStatus.REJECTED ||
+        currentReturn.status === ReturnStatus.REFUND_PROCESSED
+      ) {
+        throw AppError.badRequest('Return is already closed', 'RETURN_CLOSED');
+      }
+
+      const returnRequest = await this.orderRepository.respondToReturn(id, data.response);
+
+      // Send notifications
+      try {
+        await this.notificationService.notifyReturnUpdated(
+          returnRequest.requesterId,
+          returnRequest.id,
+        );
+      } catch (notifError) {
+        this.logger.error(`Error sending return response notifications: ${notifError}`);
+      }
+
+      this.logger.info(`Seller ${sellerId} responded to return ${id}`);
+
+      return returnRequest;
+    } catch (error) {
+      this.logger.error(`Error responding to return: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to respond to return', 'SERVICE_ERROR');
+    }
+  }
+
   // PRIVATE HELPER METHODS
   private async validateStatusUpdate(
     orderId: string,
     data: UpdateOrderStatusDto,
     updatedBy: string,
-  ): Promise<void> {
+  ): Promise<string> {
     const order = await this.orderRepository.findByIdWithDetails(orderId);
     if (!order) {
       throw AppError.notFound('Order not found', 'ORDER_NOT_FOUND');
@@ -720,6 +894,73 @@ export class OrderService implements IOrderService {
       default:
         throw AppError.forbidden('Unauthorized role', 'FORBIDDEN');
     }
+
+    return user.role;
+  }
+
+  /**
+   * Moves a seller's fulfillment. Cancelling a paid fulfillment first refunds the seller's
+   * remaining items, their shipping and their share of the tax.
+   */
+  private async updateSellerFulfillment(
+    orderId: string,
+    data: UpdateOrderStatusDto,
+    sellerId: string,
+  ): Promise<OrderWithDetails> {
+    const order = await this.orderRepository.findByIdWithDetails(orderId);
+    if (!order) {
+      throw AppError.notFound('Order not found', 'ORDER_NOT_FOUND');
+    }
+
+    const fulfillment = order.fulfillments.find((f) => f.sellerId === sellerId);
+    if (!fulfillment) {
+      throw AppError.notFound('Fulfillment not found', 'FULFILLMENT_NOT_FOUND');
+    }
+
+    const isPaid = order.paymentStatus === PaymentStatus.COMPLETED;
+
+    if (
+      data.status === OrderStatus.CANCELLED &&
+      fulfillment.status !== OrderStatus.CANCELLED &&
+      isPaid
+    ) {
+      const summary = await this.orderRepository.getRefundSummary(orderId);
+      const sellerItemIds = new Set(
+        order.items.filter((item) => item.fulfillmentId === fulfillment.id).map((item) => item.id),
+      );
+
+      const items = summary.items
+        .filter((item) => sellerItemIds.has(item.orderItemId))
+        .filter((item) => item.quantity > item.refundedQuantity)
+        .map((item) => ({
+          orderItemId: item.orderItemId,
+          quantity: item.quantity - item.refundedQuantity,
+        }));
+
+      const itemsTotal = items.reduce((sum, refundItem) => {
+        const item = summary.items.find((i) => i.orderItemId === refundItem.orderItemId);
+        return sum + (item?.price ?? 0) * refundItem.quantity;
+      }, 0);
+      const taxShare =
+        order.taxAmount && order.subtotal > 0
+          ? (order.taxAmount * fulfillment.subtotal) / order.subtotal
+          : 0;
+      const remaining = summary.capturedAmount - summary.refundedAmount;
+      const amount = this.roundMoney(
+        Math.min(itemsTotal + fulfillment.shippingCost + taxShare, remaining),
+      );
+
+      if (items.length > 0 && amount > 0) {
+        await this.executeRefund(
+          orderId,
+          { items, amount, reason: data.note || 'Cancelled by seller' },
+          { refundedBy: sellerId },
+        );
+      }
+    }
+
+    // Refunded items are restocked with the refund
+    return this.orderRepository.updateFulfillmentStatus(orderId, sellerId, data, sellerId, !isPaid);
   }
 
   private async validateDisputeStatusUpdate(
@@ -727,6 +968,10 @@ export class OrderService implements IOrderService {
     data: UpdateDisputeDto,
     updatedBy: string,
   ): Promise<void> {
+    if (dispute.status === DisputeStatus.RESOLVED || dispute.status === DisputeStatus.CLOSED) {
+      throw AppError.badRequest('Dispute is already closed', 'DISPUTE_CLOSED');
+    }
+
     const user = await this.userRepository.findById(updatedBy);
     if (!user) {
       throw AppError.notFound('User not found', 'USER_NOT_FOUND');
@@ -764,6 +1009,21 @@ export class OrderService implements IOrderService {
     data: UpdateReturnDto,
     updatedBy: string,
   ): Promise<void> {
+    const validTransitions: Record<ReturnStatus, ReturnStatus[]> = {
+      [ReturnStatus.REQUESTED]: [ReturnStatus.APPROVED, ReturnStatus.REJECTED],
+      [ReturnStatus.APPROVED]: [ReturnStatus.PRODUCT_RETURNED, ReturnStatus.REFUND_PROCESSED],
+      [ReturnStatus.PRODUCT_RETURNED]: [ReturnStatus.REFUND_PROCESSED],
+      [ReturnStatus.REJECTED]: [],
+      [ReturnStatus.REFUND_PROCESSED]: [],
+    };
+
+    if (!validTransitions[returnRequest.status]?.includes(data.status)) {
+      throw AppError.badRequest(
+        `Invalid status transition from ${returnRequest.status} to ${data.status}`,
+        'INVALID_STATUS_TRANSITION',
+      );
+    }
+
     const user = await this.userRepository.findById(updatedBy);
     if (!user) {
       throw AppError.notFound('User not found', 'USER_NOT_FOUND');
@@ -776,16 +1036,8 @@ export class OrderService implements IOrderService {
     }
 
     if (user.role === 'ARTISAN') {
-      // Only sellers involved in the return can update
-      const order = await this.orderRepository.findByIdWithDetails(returnRequest.orderId);
-      if (!order) {
-        throw AppError.notFound('Order not found', 'ORDER_NOT_FOUND');
-      }
-
-      const isSeller = order.items.some((item) => item.seller.id === updatedBy);
-      if (!isSeller) {
-        throw AppError.forbidden('You can only update returns for your orders', 'FORBIDDEN');
-      }
+      // Only the seller of the returned items can decide
+      this.validateSellerOfReturn(returnRequest, updatedBy);
 
       // Sellers can approve/reject, admins handle refunds
       const allowedStatuses = [ReturnStatus.APPROVED, ReturnStatus.REJECTED];
@@ -797,6 +1049,205 @@ export class OrderService implements IOrderService {
     }
   }
 
+  private async validateSellerOfOrder(orderId: string, sellerId: string): Promise<void> {
+    const order = await this.orderRepository.findByIdWithDetails(orderId);
+    if (!order) {
+      throw AppError.notFound('Order not found', 'ORDER_NOT_FOUND');
+    }
+
+    const isSeller = order.items.some((item) => item.seller.id === sellerId);
+    if (!isSeller) {
+      throw AppError.forbidden('Only sellers of this order can respond', 'FORBIDDEN');
+    }
+  }
+
+  /**
+   * Returns without a seller predate return items and can only be decided by admins
+   */
+  private validateSellerOfReturn(returnRequest: OrderReturnWithDetails, sellerId: string): void {
+    if (!returnRequest.sellerId || returnRequest.sellerId !== sellerId) {
+      throw AppError.forbidden('You can only handle returns of your own items', 'FORBIDDEN');
+    }
+  }
+
+  /**
+   * Refunds the return at the provider. A return with items refunds only those items (all of
+   * them by default) and never more than they are worth; older returns without items are only
+   * restocked when the amount covers everything left to refund.
+   */
+  private async processReturnRefund(
+    returnRequest: OrderReturnWithDetails,
+    data: UpdateReturnDto,
+    updatedBy: string,
+  ): Promise<UpdateReturnDto> {
+    const refundReason =
+      data.refundReason || returnRequest.refundReason || `Return ${returnRequest.id}`;
+    const requestedAmount = data.refundAmount ?? returnRequest.refundAmount ?? undefined;
+
+    let refundItems = data.refundItems;
+    if (returnRequest.items.length > 0) {
+      refundItems = refundItems?.length ? refundItems : returnRequest.items;
+
+      const summary = await this.orderRepository.getRefundSummary(returnRequest.orderId);
+      let itemsValue = 0;
+      for (const refundItem of refundItems) {
+        const returned = returnRequest.items.find(
+          (item) => item.orderItemId === refundItem.orderItemId,
+        );
+        if (!returned || refundItem.quantity > returned.quantity) {
+          throw AppError.badRequest(
+            'Only returned items can be refunded for a return',
+            'REFUND_ITEMS_NOT_RETURNED',
+          );
+        }
+
+        const item = summary.items.find((i) => i.orderItemId === refundItem.orderItemId);
+        itemsValue += (item?.price ?? 0) * refundItem.quantity;
+      }
+
+      if (requestedAmount !== undefined && requestedAmount > this.roundMoney(itemsValue)) {
+        throw AppError.badRequest(
+          'Refund amount exceeds the value of the returned items',
+          'REFUND_AMOUNT_EXCEEDS_RETURN',
+        );
+      }
+    }
+
+    const { amount } = await this.executeRefund(
+      returnRequest.orderId,
+      {
+        items: refundItems,
+        amount: requestedAmount,
+        reason: refundReason,
+      },
+      { refundedBy: updatedBy, returnId: returnRequest.id },
+    );
+
+    this.logger.info(`Refunded ${amount} for return ${returnRequest.id}`);
+
+    return { ...data, refundAmount: amount, refundReason };
+  }
+
+  /**
+   * Plans a refund against what is left on the order, records it as pending, refunds it at the
+   * provider and then completes it in the ledger. Without explicit items, the items left are
+   * only marked refunded when the refund clears the remaining amount. The repository re-checks
+   * the limits under the order lock.
+   */
+  private async executeRefund(
+    orderId: string,
+    data: CreateRefundDto,
+    options: { refundedBy?: string; returnId?: string; cancellation?: boolean } = {},
+  ): Promise<{ order: OrderWithDetails; amount: number }> {
+    const summary = await this.orderRepository.getRefundSummary(orderId);
+    if (summary.capturedAmount <= 0) {
+      throw AppError.badRequest('Order payment is not completed', 'PAYMENT_NOT_COMPLETED');
+    }
+
+    const remaining = this.roundMoney(summary.capturedAmount - summary.refundedAmount);
+
+    let items: RecordRefundDto['items'] = [];
+    if (data.items?.length) {
+      items = data.items.map((refundItem) => {
+        const item = summary.items.find((i) => i.orderItemId === refundItem.orderItemId);
+        if (!item) {
+          throw AppError.notFound('Order item not found', 'ORDER_ITEM_NOT_FOUND');
+        }
+
+        if (refundItem.quantity > item.quantity - item.refundedQuantity) {
+          throw AppError.badRequest(
+            'Refund quantity exceeds the quantity left to refund',
+            'REFUND_QUANTITY_EXCEEDED',
+          );
+        }
+
+        return { ...refundItem, amount: this.roundMoney(item.price * refundItem.quantity) };
+      });
+    } else if (data.amount === undefined || this.roundMoney(data.amount) >= remaining) {
+      items = summary.items
+        .filter((item) => item.quantity > item.refundedQuantity)
+        .map((item) => {
+          const quantity = item.quantity - item.refundedQuantity;
+          return {
+            orderItemId: item.orderItemId,
+            quantity,
+            amount: this.roundMoney(item.price * quantity),
+          };
+        });
+    }
+
+    const amount = this.roundMoney(
+      data.amount ??
+        (data.items?.length ? items.reduce((sum, item) => sum + item.amount, 0) : remaining),
+    );
+
+    if (amount <= 0) {
+      throw AppError.badRequest('Nothing left to refund', 'NOTHING_TO_REFUND');
+    }
+
+    if (amount > remaining) {
+      throw AppError.badRequest(
+        `Refund amount exceeds the ${remaining} left to refund`,
+        'REFUND_EXCEEDS_CAPTURED',
+      );
+    }
+
+    // Claim the refund under the order lock first, so a concurrent refund cannot also pass the
+    // limits and reach the provider
+    const pending = await this.orderRepository.createPendingRefund(orderId, {
+      amount,
+      items,
+      reason: data.reason,
+      returnId: options.returnId,
+      createdBy: options.refundedBy,
+    });
+
+    let providerRefundId: string;
+    try {
+      const refund = await this.paymentService.refundOrderPayment(
+        orderId,
+        pending.id,
+        amount,
+        data.reason,
+      );
+      providerRefundId = refund.providerRefundId;
+    } catch (providerError) {
+      const reason =
+        providerError instanceof Error ? providerError.message : 'Payment provider error';
+      await this.orderRepository.failRefund(pending.id, reason);
+      throw providerError;
+    }
+
+    const order = await this.orderRepository.completeRefund(pending.id, {
+      providerRefundId,
+      cancellation: options.cancellation,
+    });
+
+    // Refunded items go back on the shelf
+    if (items.length > 0) {
+      await this.syncStock(order);
+    }
+
+    // Send notifications
+    try {
+      await this.notifyPaymentRefunded(order, amount, data.reason);
+    } catch (notifError) {
+      this.logger.error(`Error sending refund notifications: ${notifError}`);
+    }
+
+    return { order, amount };
+  }
+
+  private async syncStock(order: OrderWithDetails): Promise<void> {
+    await this.inventoryService.syncStockLevels(
+      order.items.map((item) => item.productId).filter(Boolean),
+    );
+  }
+
+  private roundMoney(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
   // NOTIFICATION METHODS
   private async notifyOrderCreated(order: OrderWithDetails): Promise<void> {
     // Validate order data before sending notifications
@@ -811,6 +1262,22 @@ export class OrderService implements IOrderService {
     try {
       // Notify customer
       await this.notificationService.notifyOrderCreated(order.customer.id, order.id);
+      await this.sendCustomerEmail(order, 'orderConfirmation', {
+        firstName: order.customer.firstName,
+        orderNumber: order.orderNumber,
+        items: order.items.map((item) => ({
+          name: item.product?.name || item.customTitle || 'Custom item',
+          quantity: item.quantity,
+          price: item.price,
+        })),
+        subtotal: order.subtotal,
+        shippingCost: order.shippingCost,
+        taxAmount: order.taxAmount || 0,
+        discountAmount: order.discountAmount || 0,
+        totalAmount: order.totalAmount,
+        currency: Config.getPaymentConfig().currency,
+        orderUrl: this.emailService.clientUrl(`/orders/${order.id}`),
+      });
 
       // Notify all unique sellers
       const sellerIds = [...new Set(order.items.map((item) => item.seller?.id).filter(Boolean))];
@@ -843,8 +1310,21 @@ export class OrderService implements IOrderService {
   private async notifyOrderStatusChanged(
     order: OrderWithDetails,
     newStatus: OrderStatus,
+    fulfillment?: OrderFulfillment,
   ): Promise<void> {
     await this.notificationService.notifyOrderStatusChanged(order.customer.id, order.id, newStatus);
+
+    if (newStatus === OrderStatus.SHIPPED) {
+      // A seller shipping their part has its own tracking number
+      const shipment = fulfillment ?? order;
+      await this.sendCustomerEmail(order, 'orderShipped', {
+        firstName: order.customer.firstName,
+        orderNumber: order.orderNumber,
+        trackingNumber: shipment.trackingNumber,
+        expectedDelivery: shipment.expectedDelivery,
+        orderUrl: this.emailService.clientUrl(`/orders/${order.id}`),
+      });
+    }
   }
 
   private async notifyOrderCancelled(order: OrderWithDetails, reason?: string): Promise<void> {
@@ -858,28 +1338,68 @@ export class OrderService implements IOrderService {
     }
   }
 
-  private async notifyPaymentProcessed(order: OrderWithDetails): Promise<void> {
-    await this.notificationService.notifyPaymentSuccess(order.customer.id, order.id);
+  private async notifyPaymentRefunded(
+    order: OrderWithDetails,
+    amount: number,
+    reason?: string,
+  ): Promise<void> {
+    await this.notificationService.notifyPaymentRefunded(order.customer.id, order.id);
+    await this.sendCustomerEmail(order, 'refund', {
+      firstName: order.customer.firstName,
+      orderNumber: order.orderNumber,
+      amount,
+      currency: Config.getPaymentConfig().currency,
+      reason,
+      orderUrl: this.emailService.clientUrl(`/orders/${order.id}`),
+    });
   }
 
-  private async notifyPaymentRefunded(order: OrderWithDetails, reason?: string): Promise<void> {
-    await this.notificationService.notifyPaymentRefunded(order.customer.id, order.id);
+  /**
+   * Email failures are logged and never fail the order operation
+   */
+  private async sendCustomerEmail<K extends EmailTemplateName>(
+    order: OrderWithDetails,
+    template: K,
+    data: EmailTemplateData[K],
+  ): Promise<void> {
+    if (!order.customer?.email) return;
+
+    try {
+      await this.emailService.send(order.customer.email, template, data);
+    } catch (emailError) {
+      this.logger.error(`Error sending ${template} email for order ${order.id}: ${emailError}`);
+    }
   }
 
   private async notifyDisputeCreated(dispute: OrderDisputeWithDetails): Promise<void> {
-    this.logger.info(`Dispute created notification: ${dispute.id}`);
+    await this.notificationService.notifyDisputeCreated(dispute.complainantId, dispute.id);
+
+    const order = await this.orderRepository.findByIdWithDetails(dispute.orderId);
+    const sellerIds = [...new Set(order?.items.map((item) => item.seller.id) || [])];
+    for (const sellerId of sellerIds) {
+      await this.notificationService.notifyDisputeUpdated(sellerId, dispute.id);
+    }
   }
 
   private async notifyDisputeUpdated(dispute: OrderDisputeWithDetails): Promise<void> {
-    this.logger.info(`Dispute updated notification: ${dispute.id}`);
+    await this.notificationService.notifyDisputeUpdated(dispute.complainantId, dispute.id);
   }
 
   private async notifyReturnCreated(returnRequest: OrderReturnWithDetails): Promise<void> {
-    this.logger.info(`Return created notification: ${returnRequest.id}`);
+    if (returnRequest.sellerId) {
+      await this.notificationService.notifyReturnCreated(returnRequest.sellerId, returnRequest.id);
+      return;
+    }
+
+    const order = await this.orderRepository.findByIdWithDetails(returnRequest.orderId);
+    const sellerIds = [...new Set(order?.items.map((item) => item.seller.id) || [])];
+    for (const sellerId of sellerIds) {
+      await this.notificationService.notifyReturnCreated(sellerId, returnRequest.id);
+    }
   }
 
   private async notifyReturnUpdated(returnRequest: OrderReturnWithDetails): Promise<void> {
-    this.logger.info(`Return updated notification: ${returnRequest.id}`);
+    await this.notificationService.notifyReturnUpdated(returnRequest.requesterId, returnRequest.id);
   }
 
   async getAllOrdersForAdmin(
@@ -954,6 +1474,10 @@ export class OrderService implements IOrderService {
       // Admins can update to any status
       const order = await this.orderRepository.updateOrderStatus(id, data, adminId);
 
+      if (data.status === OrderStatus.CANCELLED) {
+        await this.syncStock(order);
+      }
+
       // Send notifications
       try {
         await this.notifyOrderStatusChanged(order, data.status);
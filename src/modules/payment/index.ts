@@ -0,0 +1,30 @@
+/**
+ * Payment Module Exports
+ */
+
+// Export models
+export * from './models/Payment';
+
+// Export service interfaces
+export * from './services/PaymentService.interface';
+
+// Export repository interfaces
+export * from './repositories/PaymentRepository.interface';
+
+// Export module registration function
+export function registerPaymentModule() {
+  console.log('Payment module registered');
+
+  return {
+    name: 'payment',
+    description: 'Payment processing through pluggable providers',
+    version: '1.0.0',
+    features: [
+      'Pluggable payment providers (mock, hosted gateway)',
+      'Provider intents with manual capture',
+      'Signed webhook reconciliation',
+      'Idempotent transaction status transitions',
+      'Provider-side refunds',
+    ],
+  };
+}
@@ -0,0 +1,29 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../shared/utils/ApiResponse';
+import { IPaymentService } from '../../services/PaymentService.interface';
+import { PAYMENT_SIGNATURE_HEADER } from '../../models/Payment';
+import { AppError } from '../../../../core/errors/AppError';
+import container from '../../../../core/di/container';
+
+export class HandlePaymentWebhookController extends BaseController {
+  private paymentService: IPaymentService;
+
+  constructor() {
+    super();
+    this.paymentService = container.resolve<IPaymentService>('paymentService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    // Signature is computed over the exact bytes the provider sent
+    const rawBody: Buffer | undefined = (req as any).rawBody;
+    if (!rawBody) {
+      throw AppError.badRequest('Webhook body is required', 'INVALID_WEBHOOK_PAYLOAD');
+    }
+
+    const signature = req.get(PAYMENT_SIGNATURE_HEADER);
+    await this.paymentService.handleWebhook(rawBody, signature);
+
+    ApiResponse.success(res, { received: true }, 'Webhook processed');
+  }
+}
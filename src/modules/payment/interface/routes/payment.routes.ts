@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { Config } from '../../../../config/config';
+
+// Controllers
+import { HandlePaymentWebhookController } from '../controllers/HandlePaymentWebhookController';
+
+const router = Router();
+
+// Initialize controllers
+const handlePaymentWebhookController = new HandlePaymentWebhookController();
+
+// === PROVIDER WEBHOOKS ===
+// Authenticated by the provider signature header, not by user tokens. The mock provider
+// delivers its events in-process, so the public endpoint only exists for a real gateway.
+if (Config.getPaymentConfig().provider !== 'mock') {
+  router.post('/webhook', handlePaymentWebhookController.execute);
+}
+
+export default router;
@@ -0,0 +1,23 @@
+import { PaymentMethodType } from '../../order/models/OrderEnums';
+
+export { PaymentTransaction } from '../../order/models/Order';
+
+export interface CreatePaymentTransactionDto {
+  orderId: string;
+  userId: string;
+  paymentMethodId?: string;
+  amount: number;
+  currency: string;
+  paymentMethodType: PaymentMethodType;
+  reference: string;
+  metadata?: Record<string, any>;
+}
+
+export interface PaymentRefund {
+  transactionId: string;
+  providerRefundId: string;
+  amount: number;
+  status: 'SUCCEEDED' | 'PENDING' | 'FAILED';
+}
+
+export const PAYMENT_SIGNATURE_HEADER = 'x-payment-signature';
@@ -0,0 +1,51 @@
+import { BaseRepository } from '../../../shared/interfaces/BaseRepository';
+import { PaymentTransaction, CreatePaymentTransactionDto } from '../models/Payment';
+
+export interface IPaymentRepository extends BaseRepository<PaymentTransaction, string> {
+  /**
+   * Create a PENDING transaction and flag the order payment as pending
+   */
+  createTransaction(data: CreatePaymentTransactionDto): Promise<PaymentTransaction>;
+
+  /**
+   * Lookups used by webhook reconciliation
+   */
+  findByReference(reference: string): Promise<PaymentTransaction | null>;
+  findByExternalReference(externalReference: string): Promise<PaymentTransaction | null>;
+
+  /**
+   * Transaction still in flight (PENDING or PROCESSING) for an order
+   */
+  findActiveByOrderId(orderId: string): Promise<PaymentTransaction | null>;
+
+  /**
+   * Transactions still in flight that were created before the given time
+   */
+  findStaleInFlight(createdBefore: Date): Promise<PaymentTransaction[]>;
+
+  /**
+   * Latest captured (COMPLETED, positive amount) transaction for an order
+   */
+  findCapturedByOrderId(orderId: string): Promise<PaymentTransaction | null>;
+
+  /**
+   * Status transitions. Each one also updates the order payment status.
+   */
+  markProcessing(
+    id: string,
+    externalReference: string,
+    metadata?: Record<string, any>,
+  ): Promise<PaymentTransaction>;
+
+  /**
+   * Settle an in-flight transaction and commit (completed) or release (failed) the order's
+   * held stock with it. Null when the transaction was no longer in flight; nothing changes then.
+   * Completing throws ORDER_CANCELLED when the order was cancelled while the payment was in flight.
+   */
+  markCompleted(id: string, metadata?: Record<string, any>): Promise<PaymentTransaction | null>;
+  markFailed(
+    id: string,
+    reason: string,
+    metadata?: Record<string, any>,
+  ): Promise<PaymentTransaction | null>;
+}
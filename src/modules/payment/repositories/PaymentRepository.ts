@@ -0,0 +1,316 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { BasePrismaRepository } from '../../../shared/baseClasses/BasePrismaRepository';
+import { IPaymentRepository } from './PaymentRepository.interface';
+import { PaymentTransaction, CreatePaymentTransactionDto } from '../models/Payment';
+import { OrderStatus, PaymentStatus } from '../../order/models/OrderEnums';
+import { commitHolds, releaseHolds } from '../../inventory/repositories/stockHolds';
+import { ReservationStatus } from '../../inventory/models/StockReservation';
+import { AppError } from '../../../core/errors/AppError';
+import { Logger } from '../../../core/logging/Logger';
+
+export class PaymentRepository
+  extends BasePrismaRepository<PaymentTransaction, string>
+  implements IPaymentRepository
+{
+  private logger = Logger.getInstance();
+
+  constructor(prisma: PrismaClient) {
+    super(prisma, 'paymentTransaction');
+  }
+
+  async createTransaction(data: CreatePaymentTransactionDto): Promise<PaymentTransaction> {
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        const transaction = await tx.paymentTransaction.create({
+          data: {
+            orderId: data.orderId,
+            userId: data.userId,
+            paymentMethodId: data.paymentMethodId,
+            amount: data.amount,
+            currency: data.currency,
+            status: PaymentStatus.PENDING,
+            paymentMethodType: data.paymentMethodType,
+            reference: data.reference,
+            metadata: data.metadata,
+          },
+        });
+
+        await tx.order.update({
+          where: { id: data.orderId },
+          data: {
+            paymentStatus: PaymentStatus.PENDING,
+            paymentMethod: data.paymentMethodType,
+            paymentReference: data.reference,
+          },
+        });
+
+        return this.transform(transaction);
+      });
+    } catch (error) {
+      this.logger.error(`Error creating payment transaction: ${error}`);
+      throw AppError.internal('Failed to create payment transaction', 'PAYMENT_CREATE_FAILED');
+    }
+  }
+
+  async findByReference(reference: string): Promise<PaymentTransaction | null> {
+    try {
+      const transaction = await this.prisma.paymentTransaction.findUnique({
+        where: { reference },
+      });
+      return transaction ? this.transform(transaction) : null;
+    } catch (error) {
+      this.logger.error(`Error finding payment by reference: ${error}`);
+      return null;
+    }
+  }
+
+  async findByExternalReference(externalReference: string): Promise<PaymentTransaction | null> {
+    try {
+      const transaction = await this.prisma.paymentTransaction.findFirst({
+        where: { externalReference },
+        orderBy: { createdAt: 'desc' },
+      });
+      return transaction ? this.transform(transaction) : null;
+    } catch (error) {
+      this.logger.error(`Error finding payment by external reference: ${error}`);
+      return null;
+    }
+  }
+
+  async findActiveByOrderId(orderId: string): Promise<PaymentTransaction | null> {
+    try {
+      const transaction = await this.prisma.paymentTransaction.findFirst({
+        where: {
+          orderId,
+          status: { in: [PaymentStatus.PENDING, PaymentStatus.PROCESSING] },
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+      return transaction ? this.transform(transaction) : null;
+    } catch (error) {
+      this.logger.error(`Error finding active payment for order: ${error}`);
+      return null;
+    }
+  }
+
+  async findStaleInFlight(createdBefore: Date): Promise<PaymentTransaction[]> {
+    try {
+      const transactions = await this.prisma.paymentTransaction.findMany({
+        where: {
+          status: { in: [PaymentStatus.PENDING, PaymentStatus.PROCESSING] },
+          createdAt: { lt: createdBefore },
+        },
+        orderBy: { createdAt: 'asc' },
+      });
+      return transactions.map((transaction) => this.transform(transaction));
+    } catch (error) {
+      this.logger.error(`Error finding stale payments: ${error}`);
+      throw AppError.internal('Failed to find stale payments', 'DATABASE_ERROR');
+    }
+  }
+
+  async findCapturedByOrderId(orderId: string): Promise<PaymentTransaction | null> {
+    try {
+      const transaction = await this.prisma.paymentTransaction.findFirst({
+        where: {
+          orderId,
+          status: PaymentStatus.COMPLETED,
+          amount: { gt: 0 },
+        },
+        orderBy: { createdAt: 'desc' },
+      });
+      return transaction ? this.transform(transaction) : null;
+    } catch (error) {
+      this.logger.error(`Error finding captured payment for order: ${error}`);
+      return null;
+    }
+  }
+
+  async markProcessing(
+    id: string,
+    externalReference: string,
+    metadata?: Record<string, any>,
+  ): Promise<PaymentTransaction> {
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        const current = await this.getForUpdate(tx, id);
+
+        const transaction = await tx.paymentTransaction.update({
+          where: { id },
+          data: {
+            status: PaymentStatus.PROCESSING,
+            externalReference,
+            metadata: this.mergeMetadata(current.metadata, metadata),
+          },
+        });
+
+        await tx.order.update({
+          where: { id: current.orderId },
+          data: { paymentStatus: PaymentStatus.PROCESSING },
+        });
+
+        return this.transform(transaction);
+      });
+    } catch (error) {
+      this.logger.error(`Error marking payment as processing: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to update payment transaction', 'PAYMENT_UPDATE_FAILED');
+    }
+  }
+
+  async markCompleted(
+    id: string,
+    metadata?: Record<string, any>,
+  ): Promise<PaymentTransaction | null> {
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        const current = await this.getForUpdate(tx, id);
+
+        // Serializes with cancellation, which updates the same row; a cancelled order is never
+        // settled, the caller gives the money back instead
+        const [locked] = await tx.$queryRaw<{ status: string }[]>`
+          SELECT status FROM "Order" WHERE id = ${current.orderId} FOR UPDATE`;
+        if (locked?.status === OrderStatus.CANCELLED) {
+          throw AppError.conflict('Order was cancelled', 'ORDER_CANCELLED');
+        }
+
+        const settled = await this.settleInFlight(tx, id, {
+          status: PaymentStatus.COMPLETED,
+          failureReason: null,
+          processedAt: new Date(),
+          metadata: this.mergeMetadata(current.metadata, metadata),
+        });
+        if (!settled) return null;
+
+        // Take the held stock together with the settlement so it is only taken once
+        await commitHolds(tx, { orderId: current.orderId });
+
+        const order = await tx.order.findUnique({
+          where: { id: current.orderId },
+          select: { status: true, statusHistory: true },
+        });
+
+        if (order) {
+          // Only move the order forward if it is still waiting for payment
+          const awaitingPayment =
+            order.status === OrderStatus.PENDING || order.status === OrderStatus.CONFIRMED;
+
+          const currentHistory = Array.isArray(order.statusHistory) ? order.statusHistory : [];
+          const newHistoryEntry = {
+            status: awaitingPayment ? OrderStatus.PAID : order.status,
+            note: `Payment completed successfully (${current.reference})`,
+            timestamp: new Date().toISOString(),
+            updatedBy: null,
+          };
+
+          await tx.order.update({
+            where: { id: current.orderId },
+            data: {
+              paymentStatus: PaymentStatus.COMPLETED,
+              paymentReference: current.reference,
+              status: awaitingPayment ? OrderStatus.PAID : undefined,
+              statusHistory: [...currentHistory, newHistoryEntry],
+              updatedAt: new Date(),
+            },
+          });
+
+          if (awaitingPayment) {
+            await tx.orderFulfillment.updateMany({
+              where: {
+                orderId: current.orderId,
+                status: { in: [OrderStatus.PENDING, OrderStatus.CONFIRMED] },
+              },
+              data: { status: OrderStatus.PAID, updatedAt: new Date() },
+            });
+          }
+        }
+
+        return this.transform(await tx.paymentTransaction.findUnique({ where: { id } }));
+      });
+    } catch (error) {
+      this.logger.error(`Error marking payment as completed: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to complete payment transaction', 'PAYMENT_UPDATE_FAILED');
+    }
+  }
+
+  async markFailed(
+    id: string,
+    reason: string,
+    metadata?: Record<string, any>,
+  ): Promise<PaymentTransaction | null> {
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        const current = await this.getForUpdate(tx, id);
+
+        const settled = await this.settleInFlight(tx, id, {
+          status: PaymentStatus.FAILED,
+          failureReason: reason,
+          processedAt: new Date(),
+          metadata: this.mergeMetadata(current.metadata, metadata),
+        });
+        if (!settled) return null;
+
+        // Order stays in its current status so the customer can retry the payment; the retry
+        // takes the stock again if it is still there
+        await tx.order.update({
+          where: { id: current.orderId },
+          data: { paymentStatus: PaymentStatus.FAILED },
+        });
+
+        await releaseHolds(
+          tx,
+          { orderId: current.orderId },
+          ReservationStatus.RELEASED,
+          'PAYMENT_FAILED',
+        );
+
+        return this.transform(await tx.paymentTransaction.findUnique({ where: { id } }));
+      });
+    } catch (error) {
+      this.logger.error(`Error marking payment as failed: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to update payment transaction', 'PAYMENT_UPDATE_FAILED');
+    }
+  }
+
+  private async getForUpdate(tx: Prisma.TransactionClient, id: string) {
+    const transaction = await tx.paymentTransaction.findUnique({ where: { id } });
+
+    if (!transaction) {
+      throw AppError.notFound('Payment transaction not found', 'PAYMENT_NOT_FOUND');
+    }
+
+    return transaction;
+  }
+
+  /**
+   * Moves a transaction out of PENDING/PROCESSING. The status check is part of the update, so
+   * when concurrent or redelivered events race only the first one settles it.
+   */
+  private async settleInFlight(
+    tx: Prisma.TransactionClient,
+    id: string,
+    data: Prisma.PaymentTransactionUpdateManyMutationInput,
+  ): Promise<boolean> {
+    const { count } = await tx.paymentTransaction.updateMany({
+      where: { id, status: { in: [PaymentStatus.PENDING, PaymentStatus.PROCESSING] } },
+      data,
+    });
+
+    return count > 0;
+  }
+
+  private mergeMetadata(current: Prisma.JsonValue | null, next?: Record<string, any>): any {
+    if (!next) return current ?? undefined;
+    const base = current && typeof current === 'object' && !Array.isArray(current) ? current : {};
+    return { ...base, ...next };
+  }
+
+  private transform(transaction: any): PaymentTransaction {
+    return {
+      ...transaction,
+      amount: Number(transaction.amount),
+    } as PaymentTransaction;
+  }
+}
@@ -0,0 +1,32 @@
+import { PaymentTransaction, PaymentRefund } from '../models/Payment';
+import { ProcessPaymentDto } from '../../order/models/Order';
+
+export interface IPaymentService {
+  /**
+   * Start paying an order: creates a PENDING transaction and a provider intent.
+   * The transaction is settled later through provider events.
+   */
+  initiatePayment(orderId: string, data: ProcessPaymentDto): Promise<PaymentTransaction>;
+
+  /**
+   * Verify and apply a provider webhook (raw request body + signature header)
+   */
+  handleWebhook(payload: Buffer, signature?: string): Promise<void>;
+
+  /**
+   * Fail payments the provider never answered within the in-flight TTL, releasing their held
+   * stock. Returns the number of payments expired.
+   */
+  expireStalePayments(): Promise<number>;
+
+  /**
+   * Refund (part of) the captured payment of an order at the provider. `refundId` is the ledger
+   * refund it settles and keys the provider call, so only a retry of that refund is replayed.
+   */
+  refundOrderPayment(
+    orderId: string,
+    refundId: string,
+    amount: number,
+    reason?: string,
+  ): Promise<PaymentRefund>;
+}
@@ -0,0 +1,434 @@
+import { IPaymentService } from './PaymentService.interface';
+import { PaymentTransaction, PaymentRefund } from '../models/Payment';
+import { IPaymentRepository } from '../repositories/PaymentRepository.interface';
+import { ProcessPaymentDto } from '../../order/models/Order';
+import { OrderStatus, PaymentMethodType, PaymentStatus } from '../../order/models/OrderEnums';
+import { IOrderRepository } from '../../order/repositories/OrderRepository.interface';
+import { IPaymentMethodRepository } from '../../user/repositories/PaymentMethodRepository.interface';
+import { isExpired } from '../../user/models/PaymentMethod';
+import { INotificationService } from '../../notification';
+import { IInventoryService } from '../../inventory/services/InventoryService.interface';
+import {
+  IPaymentProvider,
+  PaymentWebhookEvent,
+} from '../../../core/infrastructure/payment/PaymentProvider.interface';
+import { Config } from '../../../config/config';
+import { AppError } from '../../../core/errors/AppError';
+import { Logger } from '../../../core/logging/Logger';
+import container from '../../../core/di/container';
+
+export class PaymentService implements IPaymentService {
+  private paymentRepository: IPaymentRepository;
+  private orderRepository: IOrderRepository;
+  private paymentMethodRepository: IPaymentMethodRepository;
+  private notificationService: INotificationService;
+  private inventoryService: IInventoryService;
+  private paymentProvider: IPaymentProvider;
+  private logger = Logger.getInstance();
+
+  constructor() {
+    this.paymentRepository = container.resolve<IPaymentRepository>('paymentRepository');
+    this.orderRepository = container.resolve<IOrderRepository>('orderRepository');
+    this.paymentMethodRepository =
+      container.resolve<IPaymentMethodRepository>('paymentMethodRepository');
+    this.notificationService = container.resolve<INotificationService>('notificationService');
+    this.inventoryService = container.resolve<IInventoryService>('inventoryService');
+    this.paymentProvider = container.resolve<IPaymentProvider>('paymentProvider');
+
+    // In-process providers (mock) push their events straight into the webhook handler
+    this.paymentProvider.subscribe?.((payload, signature) =>
+      this.handleWebhook(payload, signature),
+    );
+  }
+
+  async initiatePayment(orderId: string, data: ProcessPaymentDto): Promise<PaymentTransaction> {
+    try {
+      const order = await this.orderRepository.findByIdWithDetails(orderId);
+      if (!order) {
+        throw AppError.notFound('Order not found', 'ORDER_NOT_FOUND');
+      }
+
+      if (order.paymentStatus === PaymentStatus.COMPLETED) {
+        throw AppError.badRequest('Order is already paid', 'ORDER_ALREADY_PAID');
+      }
+
+      if (order.status === OrderStatus.CANCELLED || order.status === OrderStatus.REFUNDED) {
+        throw AppError.badRequest(`Cannot pay for a ${order.status} order`, 'ORDER_NOT_PAYABLE');
+      }
+
+      const activeTransaction = await this.paymentRepository.findActiveByOrderId(orderId);
+      if (activeTransaction) {
+        throw AppError.conflict(
+          'A payment for this order is already in progress',
+          'PAYMENT_IN_PROGRESS',
+        );
+      }
+
+      const paymentMethodType = await this.resolvePaymentMethodType(order, data);
+      const { currency } = Config.getPaymentConfig();
+
+      // Hold the stock for this attempt; fails if the order's holds lapsed and the items sold out
+      await this.inventoryService.reserveOrder(orderId);
+
+      const transaction = await this.paymentRepository.createTransaction({
+        orderId,
+        userId: order.userId,
+        paymentMethodId: data.paymentMethodId,
+        amount: order.totalAmount,
+        currency,
+        paymentMethodType,
+        reference: this.generateReference(),
+        metadata: {
+          provider: this.paymentProvider.name,
+          clientReference: data.paymentReference,
+        },
+      });
+
+      try {
+        const intent = await this.paymentProvider.createIntent({
+          reference: transaction.reference,
+          amount: transaction.amount,
+          currency: transaction.currency,
+          paymentMethodType,
+          customerId: order.userId,
+          description: `Order ${order.orderNumber}`,
+          metadata: { orderId, orderNumber: order.orderNumber },
+        });
+
+        if (intent.status === 'FAILED') {
+          return await this.failTransaction(transaction, 'Payment was declined by the provider');
+        }
+
+        const processing = await this.paymentRepository.markProcessing(transaction.id, intent.id, {
+          clientSecret: intent.clientSecret,
+          redirectUrl: intent.redirectUrl,
+        });
+
+        this.logger.info(
+          `Payment ${transaction.reference} for order ${orderId} is processing (${intent.id})`,
+        );
+
+        return processing;
+      } catch (providerError) {
+        const reason =
+          providerError instanceof Error ? providerError.message : 'Payment provider error';
+        await this.failTransaction(transaction, reason);
+        throw providerError;
+      }
+    } catch (error) {
+      this.logger.error(`Error initiating payment: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to initiate payment', 'PAYMENT_INITIATION_FAILED');
+    }
+  }
+
+  async handleWebhook(payload: Buffer, signature?: string): Promise<void> {
+    if (!payload || !this.paymentProvider.verifyWebhookSignature(payload, signature)) {
+      throw AppError.unauthorized('Invalid webhook signature', 'INVALID_WEBHOOK_SIGNATURE');
+    }
+
+    let event: PaymentWebhookEvent;
+    try {
+      event = this.paymentProvider.parseWebhookEvent(payload);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw AppError.badRequest('Malformed webhook payload', 'INVALID_WEBHOOK_PAYLOAD');
+    }
+
+    const transaction =
+      (event.reference && (await this.paymentRepository.findByReference(event.reference))) ||
+      (await this.paymentRepository.findByExternalReference(event.intentId));
+
+    if (!transaction) {
+      // Acknowledge anyway so the provider stops retrying an event we can never match
+      this.logger.warn(`Payment event ${event.id} (${event.type}) matches no transaction`);
+      return;
+    }
+
+    this.logger.info(
+      `Payment event ${event.type} for transaction ${transaction.reference} (${transaction.status})`,
+    );
+
+    switch (event.type) {
+      case 'AUTHORIZED':
+        await this.captureTransaction(transaction, event);
+        break;
+      case 'SUCCEEDED':
+        await this.completeTransaction(transaction, event);
+        break;
+      case 'FAILED':
+        await this.failTransaction(transaction, event.failureReason || 'Payment failed', event);
+        break;
+      case 'REFUNDED':
+        // Refunds are recorded when we request them; the event only confirms settlement
+        break;
+    }
+  }
+
+  async expireStalePayments(): Promise<number> {
+    try {
+      const { inFlightTtlMinutes } = Config.getPaymentConfig();
+      const stale = await this.paymentRepository.findStaleInFlight(
+        new Date(Date.now() - inFlightTtlMinutes * 60 * 1000),
+      );
+
+      let expired = 0;
+      for (const transaction of stale) {
+        const result = await this.failTransaction(transaction, 'Payment timed out');
+        if (result.status === PaymentStatus.FAILED) expired++;
+      }
+
+      if (expired > 0) {
+        this.logger.info(`Expired ${expired} payments with no provider answer`);
+      }
+
+      return expired;
+    } catch (error) {
+      this.logger.error(`Error expiring stale payments: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to expire stale payments', 'SERVICE_ERROR');
+    }
+  }
+
+  async refundOrderPayment(
+    orderId: string,
+    refundId: string,
+    amount: number,
+    reason?: string,
+  ): Promise<PaymentRefund> {
+    try {
+      const captured = await this.paymentRepository.findCapturedByOrderId(orderId);
+      if (!captured) {
+        throw AppError.badRequest('Order payment is not completed', 'PAYMENT_NOT_COMPLETED');
+      }
+
+      // Transactions settled before the provider integration have nothing to refund remotely
+      if (!captured.externalReference) {
+        return {
+          transactionId: captured.id,
+          providerRefundId: `local_${captured.reference}`,
+          amount,
+          status: 'SUCCEEDED',
+        };
+      }
+
+      const refund = await this.paymentProvider.refund(
+        captured.externalReference,
+        amount,
+        refundId,
+        reason,
+      );
+
+      if (refund.status === 'FAILED') {
+        throw AppError.badRequest('Refund was declined by the payment provider', 'REFUND_FAILED');
+      }
+
+      this.logger.info(`Refund ${refund.id} of ${amount} requested for order ${orderId}`);
+
+      return {
+        transactionId: captured.id,
+        providerRefundId: refund.id,
+        amount,
+        status: refund.status,
+      };
+    } catch (error) {
+      this.logger.error(`Error refunding order payment: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to refund payment', 'REFUND_FAILED');
+    }
+  }
+
+  // PRIVATE HELPER METHODS
+  private async captureTransaction(
+    transaction: PaymentTransaction,
+    event: PaymentWebhookEvent,
+  ): Promise<void> {
+    if (transaction.status !== PaymentStatus.PROCESSING) return;
+
+    // An authorization that doesn't match what we asked for is left to lapse, never captured
+    const mismatch = this.findAmountMismatch(transaction, event);
+    if (mismatch) {
+      await this.failTransaction(transaction, mismatch, event);
+      return;
+    }
+
+    // Never capture funds for an order that was cancelled while the payment was in flight
+    const order = await this.orderRepository.findById(transaction.orderId);
+    if (!order || order.status === OrderStatus.CANCELLED) {
+      await this.failTransaction(transaction, 'Order was cancelled before capture', event);
+      return;
+    }
+
+    const capture = await this.paymentProvider.capture(event.intentId);
+
+    if (capture.status === 'SUCCEEDED') {
+      await this.completeTransaction(transaction, event);
+    } else if (capture.status === 'FAILED') {
+      await this.failTransaction(transaction, 'Payment capture failed', event);
+    }
+    // Otherwise the provider settles asynchronously and sends SUCCEEDED later
+  }
+
+  private async completeTransaction(
+    transaction: PaymentTransaction,
+    event: PaymentWebhookEvent,
+  ): Promise<void> {
+    // Success arriving after the payment was expired or failed: the money goes back
+    if (transaction.status === PaymentStatus.FAILED) {
+      await this.reverseTransaction(transaction, event, 'Payment settled after it had failed');
+      return;
+    }
+    if (!this.isInFlight(transaction)) return;
+
+    // The money was taken but can't settle this order: give it back rather than keep it
+    const mismatch = this.findAmountMismatch(transaction, event);
+    if (mismatch) {
+      await this.reverseTransaction(transaction, event, mismatch);
+      return;
+    }
+
+    // Commits the held stock in the same database transaction; a failure leaves the event to be
+    // retried, and a concurrent or redelivered event that lost the race gets null
+    let completed: PaymentTransaction | null;
+    try {
+      completed = await this.paymentRepository.markCompleted(transaction.id, {
+        lastEventId: event.id,
+      });
+    } catch (error) {
+      if (!(error instanceof AppError) || error.errorCode !== 'ORDER_CANCELLED') throw error;
+      await this.reverseTransaction(transaction, event, 'Order was cancelled before payment');
+      return;
+    }
+    if (!completed) return;
+
+    await this.syncOrderStock(transaction.orderId);
+
+    try {
+      await this.notificationService.notifyPaymentSuccess(transaction.userId, transaction.orderId);
+    } catch (notifError) {
+      this.logger.error(`Error sending payment success notification: ${notifError}`);
+    }
+  }
+
+  private async failTransaction(
+    transaction: PaymentTransaction,
+    reason: string,
+    event?: PaymentWebhookEvent,
+  ): Promise<PaymentTransaction> {
+    if (!this.isInFlight(transaction)) return transaction;
+
+    // Releases the held stock in the same database transaction, only if still in flight
+    const failed = await this.paymentRepository.markFailed(
+      transaction.id,
+      reason,
+      event ? { lastEventId: event.id } : undefined,
+    );
+    if (!failed) {
+      return (await this.paymentRepository.findById(transaction.id)) || transaction;
+    }
+
+    try {
+      await this.notificationService.notifyPaymentFailed(
+        transaction.userId,
+        transaction.orderId,
+        reason,
+      );
+    } catch (notifError) {
+      this.logger.error(`Error sending payment failed notification: ${notifError}`);
+    }
+
+    return failed;
+  }
+
+  /**
+   * Refunds a payment that was taken but must not settle, then fails the transaction. The refund
+   * is keyed by the transaction, so a redelivered event doesn't refund twice.
+   */
+  private async reverseTransaction(
+    transaction: PaymentTransaction,
+    event: PaymentWebhookEvent,
+    reason: string,
+  ): Promise<void> {
+    const amount = event.amount ?? transaction.amount;
+    const refund = await this.paymentProvider.refund(
+      event.intentId,
+      amount,
+      `reversal_${transaction.id}`,
+      reason,
+    );
+
+    if (refund.status === 'FAILED') {
+      throw AppError.internal('Payment reversal was declined', 'PAYMENT_REVERSAL_FAILED');
+    }
+
+    this.logger.warn(
+      `Payment ${transaction.reference} reversed (${refund.id}, ${amount}): ${reason}`,
+    );
+
+    await this.failTransaction(transaction, reason, event);
+  }
+
+  private findAmountMismatch(
+    transaction: PaymentTransaction,
+    event: PaymentWebhookEvent,
+  ): string | null {
+    if (event.currency && event.currency.toUpperCase() !== transaction.currency.toUpperCase()) {
+      return `Payment currency ${event.currency} does not match ${transaction.currency}`;
+    }
+
+    if (event.amount !== undefined && Math.abs(event.amount - transaction.amount) >= 0.005) {
+      return `Payment amount ${event.amount} does not match ${transaction.amount}`;
+    }
+
+    return null;
+  }
+
+  private async resolvePaymentMethodType(
+    order: { userId: string; paymentMethod?: PaymentMethodType | null },
+    data: ProcessPaymentDto,
+  ): Promise<PaymentMethodType> {
+    if (!data.paymentMethodId) {
+      return data.paymentMethodType || order.paymentMethod || PaymentMethodType.CREDIT_CARD;
+    }
+
+    // A saved method must belong to the paying customer and still be usable
+    const paymentMethod = await this.paymentMethodRepository.findById(data.paymentMethodId);
+    if (!paymentMethod || paymentMethod.userId !== order.userId || !paymentMethod.isActive) {
+      throw AppError.badRequest('Invalid payment method', 'INVALID_PAYMENT_METHOD');
+    }
+
+    if (
+      paymentMethod.expiryMonth &&
+      paymentMethod.expiryYear &&
+      isExpired(paymentMethod.expiryMonth, paymentMethod.expiryYear)
+    ) {
+      throw AppError.badRequest('Payment method has expired', 'PAYMENT_METHOD_EXPIRED');
+    }
+
+    return paymentMethod.type;
+  }
+
+  private async syncOrderStock(orderId: string): Promise<void> {
+    try {
+      const order = await this.orderRepository.findByIdWithDetails(orderId);
+      if (!order) return;
+
+      await this.inventoryService.syncStockLevels(
+        order.items.map((item) => item.productId).filter(Boolean),
+      );
+    } catch (error) {
+      this.logger.error(`Error syncing stock levels for order ${orderId}: ${error}`);
+    }
+  }
+
+  private isInFlight(transaction: PaymentTransaction): boolean {
+    return (
+      transaction.status === PaymentStatus.PENDING ||
+      transaction.status === PaymentStatus.PROCESSING
+    );
+  }
+
+  private generateReference(): string {
+    return `PAY_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
@@ -18,15 +18,22 @@ export class GetFollowedPostsController extends BaseController {
 
       const options = {
         type: req.query.type as any,
-        page: parseInt(req.query.page as string) || 1,
         limit: parseInt(req.query.limit as string) || 10,
-        sortBy: (req.query.sortBy as any) || 'publishedAt',
-        sortOrder: (req.query.sortOrder as any) || 'desc',
       };
 
-      const posts = await this.postService.getFollowedPosts(req.user!.id, options);
+      const posts = this.isCursorPagination(req)
+        ? await this.postService.getFollowedPostsByCursor(req.user!.id, {
+            ...options,
+            cursor: req.query.cursor as string | undefined,
+          })
+        : await this.postService.getFollowedPosts(req.user!.id, {
+            ...options,
+            page: parseInt(req.query.page as string) || 1,
+            sortBy: (req.query.sortBy as any) || 'publishedAt',
+            sortOrder: (req.query.sortOrder as any) || 'desc',
+          });
 
-      ApiResponse.success(res, posts, 'Followed posts retrieved successfully');
+      ApiResponse.paginated(res, posts, 'Followed posts retrieved successfully');
     } catch (error) {
       next(error);
     }
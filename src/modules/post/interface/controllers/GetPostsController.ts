@@ -16,7 +16,6 @@ export class GetPostsController extends BaseController {
   protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
       const options: PostQueryOptions = {
-        page: parseInt(req.query.page as string) || 1,
         limit: parseInt(req.query.limit as string) || 10,
         userId: req.query.userId as string,
         type: req.query.type as any,
@@ -27,14 +26,26 @@ export class GetPostsController extends BaseController {
             : [req.query.tags as string]
           : undefined,
         search: req.query.search as string,
-        followedOnly: req.query.followedOnly === 'true',
-        sortBy: (req.query.sortBy as any) || 'publishedAt',
-        sortOrder: (req.query.sortOrder as any) || 'desc',
+        followedOnly: String(req.query.followedOnly) === 'true',
       };
 
-      const posts = await this.postService.getPosts(options, req.user?.id);
+      // Cursor pages are newest first and don't shift when new posts are published
+      const posts = this.isCursorPagination(req)
+        ? await this.postService.getPostsByCursor(
+            { ...options, cursor: req.query.cursor as string | undefined },
+            req.user?.id,
+          )
+        : await this.postService.getPosts(
+            {
+              ...options,
+              page: parseInt(req.query.page as string) || 1,
+              sortBy: (req.query.sortBy as any) || 'publishedAt',
+              sortOrder: (req.query.sortOrder as any) || 'desc',
+            },
+            req.user?.id,
+          );
 
-      ApiResponse.success(res, posts, 'Posts retrieved successfully');
+      ApiResponse.paginated(res, posts, 'Posts retrieved successfully');
     } catch (error) {
       next(error);
     }
@@ -50,6 +50,8 @@ export const updatePostSchema = Joi.object({
 export const getPostsQuerySchema = Joi.object({
   page: Joi.number().integer().min(1).default(1),
   limit: Joi.number().integer().min(1).max(100).default(10),
+  pagination: Joi.string().valid('offset', 'cursor').default('offset'),
+  cursor: Joi.string().max(200),
   userId: Joi.string().uuid(),
   type: Joi.alternatives().try(
     Joi.string().valid(...Object.values(PostType)),
@@ -1,3 +1,5 @@
+import { CursorPaginationOptions } from '../../../shared/interfaces/PaginatedResult';
+
 export enum PostType {
   STORY = 'STORY',
   TUTORIAL = 'TUTORIAL',
@@ -154,6 +156,10 @@ export interface PostQueryOptions {
   sortOrder?: 'asc' | 'desc';
 }
 
+// Cursor pages are always newest first by createdAt
+export type PostCursorOptions = Omit<PostQueryOptions, 'page' | 'sortBy' | 'sortOrder'> &
+  CursorPaginationOptions;
+
 export interface PostPaginationResult {
   data: PostWithUser[];
   meta: {
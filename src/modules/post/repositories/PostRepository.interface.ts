@@ -5,9 +5,11 @@ import {
   CreatePostDto,
   UpdatePostDto,
   PostQueryOptions,
+  PostCursorOptions,
   PostPaginationResult,
   ContentBlock,
 } from '../models/Post';
+import { CursorPaginatedResult } from '../../../shared/interfaces/PaginatedResult';
 
 export interface IPostRepository extends BaseRepository<Post, string> {
   findByIdWithUser(id: string, requestUserId?: string): Promise<PostWithUser | null>;
@@ -19,6 +21,11 @@ export interface IPostRepository extends BaseRepository<Post, string> {
   archivePost(id: string, userId: string): Promise<PostWithUser>;
   republishPost(id: string, userId: string): Promise<PostWithUser>;
   getPosts(options: PostQueryOptions, requestUserId?: string): Promise<PostPaginationResult>;
+  getPostsByCursor(
+    options: PostCursorOptions,
+    requestUserId?: string,
+  ): Promise<CursorPaginatedResult<PostWithUser>>;
+  getPostsByIds(ids: string[], requestUserId?: string): Promise<PostWithUser[]>;
   getFollowedPosts(
     userId: string,
     options?: Omit<PostQueryOptions, 'followedOnly'>,
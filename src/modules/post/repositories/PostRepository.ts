@@ -7,10 +7,13 @@ import {
   CreatePostDto,
   UpdatePostDto,
   PostQueryOptions,
+  PostCursorOptions,
   PostPaginationResult,
   PostStatus,
   ContentBlock,
 } from '../models/Post';
+import { CursorPaginatedResult } from '../../../shared/interfaces/PaginatedResult';
+import { PaginationUtils } from '../../../shared/utils/PaginationUtils';
 import { AppError } from '../../../core/errors/AppError';
 import { Logger } from '../../../core/logging/Logger';
 
@@ -520,89 +523,16 @@ export class PostRepository extends BasePrismaRepository<Post, string> implement
 
   async getPosts(options: PostQueryOptions, requestUserId?: string): Promise<PostPaginationResult> {
     try {
-      const {
-        userId,
-        type,
-        status = PostStatus.PUBLISHED,
-        tags,
-        search,
-        followedOnly,
-        page = 1,
-        limit = 10,
-        sortBy = 'publishedAt',
-        sortOrder = 'desc',
-      } = options;
-
-      const where: Prisma.PostWhereInput = {
-        deletedAt: null,
-      };
-
-      if (userId) where.userId = userId;
-
-      if (type) {
-        where.type = Array.isArray(type) ? { in: type } : type;
-      }
-
-      if (status) {
-        where.status = Array.isArray(status) ? { in: status } : status;
-      }
+      const { page = 1, limit = 10, sortBy = 'publishedAt', sortOrder = 'desc' } = options;
 
-      if (tags && tags.length > 0) {
-        where.tags = { hasSome: tags };
-      }
-
-      // Enhanced search across multiple fields including extracted content text
-      if (search) {
-        where.OR = [
-          { title: { contains: search, mode: 'insensitive' } },
-          { summary: { contains: search, mode: 'insensitive' } },
-          { contentText: { contains: search, mode: 'insensitive' } },
-          { tags: { has: search } },
-        ];
-      }
-
-      // Filter posts from followed users only
-      if (followedOnly && requestUserId) {
-        const followedUsers = await this.prisma.follow.findMany({
-          where: { followerId: requestUserId },
-          select: { followingId: true },
-        });
-
-        where.userId = { in: followedUsers.map((f) => f.followingId) };
-      }
+      const where = await this.buildWhere(options, requestUserId);
 
       const total = await this.prisma.post.count({ where });
       const totalPages = Math.ceil(total / limit);
 
       const posts = await this.prisma.post.findMany({
         where,
-        include: {
-          user: {
-            select: {
-              id: true,
-              username: true,
-              firstName: true,
-              lastName: true,
-              avatarUrl: true,
-              artisanProfile: {
-                select: {
-                  shopName: true,
-                  isVerified: true,
-                },
-              },
-            },
-          },
-          likes: requestUserId
-            ? {
-                where: { userId: requestUserId, commentId: null },
-              }
-            : undefined,
-          wishlistItems: requestUserId
-            ? {
-                where: { userId: requestUserId, itemType: 'POST' },
-              }
-            : undefined,
-        },
+        include: this.listInclude(requestUserId),
         orderBy: { [sortBy]: sortOrder },
         skip: (page - 1) * limit,
         take: limit,
@@ -618,6 +548,56 @@ export class PostRepository extends BasePrismaRepository<Post, string> implement
     }
   }
 
+  async getPostsByCursor(
+    options: PostCursorOptions,
+    requestUserId?: string,
+  ): Promise<CursorPaginatedResult<PostWithUser>> {
+    const { cursor, limit = 10 } = options;
+    const after = PaginationUtils.cursorWhere(cursor);
+
+    try {
+      const where = await this.buildWhere(options, requestUserId);
+
+      const posts = await this.prisma.post.findMany({
+        where: { AND: [where, after] },
+        include: this.listInclude(requestUserId),
+        orderBy: PaginationUtils.cursorOrderBy(),
+        take: limit + 1,
+      });
+
+      const result = PaginationUtils.createCursorPaginatedResult(posts, limit);
+
+      return {
+        ...result,
+        data: result.data.map((post) => this.transformPostWithUser(post, requestUserId)),
+      };
+    } catch (error) {
+      this.logger.error(`Error getting posts: ${error}`);
+      throw new AppError('Failed to get posts', 500, 'DATABASE_ERROR');
+    }
+  }
+
+  async getPostsByIds(ids: string[], requestUserId?: string): Promise<PostWithUser[]> {
+    try {
+      if (ids.length === 0) return [];
+
+      const posts = await this.prisma.post.findMany({
+        where: { id: { in: ids }, deletedAt: null },
+        include: this.listInclude(requestUserId),
+      });
+
+      // Keep the order of the given ids
+      const byId = new Map(posts.map((post) => [post.id, post]));
+      return ids
+        .map((id) => byId.get(id))
+        .filter((post): post is NonNullable<typeof post> => !!post)
+        .map((post) => this.transformPostWithUser(post, requestUserId));
+    } catch (error) {
+      this.logger.error(`Error getting posts by ids: ${error}`);
+      throw new AppError('Failed to get posts', 500, 'DATABASE_ERROR');
+    }
+  }
+
   async getFollowedPosts(
     userId: string,
     options: Omit<PostQueryOptions, 'followedOnly'> = {},
@@ -766,6 +746,83 @@ export class PostRepository extends BasePrismaRepository<Post, string> implement
     return urls;
   }
 
+  private async buildWhere(
+    options: PostQueryOptions | PostCursorOptions,
+    requestUserId?: string,
+  ): Promise<Prisma.PostWhereInput> {
+    const { userId, type, status = PostStatus.PUBLISHED, tags, search, followedOnly } = options;
+
+    const where: Prisma.PostWhereInput = {
+      deletedAt: null,
+    };
+
+    if (userId) where.userId = userId;
+
+    if (type) {
+      where.type = Array.isArray(type) ? { in: type } : type;
+    }
+
+    if (status) {
+      where.status = Array.isArray(status) ? { in: status } : status;
+    }
+
+    if (tags && tags.length > 0) {
+      where.tags = { hasSome: tags };
+    }
+
+    // Enhanced search across multiple fields including extracted content text
+    if (search) {
+      where.OR = [
+        { title: { contains: search, mode: 'insensitive' } },
+        { summary: { contains: search, mode: 'insensitive' } },
+        { contentText: { contains: search, mode: 'insensitive' } },
+        { tags: { has: search } },
+      ];
+    }
+
+    // Filter posts from followed users only
+    if (followedOnly && requestUserId) {
+      const followedUsers = await this.prisma.follow.findMany({
+        where: { followerId: requestUserId },
+        select: { followingId: true },
+      });
+
+      where.userId = { in: followedUsers.map((f) => f.followingId) };
+    }
+
+    return where;
+  }
+
+  private listInclude(requestUserId?: string) {
+    return {
+      user: {
+        select: {
+          id: true,
+          username: true,
+          firstName: true,
+          lastName: true,
+          avatarUrl: true,
+          artisanProfile: {
+            select: {
+              shopName: true,
+              isVerified: true,
+            },
+          },
+        },
+      },
+      likes: requestUserId
+        ? {
+            where: { userId: requestUserId, commentId: null },
+          }
+        : undefined,
+      wishlistItems: requestUserId
+        ? {
+            where: { userId: requestUserId, itemType: 'POST' as const },
+          }
+        : undefined,
+    } satisfies Prisma.PostInclude;
+  }
+
   // Transform database result to include computed fields and user permissions
   private transformPostWithUser(post: any, requestUserId?: string): PostWithUser {
     const { likes, wishlistItems, productMentions, ...postData } = post;
@@ -4,8 +4,10 @@ import {
   CreatePostDto,
   UpdatePostDto,
   PostQueryOptions,
+  PostCursorOptions,
   PostPaginationResult,
 } from '../models/Post';
+import { CursorPaginatedResult } from '../../../shared/interfaces/PaginatedResult';
 
 export interface IPostService {
   createPost(userId: string, data: CreatePostDto): Promise<PostWithUser>;
@@ -21,6 +23,14 @@ export interface IPostService {
     userId: string,
     options?: Omit<PostQueryOptions, 'followedOnly'>,
   ): Promise<PostPaginationResult>;
+  getPostsByCursor(
+    options: PostCursorOptions,
+    requestUserId?: string,
+  ): Promise<CursorPaginatedResult<PostWithUser>>;
+  getFollowedPostsByCursor(
+    userId: string,
+    options?: Omit<PostCursorOptions, 'followedOnly'>,
+  ): Promise<CursorPaginatedResult<PostWithUser>>;
   getMyPosts(
     userId: string,
     options?: Omit<PostQueryOptions, 'userId'>,
@@ -5,9 +5,11 @@ import {
   CreatePostDto,
   UpdatePostDto,
   PostQueryOptions,
+  PostCursorOptions,
   PostPaginationResult,
   PostStatus,
 } from '../models/Post';
+import { CursorPaginatedResult } from '../../../shared/interfaces/PaginatedResult';
 import { IPostRepository } from '../repositories/PostRepository.interface';
 import { IUserRepository } from '../../auth/repositories/UserRepository.interface';
 import { AppError } from '../../../core/errors/AppError';
@@ -222,6 +224,32 @@ export class PostService implements IPostService {
     }
   }
 
+  async getPostsByCursor(
+    options: PostCursorOptions,
+    requestUserId?: string,
+  ): Promise<CursorPaginatedResult<PostWithUser>> {
+    try {
+      return await this.postRepository.getPostsByCursor(options, requestUserId);
+    } catch (error) {
+      this.logger.error(`Error getting posts: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to get posts', 500, 'SERVICE_ERROR');
+    }
+  }
+
+  async getFollowedPostsByCursor(
+    userId: string,
+    options: Omit<PostCursorOptions, 'followedOnly'> = {},
+  ): Promise<CursorPaginatedResult<PostWithUser>> {
+    try {
+      return await this.postRepository.getPostsByCursor({ ...options, followedOnly: true }, userId);
+    } catch (error) {
+      this.logger.error(`Error getting followed posts: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to get followed posts', 500, 'SERVICE_ERROR');
+    }
+  }
+
   async getMyPosts(
     userId: string,
     options: Omit<PostQueryOptions, 'userId'> = {},
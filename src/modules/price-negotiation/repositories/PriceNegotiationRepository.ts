@@ -1094,7 +1094,7 @@ export class PriceNegotiationRepository
       return result.count;
     } catch (error) {
       this.logger.error(`Error expiring negotiations: ${error}`);
-      return 0;
+      throw new AppError('Failed to expire negotiations', 500, 'DATABASE_ERROR');
     }
   }
 
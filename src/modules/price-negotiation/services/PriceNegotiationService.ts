@@ -13,6 +13,7 @@ import { IPriceNegotiationRepository } from '../repositories/PriceNegotiationRep
 import { IProductRepository } from '../../product/repositories/ProductRepository.interface';
 import { IUserRepository } from '../../auth/repositories/UserRepository.interface';
 import { INotificationService } from '../../notification/services/NotificationService.interface';
+import { availableQuantity } from '../../inventory/models/StockReservation';
 import { AppError } from '../../../core/errors/AppError';
 import { Logger } from '../../../core/logging/Logger';
 import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
@@ -82,9 +83,9 @@ export class PriceNegotiationService implements IPriceNegotiationService {
           throw new AppError('Product variant is not active', 400, 'VARIANT_INACTIVE');
         }
 
-        if (data.quantity && data.quantity > variant.quantity) {
+        if (data.quantity && data.quantity > availableQuantity(variant)) {
           throw new AppError(
-            `Requested quantity (${data.quantity}) exceeds available variant quantity (${variant.quantity})`,
+            `Requested quantity (${data.quantity}) exceeds available variant quantity (${availableQuantity(variant)})`,
             400,
             'INSUFFICIENT_VARIANT_QUANTITY',
           );
@@ -409,7 +410,8 @@ export class PriceNegotiationService implements IPriceNegotiationService {
       return expiredCount;
     } catch (error) {
       this.logger.error(`Error expiring old negotiations: ${error}`);
-      return 0;
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to expire negotiations', 500, 'SERVICE_ERROR');
     }
   }
 
@@ -461,18 +463,18 @@ export class PriceNegotiationService implements IPriceNegotiationService {
       if (data.variantId) {
         // Check variant quantity
         const variant = product.variants?.find((v: any) => v.id === data.variantId);
-        if (variant && data.quantity > variant.quantity) {
+        if (variant && data.quantity > availableQuantity(variant)) {
           throw new AppError(
-            `Quantity must not exceed available variant stock (${variant.quantity})`,
+            `Quantity must not exceed available variant stock (${availableQuantity(variant)})`,
             400,
             'INVALID_QUANTITY',
           );
         }
       } else {
         // Check product quantity
-        if (data.quantity > product.quantity) {
+        if (data.quantity > availableQuantity(product)) {
           throw new AppError(
-            `Quantity must not exceed available stock (${product.quantity})`,
+            `Quantity must not exceed available stock (${availableQuantity(product)})`,
             400,
             'INVALID_QUANTITY',
           );
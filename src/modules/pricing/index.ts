@@ -0,0 +1,32 @@
+/**
+ * Pricing Module Exports
+ */
+
+// Export models
+export * from './models/Pricing';
+
+// Export service interfaces
+export * from './services/PricingService.interface';
+
+// Export repository interfaces
+export * from './repositories/PricingRepository.interface';
+
+// Export validators
+export * from './interface/validators/pricing.validator';
+
+// Export module registration function
+export function registerPricingModule() {
+  console.log('Pricing module registered');
+
+  return {
+    name: 'pricing',
+    description: 'Tax and shipping calculation for cart and checkout',
+    version: '1.0.0',
+    features: [
+      'Admin-managed tax rates by country and state',
+      'Per-artisan shipping rules: flat, weight-based, free over a threshold',
+      'Volumetric weight from product dimensions',
+      'One price breakdown shared by cart summary and checkout',
+    ],
+  };
+}
@@ -0,0 +1,23 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../shared/utils/ApiResponse';
+import { IPricingService } from '../../services/PricingService.interface';
+import container from '../../../../core/di/container';
+
+export class CreateTaxRateController extends BaseController {
+  private pricingService: IPricingService;
+
+  constructor() {
+    super();
+    this.pricingService = container.resolve<IPricingService>('pricingService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    this.validateAuth(req);
+    this.validateRole(req, ['ADMIN']);
+
+    const rate = await this.pricingService.createTaxRate(req.body);
+
+    ApiResponse.created(res, rate, 'Tax rate created successfully');
+  }
+}
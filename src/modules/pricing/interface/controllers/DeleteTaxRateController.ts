@@ -0,0 +1,24 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../shared/utils/ApiResponse';
+import { IPricingService } from '../../services/PricingService.interface';
+import container from '../../../../core/di/container';
+
+export class DeleteTaxRateController extends BaseController {
+  private pricingService: IPricingService;
+
+  constructor() {
+    super();
+    this.pricingService = container.resolve<IPricingService>('pricingService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    this.validateAuth(req);
+    this.validateRole(req, ['ADMIN']);
+
+    const { id } = req.params;
+    await this.pricingService.deleteTaxRate(id);
+
+    ApiResponse.success(res, null, 'Tax rate deleted successfully');
+  }
+}
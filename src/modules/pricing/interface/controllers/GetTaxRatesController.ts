@@ -0,0 +1,30 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../shared/utils/ApiResponse';
+import { IPricingService } from '../../services/PricingService.interface';
+import container from '../../../../core/di/container';
+
+export class GetTaxRatesController extends BaseController {
+  private pricingService: IPricingService;
+
+  constructor() {
+    super();
+    this.pricingService = container.resolve<IPricingService>('pricingService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    this.validateAuth(req);
+    this.validateRole(req, ['ADMIN']);
+
+    const options = {
+      page: parseInt(req.query.page as string) || 1,
+      limit: parseInt(req.query.limit as string) || 20,
+      country: req.query.country as string,
+      isActive: req.query.isActive !== undefined ? req.query.isActive === 'true' : undefined,
+    };
+
+    const rates = await this.pricingService.getTaxRates(options);
+
+    ApiResponse.success(res, rates, 'Tax rates retrieved successfully');
+  }
+}
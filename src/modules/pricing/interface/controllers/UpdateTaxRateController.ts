@@ -0,0 +1,24 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../shared/utils/ApiResponse';
+import { IPricingService } from '../../services/PricingService.interface';
+import container from '../../../../core/di/container';
+
+export class UpdateTaxRateController extends BaseController {
+  private pricingService: IPricingService;
+
+  constructor() {
+    super();
+    this.pricingService = container.resolve<IPricingService>('pricingService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    this.validateAuth(req);
+    this.validateRole(req, ['ADMIN']);
+
+    const { id } = req.params;
+    const rate = await this.pricingService.updateTaxRate(id, req.body);
+
+    ApiResponse.success(res, rate, 'Tax rate updated successfully');
+  }
+}
@@ -0,0 +1,38 @@
+import { Router } from 'express';
+import { validate } from '../../../../shared/middlewares/validate.middleware';
+import { authenticate, authorize } from '../../../../shared/middlewares/auth.middleware';
+import { validateIdParam } from '../../../../shared/middlewares/request-validation.middleware';
+import {
+  createTaxRateSchema,
+  updateTaxRateSchema,
+  getTaxRatesQuerySchema,
+} from '../validators/pricing.validator';
+
+// Controllers
+import { GetTaxRatesController } from '../controllers/GetTaxRatesController';
+import { CreateTaxRateController } from '../controllers/CreateTaxRateController';
+import { UpdateTaxRateController } from '../controllers/UpdateTaxRateController';
+import { DeleteTaxRateController } from '../controllers/DeleteTaxRateController';
+
+const router = Router();
+
+// Initialize controllers
+const getTaxRatesController = new GetTaxRatesController();
+const createTaxRateController = new CreateTaxRateController();
+const updateTaxRateController = new UpdateTaxRateController();
+const deleteTaxRateController = new DeleteTaxRateController();
+
+// All routes are admin only
+router.use(authenticate, authorize(['ADMIN']));
+
+router.get('/tax-rates', validate(getTaxRatesQuerySchema, 'query'), getTaxRatesController.execute);
+router.post('/tax-rates', validate(createTaxRateSchema), createTaxRateController.execute);
+router.patch(
+  '/tax-rates/:id',
+  validateIdParam(),
+  validate(updateTaxRateSchema),
+  updateTaxRateController.execute,
+);
+router.delete('/tax-rates/:id', validateIdParam(), deleteTaxRateController.execute);
+
+export default router;
@@ -0,0 +1,53 @@
+import Joi from 'joi';
+import { ShippingRuleType } from '../../models/Pricing';
+
+export const shippingRuleSchema = Joi.object({
+  type: Joi.string()
+    .valid(...Object.values(ShippingRuleType))
+    .required(),
+  rate: Joi.number()
+    .min(0)
+    .when('type', {
+      is: Joi.valid(ShippingRuleType.FLAT, ShippingRuleType.FREE_OVER_THRESHOLD),
+      then: Joi.required(),
+      otherwise: Joi.forbidden(),
+    }),
+  baseRate: Joi.number().min(0).when('type', {
+    is: ShippingRuleType.WEIGHT_BASED,
+    then: Joi.optional(),
+    otherwise: Joi.forbidden(),
+  }),
+  ratePerKg: Joi.number().min(0).when('type', {
+    is: ShippingRuleType.WEIGHT_BASED,
+    then: Joi.required(),
+    otherwise: Joi.forbidden(),
+  }),
+  threshold: Joi.number().min(0).when('type', {
+    is: ShippingRuleType.FREE_OVER_THRESHOLD,
+    then: Joi.required(),
+    otherwise: Joi.forbidden(),
+  }),
+});
+
+export const createTaxRateSchema = Joi.object({
+  country: Joi.string().trim().min(2).max(100).required(),
+  state: Joi.string().trim().max(100).allow(null, ''),
+  rate: Joi.number().min(0).max(1).precision(4).required().messages({
+    'number.max': 'Rate is a fraction, e.g. 0.1 for 10%',
+  }),
+  name: Joi.string().trim().max(100),
+  isActive: Joi.boolean().default(true),
+});
+
+export const updateTaxRateSchema = Joi.object({
+  rate: Joi.number().min(0).max(1).precision(4),
+  name: Joi.string().trim().max(100),
+  isActive: Joi.boolean(),
+}).min(1);
+
+export const getTaxRatesQuerySchema = Joi.object({
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+  country: Joi.string().trim().max(100),
+  isActive: Joi.boolean(),
+});
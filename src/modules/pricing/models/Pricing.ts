@@ -0,0 +1,104 @@
+import { AppliedPromotion, LineDiscount } from '../../promotion/models/Promotion';
+
+export enum ShippingRuleType {
+  FLAT = 'FLAT',
+  WEIGHT_BASED = 'WEIGHT_BASED',
+  FREE_OVER_THRESHOLD = 'FREE_OVER_THRESHOLD',
+}
+
+export interface TaxRate {
+  id: string;
+  country: string;
+  state?: string | null; // null applies to the whole country
+  rate: number; // Decimal converted to number, 0.1 = 10%
+  name?: string | null;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Shipping rule an artisan keeps under `shippingInfo.shippingRule` on their profile.
+ * Amounts are in the payment currency and weights in kilograms.
+ */
+export interface ShippingRule {
+  type: ShippingRuleType;
+  rate?: number; // FLAT and FREE_OVER_THRESHOLD: charged per shipment
+  baseRate?: number; // WEIGHT_BASED: charged per shipment
+  ratePerKg?: number; // WEIGHT_BASED: charged per billable kilogram
+  threshold?: number; // FREE_OVER_THRESHOLD: subtotal from which shipping is free
+}
+
+export interface PricingItem {
+  productId?: string | null;
+  variantId?: string | null;
+  quantity: number;
+  price?: number; // unit price; items without one are left out of promotions
+}
+
+/**
+ * Who is checking out, so promotions can be applied and limited per customer
+ */
+export interface PricingPromotionContext {
+  userId: string;
+  couponCode?: string | null;
+}
+
+/**
+ * Items one seller ships together, with their subtotal at current prices
+ */
+export interface PricingSellerGroup {
+  sellerId: string;
+  subtotal: number;
+  items: PricingItem[];
+}
+
+export interface ItemShippingSpec {
+  productId: string;
+  variantId?: string | null;
+  weight?: number | null;
+  dimensions?: any; // Json { length, width, height } in centimetres
+}
+
+export interface SellerPriceBreakdown {
+  sellerId: string;
+  subtotal: number;
+  shippingCost: number;
+  weight: number; // billable kilograms
+  shippingRule: ShippingRule;
+}
+
+export interface PriceBreakdown {
+  subtotal: number;
+  shippingCost: number;
+  taxRate: number;
+  taxAmount: number;
+  discountAmount: number;
+  total: number;
+  currency: string;
+  sellers: SellerPriceBreakdown[];
+  promotions: AppliedPromotion[];
+  lineDiscounts: LineDiscount[];
+}
+
+// DTOs
+export interface CreateTaxRateDto {
+  country: string;
+  state?: string | null;
+  rate: number;
+  name?: string;
+  isActive?: boolean;
+}
+
+export interface UpdateTaxRateDto {
+  rate?: number;
+  name?: string;
+  isActive?: boolean;
+}
+
+export interface TaxRateQueryOptions {
+  page?: number;
+  limit?: number;
+  country?: string;
+  isActive?: boolean;
+}
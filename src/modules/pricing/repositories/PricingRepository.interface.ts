@@ -0,0 +1,24 @@
+import { BaseRepository } from '../../../shared/interfaces/BaseRepository';
+import {
+  TaxRate,
+  CreateTaxRateDto,
+  UpdateTaxRateDto,
+  TaxRateQueryOptions,
+  ItemShippingSpec,
+  PricingItem,
+} from '../models/Pricing';
+import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
+
+export interface IPricingRepository extends BaseRepository<TaxRate, string> {
+  // Tax rates
+  findTaxRateForLocation(country: string, state?: string | null): Promise<TaxRate | null>;
+  findTaxRate(country: string, state?: string | null): Promise<TaxRate | null>;
+  getTaxRates(options: TaxRateQueryOptions): Promise<PaginatedResult<TaxRate>>;
+  createTaxRate(data: CreateTaxRateDto): Promise<TaxRate>;
+  updateTaxRate(id: string, data: UpdateTaxRateDto): Promise<TaxRate>;
+  deleteTaxRate(id: string): Promise<boolean>;
+
+  // Shipping inputs
+  getSellerShippingInfo(sellerIds: string[]): Promise<Record<string, any>>;
+  getItemShippingSpecs(items: PricingItem[]): Promise<ItemShippingSpec[]>;
+}
@@ -0,0 +1,205 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { BasePrismaRepository } from '../../../shared/baseClasses/BasePrismaRepository';
+import { IPricingRepository } from './PricingRepository.interface';
+import {
+  TaxRate,
+  CreateTaxRateDto,
+  UpdateTaxRateDto,
+  TaxRateQueryOptions,
+  ItemShippingSpec,
+  PricingItem,
+} from '../models/Pricing';
+import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
+import { AppError } from '../../../core/errors/AppError';
+import { Logger } from '../../../core/logging/Logger';
+
+export class PricingRepository
+  extends BasePrismaRepository<TaxRate, string>
+  implements IPricingRepository
+{
+  private logger = Logger.getInstance();
+
+  constructor(prisma: PrismaClient) {
+    super(prisma, 'taxRate');
+  }
+
+  async findTaxRateForLocation(country: string, state?: string | null): Promise<TaxRate | null> {
+    try {
+      const rates = await this.prisma.taxRate.findMany({
+        where: {
+          isActive: true,
+          country: { equals: country.trim(), mode: 'insensitive' },
+          OR: [
+            { state: null },
+            ...(state ? [{ state: { equals: state.trim(), mode: 'insensitive' as const } }] : []),
+          ],
+        },
+      });
+
+      // A state rate overrides the country-wide one
+      const rate = rates.find((r) => r.state !== null) || rates[0];
+
+      return rate ? this.transform(rate) : null;
+    } catch (error) {
+      this.logger.error(`Error finding tax rate: ${error}`);
+      throw AppError.internal('Failed to find tax rate', 'DATABASE_ERROR');
+    }
+  }
+
+  async findTaxRate(country: string, state?: string | null): Promise<TaxRate | null> {
+    try {
+      const rate = await this.prisma.taxRate.findFirst({
+        where: {
+          country: { equals: country.trim(), mode: 'insensitive' },
+          state: state ? { equals: state.trim(), mode: 'insensitive' } : null,
+        },
+      });
+
+      return rate ? this.transform(rate) : null;
+    } catch (error) {
+      this.logger.error(`Error finding tax rate: ${error}`);
+      throw AppError.internal('Failed to find tax rate', 'DATABASE_ERROR');
+    }
+  }
+
+  async getTaxRates(options: TaxRateQueryOptions): Promise<PaginatedResult<TaxRate>> {
+    try {
+      const { page = 1, limit = 20, country, isActive } = options;
+      const skip = (page - 1) * limit;
+
+      const where: Prisma.TaxRateWhereInput = {};
+      if (country) where.country = { equals: country, mode: 'insensitive' };
+      if (isActive !== undefined) where.isActive = isActive;
+
+      const [rates, total] = await Promise.all([
+        this.prisma.taxRate.findMany({
+          where,
+          orderBy: [{ country: 'asc' }, { state: 'asc' }],
+          skip,
+          take: limit,
+        }),
+        this.prisma.taxRate.count({ where }),
+      ]);
+
+      return {
+        data: rates.map((rate) => this.transform(rate)),
+        meta: {
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit),
+        },
+      };
+    } catch (error) {
+      this.logger.error(`Error getting tax rates: ${error}`);
+      throw AppError.internal('Failed to get tax rates', 'DATABASE_ERROR');
+    }
+  }
+
+  async createTaxRate(data: CreateTaxRateDto): Promise<TaxRate> {
+    try {
+      const rate = await this.prisma.taxRate.create({
+        data: {
+          country: data.country.trim().toUpperCase(),
+          state: data.state?.trim() || null,
+          rate: data.rate,
+          name: data.name,
+          isActive: data.isActive ?? true,
+        },
+      });
+
+      return this.transform(rate);
+    } catch (error) {
+      this.logger.error(`Error creating tax rate: ${error}`);
+      throw AppError.internal('Failed to create tax rate', 'DATABASE_ERROR');
+    }
+  }
+
+  async updateTaxRate(id: string, data: UpdateTaxRateDto): Promise<TaxRate> {
+    try {
+      const rate = await this.prisma.taxRate.update({
+        where: { id },
+        data: {
+          rate: data.rate,
+          name: data.name,
+          isActive: data.isActive,
+        },
+      });
+
+      return this.transform(rate);
+    } catch (error) {
+      this.logger.error(`Error updating tax rate: ${error}`);
+      throw AppError.internal('Failed to update tax rate', 'DATABASE_ERROR');
+    }
+  }
+
+  async deleteTaxRate(id: string): Promise<boolean> {
+    try {
+      await this.prisma.taxRate.delete({ where: { id } });
+      return true;
+    } catch (error) {
+      this.logger.error(`Error deleting tax rate: ${error}`);
+      throw AppError.internal('Failed to delete tax rate', 'DATABASE_ERROR');
+    }
+  }
+
+  async getSellerShippingInfo(sellerIds: string[]): Promise<Record<string, any>> {
+    try {
+      const profiles = await this.prisma.artisanProfile.findMany({
+        where: { userId: { in: sellerIds } },
+        select: { userId: true, shippingInfo: true },
+      });
+
+      return Object.fromEntries(profiles.map((profile) => [profile.userId, profile.shippingInfo]));
+    } catch (error) {
+      this.logger.error(`Error getting seller shipping info: ${error}`);
+      throw AppError.internal('Failed to get seller shipping info', 'DATABASE_ERROR');
+    }
+  }
+
+  async getItemShippingSpecs(items: PricingItem[]): Promise<ItemShippingSpec[]> {
+    try {
+      const productIds = [...new Set(items.map((item) => item.productId).filter(Boolean))];
+      const variantIds = [...new Set(items.map((item) => item.variantId).filter(Boolean))];
+
+      const [products, variants] = await Promise.all([
+        this.prisma.product.findMany({
+          where: { id: { in: productIds as string[] } },
+          select: { id: true, weight: true, dimensions: true },
+        }),
+        this.prisma.productVariant.findMany({
+          where: { id: { in: variantIds as string[] } },
+          select: { id: true, productId: true, weight: true, dimensions: true },
+        }),
+      ]);
+
+      // Variants fall back to their product's weight and size
+      const productSpecs: ItemShippingSpec[] = products.map((product) => ({
+        productId: product.id,
+        weight: product.weight,
+        dimensions: product.dimensions,
+      }));
+      const variantSpecs: ItemShippingSpec[] = variants.map((variant) => {
+        const product = products.find((p) => p.id === variant.productId);
+        return {
+          productId: variant.productId,
+          variantId: variant.id,
+          weight: variant.weight ?? product?.weight,
+          dimensions: variant.dimensions ?? product?.dimensions,
+        };
+      });
+
+      return [...productSpecs, ...variantSpecs];
+    } catch (error) {
+      this.logger.error(`Error getting item shipping specs: ${error}`);
+      throw AppError.internal('Failed to get item shipping specs', 'DATABASE_ERROR');
+    }
+  }
+
+  private transform(rate: any): TaxRate {
+    return {
+      ...rate,
+      rate: Number(rate.rate),
+    };
+  }
+}
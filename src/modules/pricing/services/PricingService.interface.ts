@@ -0,0 +1,30 @@
+import {
+  TaxRate,
+  CreateTaxRateDto,
+  UpdateTaxRateDto,
+  TaxRateQueryOptions,
+  PricingSellerGroup,
+  PricingPromotionContext,
+  PriceBreakdown,
+  ShippingRule,
+} from '../models/Pricing';
+import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
+
+export interface IPricingService {
+  /**
+   * Shipping per seller and tax for the shipping address. Without an address no tax is charged.
+   * With a promotion context, eligible promotions are discounted before tax.
+   */
+  calculateBreakdown(
+    groups: PricingSellerGroup[],
+    addressId?: string | null,
+    promotion?: PricingPromotionContext,
+  ): Promise<PriceBreakdown>;
+  getShippingRule(shippingInfo: any): ShippingRule;
+
+  // Tax rate management
+  getTaxRates(options: TaxRateQueryOptions): Promise<PaginatedResult<TaxRate>>;
+  createTaxRate(data: CreateTaxRateDto): Promise<TaxRate>;
+  updateTaxRate(id: string, data: UpdateTaxRateDto): Promise<TaxRate>;
+  deleteTaxRate(id: string): Promise<void>;
+}
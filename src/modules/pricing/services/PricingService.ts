@@ -0,0 +1,258 @@
+import { IPricingService } from './PricingService.interface';
+import {
+  TaxRate,
+  CreateTaxRateDto,
+  UpdateTaxRateDto,
+  TaxRateQueryOptions,
+  PricingSellerGroup,
+  PricingPromotionContext,
+  PriceBreakdown,
+  SellerPriceBreakdown,
+  ShippingRule,
+  ShippingRuleType,
+  ItemShippingSpec,
+} from '../models/Pricing';
+import { IPricingRepository } from '../repositories/PricingRepository.interface';
+import { IAddressRepository } from '../../user/repositories/AddressRepository.interface';
+import { IPromotionService } from '../../promotion/services/PromotionService.interface';
+import { PromotionResult } from '../../promotion/models/Promotion';
+import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
+import { Config } from '../../../config/config';
+import { AppError } from '../../../core/errors/AppError';
+import { Logger } from '../../../core/logging/Logger';
+import container from '../../../core/di/container';
+
+// Parcels are billed by volumetric weight when they are bulky for their weight (cm³ per kg)
+const VOLUMETRIC_DIVISOR = 5000;
+
+export class PricingService implements IPricingService {
+  private pricingRepository: IPricingRepository;
+  private addressRepository: IAddressRepository;
+  private promotionService: IPromotionService;
+  private logger = Logger.getInstance();
+
+  constructor() {
+    this.pricingRepository = container.resolve<IPricingRepository>('pricingRepository');
+    this.addressRepository = container.resolve<IAddressRepository>('addressRepository');
+    this.promotionService = container.resolve<IPromotionService>('promotionService');
+  }
+
+  async calculateBreakdown(
+    groups: PricingSellerGroup[],
+    addressId?: string | null,
+    promotion?: PricingPromotionContext,
+  ): Promise<PriceBreakdown> {
+    try {
+      const { currency } = Config.getPaymentConfig();
+      const sellerIds = groups.map((group) => group.sellerId);
+      const items = groups.flatMap((group) => group.items);
+
+      const [shippingInfo, specs] = await Promise.all([
+        this.pricingRepository.getSellerShippingInfo(sellerIds),
+        this.pricingRepository.getItemShippingSpecs(items),
+      ]);
+
+      const sellers: SellerPriceBreakdown[] = groups.map((group) => {
+        const shippingRule = this.getShippingRule(shippingInfo[group.sellerId]);
+        const weight = this.roundWeight(
+          group.items.reduce(
+            (sum, item) => sum + this.billableWeight(specs, item) * item.quantity,
+            0,
+          ),
+        );
+
+        return {
+          sellerId: group.sellerId,
+          subtotal: this.roundMoney(group.subtotal),
+          shippingCost: this.calculateShipping(shippingRule, group.subtotal, weight),
+          weight,
+          shippingRule,
+        };
+      });
+
+      const taxRate = await this.getTaxRateForAddress(addressId);
+      const subtotal = this.roundMoney(sellers.reduce((sum, seller) => sum + seller.subtotal, 0));
+      const shippingCost = this.roundMoney(
+        sellers.reduce((sum, seller) => sum + seller.shippingCost, 0),
+      );
+      const promotionResult: PromotionResult = promotion
+        ? await this.promotionService.applyPromotions(
+            promotion.userId,
+            groups.flatMap((group) =>
+              group.items
+                .filter((item) => item.price !== undefined)
+                .map((item) => ({
+                  sellerId: group.sellerId,
+                  productId: item.productId,
+                  variantId: item.variantId,
+                  price: item.price!,
+                  quantity: item.quantity,
+                })),
+            ),
+            promotion.couponCode || undefined,
+          )
+        : { discountAmount: 0, promotions: [], lineDiscounts: [] };
+
+      // Tax is charged on what the customer pays for the goods, after discounts
+      const discountAmount = Math.min(promotionResult.discountAmount, subtotal);
+      const taxAmount = this.roundMoney((subtotal - discountAmount) * taxRate);
+
+      return {
+        subtotal,
+        shippingCost,
+        taxRate,
+        taxAmount,
+        discountAmount,
+        total: this.roundMoney(subtotal + shippingCost + taxAmount - discountAmount),
+        currency,
+        sellers,
+        promotions: promotionResult.promotions,
+        lineDiscounts: promotionResult.lineDiscounts,
+      };
+    } catch (error) {
+      this.logger.error(`Error calculating price breakdown: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to calculate price breakdown', 'SERVICE_ERROR');
+    }
+  }
+
+  getShippingRule(shippingInfo: any): ShippingRule {
+    const rule = shippingInfo?.shippingRule;
+
+    if (rule && Object.values(ShippingRuleType).includes(rule.type)) {
+      return rule as ShippingRule;
+    }
+
+    // Artisans without their own rule get the platform default
+    const { defaultShippingRate, freeShippingThreshold } = Config.getPricingConfig();
+    return freeShippingThreshold > 0
+      ? {
+          type: ShippingRuleType.FREE_OVER_THRESHOLD,
+          rate: defaultShippingRate,
+          threshold: freeShippingThreshold,
+        }
+      : { type: ShippingRuleType.FLAT, rate: defaultShippingRate };
+  }
+
+  async getTaxRates(options: TaxRateQueryOptions): Promise<PaginatedResult<TaxRate>> {
+    try {
+      return await this.pricingRepository.getTaxRates(options);
+    } catch (error) {
+      this.logger.error(`Error getting tax rates: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to get tax rates', 'SERVICE_ERROR');
+    }
+  }
+
+  async createTaxRate(data: CreateTaxRateDto): Promise<TaxRate> {
+    try {
+      const existing = await this.pricingRepository.findTaxRate(data.country, data.state);
+      if (existing) {
+        throw AppError.conflict('A tax rate already exists for this location', 'TAX_RATE_EXISTS');
+      }
+
+      const rate = await this.pricingRepository.createTaxRate(data);
+
+      this.logger.info(`Tax rate created: ${rate.country}/${rate.state || '*'} at ${rate.rate}`);
+
+      return rate;
+    } catch (error) {
+      this.logger.error(`Error creating tax rate: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to create tax rate', 'SERVICE_ERROR');
+    }
+  }
+
+  async updateTaxRate(id: string, data: UpdateTaxRateDto): Promise<TaxRate> {
+    try {
+      const existing = await this.pricingRepository.findById(id);
+      if (!existing) {
+        throw AppError.notFound('Tax rate not found', 'TAX_RATE_NOT_FOUND');
+      }
+
+      return await this.pricingRepository.updateTaxRate(id, data);
+    } catch (error) {
+      this.logger.error(`Error updating tax rate: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to update tax rate', 'SERVICE_ERROR');
+    }
+  }
+
+  async deleteTaxRate(id: string): Promise<void> {
+    try {
+      const existing = await this.pricingRepository.findById(id);
+      if (!existing) {
+        throw AppError.notFound('Tax rate not found', 'TAX_RATE_NOT_FOUND');
+      }
+
+      await this.pricingRepository.deleteTaxRate(id);
+    } catch (error) {
+      this.logger.error(`Error deleting tax rate: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to delete tax rate', 'SERVICE_ERROR');
+    }
+  }
+
+  private async getTaxRateForAddress(addressId?: string | null): Promise<number> {
+    if (!addressId) return 0;
+
+    const address = await this.addressRepository.findById(addressId);
+    if (!address) {
+      throw AppError.badRequest('Invalid shipping address', 'INVALID_ADDRESS');
+    }
+
+    const taxRate = await this.pricingRepository.findTaxRateForLocation(
+      address.country,
+      address.state,
+    );
+
+    return taxRate ? taxRate.rate : Config.getPricingConfig().defaultTaxRate;
+  }
+
+  private calculateShipping(rule: ShippingRule, subtotal: number, weight: number): number {
+    switch (rule.type) {
+      case ShippingRuleType.FLAT:
+        return this.roundMoney(rule.rate || 0);
+
+      case ShippingRuleType.WEIGHT_BASED:
+        return this.roundMoney((rule.baseRate || 0) + (rule.ratePerKg || 0) * weight);
+
+      case ShippingRuleType.FREE_OVER_THRESHOLD:
+        return rule.threshold !== undefined && subtotal >= rule.threshold
+          ? 0
+          : this.roundMoney(rule.rate || 0);
+
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * Weight of one unit in kilograms, or its volumetric weight if that is higher
+   */
+  private billableWeight(
+    specs: ItemShippingSpec[],
+    item: PricingSellerGroup['items'][number],
+  ): number {
+    const spec =
+      (item.variantId && specs.find((s) => s.variantId === item.variantId)) ||
+      specs.find((s) => s.productId === item.productId && !s.variantId);
+    if (!spec) return 0;
+
+    const weight = spec.weight || 0;
+    const { length, width, height } = spec.dimensions || {};
+    if ([length, width, height].every((value) => typeof value === 'number' && value > 0)) {
+      return Math.max(weight, (length * width * height) / VOLUMETRIC_DIVISOR);
+    }
+
+    return weight;
+  }
+
+  private roundMoney(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
+  private roundWeight(weight: number): number {
+    return Math.round(weight * 1000) / 1000;
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Product Q&A Module Exports
+ */
+
+// Export models
+export * from './models/ProductQa';
+
+// Export service interfaces
+export * from './services/ProductQaService.interface';
+
+// Export repository interfaces
+export * from './repositories/ProductQaRepository.interface';
+
+// Export validators
+export * from './interface/validators/productQa.validator';
+
+// Export module registration function
+export function registerProductQaModule() {
+  console.log('Product Q&A module registered');
+
+  return {
+    name: 'product-qa',
+    description: 'Public product questions and answers',
+    version: '1.0.0',
+    features: [
+      'Questions on product pages',
+      'Answers from the seller and buyers who received the product',
+      'Upvotes on questions and answers',
+      'Reports with automatic hiding',
+      'Notifications for new questions and answers',
+    ],
+  };
+}
@@ -0,0 +1,26 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../shared/utils/ApiResponse';
+import { IProductQaService } from '../../services/ProductQaService.interface';
+import container from '../../../../core/di/container';
+
+export class AnswerQuestionController extends BaseController {
+  private productQaService: IProductQaService;
+
+  constructor() {
+    super();
+    this.productQaService = container.resolve<IProductQaService>('productQaService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    this.validateAuth(req);
+
+    const answer = await this.productQaService.answerQuestion(
+      req.user!.id,
+      req.params.id,
+      req.body.content,
+    );
+
+    ApiResponse.created(res, answer, 'Answer posted successfully');
+  }
+}
@@ -0,0 +1,26 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../shared/utils/ApiResponse';
+import { IProductQaService } from '../../services/ProductQaService.interface';
+import container from '../../../../core/di/container';
+
+export class AskQuestionController extends BaseController {
+  private productQaService: IProductQaService;
+
+  constructor() {
+    super();
+    this.productQaService = container.resolve<IProductQaService>('productQaService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    this.validateAuth(req);
+
+    const question = await this.productQaService.askQuestion(
+      req.user!.id,
+      req.body.productId,
+      req.body.content,
+    );
+
+    ApiResponse.created(res, question, 'Question posted successfully');
+  }
+}
@@ -0,0 +1,22 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../shared/utils/ApiResponse';
+import { IProductQaService } from '../../services/ProductQaService.interface';
+import container from '../../../../core/di/container';
+
+export class DeleteQuestionController extends BaseController {
+  private productQaService: IProductQaService;
+
+  constructor() {
+    super();
+    this.productQaService = container.resolve<IProductQaService>('productQaService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    this.validateAuth(req);
+
+    await this.productQaService.deleteQuestion(req.user!.id, req.params.id);
+
+    ApiResponse.success(res, null, 'Question deleted successfully');
+  }
+}
@@ -0,0 +1,35 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../shared/utils/ApiResponse';
+import { IProductQaService } from '../../services/ProductQaService.interface';
+import container from '../../../../core/di/container';
+
+export class GetProductQuestionsController extends BaseController {
+  private productQaService: IProductQaService;
+
+  constructor() {
+    super();
+    this.productQaService = container.resolve<IProductQaService>('productQaService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const { productId } = req.params;
+
+    const [questions, statistics] = await Promise.all([
+      this.productQaService.getProductQuestions(
+        productId,
+        {
+          page: req.query.page as unknown as number,
+          limit: req.query.limit as unknown as number,
+          sortBy: req.query.sortBy as 'upvoteCount' | 'createdAt',
+          answered:
+            req.query.answered === undefined ? undefined : String(req.query.answered) === 'true',
+        },
+        req.user?.id,
+      ),
+      this.productQaService.getProductQaStatistics(productId),
+    ]);
+
+    ApiResponse.success(res, { questions, statistics }, 'Product questions retrieved successfully');
+  }
+}
@@ -0,0 +1,84 @@
+import { Router } from 'express';
+import { validate } from '../../../../shared/middlewares/validate.middleware';
+import { authenticate } from '../../../../shared/middlewares/auth.middleware';
+import { validateIdParam } from '../../../../shared/middlewares/request-validation.middleware';
+
+// Controllers
+import { GetProductQuestionsController } from '../controllers/GetProductQuestionsController';
+import { AskQuestionController } from '../controllers/AskQuestionController';
+import { AnswerQuestionController } from '../controllers/AnswerQuestionController';
+import { DeleteQuestionController } from '../controllers/DeleteQuestionController';
+import { DeleteAnswerController } from '../controllers/DeleteAnswerController';
+import { ToggleQuestionUpvoteController } from '../controllers/ToggleQuestionUpvoteController';
+import { ToggleAnswerUpvoteController } from '../controllers/ToggleAnswerUpvoteController';
+import { ReportQuestionController } from '../controllers/ReportQuestionController';
+import { ReportAnswerController } from '../controllers/ReportAnswerController';
+
+// Validators
+import {
+  productQuestionsQuerySchema,
+  askQuestionSchema,
+  answerQuestionSchema,
+  reportQaSchema,
+} from '../validators/productQa.validator';
+
+const router = Router();
+
+// Initialize controllers
+const getProductQuestionsController = new GetProductQuestionsController();
+const askQuestionController = new AskQuestionController();
+const answerQuestionController = new AnswerQuestionController();
+const deleteQuestionController = new DeleteQuestionController();
+const deleteAnswerController = new DeleteAnswerController();
+const toggleQuestionUpvoteController = new ToggleQuestionUpvoteController();
+const toggleAnswerUpvoteController = new ToggleAnswerUpvoteController();
+const reportQuestionController = new ReportQuestionController();
+const reportAnswerController = new ReportAnswerController();
+
+// === PUBLIC ROUTES ===
+
+// Get a product's questions with their answers and Q&A statistics
+router.get(
+  '/product/:productId',
+  validateIdParam('productId'),
+  validate(productQuestionsQuerySchema, 'query'),
+  getProductQuestionsController.execute,
+);
+
+// === AUTHENTICATED ROUTES ===
+router.use(authenticate);
+
+// Ask a question
+router.post('/', validate(askQuestionSchema), askQuestionController.execute);
+
+// Answer a question (the seller or buyers who received the product)
+router.post(
+  '/:id/answers',
+  validateIdParam(),
+  validate(answerQuestionSchema),
+  answerQuestionController.execute,
+);
+
+// Upvote or remove the upvote
+router.post('/:id/upvote', validateIdParam(), toggleQuestionUpvoteController.execute);
+router.post('/answers/:id/upvote', validateIdParam(), toggleAnswerUpvoteController.execute);
+
+// Report; content is hidden after several reports
+router.post(
+  '/:id/report',
+  validateIdParam(),
+  validate(reportQaSchema),
+  reportQuestionController.execute,
+);
+router.post(
+  '/answers/:id/report',
+  validateIdParam(),
+  validate(reportQaSchema),
+  reportAnswerController.execute,
+);
+
+// Delete own question or answer
+router.delete('/:id', validateIdParam(), deleteQuestionController.execute);
+router.delete('/answers/:id', validateIdParam(), deleteAnswerController.execute);
+
+export default router;
@@ -0,0 +1,40 @@
+import Joi from 'joi';
+import { QaReportReason } from '../../models/ProductQa';
+
+export const productQuestionsQuerySchema = Joi.object({
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(50).default(10),
+  sortBy: Joi.string().valid('upvoteCount', 'createdAt').default('upvoteCount'),
+  answered: Joi.boolean(),
+});
+
+export const askQuestionSchema = Joi.object({
+  productId: Joi.string().uuid().required().messages({
+    'string.uuid': 'Product ID must be a valid UUID',
+    'any.required': 'Product ID is required',
+  }),
+  content: Joi.string().trim().min(5).max(1000).required().messages({
+    'string.min': 'Question must be at least 5 characters',
+    'string.max': 'Question cannot exceed 1000 characters',
+    'any.required': 'Question is required',
+  }),
+});
+
+export const answerQuestionSchema = Joi.object({
+  content: Joi.string().trim().min(2).max(2000).required().messages({
+    'string.min': 'Answer must be at least 2 characters',
+    'string.max': 'Answer cannot exceed 2000 characters',
+    'any.required': 'Answer is required',
+  }),
+});
+
+export const reportQaSchema = Joi.object({
+  reason: Joi.string()
+    .valid(...Object.values(QaReportReason))
+    .required()
+    .messages({
+      'any.only': `Reason must be one of: ${Object.values(QaReportReason).join(', ')}`,
+      'any.required': 'Reason is required',
+    }),
+  details: Joi.string().trim().max(500).allow('', null),
+});
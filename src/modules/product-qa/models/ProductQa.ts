@@ -0,0 +1,99 @@
+/**
+ * Why a question or answer was reported
+ */
+export enum QaReportReason {
+  SPAM = 'SPAM',
+  OFFENSIVE = 'OFFENSIVE',
+  OFF_TOPIC = 'OFF_TOPIC',
+  INCORRECT = 'INCORRECT',
+  OTHER = 'OTHER',
+}
+
+/**
+ * Public question about a product
+ */
+export interface ProductQuestion {
+  id: string;
+  productId: string;
+  userId: string;
+  content: string;
+  answerCount: number; // Visible answers only
+  upvoteCount: number;
+  reportCount: number;
+  isHidden: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Answer from the seller or a buyer who received the product
+ */
+export interface ProductAnswer {
+  id: string;
+  questionId: string;
+  userId: string;
+  content: string;
+  isSeller: boolean;
+  isVerifiedPurchase: boolean;
+  upvoteCount: number;
+  reportCount: number;
+  isHidden: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface QaAuthor {
+  id: string;
+  firstName: string;
+  lastName: string;
+  avatarUrl?: string | null;
+}
+
+export interface ProductAnswerWithUser extends ProductAnswer {
+  user: QaAuthor;
+  hasUpvoted: boolean;
+}
+
+export interface ProductQuestionWithAnswers extends ProductQuestion {
+  user: QaAuthor;
+  answers: ProductAnswerWithUser[]; // Seller answers first, then by upvotes
+  hasUpvoted: boolean;
+}
+
+/**
+ * A question or an answer, as the target of a vote or report
+ */
+export type QaTarget =
+  | { questionId: string; answerId?: never }
+  | { answerId: string; questionId?: never };
+
+/**
+ * Product as needed to check who may ask and answer
+ */
+export interface QaProduct {
+  id: string;
+  name: string;
+  sellerId: string;
+}
+
+export interface ProductQuestionQueryOptions {
+  page?: number;
+  limit?: number;
+  sortBy?: 'upvoteCount' | 'createdAt';
+  answered?: boolean;
+}
+
+export interface CreateQaReportDto {
+  reason: QaReportReason;
+  details?: string;
+}
+
+export interface QaVoteResult {
+  upvoted: boolean;
+  upvoteCount: number;
+}
+
+export interface ProductQaStatistics {
+  totalQuestions: number;
+  answeredQuestions: number;
+}
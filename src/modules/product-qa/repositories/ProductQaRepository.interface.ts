@@ -0,0 +1,49 @@
+import {
+  CreateQaReportDto,
+  ProductAnswer,
+  ProductAnswerWithUser,
+  ProductQaStatistics,
+  ProductQuestion,
+  ProductQuestionQueryOptions,
+  ProductQuestionWithAnswers,
+  QaProduct,
+  QaTarget,
+  QaVoteResult,
+} from '../models/ProductQa';
+import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
+
+export interface IProductQaRepository {
+  findProduct(productId: string): Promise<QaProduct | null>;
+  hasUserReceivedProduct(userId: string, productId: string): Promise<boolean>;
+
+  getProductQuestions(
+    productId: string,
+    options: ProductQuestionQueryOptions,
+    requestUserId?: string,
+  ): Promise<PaginatedResult<ProductQuestionWithAnswers>>;
+  getProductQaStatistics(productId: string): Promise<ProductQaStatistics>;
+
+  findQuestionById(id: string): Promise<ProductQuestion | null>;
+  findAnswerById(id: string): Promise<ProductAnswer | null>;
+
+  createQuestion(
+    userId: string,
+    productId: string,
+    content: string,
+  ): Promise<ProductQuestionWithAnswers>;
+  createAnswer(
+    questionId: string,
+    userId: string,
+    data: { content: string; isSeller: boolean; isVerifiedPurchase: boolean },
+  ): Promise<ProductAnswerWithUser>;
+  deleteQuestion(id: string): Promise<void>;
+  deleteAnswer(answer: ProductAnswer): Promise<void>;
+
+  toggleVote(userId: string, target: QaTarget): Promise<QaVoteResult>;
+  createReport(
+    userId: string,
+    target: QaTarget,
+    data: CreateQaReportDto,
+    hideThreshold: number,
+  ): Promise<{ hidden: boolean }>;
+}
@@ -0,0 +1,356 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { IProductQaRepository } from './ProductQaRepository.interface';
+import {
+  CreateQaReportDto,
+  ProductAnswer,
+  ProductAnswerWithUser,
+  ProductQaStatistics,
+  ProductQuestion,
+  ProductQuestionQueryOptions,
+  ProductQuestionWithAnswers,
+  QaProduct,
+  QaTarget,
+  QaVoteResult,
+} from '../models/ProductQa';
+import { OrderStatus } from '../../order/models/OrderEnums';
+import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
+import { PaginationUtils } from '../../../shared/utils/PaginationUtils';
+import { Logger } from '../../../core/logging/Logger';
+import { AppError } from '../../../core/errors/AppError';
+
+const AUTHOR_SELECT = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  avatarUrl: true,
+} satisfies Prisma.UserSelect;
+
+/**
+ * Questions and answers keep their upvote, report and visible answer counts in
+ * columns, updated in the same transaction as the vote, report or answer
+ */
+export class ProductQaRepository implements IProductQaRepository {
+  private logger = Logger.getInstance();
+
+  constructor(private prisma: PrismaClient) {}
+
+  async findProduct(productId: string): Promise<QaProduct | null> {
+    try {
+      return await this.prisma.product.findFirst({
+        where: {
+          id: productId,
+          deletedAt: null,
+          status: { in: ['PUBLISHED', 'OUT_OF_STOCK'] },
+        },
+        select: { id: true, name: true, sellerId: true },
+      });
+    } catch (error) {
+      this.logger.error(`Error finding product for Q&A: ${error}`);
+      throw AppError.internal('Failed to get product', 'DATABASE_ERROR');
+    }
+  }
+
+  async hasUserReceivedProduct(userId: string, productId: string): Promise<boolean> {
+    try {
+      const orderItem = await this.prisma.orderItem.findFirst({
+        where: {
+          productId,
+          order: {
+            userId,
+            status: OrderStatus.DELIVERED,
+          },
+        },
+        select: { id: true },
+      });
+
+      return !!orderItem;
+    } catch (error) {
+      this.logger.error(`Error checking product purchase: ${error}`);
+      throw AppError.internal('Failed to check product purchase', 'DATABASE_ERROR');
+    }
+  }
+
+  async getProductQuestions(
+    productId: string,
+    options: ProductQuestionQueryOptions,
+    requestUserId?: string,
+  ): Promise<PaginatedResult<ProductQuestionWithAnswers>> {
+    try {
+      const { page = 1, limit = 10, sortBy = 'upvoteCount', answered } = options;
+
+      const where: Prisma.ProductQuestionWhereInput = {
+        productId,
+        isHidden: false,
+        answerCount: answered === true ? { gt: 0 } : answered === false ? 0 : undefined,
+      };
+
+      const [questions, total] = await Promise.all([
+        this.prisma.productQuestion.findMany({
+          where,
+          include: this.questionInclude(requestUserId),
+          orderBy:
+            sortBy === 'upvoteCount'
+              ? [{ upvoteCount: 'desc' }, { createdAt: 'desc' }]
+              : [{ createdAt: 'desc' }],
+          skip: PaginationUtils.calculateSkip(page, limit),
+          take: limit,
+        }),
+        this.prisma.productQuestion.count({ where }),
+      ]);
+
+      return PaginationUtils.createPaginatedResult(
+        questions.map((question) => this.transformQuestion(question)),
+        total,
+        page,
+        limit,
+      );
+    } catch (error) {
+      this.logger.error(`Error getting product questions: ${error}`);
+      throw AppError.internal('Failed to get product questions', 'DATABASE_ERROR');
+    }
+  }
+
+  async getProductQaStatistics(productId: string): Promise<ProductQaStatistics> {
+    try {
+      const [totalQuestions, answeredQuestions] = await Promise.all([
+        this.prisma.productQuestion.count({
+          where: { productId, isHidden: false },
+        }),
+        this.prisma.productQuestion.count({
+          where: { productId, isHidden: false, answerCount: { gt: 0 } },
+        }),
+      ]);
+
+      return { totalQuestions, answeredQuestions };
+    } catch (error) {
+      this.logger.error(`Error getting product Q&A statistics: ${error}`);
+      throw AppError.internal('Failed to get product Q&A statistics', 'DATABASE_ERROR');
+    }
+  }
+
+  async findQuestionById(id: string): Promise<ProductQuestion | null> {
+    try {
+      return await this.prisma.productQuestion.findUnique({ where: { id } });
+    } catch (error) {
+      this.logger.error(`Error finding question: ${error}`);
+      throw AppError.internal('Failed to get question', 'DATABASE_ERROR');
+    }
+  }
+
+  async findAnswerById(id: string): Promise<ProductAnswer | null> {
+    try {
+      return await this.prisma.productAnswer.findUnique({ where: { id } });
+    } catch (error) {
+      this.logger.error(`Error finding answer: ${error}`);
+      throw AppError.internal('Failed to get answer', 'DATABASE_ERROR');
+    }
+  }
+
+  async createQuestion(
+    userId: string,
+    productId: string,
+    content: string,
+  ): Promise<ProductQuestionWithAnswers> {
+    try {
+      const question = await this.prisma.productQuestion.create({
+        data: { userId, productId, content },
+        include: this.questionInclude(),
+      });
+
+      return this.transformQuestion(question);
+    } catch (error) {
+      this.logger.error(`Error creating question: ${error}`);
+      throw AppError.internal('Failed to create question', 'DATABASE_ERROR');
+    }
+  }
+
+  async createAnswer(
+    questionId: string,
+    userId: string,
+    data: { content: string; isSeller: boolean; isVerifiedPurchase: boolean },
+  ): Promise<ProductAnswerWithUser> {
+    try {
+      const answer = await this.prisma.$transaction(async (tx) => {
+        const answer = await tx.productAnswer.create({
+          data: { questionId, userId, ...data },
+          include: { user: { select: AUTHOR_SELECT } },
+        });
+
+        await tx.productQuestion.update({
+          where: { id: questionId },
+          data: { answerCount: { increment: 1 } },
+        });
+
+        return answer;
+      });
+
+      return { ...answer, hasUpvoted: false };
+    } catch (error) {
+      this.logger.error(`Error creating answer: ${error}`);
+      throw AppError.internal('Failed to create answer', 'DATABASE_ERROR');
+    }
+  }
+
+  async deleteQuestion(id: string): Promise<void> {
+    try {
+      // Answers, votes and reports cascade
+      await this.prisma.productQuestion.delete({ where: { id } });
+    } catch (error) {
+      this.logger.error(`Error deleting question: ${error}`);
+      throw AppError.internal('Failed to delete question', 'DATABASE_ERROR');
+    }
+  }
+
+  async deleteAnswer(answer: ProductAnswer): Promise<void> {
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        await tx.productAnswer.delete({ where: { id: answer.id } });
+
+        // Hidden answers were already taken out of the count
+        if (!answer.isHidden) {
+          await tx.productQuestion.update({
+            where: { id: answer.questionId },
+            data: { answerCount: { decrement: 1 } },
+          });
+        }
+      });
+    } catch (error) {
+      this.logger.error(`Error deleting answer: ${error}`);
+      throw AppError.internal('Failed to delete answer', 'DATABASE_ERROR');
+    }
+  }
+
+  async toggleVote(userId: string, target: QaTarget): Promise<QaVoteResult> {
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        const existing = await tx.productQaVote.findFirst({
+          where: { userId, ...target },
+          select: { id: true },
+        });
+
+        if (existing) {
+          await tx.productQaVote.delete({ where: { id: existing.id } });
+        } else {
+          await tx.productQaVote.create({ data: { userId, ...target } });
+        }
+
+        const upvoteCount = existing ? { decrement: 1 } : { increment: 1 };
+        const updated =
+          target.questionId !== undefined
+            ? await tx.productQuestion.update({
+                where: { id: target.questionId },
+                data: { upvoteCount },
+                select: { upvoteCount: true },
+              })
+            : await tx.productAnswer.update({
+                where: { id: target.answerId },
+                data: { upvoteCount },
+                select: { upvoteCount: true },
+              });
+
+        return { upvoted: !existing, upvoteCount: updated.upvoteCount };
+      });
+    } catch (error) {
+      this.logger.error(`Error toggling Q&A vote: ${error}`);
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw AppError.conflict('Vote is already being recorded', 'VOTE_IN_PROGRESS');
+      }
+      throw AppError.internal('Failed to update vote', 'DATABASE_ERROR');
+    }
+  }
+
+  async createReport(
+    userId: string,
+    target: QaTarget,
+    data: CreateQaReportDto,
+    hideThreshold: number,
+  ): Promise<{ hidden: boolean }> {
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        await tx.productQaReport.create({
+          data: { userId, ...target, reason: data.reason, details: data.details },
+        });
+
+        if (target.questionId !== undefined) {
+          const question = await tx.productQuestion.update({
+            where: { id: target.questionId },
+            data: { reportCount: { increment: 1 } },
+          });
+
+          if (question.isHidden || question.reportCount < hideThreshold) {
+            return { hidden: question.isHidden };
+          }
+
+          await tx.productQuestion.update({
+            where: { id: question.id },
+            data: { isHidden: true },
+          });
+
+          return { hidden: true };
+        }
+
+        const answer = await tx.productAnswer.update({
+          where: { id: target.answerId },
+          data: { reportCount: { increment: 1 } },
+        });
+
+        if (answer.isHidden || answer.reportCount < hideThreshold) {
+          return { hidden: answer.isHidden };
+        }
+
+        await tx.productAnswer.update({
+          where: { id: answer.id },
+          data: { isHidden: true },
+        });
+        await tx.productQuestion.update({
+          where: { id: answer.questionId },
+          data: { answerCount: { decrement: 1 } },
+        });
+
+        return { hidden: true };
+      });
+    } catch (error) {
+      this.logger.error(`Error reporting Q&A content: ${error}`);
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw AppError.conflict('You have already reported this', 'ALREADY_REPORTED');
+      }
+      throw AppError.internal('Failed to report content', 'DATABASE_ERROR');
+    }
+  }
+
+  private questionInclude(requestUserId?: string) {
+    const votes = requestUserId
+      ? { where: { userId: requestUserId }, select: { id: true } }
+      : false;
+
+    return {
+      user: { select: AUTHOR_SELECT },
+      votes,
+      answers: {
+        where: { isHidden: false },
+        orderBy: [
+          { isSeller: 'desc' as const },
+          { upvoteCount: 'desc' as const },
+          { createdAt: 'asc' as const },
+        ],
+        include: {
+          user: { select: AUTHOR_SELECT },
+          votes,
+        },
+      },
+    } satisfies Prisma.ProductQuestionInclude;
+  }
+
+  private transformQuestion(question: any): ProductQuestionWithAnswers {
+    const { votes, answers, ...rest } = question;
+
+    return {
+      ...rest,
+      hasUpvoted: Array.isArray(votes) && votes.length > 0,
+      answers: answers.map(({ votes, ...answer }: any) => ({
+        ...answer,
+        hasUpvoted: Array.isArray(votes) && votes.length > 0,
+      })),
+    };
+  }
+}
@@ -0,0 +1,35 @@
+import {
+  CreateQaReportDto,
+  ProductAnswerWithUser,
+  ProductQaStatistics,
+  ProductQuestionQueryOptions,
+  ProductQuestionWithAnswers,
+  QaTarget,
+  QaVoteResult,
+} from '../models/ProductQa';
+import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
+
+export interface IProductQaService {
+  getProductQuestions(
+    productId: string,
+    options?: ProductQuestionQueryOptions,
+    requestUserId?: string,
+  ): Promise<PaginatedResult<ProductQuestionWithAnswers>>;
+  getProductQaStatistics(productId: string): Promise<ProductQaStatistics>;
+
+  askQuestion(
+    userId: string,
+    productId: string,
+    content: string,
+  ): Promise<ProductQuestionWithAnswers>;
+  answerQuestion(
+    userId: string,
+    questionId: string,
+    content: string,
+  ): Promise<ProductAnswerWithUser>;
+  deleteQuestion(userId: string, questionId: string): Promise<void>;
+  deleteAnswer(userId: string, answerId: string): Promise<void>;
+
+  toggleUpvote(userId: string, target: QaTarget): Promise<QaVoteResult>;
+  report(userId: string, target: QaTarget, data: CreateQaReportDto): Promise<{ hidden: boolean }>;
+}
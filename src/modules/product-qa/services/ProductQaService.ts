@@ -0,0 +1,258 @@
+import { IProductQaService } from './ProductQaService.interface';
+import {
+  CreateQaReportDto,
+  ProductAnswer,
+  ProductAnswerWithUser,
+  ProductQaStatistics,
+  ProductQuestion,
+  ProductQuestionQueryOptions,
+  ProductQuestionWithAnswers,
+  QaProduct,
+  QaTarget,
+  QaVoteResult,
+} from '../models/ProductQa';
+import { IProductQaRepository } from '../repositories/ProductQaRepository.interface';
+import { INotificationService } from '../../notification/services/NotificationService.interface';
+import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
+import { AppError } from '../../../core/errors/AppError';
+import { Logger } from '../../../core/logging/Logger';
+import container from '../../../core/di/container';
+
+const REPORT_HIDE_THRESHOLD = 3; // Distinct reports before a question or answer is hidden
+
+export class ProductQaService implements IProductQaService {
+  private productQaRepository: IProductQaRepository;
+  private notificationService: INotificationService;
+  private logger = Logger.getInstance();
+
+  constructor() {
+    this.productQaRepository = container.resolve<IProductQaRepository>('productQaRepository');
+    this.notificationService = container.resolve<INotificationService>('notificationService');
+  }
+
+  async getProductQuestions(
+    productId: string,
+    options: ProductQuestionQueryOptions = {},
+    requestUserId?: string,
+  ): Promise<PaginatedResult<ProductQuestionWithAnswers>> {
+    try {
+      await this.getProductOrThrow(productId);
+      return await this.productQaRepository.getProductQuestions(productId, options, requestUserId);
+    } catch (error) {
+      this.logger.error(`Error getting product questions: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to get product questions', 'SERVICE_ERROR');
+    }
+  }
+
+  async getProductQaStatistics(productId: string): Promise<ProductQaStatistics> {
+    try {
+      return await this.productQaRepository.getProductQaStatistics(productId);
+    } catch (error) {
+      this.logger.error(`Error getting product Q&A statistics: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to get product Q&A statistics', 'SERVICE_ERROR');
+    }
+  }
+
+  async askQuestion(
+    userId: string,
+    productId: string,
+    content: string,
+  ): Promise<ProductQuestionWithAnswers> {
+    try {
+      const product = await this.getProductOrThrow(productId);
+
+      if (product.sellerId === userId) {
+        throw AppError.badRequest(
+          'You cannot ask a question about your own product',
+          'OWN_PRODUCT',
+        );
+      }
+
+      const question = await this.productQaRepository.createQuestion(userId, productId, content);
+
+      await this.notificationService.notifyProductQuestion(
+        product.sellerId,
+        userId,
+        product.id,
+        product.name,
+        question.id,
+      );
+
+      this.logger.info(`User ${userId} asked question ${question.id} about product ${productId}`);
+
+      return question;
+    } catch (error) {
+      this.logger.error(`Error asking question: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to ask question', 'SERVICE_ERROR');
+    }
+  }
+
+  async answerQuestion(
+    userId: string,
+    questionId: string,
+    content: string,
+  ): Promise<ProductAnswerWithUser> {
+    try {
+      const question = await this.getQuestionOrThrow(questionId);
+      const product = await this.getProductOrThrow(question.productId);
+
+      // Only the seller and buyers who received the product know it well enough
+      const isSeller = product.sellerId === userId;
+      const isVerifiedPurchase =
+        !isSeller && (await this.productQaRepository.hasUserReceivedProduct(userId, product.id));
+
+      if (!isSeller && !isVerifiedPurchase) {
+        throw AppError.forbidden(
+          'Only the seller and buyers who received this product can answer',
+          'NOT_ALLOWED_TO_ANSWER',
+        );
+      }
+
+      const answer = await this.productQaRepository.createAnswer(questionId, userId, {
+        content,
+        isSeller,
+        isVerifiedPurchase,
+      });
+
+      if (question.userId !== userId) {
+        await this.notificationService.notifyProductAnswer(
+          question.userId,
+          userId,
+          product.id,
+          product.name,
+          questionId,
+          isSeller,
+        );
+      }
+
+      this.logger.info(`User ${userId} answered question ${questionId}`);
+
+      return answer;
+    } catch (error) {
+      this.logger.error(`Error answering question: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to answer question', 'SERVICE_ERROR');
+    }
+  }
+
+  async deleteQuestion(userId: string, questionId: string): Promise<void> {
+    try {
+      // Authors can still remove their hidden questions
+      const question = await this.productQaRepository.findQuestionById(questionId);
+      if (!question) {
+        throw AppError.notFound('Question not found', 'QUESTION_NOT_FOUND');
+      }
+
+      if (question.userId !== userId) {
+        throw AppError.forbidden('You can only delete your own questions', 'FORBIDDEN');
+      }
+
+      await this.productQaRepository.deleteQuestion(questionId);
+    } catch (error) {
+      this.logger.error(`Error deleting question: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to delete question', 'SERVICE_ERROR');
+    }
+  }
+
+  async deleteAnswer(userId: string, answerId: string): Promise<void> {
+    try {
+      const answer = await this.productQaRepository.findAnswerById(answerId);
+      if (!answer) {
+        throw AppError.notFound('Answer not found', 'ANSWER_NOT_FOUND');
+      }
+
+      if (answer.userId !== userId) {
+        throw AppError.forbidden('You can only delete your own answers', 'FORBIDDEN');
+      }
+
+      await this.productQaRepository.deleteAnswer(answer);
+    } catch (error) {
+      this.logger.error(`Error deleting answer: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to delete answer', 'SERVICE_ERROR');
+    }
+  }
+
+  async toggleUpvote(userId: string, target: QaTarget): Promise<QaVoteResult> {
+    try {
+      const content = await this.getTargetOrThrow(target);
+
+      if (content.userId === userId) {
+        throw AppError.badRequest('You cannot upvote your own post', 'OWN_CONTENT');
+      }
+
+      return await this.productQaRepository.toggleVote(userId, target);
+    } catch (error) {
+      this.logger.error(`Error toggling Q&A upvote: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to update vote', 'SERVICE_ERROR');
+    }
+  }
+
+  async report(
+    userId: string,
+    target: QaTarget,
+    data: CreateQaReportDto,
+  ): Promise<{ hidden: boolean }> {
+    try {
+      const content = await this.getTargetOrThrow(target);
+
+      if (content.userId === userId) {
+        throw AppError.badRequest('You cannot report your own post', 'OWN_CONTENT');
+      }
+
+      const result = await this.productQaRepository.createReport(
+        userId,
+        target,
+        data,
+        REPORT_HIDE_THRESHOLD,
+      );
+
+      if (result.hidden) {
+        this.logger.info(
+          `Q&A ${target.questionId ? 'question' : 'answer'} ${content.id} is hidden after reports`,
+        );
+      }
+
+      return result;
+    } catch (error) {
+      this.logger.error(`Error reporting Q&A content: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to report content', 'SERVICE_ERROR');
+    }
+  }
+
+  private async getProductOrThrow(productId: string): Promise<QaProduct> {
+    const product = await this.productQaRepository.findProduct(productId);
+    if (!product) {
+      throw AppError.notFound('Product not found', 'PRODUCT_NOT_FOUND');
+    }
+    return product;
+  }
+
+  private async getQuestionOrThrow(questionId: string): Promise<ProductQuestion> {
+    const question = await this.productQaRepository.findQuestionById(questionId);
+    if (!question || question.isHidden) {
+      throw AppError.notFound('Question not found', 'QUESTION_NOT_FOUND');
+    }
+    return question;
+  }
+
+  private async getAnswerOrThrow(answerId: string): Promise<ProductAnswer> {
+    const answer = await this.productQaRepository.findAnswerById(answerId);
+    if (!answer || answer.isHidden) {
+      throw AppError.notFound('Answer not found', 'ANSWER_NOT_FOUND');
+    }
+    return answer;
+  }
+
+  private getTargetOrThrow(target: QaTarget): Promise<ProductQuestion | ProductAnswer> {
+    return target.questionId !== undefined
+      ? this.getQuestionOrThrow(target.questionId)
+      : this.getAnswerOrThrow(target.answerId);
+  }
+}
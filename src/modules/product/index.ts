@@ -8,14 +8,21 @@
 export * from './models/Product';
 export * from './models/Category';
 export * from './models/ProductEnums';
+export * from './models/ProductImport';
+export * from './models/ProductSearch';
+export * from './models/Recommendation';
 
 // Export service interfaces
 export * from './services/ProductService.interface';
 export * from './services/CategoryService.interface';
+export * from './services/ProductImportService.interface';
+export * from './services/RecommendationService.interface';
 
 // Export repository interfaces
 export * from './repositories/ProductRepository.interface';
 export * from './repositories/CategoryRepository.interface';
+export * from './repositories/ProductSearchRepository.interface';
+export * from './repositories/RecommendationRepository.interface';
 
 // Export validators
 export * from './interface/validators/product.validator';
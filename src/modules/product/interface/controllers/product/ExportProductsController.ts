@@ -0,0 +1,32 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../../shared/baseClasses/BaseController';
+import { IProductImportService } from '../../../services/ProductImportService.interface';
+import { ProductFileFormat } from '../../../models/ProductImport';
+import { AppError } from '../../../../../core/errors/AppError';
+import container from '../../../../../core/di/container';
+
+export class ExportProductsController extends BaseController {
+  private productImportService: IProductImportService;
+
+  constructor() {
+    super();
+    this.productImportService = container.resolve<IProductImportService>('productImportService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    this.validateAuth(req);
+
+    if (req.user!.role !== 'ARTISAN') {
+      throw AppError.forbidden('Only artisans can export products');
+    }
+
+    const file = await this.productImportService.exportProducts(
+      req.user!.id,
+      req.query.format as ProductFileFormat,
+    );
+
+    res.setHeader('Content-Type', `${file.contentType}; charset=utf-8`);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.status(200).send(file.content);
+  }
+}
@@ -0,0 +1,47 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../../shared/utils/ApiResponse';
+import { IProductService } from '../../../services/ProductService.interface';
+import { FacetedSearchOptions, ProductSearchSortBy } from '../../../models/ProductSearch';
+import container from '../../../../../core/di/container';
+
+export class FacetedSearchProductsController extends BaseController {
+  private productService: IProductService;
+
+  constructor() {
+    super();
+    this.productService = container.resolve<IProductService>('productService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const attributes = req.query.attributes as Record<string, string | string[]> | undefined;
+
+    const options: FacetedSearchOptions = {
+      q: req.query.q as string,
+      page: req.query.page as unknown as number,
+      limit: req.query.limit as unknown as number,
+      categoryIds: this.toList(req.query.categoryIds as string | string[]),
+      sellerIds: this.toList(req.query.sellerIds as string | string[]),
+      minPrice: req.query.minPrice as unknown as number,
+      maxPrice: req.query.maxPrice as unknown as number,
+      minRating: req.query.minRating as unknown as number,
+      inStock: req.query.inStock as unknown as boolean,
+      attributes: attributes
+        ? Object.fromEntries(
+            Object.entries(attributes).map(([key, values]) => [key, this.toList(values)!]),
+          )
+        : undefined,
+      sortBy: req.query.sortBy as ProductSearchSortBy,
+      sortOrder: req.query.sortOrder as 'asc' | 'desc',
+    };
+
+    const result = await this.productService.facetedSearch(options);
+
+    ApiResponse.success(res, result, 'Search results retrieved successfully');
+  }
+
+  private toList(value?: string | string[]): string[] | undefined {
+    if (value === undefined) return undefined;
+    return Array.isArray(value) ? value : [value];
+  }
+}
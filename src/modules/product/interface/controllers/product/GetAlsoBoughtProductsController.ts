@@ -0,0 +1,23 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../../shared/utils/ApiResponse';
+import { IRecommendationService } from '../../../services/RecommendationService.interface';
+import container from '../../../../../core/di/container';
+
+export class GetAlsoBoughtProductsController extends BaseController {
+  private recommendationService: IRecommendationService;
+
+  constructor() {
+    super();
+    this.recommendationService = container.resolve<IRecommendationService>('recommendationService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const products = await this.recommendationService.getAlsoBoughtProducts(
+      req.params.id,
+      req.query.limit as unknown as number,
+    );
+
+    ApiResponse.success(res, products, 'Also bought products retrieved successfully');
+  }
+}
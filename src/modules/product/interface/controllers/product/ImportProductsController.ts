@@ -0,0 +1,51 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../../shared/utils/ApiResponse';
+import { IProductImportService } from '../../../services/ProductImportService.interface';
+import { ProductFileFormat } from '../../../models/ProductImport';
+import { AppError } from '../../../../../core/errors/AppError';
+import container from '../../../../../core/di/container';
+
+export class ImportProductsController extends BaseController {
+  private productImportService: IProductImportService;
+
+  constructor() {
+    super();
+    this.productImportService = container.resolve<IProductImportService>('productImportService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    this.validateAuth(req);
+
+    if (req.user!.role !== 'ARTISAN') {
+      throw AppError.forbidden('Only artisans can import products');
+    }
+
+    if (!req.file) {
+      throw AppError.badRequest('No file uploaded');
+    }
+
+    const format = (req.query.format as ProductFileFormat) || this.detectFormat(req.file);
+    const dryRun = req.query.dryRun as unknown as boolean;
+
+    const result = await this.productImportService.importProducts(
+      req.user!.id,
+      { content: req.file.buffer.toString('utf8'), format },
+      dryRun,
+    );
+
+    const message = result.applied
+      ? 'Products imported successfully'
+      : result.failed > 0
+        ? 'Import file has errors, no products were saved'
+        : 'Import file is valid';
+
+    ApiResponse.success(res, result, message);
+  }
+
+  private detectFormat(file: Express.Multer.File): ProductFileFormat {
+    const isJson =
+      file.mimetype === 'application/json' || file.originalname.toLowerCase().endsWith('.json');
+    return isJson ? ProductFileFormat.JSON : ProductFileFormat.CSV;
+  }
+}
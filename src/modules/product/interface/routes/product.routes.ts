@@ -1,4 +1,5 @@
 import { Router } from 'express';
+import multer from 'multer';
 import { validate } from '../../../../shared/middlewares/validate.middleware';
 import { authenticate } from '../../../../shared/middlewares/auth.middleware';
 import { validateIdParam } from '../../../../shared/middlewares/request-validation.middleware';
@@ -16,7 +17,13 @@ import { GetPriceHistoryController } from '../controllers/product/GetPriceHistor
 import { PublishProductController } from '../controllers/product/PublishProductController';
 import { UnpublishProductController } from '../controllers/product/UnpublishProductController';
 import { SearchProductsController } from '../controllers/product/SearchProductsController';
+import { FacetedSearchProductsController } from '../controllers/product/FacetedSearchProductsController';
 import { GetProductStatsController } from '../controllers/product/GetProductStatsController';
+import { ImportProductsController } from '../controllers/product/ImportProductsController';
+import { GetRelatedProductsController } from '../controllers/product/GetRelatedProductsController';
+import { GetAlsoBoughtProductsController } from '../controllers/product/GetAlsoBoughtProductsController';
+import { GetForYouProductsController } from '../controllers/product/GetForYouProductsController';
+import { ExportProductsController } from '../controllers/product/ExportProductsController';
 
 // Validators
 import {
@@ -25,9 +32,28 @@ import {
   updatePriceSchema,
   getProductsQuerySchema,
   searchProductsQuerySchema,
+  facetedSearchQuerySchema,
+  importProductsQuerySchema,
+  exportProductsQuerySchema,
+  recommendationQuerySchema,
 } from '../validators/product.validator';
 
 const router = Router();
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB
+  },
+  fileFilter: (req, file, cb) => {
+    const allowedTypes = ['text/csv', 'application/json', 'text/plain', 'application/vnd.ms-excel'];
+
+    if (allowedTypes.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type'));
+    }
+  },
+});
 
 // Initialize controllers
 const createProductController = new CreateProductController();
@@ -42,7 +68,13 @@ const getPriceHistoryController = new GetPriceHistoryController();
 const publishProductController = new PublishProductController();
 const unpublishProductController = new UnpublishProductController();
 const searchProductsController = new SearchProductsController();
+const facetedSearchProductsController = new FacetedSearchProductsController();
 const getProductStatsController = new GetProductStatsController();
+const importProductsController = new ImportProductsController();
+const getRelatedProductsController = new GetRelatedProductsController();
+const getAlsoBoughtProductsController = new GetAlsoBoughtProductsController();
+const getForYouProductsController = new GetForYouProductsController();
+const exportProductsController = new ExportProductsController();
 
 // === PUBLIC ROUTES ===
 router.get('/', validate(getProductsQuerySchema, 'query'), getProductsController.execute);
@@ -51,13 +83,50 @@ router.get(
   validate(searchProductsQuerySchema, 'query'),
   searchProductsController.execute,
 );
+router.get(
+  '/search/faceted',
+  validate(facetedSearchQuerySchema, 'query'),
+  facetedSearchProductsController.execute,
+);
 router.get('/slug/:slug', getProductBySlugController.execute);
+// Personal recommendations (protected, registered before /:id)
+router.get(
+  '/for-you',
+  authenticate,
+  validate(recommendationQuerySchema, 'query'),
+  getForYouProductsController.execute,
+);
 router.get('/:id', validateIdParam(), getProductController.execute);
 router.get('/:id/price-history', validateIdParam(), getPriceHistoryController.execute);
+router.get(
+  '/:id/related',
+  validateIdParam(),
+  validate(recommendationQuerySchema, 'query'),
+  getRelatedProductsController.execute,
+);
+router.get(
+  '/:id/also-bought',
+  validateIdParam(),
+  validate(recommendationQuerySchema, 'query'),
+  getAlsoBoughtProductsController.execute,
+);
 
 // === PROTECTED ROUTES ===
 router.get('/my/products', authenticate, getMyProductsController.execute);
 router.get('/my/stats', authenticate, getProductStatsController.execute);
+router.get(
+  '/my/export',
+  authenticate,
+  validate(exportProductsQuerySchema, 'query'),
+  exportProductsController.execute,
+);
+router.post(
+  '/my/import',
+  authenticate,
+  importUpload.single('file'),
+  validate(importProductsQuerySchema, 'query'),
+  importProductsController.execute,
+);
 
 router.post('/', authenticate, validate(createProductSchema), createProductController.execute);
 router.patch(
@@ -1,5 +1,6 @@
 import Joi from 'joi';
 import { ProductStatus } from '../../models/ProductEnums';
+import { ProductFileFormat } from '../../models/ProductImport';
 
 export const createProductSchema = Joi.object({
   name: Joi.string().required().min(3).max(200).messages({
@@ -22,6 +23,9 @@ export const createProductSchema = Joi.object({
     'number.min': 'Quantity cannot be negative',
     'any.required': 'Quantity is required',
   }),
+  lowStockThreshold: Joi.number().integer().min(0).allow(null).messages({
+    'number.min': 'Low stock threshold cannot be negative',
+  }),
   minOrderQty: Joi.number().integer().min(1).default(1).messages({
     'number.min': 'Minimum order quantity must be at least 1',
   }),
@@ -141,3 +145,81 @@ export const searchProductsQuerySchema = Joi.object({
   minPrice: Joi.number().min(0),
   maxPrice: Joi.number().min(Joi.ref('minPrice')),
 });
+
+export const facetedSearchQuerySchema = Joi.object({
+  q: Joi.string().trim().max(100).allow(''),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(50).default(20),
+  categoryIds: Joi.alternatives().try(Joi.string().uuid(), Joi.array().items(Joi.string().uuid())),
+  sellerIds: Joi.alternatives().try(Joi.string().uuid(), Joi.array().items(Joi.string().uuid())),
+  minPrice: Joi.number().min(0),
+  maxPrice: Joi.number().min(Joi.ref('minPrice')),
+  minRating: Joi.number().min(1).max(5),
+  inStock: Joi.boolean(),
+  // ?attributes[color]=Red&attributes[color]=Blue&attributes[material]=Wood
+  attributes: Joi.object().pattern(
+    Joi.string().max(50),
+    Joi.alternatives().try(Joi.string().max(100), Joi.array().items(Joi.string().max(100)).max(20)),
+  ),
+  sortBy: Joi.string()
+    .valid('relevance', 'createdAt', 'price', 'avgRating', 'salesCount')
+    .default('relevance'),
+  sortOrder: Joi.string().valid('asc', 'desc').default('desc'),
+});
+
+export const recommendationQuerySchema = Joi.object({
+  limit: Joi.number().integer().min(1).max(50).default(10),
+});
+
+// Bulk import / export
+export const importProductRecordSchema = Joi.object({
+  sku: Joi.string().trim().max(100),
+  name: Joi.string().trim().required().min(3).max(200),
+  description: Joi.string().max(2000).allow(''),
+  price: Joi.number().positive().required(),
+  discountPrice: Joi.number().positive().less(Joi.ref('price')),
+  quantity: Joi.number().integer().min(0).required(),
+  lowStockThreshold: Joi.number().integer().min(0),
+  status: Joi.string().valid(
+    ProductStatus.DRAFT,
+    ProductStatus.PUBLISHED,
+    ProductStatus.OUT_OF_STOCK,
+  ),
+  categories: Joi.array().items(Joi.string().trim()).min(1).max(5).required().messages({
+    'array.min': 'At least one category is required',
+    'array.max': 'Maximum 5 categories allowed',
+  }),
+  tags: Joi.array().items(Joi.string().max(30)).max(10),
+  images: Joi.array().items(Joi.string().uri()).min(1).max(10).required().messages({
+    'array.min': 'At least one image is required',
+    'array.max': 'Maximum 10 images allowed',
+  }),
+  attributes: Joi.object(),
+  variants: Joi.array()
+    .items(
+      Joi.object({
+        sku: Joi.string().trim().max(100),
+        name: Joi.string().max(200).allow(''),
+        price: Joi.number().positive(),
+        discountPrice: Joi.number().positive(),
+        quantity: Joi.number().integer().min(0).required(),
+        attributes: Joi.object().required(),
+        images: Joi.array().items(Joi.string().uri()).max(10),
+      }),
+    )
+    .max(20)
+    .messages({
+      'array.max': 'Maximum 20 variants allowed',
+    }),
+});
+
+export const importProductsQuerySchema = Joi.object({
+  format: Joi.string().valid(...Object.values(ProductFileFormat)),
+  dryRun: Joi.boolean().default(true),
+});
+
+export const exportProductsQuerySchema = Joi.object({
+  format: Joi.string()
+    .valid(...Object.values(ProductFileFormat))
+    .default(ProductFileFormat.CSV),
+});
@@ -10,6 +10,10 @@ export interface Product {
   price: Decimal;
   discountPrice?: Decimal | null;
   quantity: number;
+  reservedQuantity: number; // Held by checkouts awaiting payment
+  availableQuantity?: number; // quantity - reservedQuantity
+  lowStockThreshold?: number | null; // Seller is alerted at or below this quantity
+  lowStockAlertedAt?: Date | null;
   minOrderQty: number;
   maxOrderQty?: number | null;
   sku?: string | null;
@@ -45,6 +49,9 @@ export interface ProductVariant {
   price: number;
   discountPrice?: number | null;
   quantity: number;
+  reservedQuantity: number; // Held by checkouts awaiting payment
+  availableQuantity?: number; // quantity - reservedQuantity
+  lowStockAlertedAt?: Date | null;
   images: string[];
   weight?: number | null;
   dimensions?: Record<string, any> | null;
@@ -115,6 +122,7 @@ export interface CreateProductDto {
   price: number;
   discountPrice?: number;
   quantity: number;
+  lowStockThreshold?: number;
   minOrderQty?: number;
   maxOrderQty?: number;
   sku?: string;
@@ -142,6 +150,7 @@ export interface UpdateProductDto {
   price?: number;
   discountPrice?: number;
   quantity?: number;
+  lowStockThreshold?: number | null;
   minOrderQty?: number;
   maxOrderQty?: number;
   sku?: string;
@@ -160,6 +169,7 @@ export interface UpdateProductDto {
   specifications?: Record<string, any>;
   customFields?: Record<string, any>;
   categoryIds?: string[];
+  variants?: CreateProductVariantDto[];
 }
 
 export interface CreateProductVariantDto {
@@ -0,0 +1,87 @@
+import { ProductStatus } from './ProductEnums';
+
+export enum ProductFileFormat {
+  CSV = 'csv',
+  JSON = 'json',
+}
+
+/**
+ * CSV layout: one row per product, or one row per variant with the product columns
+ * repeated (or left empty) on the following rows of the same product SKU.
+ * Lists (categories, tags, images) are separated by "|", attributes are JSON objects.
+ */
+export const PRODUCT_CSV_COLUMNS = [
+  'sku',
+  'name',
+  'description',
+  'price',
+  'discountPrice',
+  'quantity',
+  'lowStockThreshold',
+  'status',
+  'categories',
+  'tags',
+  'images',
+  'attributes',
+  'variantSku',
+  'variantName',
+  'variantPrice',
+  'variantDiscountPrice',
+  'variantQuantity',
+  'variantAttributes',
+  'variantImages',
+];
+
+export interface ProductImportVariant {
+  sku?: string;
+  name?: string;
+  price?: number;
+  discountPrice?: number;
+  quantity: number;
+  attributes: Record<string, any>;
+  images?: string[];
+}
+
+/**
+ * A product as it appears in an import or export file; categories are slugs
+ */
+export interface ProductImportRecord {
+  sku?: string;
+  name: string;
+  description?: string;
+  price: number;
+  discountPrice?: number;
+  quantity: number;
+  lowStockThreshold?: number;
+  status?: ProductStatus;
+  categories: string[];
+  tags?: string[];
+  images: string[];
+  attributes?: Record<string, any>;
+  variants?: ProductImportVariant[];
+}
+
+export interface ProductImportRowResult {
+  row: number; // CSV line or 1-based position in the JSON array
+  sku?: string | null;
+  name?: string;
+  action?: 'CREATE' | 'UPDATE';
+  productId?: string;
+  errors: string[];
+}
+
+export interface ProductImportResult {
+  dryRun: boolean;
+  applied: boolean; // false when the file has errors; nothing is written until every row is valid
+  total: number;
+  created: number;
+  updated: number;
+  failed: number;
+  rows: ProductImportRowResult[];
+}
+
+export interface ProductExportFile {
+  filename: string;
+  contentType: string;
+  content: string;
+}
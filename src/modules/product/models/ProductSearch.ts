@@ -0,0 +1,63 @@
+import { ProductPaginationResult } from './Product';
+
+export type ProductSearchSortBy = 'relevance' | 'createdAt' | 'price' | 'avgRating' | 'salesCount';
+
+export interface FacetedSearchOptions {
+  q?: string;
+  categoryIds?: string[];
+  sellerIds?: string[];
+  minPrice?: number;
+  maxPrice?: number;
+  minRating?: number;
+  inStock?: boolean;
+  attributes?: Record<string, string[]>; // Values of one key are OR-ed, keys are AND-ed
+  sortBy?: ProductSearchSortBy;
+  sortOrder?: 'asc' | 'desc';
+  page?: number;
+  limit?: number;
+  userId?: string; // For wishlist checking
+}
+
+export interface CategoryFacet {
+  id: string;
+  name: string;
+  slug: string;
+  count: number;
+}
+
+export interface PriceBucketFacet {
+  min: number;
+  max: number; // Exclusive
+  count: number;
+}
+
+export interface ArtisanFacet {
+  id: string;
+  name: string;
+  count: number;
+}
+
+export interface RatingFacet {
+  minRating: number; // "4 stars & up"
+  count: number;
+}
+
+export interface AttributeFacet {
+  key: string;
+  name: string;
+  type: 'SELECT' | 'MULTI_SELECT';
+  unit?: string | null;
+  values: Array<{ value: string; count: number }>;
+}
+
+export interface ProductFacets {
+  categories: CategoryFacet[];
+  priceBuckets: PriceBucketFacet[];
+  artisans: ArtisanFacet[];
+  ratings: RatingFacet[];
+  attributes: AttributeFacet[];
+}
+
+export interface FacetedSearchResult extends ProductPaginationResult {
+  facets: ProductFacets;
+}
@@ -0,0 +1,23 @@
+export enum RecommendationType {
+  RELATED = 'RELATED', // Shares categories, tags or attribute values
+  ALSO_BOUGHT = 'ALSO_BOUGHT', // Bought in the same orders
+}
+
+export interface ProductRecommendation {
+  id: string;
+  productId: string;
+  recommendedId: string;
+  type: RecommendationType;
+  score: number;
+  rank: number; // 1 = best
+  computedAt: Date;
+}
+
+export interface UserRecommendation {
+  id: string;
+  userId: string;
+  productId: string;
+  score: number;
+  rank: number; // 1 = best
+  computedAt: Date;
+}
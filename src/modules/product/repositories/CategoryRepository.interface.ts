@@ -14,6 +14,7 @@ export interface ICategoryRepository extends BaseRepository<Category, string> {
   getAllCategories(): Promise<Category[]>;
   getCategoryTree(): Promise<CategoryWithRelations[]>;
   getCategoryBySlug(slug: string): Promise<CategoryWithRelations | null>;
+  getCategoriesBySlugs(slugs: string[]): Promise<CategoryWithRelations[]>;
   generateSlug(name: string): Promise<string>;
   getCategoryAttributeTemplates(categoryId: string): Promise<CategoryAttributeTemplate[]>;
   createCategoryAttributeTemplate(
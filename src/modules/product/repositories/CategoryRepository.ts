@@ -303,6 +303,24 @@ export class CategoryRepository
     }
   }
 
+  async getCategoriesBySlugs(slugs: string[]): Promise<CategoryWithRelations[]> {
+    try {
+      const categories = await this.prisma.category.findMany({
+        where: { slug: { in: slugs }, isActive: true },
+        include: {
+          attributeTemplates: {
+            orderBy: { sortOrder: 'asc' },
+          },
+        },
+      });
+
+      return categories as CategoryWithRelations[];
+    } catch (error) {
+      this.logger.error(`Error getting categories by slugs: ${error}`);
+      throw AppError.internal('Failed to get categories', 'DATABASE_ERROR');
+    }
+  }
+
   async generateSlug(name: string): Promise<string> {
     let baseSlug = name
       .toLowerCase()
@@ -10,6 +10,7 @@ import {
   PriceHistory,
   ProductStats,
 } from '../models/Product';
+import { ProductImportRecord } from '../models/ProductImport';
 import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
 
 export interface IProductRepository extends BaseRepository<Product, string> {
@@ -22,6 +23,7 @@ export interface IProductRepository extends BaseRepository<Product, string> {
 
   // Queries
   getProducts(options: ProductQueryOptions): Promise<ProductPaginationResult>;
+  getProductsByIds(ids: string[], userId?: string): Promise<ProductWithDetails[]>;
   getMyProducts(
     sellerId: string,
     options?: Omit<ProductQueryOptions, 'sellerId'>,
@@ -59,4 +61,19 @@ export interface IProductRepository extends BaseRepository<Product, string> {
   generateSku(name: string, sellerId: string): Promise<string>;
   generateVariantSku(productId: string, attributes: Record<string, any>): Promise<string>;
   isProductOwner(productId: string, sellerId: string): Promise<boolean>;
+
+  // Bulk import / export
+  findProductsBySkus(
+    skus: string[],
+  ): Promise<{ id: string; sku: string; sellerId: string; deletedAt: Date | null }[]>;
+  findVariantsBySkus(skus: string[]): Promise<{ id: string; sku: string; productId: string }[]>;
+  /**
+   * Writes all records in one transaction, in order. On failure nothing is written and the
+   * error's metadata.index points at the record that failed.
+   */
+  importProducts(
+    sellerId: string,
+    records: (ProductImportRecord & { categoryIds: string[] })[],
+  ): Promise<{ productId: string; created: boolean }[]>;
+  getProductsForExport(sellerId: string): Promise<ProductImportRecord[]>;
 }
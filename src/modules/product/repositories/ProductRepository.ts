@@ -13,10 +13,14 @@ import {
   ProductVariant,
 } from '../models/Product';
 import { ProductStatus } from '../models/ProductEnums';
+import { ProductImportRecord } from '../models/ProductImport';
+import { availableQuantity } from '../../inventory/models/StockReservation';
 import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
 import { AppError } from '../../../core/errors/AppError';
 import { Logger } from '../../../core/logging/Logger';
 
+const IMPORT_TRANSACTION_TIMEOUT_MS = 60000; // A whole import file is written in one transaction
+
 export class ProductRepository
   extends BasePrismaRepository<Product, string>
   implements IProductRepository
@@ -46,6 +50,7 @@ export class ProductRepository
             price: data.price,
             discountPrice: data.discountPrice,
             quantity: data.quantity,
+            lowStockThreshold: data.lowStockThreshold,
             minOrderQty: data.minOrderQty || 1,
             maxOrderQty: data.maxOrderQty,
             sku,
@@ -382,34 +387,7 @@ export class ProductRepository
       // QUAN TRỌNG - Đảm bảo include categories đúng cách
       const products = await this.prisma.product.findMany({
         where,
-        include: {
-          seller: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              username: true,
-              avatarUrl: true,
-              artisanProfile: {
-                select: { shopName: true, isVerified: true },
-              },
-            },
-          },
-          // QUAN TRỌNG - Include categories
-          categories: {
-            include: {
-              category: {
-                select: { id: true, name: true, slug: true },
-              },
-            },
-          },
-          wishlistItems: userId
-            ? {
-                where: { userId, itemType: 'PRODUCT' },
-                take: 1,
-              }
-            : undefined,
-        },
+        include: this.listInclude(userId),
         orderBy: { [sortBy]: sortOrder },
         skip: (page - 1) * limit,
         take: limit,
@@ -425,6 +403,27 @@ export class ProductRepository
     }
   }
 
+  async getProductsByIds(ids: string[], userId?: string): Promise<ProductWithDetails[]> {
+    try {
+      if (ids.length === 0) return [];
+
+      const products = await this.prisma.product.findMany({
+        where: { id: { in: ids }, deletedAt: null },
+        include: this.listInclude(userId),
+      });
+
+      // Keep the order of the given ids
+      const byId = new Map(products.map((product) => [product.id, product]));
+      return ids
+        .map((id) => byId.get(id))
+        .filter((product): product is NonNullable<typeof product> => !!product)
+        .map((product) => this.transformProductWithDetails(product, userId));
+    } catch (error) {
+      this.logger.error(`Error getting products by ids: ${error}`);
+      throw AppError.internal('Failed to get products', 'PRODUCT_GET_ERROR');
+    }
+  }
+
   async updateProduct(
     id: string,
     sellerId: string,
@@ -539,7 +538,10 @@ export class ProductRepository
     }
   }
 
-  async generateSlug(name: string, sellerId: string): Promise<string> {
+  async generateSlug(name: string, sellerId: string, tx?: any): Promise<string> {
+    // Use transaction client if provided, otherwise use default prisma
+    const prismaClient = tx || this.prisma;
+
     let baseSlug = name
       .toLowerCase()
       .replace(/[^\w\s-]/g, '')
@@ -550,7 +552,7 @@ export class ProductRepository
       baseSlug = `product-${baseSlug}`;
     }
 
-    const existing = await this.prisma.product.findFirst({
+    const existing = await prismaClient.product.findFirst({
       where: { slug: baseSlug, sellerId, deletedAt: null },
     });
 
@@ -560,7 +562,10 @@ export class ProductRepository
     return `${baseSlug}-${randomStr}`;
   }
 
-  async generateSku(name: string, sellerId: string): Promise<string> {
+  async generateSku(name: string, sellerId: string, tx?: any): Promise<string> {
+    // Use transaction client if provided, otherwise use default prisma
+    const prismaClient = tx || this.prisma;
+
     // Tạo base SKU từ tên sản phẩm
     let baseSku = name
       .toLowerCase()
@@ -577,7 +582,7 @@ export class ProductRepository
     }
 
     // Kiểm tra tính duy nhất
-    const existing = await this.prisma.product.findFirst({
+    const existing = await prismaClient.product.findFirst({
       where: {
         sku: baseSku,
         sellerId,
@@ -656,17 +661,49 @@ export class ProductRepository
     return `${sku}-${randomSuffix}`;
   }
 
+  private listInclude(userId?: string) {
+    return {
+      seller: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          username: true,
+          avatarUrl: true,
+          artisanProfile: {
+            select: { shopName: true, isVerified: true },
+          },
+        },
+      },
+      categories: {
+        include: {
+          category: {
+            select: { id: true, name: true, slug: true },
+          },
+        },
+      },
+      wishlistItems: userId
+        ? {
+            where: { userId, itemType: 'PRODUCT' as const },
+            take: 1,
+          }
+        : undefined,
+    } satisfies Prisma.ProductInclude;
+  }
+
   private transformProductWithDetails(product: any, userId?: string): ProductWithDetails {
     return {
       ...product,
       price: Number(product.price),
       discountPrice: product.discountPrice ? Number(product.discountPrice) : null,
+      availableQuantity: availableQuantity(product),
       categories: product.categories?.map((cp: any) => cp.category) || [],
       variants:
         product.variants?.map((v: any) => ({
           ...v,
           price: Number(v.price),
           discountPrice: v.discountPrice ? Number(v.discountPrice) : null,
+          availableQuantity: availableQuantity(v),
         })) || [],
       priceHistory:
         product.priceHistory?.map((p: any) => ({
@@ -976,4 +1013,253 @@ export class ProductRepository
       return false;
     }
   }
+
+  async findProductsBySkus(
+    skus: string[],
+  ): Promise<{ id: string; sku: string; sellerId: string; deletedAt: Date | null }[]> {
+    const products = await this.prisma.product.findMany({
+      where: { sku: { in: skus } },
+      select: { id: true, sku: true, sellerId: true, deletedAt: true },
+    });
+
+    return products as { id: string; sku: string; sellerId: string; deletedAt: Date | null }[];
+  }
+
+  async findVariantsBySkus(
+    skus: string[],
+  ): Promise<{ id: string; sku: string; productId: string }[]> {
+    return await this.prisma.productVariant.findMany({
+      where: { sku: { in: skus } },
+      select: { id: true, sku: true, productId: true },
+    });
+  }
+
+  async importProducts(
+    sellerId: string,
+    records: (ProductImportRecord & { categoryIds: string[] })[],
+  ): Promise<{ productId: string; created: boolean }[]> {
+    try {
+      // One transaction for the whole file, so a failing row leaves the catalogue untouched;
+      // the error carries the index of the record that failed
+      return await this.prisma.$transaction(
+        async (tx) => {
+          const results: { productId: string; created: boolean }[] = [];
+
+          for (const [index, record] of records.entries()) {
+            try {
+              results.push(await this.upsertImportedProduct(tx, sellerId, record));
+            } catch (error) {
+              if (error instanceof AppError) {
+                error.metadata = { ...error.metadata, index };
+                throw error;
+              }
+              throw new AppError('Failed to save product', 500, 'PRODUCT_IMPORT_ERROR', {
+                cause: error instanceof Error ? error : undefined,
+                metadata: { index },
+              });
+            }
+          }
+
+          return results;
+        },
+        { timeout: IMPORT_TRANSACTION_TIMEOUT_MS },
+      );
+    } catch (error) {
+      this.logger.error(`Error importing products: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to import products', 'PRODUCT_IMPORT_ERROR');
+    }
+  }
+
+  private async upsertImportedProduct(
+    tx: Prisma.TransactionClient,
+    sellerId: string,
+    data: ProductImportRecord & { categoryIds: string[] },
+  ): Promise<{ productId: string; created: boolean }> {
+    const existing = data.sku
+      ? await tx.product.findFirst({
+          where: { sku: data.sku, sellerId, deletedAt: null },
+        })
+      : null;
+
+    const slug =
+      existing && existing.name === data.name
+        ? existing.slug
+        : await this.generateSlug(data.name, sellerId, tx);
+    const sku = data.sku || (await this.generateSku(data.name, sellerId, tx));
+    const variants = data.variants || [];
+
+    // Out of stock is derived from quantity, so it imports as published
+    const status =
+      data.status === ProductStatus.OUT_OF_STOCK ? ProductStatus.PUBLISHED : data.status;
+
+    if (existing) {
+      // Stock held for checkouts and unpaid orders can't be imported away
+      const [locked] = await tx.$queryRaw<{ reservedQuantity: number }[]>`
+        SELECT "reservedQuantity" FROM "Product" WHERE id = ${existing.id} FOR UPDATE`;
+      if (variants.length === 0 && locked && data.quantity < locked.reservedQuantity) {
+        throw AppError.badRequest(
+          `Quantity ${data.quantity} is below the ${locked.reservedQuantity} units held for orders`,
+          'QUANTITY_BELOW_RESERVED',
+        );
+      }
+    }
+
+    const fields = {
+      name: data.name,
+      slug,
+      description: data.description ?? null,
+      price: data.price,
+      discountPrice: data.discountPrice ?? null,
+      quantity: data.quantity,
+      lowStockThreshold: data.lowStockThreshold ?? null,
+      tags: data.tags || [],
+      images: data.images,
+      featuredImage: data.images[0],
+      attributes: data.attributes || {},
+      hasVariants: variants.length > 0,
+    };
+
+    let productId: string;
+    if (existing) {
+      productId = existing.id;
+      await tx.product.update({
+        where: { id: productId },
+        data: { ...fields, status },
+      });
+
+      if (Number(existing.price) !== data.price) {
+        await tx.priceHistory.create({
+          data: {
+            productId,
+            price: data.price,
+            changeNote: 'Bulk import',
+            changedBy: sellerId,
+          },
+        });
+      }
+
+      await tx.categoryProduct.deleteMany({ where: { productId } });
+    } else {
+      const product = await tx.product.create({
+        data: { ...fields, sellerId, sku, status: status || ProductStatus.DRAFT },
+      });
+      productId = product.id;
+
+      await tx.priceHistory.create({
+        data: {
+          productId,
+          price: data.price,
+          changeNote: 'Initial price',
+          changedBy: sellerId,
+        },
+      });
+    }
+
+    await tx.categoryProduct.createMany({
+      data: data.categoryIds.map((categoryId) => ({ productId, categoryId })),
+    });
+
+    // Variants are matched by SKU; those missing from the file are deactivated, not
+    // deleted, so past orders keep pointing at them. Locked like the product so no hold lands
+    // between the reserved-stock check and the new quantities.
+    await tx.$queryRaw`SELECT id FROM "ProductVariant" WHERE "productId" = ${productId} FOR UPDATE`;
+    const current = await tx.productVariant.findMany({ where: { productId } });
+    const kept: string[] = [];
+
+    for (const [index, variantData] of variants.entries()) {
+      const variantFields = {
+        name: variantData.name,
+        price: variantData.price ?? data.price,
+        discountPrice: variantData.discountPrice ?? null,
+        quantity: variantData.quantity,
+        images: variantData.images || [],
+        attributes: variantData.attributes,
+        isActive: true,
+        isDefault: index === 0,
+        sortOrder: index,
+      };
+
+      const match = current.find((variant) => variant.sku === variantData.sku);
+      if (match && variantData.quantity < match.reservedQuantity) {
+        throw AppError.badRequest(
+          `Variant ${match.sku} quantity ${variantData.quantity} is below the ${match.reservedQuantity} units held for orders`,
+          'QUANTITY_BELOW_RESERVED',
+        );
+      }
+
+      if (match) {
+        await tx.productVariant.update({ where: { id: match.id }, data: variantFields });
+        kept.push(match.id);
+      } else {
+        const variant = await tx.productVariant.create({
+          data: {
+            ...variantFields,
+            productId,
+            sku:
+              variantData.sku ||
+              (await this.generateVariantSku(productId, variantData.attributes, tx)),
+          },
+        });
+        kept.push(variant.id);
+      }
+    }
+
+    const heldVariant = current.find(
+      (variant) => variant.isActive && !kept.includes(variant.id) && variant.reservedQuantity > 0,
+    );
+    if (heldVariant) {
+      throw AppError.badRequest(
+        `Variant ${heldVariant.sku} has units held for orders and can't be removed`,
+        'QUANTITY_BELOW_RESERVED',
+      );
+    }
+
+    await tx.productVariant.updateMany({
+      where: { productId, id: { notIn: kept } },
+      data: { isActive: false, isDefault: false },
+    });
+
+    return { productId, created: !existing };
+  }
+
+  async getProductsForExport(sellerId: string): Promise<ProductImportRecord[]> {
+    try {
+      const products = await this.prisma.product.findMany({
+        where: { sellerId, deletedAt: null },
+        include: {
+          categories: { include: { category: { select: { slug: true } } } },
+          variants: { where: { isActive: true }, orderBy: { sortOrder: 'asc' } },
+        },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      return products.map((product) => ({
+        sku: product.sku ?? undefined,
+        name: product.name,
+        description: product.description ?? undefined,
+        price: Number(product.price),
+        discountPrice: product.discountPrice ? Number(product.discountPrice) : undefined,
+        quantity: product.quantity,
+        lowStockThreshold: product.lowStockThreshold ?? undefined,
+        status: product.status as ProductStatus,
+        categories: product.categories.map((cp) => cp.category.slug),
+        tags: product.tags,
+        images: product.images,
+        attributes: (product.attributes as Record<string, any>) || undefined,
+        variants: product.variants.map((variant) => ({
+          sku: variant.sku,
+          name: variant.name ?? undefined,
+          price: Number(variant.price),
+          discountPrice: variant.discountPrice ? Number(variant.discountPrice) : undefined,
+          quantity: variant.quantity,
+          attributes: (variant.attributes as Record<string, any>) || {},
+          images: variant.images,
+        })),
+      }));
+    } catch (error) {
+      this.logger.error(`Error exporting products: ${error}`);
+      throw AppError.internal('Failed to export products', 'PRODUCT_EXPORT_ERROR');
+    }
+  }
 }
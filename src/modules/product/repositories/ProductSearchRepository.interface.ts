@@ -0,0 +1,9 @@
+import { FacetedSearchOptions, ProductFacets } from '../models/ProductSearch';
+
+export interface IProductSearchRepository {
+  // Ids of one page of matching products, in result order
+  searchProductIds(options: FacetedSearchOptions): Promise<{ ids: string[]; total: number }>;
+
+  // Facet counts over every product matching the same filters
+  getFacets(options: FacetedSearchOptions): Promise<ProductFacets>;
+}
@@ -0,0 +1,326 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { IProductSearchRepository } from './ProductSearchRepository.interface';
+import {
+  FacetedSearchOptions,
+  ProductFacets,
+  CategoryFacet,
+  PriceBucketFacet,
+  ArtisanFacet,
+  RatingFacet,
+  AttributeFacet,
+} from '../models/ProductSearch';
+import { SearchTextUtils } from '../../../shared/utils/SearchTextUtils';
+import { Logger } from '../../../core/logging/Logger';
+import { AppError } from '../../../core/errors/AppError';
+
+const PRICE_BUCKETS = 5;
+const RATING_THRESHOLDS = [4, 3, 2, 1];
+
+const SORT_COLUMNS: Record<string, string> = {
+  createdAt: 'p."createdAt"',
+  price: 'p.price',
+  avgRating: 'p."avgRating"',
+  salesCount: 'p."salesCount"',
+};
+
+/**
+ * Product search on the generated "searchVector" column (Postgres full-text search) with
+ * facet counts computed over the same filters, except that each facet ignores its own filter
+ * so the other values of a facet stay visible once one is picked
+ */
+export class ProductSearchRepository implements IProductSearchRepository {
+  private logger = Logger.getInstance();
+
+  constructor(private prisma: PrismaClient) {}
+
+  async searchProductIds(options: FacetedSearchOptions): Promise<{ ids: string[]; total: number }> {
+    try {
+      const { page = 1, limit = 20 } = options;
+      const query = this.buildTsQuery(options.q);
+      const where = this.buildWhere(options, query);
+
+      const [rows, [{ total }]] = await Promise.all([
+        this.prisma.$queryRaw<Array<{ id: string }>>`
+          SELECT p.id
+          FROM "Product" p
+          WHERE ${where}
+          ORDER BY ${this.buildOrderBy(options, query)}
+          LIMIT ${limit} OFFSET ${(page - 1) * limit}
+        `,
+        this.prisma.$queryRaw<Array<{ total: number }>>`
+          SELECT COUNT(*)::int AS total FROM "Product" p WHERE ${where}
+        `,
+      ]);
+
+      return { ids: rows.map((row) => row.id), total };
+    } catch (error) {
+      this.logger.error(`Error searching products: ${error}`);
+      throw AppError.internal('Failed to search products', 'DATABASE_ERROR');
+    }
+  }
+
+  async getFacets(options: FacetedSearchOptions): Promise<ProductFacets> {
+    try {
+      const query = this.buildTsQuery(options.q);
+      const whereWithout = (omit: Partial<FacetedSearchOptions>) =>
+        this.buildWhere({ ...options, ...omit }, query);
+
+      const [categories, priceBuckets, artisans, ratings] = await Promise.all([
+        this.getCategoryFacets(whereWithout({ categoryIds: undefined })),
+        this.getPriceBuckets(whereWithout({ minPrice: undefined, maxPrice: undefined })),
+        this.getArtisanFacets(whereWithout({ sellerIds: undefined })),
+        this.getRatingFacets(whereWithout({ minRating: undefined })),
+      ]);
+
+      // Attribute facets come from the templates of the searched (or matching) categories
+      const categoryIds = options.categoryIds?.length
+        ? options.categoryIds
+        : categories.map((category) => category.id);
+      const attributes = await this.getAttributeFacets(options, query, categoryIds);
+
+      return { categories, priceBuckets, artisans, ratings, attributes };
+    } catch (error) {
+      this.logger.error(`Error getting product facets: ${error}`);
+      throw AppError.internal('Failed to get product facets', 'DATABASE_ERROR');
+    }
+  }
+
+  private async getCategoryFacets(where: Prisma.Sql): Promise<CategoryFacet[]> {
+    return this.prisma.$queryRaw<CategoryFacet[]>`
+      SELECT c.id, c.name, c.slug, COUNT(DISTINCT p.id)::int AS count
+      FROM "Product" p
+      JOIN "CategoryProduct" cp ON cp."productId" = p.id
+      JOIN "Category" c ON c.id = cp."categoryId"
+      WHERE ${where} AND c."isActive" = true
+      GROUP BY c.id
+      ORDER BY count DESC, c.name ASC
+      LIMIT 30
+    `;
+  }
+
+  /**
+   * Equal-width buckets over the matching price range, rounded to 1/2/5 x 10^n
+   */
+  private async getPriceBuckets(where: Prisma.Sql): Promise<PriceBucketFacet[]> {
+    const [range] = await this.prisma.$queryRaw<Array<{ min: number | null; max: number | null }>>`
+      SELECT MIN(p.price)::float AS min, MAX(p.price)::float AS max
+      FROM "Product" p
+      WHERE ${where}
+    `;
+
+    if (range.min === null || range.max === null) return [];
+
+    const step = this.niceStep((range.max - range.min) / PRICE_BUCKETS);
+    const start = Math.floor(range.min / step) * step;
+
+    const rows = await this.prisma.$queryRaw<Array<{ bucket: number; count: number }>>`
+      SELECT FLOOR((p.price - ${start}) / ${step})::int AS bucket, COUNT(*)::int AS count
+      FROM "Product" p
+      WHERE ${where}
+      GROUP BY bucket
+      ORDER BY bucket ASC
+    `;
+
+    return rows.map((row) => ({
+      min: start + row.bucket * step,
+      max: start + (row.bucket + 1) * step,
+      count: row.count,
+    }));
+  }
+
+  private async getArtisanFacets(where: Prisma.Sql): Promise<ArtisanFacet[]> {
+    return this.prisma.$queryRaw<ArtisanFacet[]>`
+      SELECT u.id,
+        COALESCE(ap."shopName", u."firstName" || ' ' || u."lastName") AS name,
+        COUNT(p.id)::int AS count
+      FROM "Product" p
+      JOIN "User" u ON u.id = p."sellerId"
+      LEFT JOIN "ArtisanProfile" ap ON ap."userId" = u.id
+      WHERE ${where}
+      GROUP BY u.id, ap."shopName"
+      ORDER BY count DESC, name ASC
+      LIMIT 20
+    `;
+  }
+
+  private async getRatingFacets(where: Prisma.Sql): Promise<RatingFacet[]> {
+    return this.prisma.$queryRaw<RatingFacet[]>`
+      SELECT t.rating AS "minRating", COUNT(p.id)::int AS count
+      FROM unnest(ARRAY[${Prisma.join(RATING_THRESHOLDS)}]::int[]) AS t(rating)
+      LEFT JOIN "Product" p ON p."avgRating" >= t.rating AND ${where}
+      GROUP BY t.rating
+      ORDER BY t.rating DESC
+    `;
+  }
+
+  private async getAttributeFacets(
+    options: FacetedSearchOptions,
+    query: Prisma.Sql | null,
+    categoryIds: string[],
+  ): Promise<AttributeFacet[]> {
+    if (categoryIds.length === 0) return [];
+
+    const templates = await this.prisma.categoryAttributeTemplate.findMany({
+      where: { categoryId: { in: categoryIds }, type: { in: ['SELECT', 'MULTI_SELECT'] } },
+      orderBy: { sortOrder: 'asc' },
+    });
+
+    const byKey = new Map<string, (typeof templates)[number]>();
+    for (const template of templates) {
+      if (!byKey.has(template.key)) byKey.set(template.key, template);
+    }
+    if (byKey.size === 0) return [];
+
+    // Attributes being filtered on are counted without their own filter, one query each; the
+    // others share the full filter
+    const isFiltered = (key: string) => (options.attributes?.[key]?.length ?? 0) > 0;
+    const keys = [...byKey.keys()];
+    const groups = [
+      { keys: keys.filter((key) => !isFiltered(key)), where: this.buildWhere(options, query) },
+      ...keys.filter(isFiltered).map((key) => ({
+        keys: [key],
+        where: this.buildWhere(
+          { ...options, attributes: { ...options.attributes, [key]: [] } },
+          query,
+        ),
+      })),
+    ].filter((group) => group.keys.length > 0);
+
+    const rows = (
+      await Promise.all(groups.map((group) => this.countAttributeValues(group.where, group.keys)))
+    ).flat();
+
+    return [...byKey.values()]
+      .map((template) => {
+        const counts = new Map(
+          rows.filter((row) => row.key === template.key).map((row) => [row.value, row.count]),
+        );
+        const options = (template.options as string[] | null) || [];
+
+        // Options keep the template order; templates without options list every value found
+        const values =
+          options.length > 0
+            ? options
+                .filter((option) => counts.has(option))
+                .map((option) => ({ value: option, count: counts.get(option)! }))
+            : [...counts.entries()]
+                .map(([value, count]) => ({ value, count }))
+                .sort((a, b) => b.count - a.count);
+
+        return {
+          key: template.key,
+          name: template.name,
+          type: template.type as AttributeFacet['type'],
+          unit: template.unit,
+          values,
+        };
+      })
+      .filter((facet) => facet.values.length > 0);
+  }
+
+  private async countAttributeValues(
+    where: Prisma.Sql,
+    keys: string[],
+  ): Promise<Array<{ key: string; value: string; count: number }>> {
+    // Scalar and array attribute values are counted alike
+    return this.prisma.$queryRaw<Array<{ key: string; value: string; count: number }>>`
+      SELECT a.key, v.value, COUNT(DISTINCT p.id)::int AS count
+      FROM "Product" p
+      CROSS JOIN LATERAL jsonb_each(
+        CASE WHEN jsonb_typeof(p.attributes) = 'object' THEN p.attributes ELSE '{}'::jsonb END
+      ) AS a(key, val)
+      CROSS JOIN LATERAL jsonb_array_elements_text(
+        CASE WHEN jsonb_typeof(a.val) = 'array' THEN a.val ELSE jsonb_build_array(a.val) END
+      ) AS v(value)
+      WHERE ${where} AND a.key IN (${Prisma.join(keys)})
+      GROUP BY a.key, v.value
+    `;
+  }
+
+  private buildWhere(options: FacetedSearchOptions, query: Prisma.Sql | null): Prisma.Sql {
+    const conditions: Prisma.Sql[] = [
+      Prisma.sql`p."deletedAt" IS NULL`,
+      Prisma.sql`p.status IN ('PUBLISHED', 'OUT_OF_STOCK')`,
+    ];
+
+    if (query) {
+      conditions.push(Prisma.sql`p."searchVector" @@ ${query}`);
+    }
+
+    if (options.categoryIds?.length) {
+      conditions.push(Prisma.sql`EXISTS (
+        SELECT 1 FROM "CategoryProduct" cp
+        WHERE cp."productId" = p.id AND cp."categoryId" IN (${Prisma.join(options.categoryIds)})
+      )`);
+    }
+
+    if (options.sellerIds?.length) {
+      conditions.push(Prisma.sql`p."sellerId" IN (${Prisma.join(options.sellerIds)})`);
+    }
+
+    if (options.minPrice !== undefined) {
+      conditions.push(Prisma.sql`p.price >= ${options.minPrice}`);
+    }
+
+    if (options.maxPrice !== undefined) {
+      conditions.push(Prisma.sql`p.price <= ${options.maxPrice}`);
+    }
+
+    if (options.minRating !== undefined) {
+      conditions.push(Prisma.sql`p."avgRating" >= ${options.minRating}`);
+    }
+
+    // Stock held for checkouts and unpaid orders isn't for sale; products with variants keep
+    // their stock on the variants
+    if (options.inStock !== undefined) {
+      const available = Prisma.sql`(CASE WHEN p."hasVariants" THEN EXISTS (
+        SELECT 1 FROM "ProductVariant" pv
+        WHERE pv."productId" = p.id
+          AND pv."isActive" = true
+          AND pv.quantity - pv."reservedQuantity" > 0
+      ) ELSE p.quantity - p."reservedQuantity" > 0 END)`;
+      conditions.push(options.inStock ? available : Prisma.sql`NOT ${available}`);
+    }
+
+    // Containment matches both a scalar value and a value inside a MULTI_SELECT array
+    for (const [key, values] of Object.entries(options.attributes || {})) {
+      if (values.length === 0) continue;
+      const matches = values.flatMap((value) => [
+        Prisma.sql`p.attributes @> ${JSON.stringify({ [key]: value })}::jsonb`,
+        Prisma.sql`p.attributes @> ${JSON.stringify({ [key]: [value] })}::jsonb`,
+      ]);
+      conditions.push(Prisma.sql`(${Prisma.join(matches, ' OR ')})`);
+    }
+
+    return Prisma.join(conditions, ' AND ');
+  }
+
+  private buildOrderBy(options: FacetedSearchOptions, query: Prisma.Sql | null): Prisma.Sql {
+    const direction = Prisma.raw(options.sortOrder === 'asc' ? 'ASC' : 'DESC');
+    const column = SORT_COLUMNS[options.sortBy || ''];
+
+    if (column) {
+      return Prisma.sql`${Prisma.raw(column)} ${direction} NULLS LAST, p.id ASC`;
+    }
+
+    // Relevance: text rank first, then popularity and recency
+    return query
+      ? Prisma.sql`ts_rank_cd(p."searchVector", ${query}) DESC, p."salesCount" DESC, p."createdAt" DESC, p.id ASC`
+      : Prisma.sql`p."salesCount" DESC, p."createdAt" DESC, p.id ASC`;
+  }
+
+  private buildTsQuery(q?: string): Prisma.Sql | null {
+    const expression = SearchTextUtils.toPrefixTsQuery(q);
+    return expression ? Prisma.sql`to_tsquery('simple', ${expression})` : null;
+  }
+
+  private niceStep(raw: number): number {
+    if (raw <= 0) return 1;
+
+    const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+    const normalized = raw / magnitude;
+    const nice = normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10;
+
+    return nice * magnitude;
+  }
+}
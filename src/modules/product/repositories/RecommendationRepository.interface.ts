@@ -0,0 +1,16 @@
+import { RecommendationType } from '../models/Recommendation';
+
+export interface IRecommendationRepository {
+  // Rebuild the stored recommendations; each returns the number of rows written
+  computeRelated(perProduct: number): Promise<number>;
+  computeAlsoBought(perProduct: number, since: Date): Promise<number>;
+  computeForUsers(perUser: number, since: Date): Promise<number>;
+
+  // Recommended product ids, best first
+  getRecommendedProductIds(
+    productId: string,
+    type: RecommendationType,
+    limit: number,
+  ): Promise<string[]>;
+  getUserRecommendedProductIds(userId: string, limit: number): Promise<string[]>;
+}
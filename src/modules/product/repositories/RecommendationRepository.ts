@@ -0,0 +1,218 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { IRecommendationRepository } from './RecommendationRepository.interface';
+import { RecommendationType } from '../models/Recommendation';
+import { Logger } from '../../../core/logging/Logger';
+import { AppError } from '../../../core/errors/AppError';
+
+/**
+ * Recommendations are rebuilt in bulk by SQL and replaced in a single transaction, so
+ * readers see either the previous or the new set, never a partial one
+ */
+export class RecommendationRepository implements IRecommendationRepository {
+  private logger = Logger.getInstance();
+
+  constructor(private prisma: PrismaClient) {}
+
+  async computeRelated(perProduct: number): Promise<number> {
+    try {
+      // Score: 3 per shared category, 1 per shared tag, 1 per equal attribute value
+      const [, inserted] = await this.prisma.$transaction([
+        this.prisma.$executeRaw`DELETE FROM "ProductRecommendation" WHERE type = 'RELATED'`,
+        this.prisma.$executeRaw`
+          WITH shared AS (
+            SELECT a."productId", b."productId" AS "recommendedId", COUNT(*) AS categories
+            FROM "CategoryProduct" a
+            JOIN "CategoryProduct" b
+              ON b."categoryId" = a."categoryId" AND b."productId" <> a."productId"
+            GROUP BY a."productId", b."productId"
+          ),
+          scored AS (
+            SELECT s."productId", s."recommendedId", r."salesCount",
+              (
+                s.categories * 3
+                + cardinality(ARRAY(SELECT unnest(p.tags) INTERSECT SELECT unnest(r.tags)))
+                + (
+                  SELECT COUNT(*)
+                  FROM jsonb_each(${this.attributesOf('p')}) pa
+                  JOIN jsonb_each(${this.attributesOf('r')}) ra
+                    ON ra.key = pa.key AND ra.value = pa.value
+                )
+              )::float AS score
+            FROM shared s
+            JOIN "Product" p ON p.id = s."productId"
+            JOIN "Product" r ON r.id = s."recommendedId"
+            WHERE p."deletedAt" IS NULL AND r."deletedAt" IS NULL AND r.status = 'PUBLISHED'
+          ),
+          ranked AS (
+            SELECT *, ROW_NUMBER() OVER (
+              PARTITION BY "productId"
+              ORDER BY score DESC, "salesCount" DESC, "recommendedId" ASC
+            ) AS rank
+            FROM scored
+          )
+          INSERT INTO "ProductRecommendation" ("id", "productId", "recommendedId", "type", "score", "rank")
+          SELECT gen_random_uuid()::text, "productId", "recommendedId",
+            'RELATED'::"RecommendationType", score, rank
+          FROM ranked
+          WHERE rank <= ${perProduct}
+        `,
+      ]);
+
+      return inserted;
+    } catch (error) {
+      this.logger.error(`Error computing related products: ${error}`);
+      throw AppError.internal('Failed to compute related products', 'DATABASE_ERROR');
+    }
+  }
+
+  async computeAlsoBought(perProduct: number, since: Date): Promise<number> {
+    try {
+      // Score: number of orders containing both products
+      const [, inserted] = await this.prisma.$transaction([
+        this.prisma.$executeRaw`DELETE FROM "ProductRecommendation" WHERE type = 'ALSO_BOUGHT'`,
+        this.prisma.$executeRaw`
+          WITH pairs AS (
+            SELECT a."productId", b."productId" AS "recommendedId",
+              COUNT(DISTINCT a."orderId")::float AS score
+            FROM "OrderItem" a
+            JOIN "OrderItem" b ON b."orderId" = a."orderId" AND b."productId" <> a."productId"
+            JOIN "Order" o ON o.id = a."orderId"
+            JOIN "Product" r ON r.id = b."productId"
+            WHERE a."productId" IS NOT NULL
+              AND o.status NOT IN ('PENDING', 'CANCELLED', 'REFUNDED')
+              AND o."createdAt" >= ${since}
+              AND r."deletedAt" IS NULL
+              AND r.status = 'PUBLISHED'
+            GROUP BY a."productId", b."productId"
+          ),
+          ranked AS (
+            SELECT *, ROW_NUMBER() OVER (
+              PARTITION BY "productId"
+              ORDER BY score DESC, "recommendedId" ASC
+            ) AS rank
+            FROM pairs
+          )
+          INSERT INTO "ProductRecommendation" ("id", "productId", "recommendedId", "type", "score", "rank")
+          SELECT gen_random_uuid()::text, "productId", "recommendedId",
+            'ALSO_BOUGHT'::"RecommendationType", score, rank
+          FROM ranked
+          WHERE rank <= ${perProduct}
+        `,
+      ]);
+
+      return inserted;
+    } catch (error) {
+      this.logger.error(`Error computing also-bought products: ${error}`);
+      throw AppError.internal('Failed to compute also-bought products', 'DATABASE_ERROR');
+    }
+  }
+
+  async computeForUsers(perUser: number, since: Date): Promise<number> {
+    try {
+      // Products the user bought (5), has in cart or wishlist (3) or saw in liked posts (1)
+      // seed the stored product recommendations, weighted by their rank
+      const [, inserted] = await this.prisma.$transaction([
+        this.prisma.$executeRaw`DELETE FROM "UserRecommendation"`,
+        this.prisma.$executeRaw`
+          WITH signals AS (
+            SELECT o."userId", oi."productId", 5.0 AS weight
+            FROM "OrderItem" oi
+            JOIN "Order" o ON o.id = oi."orderId"
+            WHERE oi."productId" IS NOT NULL
+              AND o.status NOT IN ('PENDING', 'CANCELLED')
+              AND o."createdAt" >= ${since}
+            UNION ALL
+            SELECT "userId", "productId", 3.0 FROM "CartItem"
+            UNION ALL
+            SELECT "userId", "productId", 3.0 FROM "Wishlist" WHERE "productId" IS NOT NULL
+            UNION ALL
+            SELECT l."userId", m."productId", 1.0
+            FROM "Like" l
+            JOIN "PostProductMention" m ON m."postId" = l."postId"
+            WHERE l."createdAt" >= ${since}
+          ),
+          seeds AS (
+            SELECT "userId", "productId", SUM(weight) AS weight
+            FROM signals
+            GROUP BY "userId", "productId"
+          ),
+          candidates AS (
+            SELECT s."userId", pr."recommendedId" AS "productId",
+              SUM(
+                s.weight / pr.rank
+                * CASE WHEN pr.type = 'ALSO_BOUGHT' THEN 1.5 ELSE 1 END
+              )::float AS score
+            FROM seeds s
+            JOIN "ProductRecommendation" pr ON pr."productId" = s."productId"
+            GROUP BY s."userId", pr."recommendedId"
+          ),
+          ranked AS (
+            SELECT c.*, ROW_NUMBER() OVER (
+              PARTITION BY c."userId"
+              ORDER BY c.score DESC, c."productId" ASC
+            ) AS rank
+            FROM candidates c
+            JOIN "Product" p ON p.id = c."productId"
+            JOIN "User" u ON u.id = c."userId"
+            WHERE p."sellerId" <> c."userId"
+              AND u.status = 'ACTIVE'
+              AND u."deletedAt" IS NULL
+              AND NOT EXISTS (
+                SELECT 1 FROM seeds s WHERE s."userId" = c."userId" AND s."productId" = c."productId"
+              )
+          )
+          INSERT INTO "UserRecommendation" ("id", "userId", "productId", "score", "rank")
+          SELECT gen_random_uuid()::text, "userId", "productId", score, rank
+          FROM ranked
+          WHERE rank <= ${perUser}
+        `,
+      ]);
+
+      return inserted;
+    } catch (error) {
+      this.logger.error(`Error computing user recommendations: ${error}`);
+      throw AppError.internal('Failed to compute user recommendations', 'DATABASE_ERROR');
+    }
+  }
+
+  async getRecommendedProductIds(
+    productId: string,
+    type: RecommendationType,
+    limit: number,
+  ): Promise<string[]> {
+    try {
+      const recommendations = await this.prisma.productRecommendation.findMany({
+        where: { productId, type },
+        orderBy: { rank: 'asc' },
+        take: limit,
+        select: { recommendedId: true },
+      });
+
+      return recommendations.map((recommendation) => recommendation.recommendedId);
+    } catch (error) {
+      this.logger.error(`Error getting product recommendations: ${error}`);
+      throw AppError.internal('Failed to get product recommendations', 'DATABASE_ERROR');
+    }
+  }
+
+  async getUserRecommendedProductIds(userId: string, limit: number): Promise<string[]> {
+    try {
+      const recommendations = await this.prisma.userRecommendation.findMany({
+        where: { userId },
+        orderBy: { rank: 'asc' },
+        take: limit,
+        select: { productId: true },
+      });
+
+      return recommendations.map((recommendation) => recommendation.productId);
+    } catch (error) {
+      this.logger.error(`Error getting user recommendations: ${error}`);
+      throw AppError.internal('Failed to get user recommendations', 'DATABASE_ERROR');
+    }
+  }
+
+  private attributesOf(alias: string): Prisma.Sql {
+    const attributes = Prisma.raw(`${alias}.attributes`);
+    return Prisma.sql`CASE WHEN jsonb_typeof(${attributes}) = 'object' THEN ${attributes} ELSE '{}'::jsonb END`;
+  }
+}
@@ -0,0 +1,154 @@
+import { CategoryAttributeTemplate } from '../models/Category';
+
+export interface AttributeValues {
+  attributes?: Record<string, any> | null;
+  specifications?: Record<string, any> | null;
+  customFields?: Record<string, any> | null;
+  variants?: Array<{ attributes?: Record<string, any> | null }> | null;
+}
+
+export class AttributeValidator {
+  /**
+   * Check a whole product against the merged templates of its categories. Every message
+   * starts with the failing field, e.g. "variants[1].attributes.size".
+   */
+  static validateProduct(templates: CategoryAttributeTemplate[], data: AttributeValues): string[] {
+    const variants = data.variants || [];
+    const hasVariants = variants.length > 0;
+
+    const errors = [
+      ...this.validate(templates, data.attributes, { hasVariants }),
+      // Template keys stored as specifications or custom fields must still have the right type
+      ...this.validate(templates, data.specifications, { field: 'specifications', partial: true }),
+      ...this.validate(templates, data.customFields, { field: 'customFields', partial: true }),
+    ];
+
+    variants.forEach((variant, index) => {
+      errors.push(
+        ...this.validate(templates, variant.attributes, {
+          variant: true,
+          field: `variants[${index}].attributes`,
+        }),
+      );
+    });
+
+    return [...errors, ...this.validateVariantCombinations(templates, variants)];
+  }
+
+  /**
+   * Check attributes against category templates and return one message per problem.
+   * Variant templates (isVariant) apply to each variant, or to the product itself when it
+   * has no variants. Keys without a template are custom attributes and are left alone;
+   * a partial check only types the keys that are present.
+   */
+  static validate(
+    templates: CategoryAttributeTemplate[],
+    attributes: Record<string, any> | null | undefined,
+    scope: { variant?: boolean; hasVariants?: boolean; field?: string; partial?: boolean } = {},
+  ): string[] {
+    const errors: string[] = [];
+    const values = attributes || {};
+    const field = scope.field || 'attributes';
+
+    const applicable = templates.filter((template) => {
+      if (scope.partial) return true;
+      return scope.variant ? template.isVariant : !template.isVariant || !scope.hasVariants;
+    });
+
+    for (const template of applicable) {
+      const value = values[template.key];
+
+      if (value === undefined || value === null || value === '') {
+        if (template.isRequired && !scope.partial) {
+          errors.push(`${field}.${template.key}: ${template.name} is required`);
+        }
+        continue;
+      }
+
+      const error = this.checkValue(template, value);
+      if (error) {
+        errors.push(`${field}.${template.key}: ${template.name} ${error}`);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Two variants may not share the same values for every variant attribute
+   */
+  static validateVariantCombinations(
+    templates: CategoryAttributeTemplate[],
+    variants: Array<{ attributes?: Record<string, any> | null }>,
+  ): string[] {
+    const keys = templates.filter((template) => template.isVariant).map((t) => t.key);
+    if (keys.length === 0) return [];
+
+    const errors: string[] = [];
+    const seen = new Map<string, number>();
+
+    variants.forEach((variant, index) => {
+      const values = variant.attributes || {};
+      const combination = keys.map((key) => `${key}=${values[key] ?? ''}`).join(', ');
+
+      const first = seen.get(combination);
+      if (first !== undefined) {
+        errors.push(
+          `variants[${index}].attributes: same combination as variants[${first}] (${combination})`,
+        );
+      } else {
+        seen.set(combination, index);
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Templates from every category, later categories never overriding an earlier key
+   */
+  static mergeTemplates(templateLists: CategoryAttributeTemplate[][]): CategoryAttributeTemplate[] {
+    const byKey = new Map<string, CategoryAttributeTemplate>();
+    for (const template of templateLists.flat()) {
+      if (!byKey.has(template.key)) byKey.set(template.key, template);
+    }
+    return [...byKey.values()];
+  }
+
+  private static checkValue(template: CategoryAttributeTemplate, value: any): string | null {
+    const options = template.options || [];
+
+    switch (template.type) {
+      case 'NUMBER':
+        return value === '' || isNaN(Number(value)) ? 'must be a number' : null;
+      case 'BOOLEAN':
+        return typeof value === 'boolean' || value === 'true' || value === 'false'
+          ? null
+          : 'must be true or false';
+      case 'SELECT':
+        return options.length > 0 && !options.includes(String(value))
+          ? `must be one of: ${options.join(', ')}`
+          : null;
+      case 'MULTI_SELECT': {
+        if (!Array.isArray(value)) return 'must be a list';
+        const invalid = value.filter(
+          (item) => options.length > 0 && !options.includes(String(item)),
+        );
+        return invalid.length > 0 ? `must only contain: ${options.join(', ')}` : null;
+      }
+      case 'DATE':
+        return isNaN(Date.parse(String(value))) ? 'must be a date' : null;
+      case 'URL':
+        try {
+          new URL(String(value));
+          return null;
+        } catch {
+          return 'must be a URL';
+        }
+      case 'EMAIL':
+        return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(String(value)) ? null : 'must be an email address';
+      default:
+        return typeof value === 'string' ? null : 'must be text';
+    }
+  }
+}
@@ -0,0 +1,15 @@
+import { ProductFileFormat, ProductImportResult, ProductExportFile } from '../models/ProductImport';
+
+export interface IProductImportService {
+  /**
+   * Validates every row and reports errors per row. Nothing is written on a dry run or
+   * while any row has errors; otherwise products are created or updated by SKU.
+   */
+  importProducts(
+    sellerId: string,
+    file: { content: string; format: ProductFileFormat },
+    dryRun: boolean,
+  ): Promise<ProductImportResult>;
+
+  exportProducts(sellerId: string, format: ProductFileFormat): Promise<ProductExportFile>;
+}
@@ -0,0 +1,434 @@
+import { IProductImportService } from './ProductImportService.interface';
+import {
+  ProductFileFormat,
+  ProductImportRecord,
+  ProductImportRowResult,
+  ProductImportResult,
+  ProductExportFile,
+  PRODUCT_CSV_COLUMNS,
+} from '../models/ProductImport';
+import { CategoryWithRelations } from '../models/Category';
+import { AttributeValidator } from './AttributeValidator';
+import { importProductRecordSchema } from '../interface/validators/product.validator';
+import { IProductRepository } from '../repositories/ProductRepository.interface';
+import { ICategoryRepository } from '../repositories/CategoryRepository.interface';
+import { IUserRepository } from '../../auth/repositories/UserRepository.interface';
+import { IInventoryService } from '../../inventory/services/InventoryService.interface';
+import { CsvUtils, CsvRecord } from '../../../shared/utils/CsvUtils';
+import { AppError } from '../../../core/errors/AppError';
+import { Logger } from '../../../core/logging/Logger';
+import container from '../../../core/di/container';
+
+const MAX_IMPORT_PRODUCTS = 500;
+
+interface ParsedRow {
+  row: number;
+  input: Record<string, any>;
+  errors: string[];
+}
+
+interface ValidatedRow {
+  record: ProductImportRecord;
+  categoryIds: string[];
+  result: ProductImportRowResult;
+}
+
+export class ProductImportService implements IProductImportService {
+  private productRepository: IProductRepository;
+  private categoryRepository: ICategoryRepository;
+  private userRepository: IUserRepository;
+  private inventoryService: IInventoryService;
+  private logger = Logger.getInstance();
+
+  constructor() {
+    this.productRepository = container.resolve<IProductRepository>('productRepository');
+    this.categoryRepository = container.resolve<ICategoryRepository>('categoryRepository');
+    this.userRepository = container.resolve<IUserRepository>('userRepository');
+    this.inventoryService = container.resolve<IInventoryService>('inventoryService');
+  }
+
+  async importProducts(
+    sellerId: string,
+    file: { content: string; format: ProductFileFormat },
+    dryRun: boolean,
+  ): Promise<ProductImportResult> {
+    try {
+      await this.validateSeller(sellerId);
+
+      const parsed =
+        file.format === ProductFileFormat.CSV
+          ? this.parseCsv(file.content)
+          : this.parseJson(file.content);
+
+      if (parsed.length === 0) {
+        throw AppError.badRequest('The file contains no products', 'EMPTY_IMPORT');
+      }
+      if (parsed.length > MAX_IMPORT_PRODUCTS) {
+        throw AppError.badRequest(
+          `A file can contain at most ${MAX_IMPORT_PRODUCTS} products`,
+          'IMPORT_TOO_LARGE',
+        );
+      }
+
+      const rows = await this.validateRows(sellerId, parsed);
+      const hasErrors = rows.some((row) => row.result.errors.length > 0);
+
+      if (dryRun || hasErrors) {
+        return this.buildResult(rows, dryRun, false);
+      }
+
+      let saved: { productId: string; created: boolean }[];
+      try {
+        saved = await this.productRepository.importProducts(
+          sellerId,
+          rows.map((row) => ({ ...row.record, categoryIds: row.categoryIds })),
+        );
+      } catch (error) {
+        // Nothing was written; the row that failed carries the reason
+        const index = error instanceof AppError ? error.metadata?.index : undefined;
+        if (!(error instanceof AppError) || typeof index !== 'number' || !rows[index]) {
+          throw error;
+        }
+
+        rows[index].result.errors.push(error.message);
+        return this.buildResult(rows, false, false);
+      }
+
+      saved.forEach(({ productId, created }, index) => {
+        rows[index].result.productId = productId;
+        rows[index].result.action = created ? 'CREATE' : 'UPDATE';
+      });
+
+      await this.inventoryService.syncStockLevels(
+        rows.map((row) => row.result.productId).filter((id): id is string => !!id),
+      );
+
+      const result = this.buildResult(rows, false, true);
+      this.logger.info(
+        `Products imported by seller ${sellerId}: ${result.created} created, ${result.updated} updated, ${result.failed} failed`,
+      );
+
+      return result;
+    } catch (error) {
+      this.logger.error(`Error importing products: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to import products', 'SERVICE_ERROR');
+    }
+  }
+
+  async exportProducts(sellerId: string, format: ProductFileFormat): Promise<ProductExportFile> {
+    try {
+      await this.validateSeller(sellerId);
+
+      const records = await this.productRepository.getProductsForExport(sellerId);
+      const filename = `products-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+      if (format === ProductFileFormat.JSON) {
+        return {
+          filename,
+          contentType: 'application/json',
+          content: JSON.stringify(records, null, 2),
+        };
+      }
+
+      return {
+        filename,
+        contentType: 'text/csv',
+        content: CsvUtils.stringify(
+          PRODUCT_CSV_COLUMNS,
+          records.flatMap((record) => this.toCsvRows(record)),
+        ),
+      };
+    } catch (error) {
+      this.logger.error(`Error exporting products: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to export products', 'SERVICE_ERROR');
+    }
+  }
+
+  private async validateSeller(sellerId: string): Promise<void> {
+    const seller = await this.userRepository.findById(sellerId);
+    if (!seller) {
+      throw AppError.notFound('Seller not found', 'SELLER_NOT_FOUND');
+    }
+
+    if (seller.role !== 'ARTISAN') {
+      throw AppError.forbidden('Only artisans can import and export products', 'FORBIDDEN');
+    }
+  }
+
+  /**
+   * Rows sharing a product SKU are one product; rows with variant columns add a variant to it
+   */
+  private parseCsv(content: string): ParsedRow[] {
+    const { headers, records } = CsvUtils.parseRecords(content);
+    if (!headers.includes('name')) {
+      throw AppError.badRequest(
+        'CSV file must have a header row with a name column',
+        'INVALID_FILE',
+      );
+    }
+
+    const products: ParsedRow[] = [];
+    const bySku = new Map<string, ParsedRow>();
+
+    for (const record of records) {
+      const values = record.values;
+      const hasVariant = ['variantSku', 'variantQuantity', 'variantAttributes'].some(
+        (column) => values[column],
+      );
+
+      let product = values.sku ? bySku.get(values.sku) : undefined;
+      if (!product) {
+        product = { row: record.row, input: this.readCsvProduct(record), errors: [] };
+        products.push(product);
+        if (values.sku) bySku.set(values.sku, product);
+      } else if (!hasVariant) {
+        product.errors.push(`Row ${record.row}: SKU ${values.sku} appears more than once`);
+      }
+
+      if (hasVariant) {
+        product.input.variants = product.input.variants || [];
+        product.input.variants.push(this.readCsvVariant(record, product));
+      }
+    }
+
+    return products;
+  }
+
+  private readCsvProduct(record: CsvRecord): Record<string, any> {
+    const values = record.values;
+
+    return this.compact({
+      sku: values.sku,
+      name: values.name,
+      description: values.description,
+      price: values.price,
+      discountPrice: values.discountPrice,
+      quantity: values.quantity,
+      lowStockThreshold: values.lowStockThreshold,
+      status: values.status ? values.status.toUpperCase() : undefined,
+      categories: this.splitList(values.categories),
+      tags: this.splitList(values.tags),
+      images: this.splitList(values.images),
+      attributes: this.parseJsonCell(values.attributes),
+    });
+  }
+
+  private readCsvVariant(record: CsvRecord, product: ParsedRow): Record<string, any> {
+    const values = record.values;
+    const attributes = this.parseJsonCell(values.variantAttributes);
+    if (attributes === null) {
+      product.errors.push(`Row ${record.row}: variantAttributes must be a JSON object`);
+    }
+
+    return this.compact({
+      sku: values.variantSku,
+      name: values.variantName,
+      price: values.variantPrice,
+      discountPrice: values.variantDiscountPrice,
+      quantity: values.variantQuantity,
+      attributes: attributes || {},
+      images: this.splitList(values.variantImages),
+    });
+  }
+
+  private parseJson(content: string): ParsedRow[] {
+    let data: any;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      throw AppError.badRequest('File is not valid JSON', 'INVALID_FILE');
+    }
+
+    const products = Array.isArray(data) ? data : data?.products;
+    if (!Array.isArray(products)) {
+      throw AppError.badRequest(
+        'JSON file must be an array of products or { "products": [...] }',
+        'INVALID_FILE',
+      );
+    }
+
+    return products.map((input, index) => ({
+      row: index + 1,
+      input: input && typeof input === 'object' ? input : {},
+      errors: [],
+    }));
+  }
+
+  private async validateRows(sellerId: string, parsed: ParsedRow[]): Promise<ValidatedRow[]> {
+    const rows = parsed.map((row) => {
+      const { error, value } = importProductRecordSchema.validate(row.input, {
+        abortEarly: false,
+        stripUnknown: true,
+      });
+
+      const errors = [...row.errors];
+      if (error) errors.push(...error.details.map((detail) => detail.message));
+
+      return {
+        record: value as ProductImportRecord,
+        categoryIds: [] as string[],
+        result: {
+          row: row.row,
+          sku: row.input.sku ?? null,
+          name: row.input.name,
+          errors,
+        } as ProductImportRowResult,
+      };
+    });
+
+    const valid = rows.filter((row) => row.result.errors.length === 0);
+    const skus = valid.map((row) => row.record.sku).filter((sku): sku is string => !!sku);
+    const variantSkus = valid.flatMap((row) =>
+      (row.record.variants || [])
+        .map((variant) => variant.sku)
+        .filter((sku): sku is string => !!sku),
+    );
+
+    const [categories, products, variants] = await Promise.all([
+      this.categoryRepository.getCategoriesBySlugs([
+        ...new Set(valid.flatMap((row) => row.record.categories)),
+      ]),
+      skus.length > 0 ? this.productRepository.findProductsBySkus(skus) : Promise.resolve([]),
+      variantSkus.length > 0
+        ? this.productRepository.findVariantsBySkus(variantSkus)
+        : Promise.resolve([]),
+    ]);
+
+    const categoriesBySlug = new Map<string, CategoryWithRelations>(
+      categories.map((category) => [category.slug, category]),
+    );
+    const skuCounts = this.countValues(skus);
+    const variantSkuCounts = this.countValues(variantSkus);
+
+    for (const row of valid) {
+      const { record, result } = row;
+      const errors = result.errors;
+
+      // Product SKU: new, or one of the seller's own products
+      const existing = record.sku ? products.find((p) => p.sku === record.sku) : undefined;
+      if (record.sku && (skuCounts.get(record.sku) || 0) > 1) {
+        errors.push(`SKU ${record.sku} appears more than once`);
+      } else if (existing && existing.sellerId !== sellerId) {
+        errors.push(`SKU ${record.sku} is already used by another seller`);
+      } else if (existing?.deletedAt) {
+        errors.push(`SKU ${record.sku} belongs to a deleted product`);
+      } else {
+        result.action = existing ? 'UPDATE' : 'CREATE';
+        result.productId = existing?.id;
+      }
+
+      for (const variant of record.variants || []) {
+        if (!variant.sku) continue;
+        const owner = variants.find((v) => v.sku === variant.sku);
+        if ((variantSkuCounts.get(variant.sku) || 0) > 1) {
+          errors.push(`Variant SKU ${variant.sku} appears more than once`);
+        } else if (owner && owner.productId !== existing?.id) {
+          errors.push(`Variant SKU ${variant.sku} is already used by another product`);
+        }
+      }
+
+      // Categories by slug, and their attribute templates
+      const productCategories = record.categories.map((slug) => categoriesBySlug.get(slug));
+      record.categories.forEach((slug, index) => {
+        if (!productCategories[index]) errors.push(`Unknown category: ${slug}`);
+      });
+
+      const found = productCategories.filter((c): c is CategoryWithRelations => !!c);
+      row.categoryIds.push(...found.map((category) => category.id));
+
+      const templates = AttributeValidator.mergeTemplates(
+        found.map((category) => category.attributeTemplates || []),
+      );
+      errors.push(...AttributeValidator.validateProduct(templates, record));
+    }
+
+    return rows;
+  }
+
+  private buildResult(
+    rows: ValidatedRow[],
+    dryRun: boolean,
+    applied: boolean,
+  ): ProductImportResult {
+    const results = rows.map((row) => row.result);
+    const succeeded = results.filter((result) => result.errors.length === 0);
+
+    return {
+      dryRun,
+      applied,
+      total: results.length,
+      created: succeeded.filter((result) => result.action === 'CREATE').length,
+      updated: succeeded.filter((result) => result.action === 'UPDATE').length,
+      failed: results.length - succeeded.length,
+      rows: results,
+    };
+  }
+
+  private toCsvRows(record: ProductImportRecord): Record<string, unknown>[] {
+    const product = {
+      sku: record.sku,
+      name: record.name,
+      description: record.description,
+      price: record.price,
+      discountPrice: record.discountPrice,
+      quantity: record.quantity,
+      lowStockThreshold: record.lowStockThreshold,
+      status: record.status,
+      categories: record.categories.join('|'),
+      tags: (record.tags || []).join('|'),
+      images: record.images.join('|'),
+      attributes: record.attributes,
+    };
+
+    if (!record.variants || record.variants.length === 0) {
+      return [product];
+    }
+
+    // Later rows of the same product only repeat its SKU
+    return record.variants.map((variant, index) => ({
+      ...(index === 0 ? product : { sku: record.sku }),
+      variantSku: variant.sku,
+      variantName: variant.name,
+      variantPrice: variant.price,
+      variantDiscountPrice: variant.discountPrice,
+      variantQuantity: variant.quantity,
+      variantAttributes: variant.attributes,
+      variantImages: (variant.images || []).join('|'),
+    }));
+  }
+
+  private splitList(value?: string): string[] | undefined {
+    if (!value) return undefined;
+    return value
+      .split('|')
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+
+  /**
+   * Empty cells are undefined; anything that is not a JSON object is null
+   */
+  private parseJsonCell(value?: string): Record<string, any> | null | undefined {
+    if (!value) return undefined;
+    try {
+      const parsed = JSON.parse(value);
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private compact(values: Record<string, any>): Record<string, any> {
+    return Object.fromEntries(
+      Object.entries(values).filter(([, value]) => value !== undefined && value !== ''),
+    );
+  }
+
+  private countValues(values: string[]): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const value of values) counts.set(value, (counts.get(value) || 0) + 1);
+    return counts;
+  }
+}
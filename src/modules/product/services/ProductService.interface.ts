@@ -8,6 +8,7 @@ import {
   PriceHistory,
   ProductStats,
 } from '../models/Product';
+import { FacetedSearchOptions, FacetedSearchResult } from '../models/ProductSearch';
 import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
 
 export interface IProductService {
@@ -25,6 +26,7 @@ export interface IProductService {
     options?: Omit<ProductQueryOptions, 'sellerId'>,
   ): Promise<ProductPaginationResult>;
   searchProducts(query: string, options?: ProductQueryOptions): Promise<ProductPaginationResult>;
+  facetedSearch(options: FacetedSearchOptions): Promise<FacetedSearchResult>;
 
   // Price management
   updatePrice(
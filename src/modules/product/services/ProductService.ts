@@ -9,9 +9,13 @@ import {
   PriceHistory,
   ProductStats,
 } from '../models/Product';
+import { FacetedSearchOptions, FacetedSearchResult } from '../models/ProductSearch';
 import { IProductRepository } from '../repositories/ProductRepository.interface';
 import { ICategoryRepository } from '../repositories/CategoryRepository.interface';
+import { IProductSearchRepository } from '../repositories/ProductSearchRepository.interface';
 import { IUserRepository } from '../../auth/repositories/UserRepository.interface';
+import { AttributeValidator, AttributeValues } from './AttributeValidator';
+import { IInventoryService } from '../../inventory/services/InventoryService.interface';
 import { AppError } from '../../../core/errors/AppError';
 import { Logger } from '../../../core/logging/Logger';
 import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
@@ -20,13 +24,18 @@ import container from '../../../core/di/container';
 export class ProductService implements IProductService {
   private productRepository: IProductRepository;
   private categoryRepository: ICategoryRepository;
+  private productSearchRepository: IProductSearchRepository;
   private userRepository: IUserRepository;
+  private inventoryService: IInventoryService;
   private logger = Logger.getInstance();
 
   constructor() {
     this.productRepository = container.resolve<IProductRepository>('productRepository');
     this.categoryRepository = container.resolve<ICategoryRepository>('categoryRepository');
+    this.productSearchRepository =
+      container.resolve<IProductSearchRepository>('productSearchRepository');
     this.userRepository = container.resolve<IUserRepository>('userRepository');
+    this.inventoryService = container.resolve<IInventoryService>('inventoryService');
   }
 
   async createProduct(sellerId: string, data: CreateProductDto): Promise<ProductWithDetails> {
@@ -52,6 +61,8 @@ export class ProductService implements IProductService {
         }
       }
 
+      await this.validateAttributes(data.categoryIds || [], data);
+
       const product = await this.productRepository.createProduct(sellerId, data);
 
       this.logger.info(`Product created: ${product.id} "${product.name}" by seller ${sellerId}`);
@@ -83,10 +94,41 @@ export class ProductService implements IProductService {
         }
       }
 
-      const product = await this.productRepository.updateProduct(id, sellerId, data);
+      // Check the resulting product against the templates of the categories it ends up in
+      if (
+        data.categoryIds !== undefined ||
+        data.attributes !== undefined ||
+        data.specifications !== undefined ||
+        data.customFields !== undefined ||
+        data.variants !== undefined
+      ) {
+        const existing = await this.productRepository.getProductById(id);
+        if (existing && existing.sellerId === sellerId) {
+          await this.validateAttributes(
+            data.categoryIds ?? existing.categories.map((category) => category.id),
+            {
+              attributes: data.attributes ?? existing.attributes,
+              specifications: data.specifications ?? existing.specifications,
+              customFields: data.customFields ?? existing.customFields,
+              variants: data.variants ?? existing.variants?.filter((variant) => variant.isActive),
+            },
+          );
+        }
+      }
+
+      let product = await this.productRepository.updateProduct(id, sellerId, data);
 
       this.logger.info(`Product updated: ${id} by seller ${sellerId}`);
 
+      // A restock or a new threshold may change the stock status and alerts
+      if (
+        data.quantity !== undefined ||
+        data.variants !== undefined ||
+        data.lowStockThreshold !== undefined
+      ) {
+        product = await this.refreshStockStatus(product);
+      }
+
       return product;
     } catch (error) {
       this.logger.error(`Error updating product: ${error}`);
@@ -169,6 +211,29 @@ export class ProductService implements IProductService {
     }
   }
 
+  async facetedSearch(options: FacetedSearchOptions): Promise<FacetedSearchResult> {
+    try {
+      const { page = 1, limit = 20 } = options;
+
+      const [{ ids, total }, facets] = await Promise.all([
+        this.productSearchRepository.searchProductIds({ ...options, page, limit }),
+        this.productSearchRepository.getFacets(options),
+      ]);
+
+      const products = await this.productRepository.getProductsByIds(ids, options.userId);
+
+      return {
+        data: products,
+        meta: { total, page, limit, totalPages: Math.ceil(total / limit) },
+        facets,
+      };
+    } catch (error) {
+      this.logger.error(`Error in faceted product search: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to search products', 'SERVICE_ERROR');
+    }
+  }
+
   async updatePrice(
     id: string,
     sellerId: string,
@@ -212,7 +277,7 @@ export class ProductService implements IProductService {
 
       this.logger.info(`Product published: ${id} by seller ${sellerId}`);
 
-      return product;
+      return await this.refreshStockStatus(product);
     } catch (error) {
       this.logger.error(`Error publishing product: ${error}`);
       if (error instanceof AppError) throw error;
@@ -334,6 +399,27 @@ export class ProductService implements IProductService {
     }
   }
 
+  private async refreshStockStatus(product: ProductWithDetails): Promise<ProductWithDetails> {
+    await this.inventoryService.syncStockLevels([product.id]);
+    return (await this.productRepository.getProductById(product.id)) ?? product;
+  }
+
+  private async validateAttributes(categoryIds: string[], data: AttributeValues): Promise<void> {
+    const templateLists = await Promise.all(
+      categoryIds.map((categoryId) =>
+        this.categoryRepository.getCategoryAttributeTemplates(categoryId),
+      ),
+    );
+
+    const errors = AttributeValidator.validateProduct(
+      AttributeValidator.mergeTemplates(templateLists),
+      data,
+    );
+    if (errors.length > 0) {
+      throw AppError.validationFailed(errors.join('; '), 'INVALID_ATTRIBUTES');
+    }
+  }
+
   private async validateCategories(categoryIds: string[]): Promise<boolean> {
     try {
       // Check if all categories exist and are active
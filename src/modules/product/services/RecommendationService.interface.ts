@@ -0,0 +1,18 @@
+import { ProductWithDetails } from '../models/Product';
+
+export interface IRecommendationService {
+  // Job: rebuild every stored recommendation, returns the number of rows written
+  computeRecommendations(): Promise<number>;
+
+  getRelatedProducts(
+    productId: string,
+    limit?: number,
+    userId?: string,
+  ): Promise<ProductWithDetails[]>;
+  getAlsoBoughtProducts(
+    productId: string,
+    limit?: number,
+    userId?: string,
+  ): Promise<ProductWithDetails[]>;
+  getForYouProducts(userId: string, limit?: number): Promise<ProductWithDetails[]>;
+}
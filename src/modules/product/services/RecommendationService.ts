@@ -0,0 +1,118 @@
+import { IRecommendationService } from './RecommendationService.interface';
+import { ProductWithDetails } from '../models/Product';
+import { ProductStatus } from '../models/ProductEnums';
+import { RecommendationType } from '../models/Recommendation';
+import { IRecommendationRepository } from '../repositories/RecommendationRepository.interface';
+import { IProductRepository } from '../repositories/ProductRepository.interface';
+import { AppError } from '../../../core/errors/AppError';
+import { Logger } from '../../../core/logging/Logger';
+import container from '../../../core/di/container';
+
+const PER_PRODUCT = 20;
+const PER_USER = 50;
+const SIGNAL_LOOKBACK_DAYS = 180;
+
+export class RecommendationService implements IRecommendationService {
+  private recommendationRepository: IRecommendationRepository;
+  private productRepository: IProductRepository;
+  private logger = Logger.getInstance();
+
+  constructor() {
+    this.recommendationRepository = container.resolve<IRecommendationRepository>(
+      'recommendationRepository',
+    );
+    this.productRepository = container.resolve<IProductRepository>('productRepository');
+  }
+
+  async computeRecommendations(): Promise<number> {
+    const since = new Date(Date.now() - SIGNAL_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+    // Personal recommendations are built from the product ones, so they go last
+    const related = await this.recommendationRepository.computeRelated(PER_PRODUCT);
+    const alsoBought = await this.recommendationRepository.computeAlsoBought(PER_PRODUCT, since);
+    const forUsers = await this.recommendationRepository.computeForUsers(PER_USER, since);
+
+    this.logger.info(
+      `Recommendations computed: ${related} related, ${alsoBought} also bought, ${forUsers} personal`,
+    );
+
+    return related + alsoBought + forUsers;
+  }
+
+  async getRelatedProducts(
+    productId: string,
+    limit: number = 10,
+    userId?: string,
+  ): Promise<ProductWithDetails[]> {
+    return this.getProductRecommendations(productId, RecommendationType.RELATED, limit, userId);
+  }
+
+  async getAlsoBoughtProducts(
+    productId: string,
+    limit: number = 10,
+    userId?: string,
+  ): Promise<ProductWithDetails[]> {
+    return this.getProductRecommendations(productId, RecommendationType.ALSO_BOUGHT, limit, userId);
+  }
+
+  async getForYouProducts(userId: string, limit: number = 20): Promise<ProductWithDetails[]> {
+    try {
+      const ids = await this.recommendationRepository.getUserRecommendedProductIds(userId, limit);
+
+      // Users without history yet get the best sellers
+      if (ids.length === 0) {
+        const popular = await this.productRepository.getProducts({
+          limit,
+          inStock: true,
+          sortBy: 'salesCount',
+          sortOrder: 'desc',
+          userId,
+        });
+        return popular.data.filter((product) => product.sellerId !== userId);
+      }
+
+      return this.loadVisible(ids, userId);
+    } catch (error) {
+      this.logger.error(`Error getting personal recommendations: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to get recommendations', 'SERVICE_ERROR');
+    }
+  }
+
+  private async getProductRecommendations(
+    productId: string,
+    type: RecommendationType,
+    limit: number,
+    userId?: string,
+  ): Promise<ProductWithDetails[]> {
+    try {
+      const product = await this.productRepository.findById(productId);
+      if (!product || product.deletedAt) {
+        throw AppError.notFound('Product not found', 'PRODUCT_NOT_FOUND');
+      }
+
+      const ids = await this.recommendationRepository.getRecommendedProductIds(
+        productId,
+        type,
+        limit,
+      );
+
+      return this.loadVisible(ids, userId);
+    } catch (error) {
+      this.logger.error(`Error getting ${type} recommendations: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to get recommendations', 'SERVICE_ERROR');
+    }
+  }
+
+  /**
+   * Products may have been unpublished since the recommendations were computed
+   */
+  private async loadVisible(ids: string[], userId?: string): Promise<ProductWithDetails[]> {
+    const products = await this.productRepository.getProductsByIds(ids, userId);
+    return products.filter(
+      (product) =>
+        product.status === ProductStatus.PUBLISHED || product.status === ProductStatus.OUT_OF_STOCK,
+    );
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Promotion Module Exports
+ */
+
+// Export models
+export * from './models/Promotion';
+
+// Export service interfaces
+export * from './services/PromotionService.interface';
+
+// Export repository interfaces
+export * from './repositories/PromotionRepository.interface';
+
+// Export validators
+export * from './interface/validators/promotion.validator';
+
+// Export module registration function
+export function registerPromotionModule() {
+  console.log('Promotion module registered');
+
+  return {
+    name: 'promotion',
+    description: 'Coupon codes and automatic promotions for checkout',
+    version: '1.0.0',
+    features: [
+      'Percentage and fixed-amount discounts',
+      'Platform-wide, per-artisan and per-category scope',
+      'Minimum subtotal, date window, total and per-user usage limits',
+      'Best automatic promotion stacked with one coupon code',
+      'Discounts allocated per order item for accurate refunds',
+    ],
+  };
+}
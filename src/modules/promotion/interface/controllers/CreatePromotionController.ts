@@ -0,0 +1,23 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../shared/utils/ApiResponse';
+import { IPromotionService } from '../../services/PromotionService.interface';
+import container from '../../../../core/di/container';
+
+export class CreatePromotionController extends BaseController {
+  private promotionService: IPromotionService;
+
+  constructor() {
+    super();
+    this.promotionService = container.resolve<IPromotionService>('promotionService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    this.validateAuth(req);
+    this.validateRole(req, ['ADMIN', 'ARTISAN']);
+
+    const promotion = await this.promotionService.createPromotion(req.user!.id, req.body);
+
+    ApiResponse.created(res, promotion, 'Promotion created successfully');
+  }
+}
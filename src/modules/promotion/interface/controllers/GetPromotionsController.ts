@@ -0,0 +1,31 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../shared/utils/ApiResponse';
+import { IPromotionService } from '../../services/PromotionService.interface';
+import container from '../../../../core/di/container';
+
+export class GetPromotionsController extends BaseController {
+  private promotionService: IPromotionService;
+
+  constructor() {
+    super();
+    this.promotionService = container.resolve<IPromotionService>('promotionService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    this.validateAuth(req);
+    this.validateRole(req, ['ADMIN', 'ARTISAN']);
+
+    const options = {
+      page: parseInt(req.query.page as string) || 1,
+      limit: parseInt(req.query.limit as string) || 20,
+      sellerId: req.query.sellerId as string,
+      isActive: req.query.isActive !== undefined ? req.query.isActive === 'true' : undefined,
+      search: req.query.search as string,
+    };
+
+    const promotions = await this.promotionService.getPromotions(req.user!.id, options);
+
+    ApiResponse.success(res, promotions, 'Promotions retrieved successfully');
+  }
+}
@@ -0,0 +1,27 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../shared/utils/ApiResponse';
+import { IPromotionService } from '../../services/PromotionService.interface';
+import container from '../../../../core/di/container';
+
+export class UpdatePromotionController extends BaseController {
+  private promotionService: IPromotionService;
+
+  constructor() {
+    super();
+    this.promotionService = container.resolve<IPromotionService>('promotionService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    this.validateAuth(req);
+    this.validateRole(req, ['ADMIN', 'ARTISAN']);
+
+    const promotion = await this.promotionService.updatePromotion(
+      req.params.id,
+      req.user!.id,
+      req.body,
+    );
+
+    ApiResponse.success(res, promotion, 'Promotion updated successfully');
+  }
+}
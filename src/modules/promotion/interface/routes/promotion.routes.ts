@@ -0,0 +1,41 @@
+import { Router } from 'express';
+import { validate } from '../../../../shared/middlewares/validate.middleware';
+import { authenticate, authorize } from '../../../../shared/middlewares/auth.middleware';
+import { validateIdParam } from '../../../../shared/middlewares/request-validation.middleware';
+import {
+  createPromotionSchema,
+  updatePromotionSchema,
+  getPromotionsQuerySchema,
+} from '../validators/promotion.validator';
+
+// Controllers
+import { GetPromotionsController } from '../controllers/GetPromotionsController';
+import { GetPromotionController } from '../controllers/GetPromotionController';
+import { CreatePromotionController } from '../controllers/CreatePromotionController';
+import { UpdatePromotionController } from '../controllers/UpdatePromotionController';
+import { DeletePromotionController } from '../controllers/DeletePromotionController';
+
+const router = Router();
+
+// Initialize controllers
+const getPromotionsController = new GetPromotionsController();
+const getPromotionController = new GetPromotionController();
+const createPromotionController = new CreatePromotionController();
+const updatePromotionController = new UpdatePromotionController();
+const deletePromotionController = new DeletePromotionController();
+
+// Admins manage every promotion, artisans only those for their own shop
+router.use(authenticate, authorize(['ADMIN', 'ARTISAN']));
+
+router.get('/', validate(getPromotionsQuerySchema, 'query'), getPromotionsController.execute);
+router.post('/', validate(createPromotionSchema), createPromotionController.execute);
+router.get('/:id', validateIdParam(), getPromotionController.execute);
+router.patch(
+  '/:id',
+  validateIdParam(),
+  validate(updatePromotionSchema),
+  updatePromotionController.execute,
+);
+router.delete('/:id', validateIdParam(), deletePromotionController.execute);
+
+export default router;
@@ -0,0 +1,62 @@
+import Joi from 'joi';
+import { PromotionType } from '../../models/Promotion';
+
+export const createPromotionSchema = Joi.object({
+  code: Joi.string()
+    .trim()
+    .uppercase()
+    .pattern(/^[A-Z0-9_-]+$/)
+    .min(3)
+    .max(50)
+    .messages({
+      'string.pattern.base': 'Code can only contain letters, numbers, dashes and underscores',
+    }),
+  name: Joi.string().trim().min(2).max(200).required(),
+  description: Joi.string().trim().max(1000).allow(''),
+  type: Joi.string()
+    .valid(...Object.values(PromotionType))
+    .required(),
+  value: Joi.number()
+    .positive()
+    .precision(2)
+    .when('type', {
+      is: PromotionType.PERCENTAGE,
+      then: Joi.number().max(100),
+    })
+    .required(),
+  maxDiscount: Joi.number().positive().precision(2),
+  sellerId: Joi.string().uuid(),
+  categoryId: Joi.string().uuid(),
+  minSubtotal: Joi.number().min(0).precision(2),
+  usageLimit: Joi.number().integer().min(1),
+  perUserLimit: Joi.number().integer().min(1),
+  startsAt: Joi.date().iso(),
+  endsAt: Joi.date()
+    .iso()
+    .when('startsAt', {
+      is: Joi.exist(),
+      then: Joi.date().greater(Joi.ref('startsAt')),
+    }),
+  isActive: Joi.boolean().default(true),
+});
+
+export const updatePromotionSchema = Joi.object({
+  name: Joi.string().trim().min(2).max(200),
+  description: Joi.string().trim().max(1000).allow(''),
+  value: Joi.number().positive().precision(2),
+  maxDiscount: Joi.number().positive().precision(2).allow(null),
+  minSubtotal: Joi.number().min(0).precision(2).allow(null),
+  usageLimit: Joi.number().integer().min(1).allow(null),
+  perUserLimit: Joi.number().integer().min(1).allow(null),
+  startsAt: Joi.date().iso().allow(null),
+  endsAt: Joi.date().iso().allow(null),
+  isActive: Joi.boolean(),
+}).min(1);
+
+export const getPromotionsQuerySchema = Joi.object({
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+  sellerId: Joi.string().uuid(),
+  isActive: Joi.boolean(),
+  search: Joi.string().trim().max(100),
+});
@@ -0,0 +1,109 @@
+export enum PromotionType {
+  PERCENTAGE = 'PERCENTAGE',
+  FIXED = 'FIXED',
+}
+
+/**
+ * A coupon when it has a code, otherwise an automatic promotion applied to every eligible cart
+ */
+export interface Promotion {
+  id: string;
+  code?: string | null;
+  name: string;
+  description?: string | null;
+  type: PromotionType;
+  value: number; // Decimal converted to number; percent for PERCENTAGE
+  maxDiscount?: number | null; // Decimal converted to number
+  sellerId?: string | null; // null = platform-wide
+  categoryId?: string | null;
+  minSubtotal?: number | null; // Decimal converted to number
+  usageLimit?: number | null;
+  perUserLimit?: number | null;
+  usageCount: number;
+  startsAt?: Date | null;
+  endsAt?: Date | null;
+  isActive: boolean;
+  createdBy?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PromotionRedemption {
+  id: string;
+  promotionId: string;
+  orderId: string;
+  userId: string;
+  code?: string | null;
+  amount: number; // Decimal converted to number
+  createdAt: Date;
+}
+
+/**
+ * A cart line as promotions see it; price is the unit price the customer pays
+ */
+export interface PromotionLine {
+  sellerId: string;
+  productId?: string | null;
+  variantId?: string | null;
+  price: number;
+  quantity: number;
+}
+
+export interface AppliedPromotion {
+  promotionId: string;
+  code?: string | null;
+  name: string;
+  sellerId?: string | null;
+  amount: number;
+}
+
+export interface LineDiscount {
+  productId?: string | null;
+  variantId?: string | null;
+  amount: number;
+}
+
+export interface PromotionResult {
+  discountAmount: number;
+  promotions: AppliedPromotion[];
+  lineDiscounts: LineDiscount[];
+}
+
+// DTOs
+export interface CreatePromotionDto {
+  code?: string;
+  name: string;
+  description?: string;
+  type: PromotionType;
+  value: number;
+  maxDiscount?: number;
+  sellerId?: string;
+  categoryId?: string;
+  minSubtotal?: number;
+  usageLimit?: number;
+  perUserLimit?: number;
+  startsAt?: Date;
+  endsAt?: Date;
+  isActive?: boolean;
+}
+
+export interface UpdatePromotionDto {
+  name?: string;
+  description?: string;
+  value?: number;
+  maxDiscount?: number | null;
+  minSubtotal?: number | null;
+  usageLimit?: number | null;
+  perUserLimit?: number | null;
+  startsAt?: Date | null;
+  endsAt?: Date | null;
+  isActive?: boolean;
+}
+
+export interface PromotionQueryOptions {
+  page?: number;
+  limit?: number;
+  sellerId?: string;
+  isActive?: boolean;
+  search?: string;
+}
@@ -0,0 +1,22 @@
+import { BaseRepository } from '../../../shared/interfaces/BaseRepository';
+import {
+  Promotion,
+  CreatePromotionDto,
+  UpdatePromotionDto,
+  PromotionQueryOptions,
+} from '../models/Promotion';
+import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
+
+export interface IPromotionRepository extends BaseRepository<Promotion, string> {
+  findByCode(code: string): Promise<Promotion | null>;
+  findActiveAutomatic(sellerIds: string[]): Promise<Promotion[]>;
+  getPromotions(options: PromotionQueryOptions): Promise<PaginatedResult<Promotion>>;
+  createPromotion(data: CreatePromotionDto & { createdBy: string }): Promise<Promotion>;
+  updatePromotion(id: string, data: UpdatePromotionDto): Promise<Promotion>;
+  deletePromotion(id: string): Promise<boolean>;
+  hasRedemptions(id: string): Promise<boolean>;
+
+  // Eligibility inputs
+  getProductCategoryIds(productIds: string[]): Promise<Record<string, string[]>>;
+  countUserRedemptions(promotionIds: string[], userId: string): Promise<Record<string, number>>;
+}
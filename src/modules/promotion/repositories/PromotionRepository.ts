@@ -0,0 +1,245 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { BasePrismaRepository } from '../../../shared/baseClasses/BasePrismaRepository';
+import { IPromotionRepository } from './PromotionRepository.interface';
+import {
+  Promotion,
+  CreatePromotionDto,
+  UpdatePromotionDto,
+  PromotionQueryOptions,
+} from '../models/Promotion';
+import { OrderStatus } from '../../order/models/OrderEnums';
+import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
+import { AppError } from '../../../core/errors/AppError';
+import { Logger } from '../../../core/logging/Logger';
+
+export class PromotionRepository
+  extends BasePrismaRepository<Promotion, string>
+  implements IPromotionRepository
+{
+  private logger = Logger.getInstance();
+
+  constructor(prisma: PrismaClient) {
+    super(prisma, 'promotion');
+  }
+
+  override async findById(id: string): Promise<Promotion | null> {
+    try {
+      const promotion = await this.prisma.promotion.findUnique({ where: { id } });
+      return promotion ? this.transform(promotion) : null;
+    } catch (error) {
+      this.logger.error(`Error finding promotion: ${error}`);
+      return null;
+    }
+  }
+
+  async findByCode(code: string): Promise<Promotion | null> {
+    try {
+      const promotion = await this.prisma.promotion.findUnique({
+        where: { code: code.trim().toUpperCase() },
+      });
+      return promotion ? this.transform(promotion) : null;
+    } catch (error) {
+      this.logger.error(`Error finding promotion by code: ${error}`);
+      return null;
+    }
+  }
+
+  async findActiveAutomatic(sellerIds: string[]): Promise<Promotion[]> {
+    try {
+      const now = new Date();
+
+      const promotions = await this.prisma.promotion.findMany({
+        where: {
+          code: null,
+          isActive: true,
+          OR: [{ sellerId: null }, { sellerId: { in: sellerIds } }],
+          AND: [
+            { OR: [{ startsAt: null }, { startsAt: { lte: now } }] },
+            { OR: [{ endsAt: null }, { endsAt: { gte: now } }] },
+          ],
+        },
+      });
+
+      return promotions.map((promotion) => this.transform(promotion));
+    } catch (error) {
+      this.logger.error(`Error finding automatic promotions: ${error}`);
+      throw AppError.internal('Failed to find promotions', 'DATABASE_ERROR');
+    }
+  }
+
+  async getPromotions(options: PromotionQueryOptions): Promise<PaginatedResult<Promotion>> {
+    try {
+      const { page = 1, limit = 20, sellerId, isActive, search } = options;
+      const skip = (page - 1) * limit;
+
+      const where: Prisma.PromotionWhereInput = {};
+      if (sellerId) where.sellerId = sellerId;
+      if (isActive !== undefined) where.isActive = isActive;
+      if (search) {
+        where.OR = [
+          { name: { contains: search, mode: 'insensitive' } },
+          { code: { contains: search, mode: 'insensitive' } },
+        ];
+      }
+
+      const [promotions, total] = await Promise.all([
+        this.prisma.promotion.findMany({
+          where,
+          orderBy: { createdAt: 'desc' },
+          skip,
+          take: limit,
+        }),
+        this.prisma.promotion.count({ where }),
+      ]);
+
+      return {
+        data: promotions.map((promotion) => this.transform(promotion)),
+        meta: {
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit),
+        },
+      };
+    } catch (error) {
+      this.logger.error(`Error getting promotions: ${error}`);
+      throw AppError.internal('Failed to get promotions', 'DATABASE_ERROR');
+    }
+  }
+
+  async createPromotion(data: CreatePromotionDto & { createdBy: string }): Promise<Promotion> {
+    try {
+      const promotion = await this.prisma.promotion.create({
+        data: {
+          code: data.code ? data.code.trim().toUpperCase() : null,
+          name: data.name,
+          description: data.description,
+          type: data.type,
+          value: data.value,
+          maxDiscount: data.maxDiscount,
+          sellerId: data.sellerId,
+          categoryId: data.categoryId,
+          minSubtotal: data.minSubtotal,
+          usageLimit: data.usageLimit,
+          perUserLimit: data.perUserLimit,
+          startsAt: data.startsAt,
+          endsAt: data.endsAt,
+          isActive: data.isActive ?? true,
+          createdBy: data.createdBy,
+        },
+      });
+
+      return this.transform(promotion);
+    } catch (error) {
+      this.logger.error(`Error creating promotion: ${error}`);
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw AppError.conflict(
+          'A promotion with this code already exists',
+          'PROMOTION_CODE_EXISTS',
+        );
+      }
+      throw AppError.internal('Failed to create promotion', 'DATABASE_ERROR');
+    }
+  }
+
+  async updatePromotion(id: string, data: UpdatePromotionDto): Promise<Promotion> {
+    try {
+      const promotion = await this.prisma.promotion.update({
+        where: { id },
+        data: {
+          name: data.name,
+          description: data.description,
+          value: data.value,
+          maxDiscount: data.maxDiscount,
+          minSubtotal: data.minSubtotal,
+          usageLimit: data.usageLimit,
+          perUserLimit: data.perUserLimit,
+          startsAt: data.startsAt,
+          endsAt: data.endsAt,
+          isActive: data.isActive,
+        },
+      });
+
+      return this.transform(promotion);
+    } catch (error) {
+      this.logger.error(`Error updating promotion: ${error}`);
+      throw AppError.internal('Failed to update promotion', 'DATABASE_ERROR');
+    }
+  }
+
+  async deletePromotion(id: string): Promise<boolean> {
+    try {
+      await this.prisma.promotion.delete({ where: { id } });
+      return true;
+    } catch (error) {
+      this.logger.error(`Error deleting promotion: ${error}`);
+      throw AppError.internal('Failed to delete promotion', 'DATABASE_ERROR');
+    }
+  }
+
+  async hasRedemptions(id: string): Promise<boolean> {
+    const count = await this.prisma.promotionRedemption.count({ where: { promotionId: id } });
+    return count > 0;
+  }
+
+  async getProductCategoryIds(productIds: string[]): Promise<Record<string, string[]>> {
+    try {
+      const [links, categories] = await Promise.all([
+        this.prisma.categoryProduct.findMany({
+          where: { productId: { in: productIds } },
+          select: { productId: true, categoryId: true },
+        }),
+        this.prisma.category.findMany({ select: { id: true, parentId: true } }),
+      ]);
+
+      const parents = new Map(categories.map((category) => [category.id, category.parentId]));
+      const result: Record<string, string[]> = {};
+
+      // A product in a subcategory also counts for every category above it
+      for (const link of links) {
+        const ids = result[link.productId] || (result[link.productId] = []);
+        let categoryId: string | null | undefined = link.categoryId;
+        while (categoryId && !ids.includes(categoryId)) {
+          ids.push(categoryId);
+          categoryId = parents.get(categoryId);
+        }
+      }
+
+      return result;
+    } catch (error) {
+      this.logger.error(`Error getting product categories: ${error}`);
+      throw AppError.internal('Failed to get product categories', 'DATABASE_ERROR');
+    }
+  }
+
+  async countUserRedemptions(
+    promotionIds: string[],
+    userId: string,
+  ): Promise<Record<string, number>> {
+    try {
+      const counts = await this.prisma.promotionRedemption.groupBy({
+        by: ['promotionId'],
+        where: {
+          promotionId: { in: promotionIds },
+          userId,
+          order: { status: { not: OrderStatus.CANCELLED } },
+        },
+        _count: { id: true },
+      });
+
+      return Object.fromEntries(counts.map((count) => [count.promotionId, count._count.id]));
+    } catch (error) {
+      this.logger.error(`Error counting promotion redemptions: ${error}`);
+      throw AppError.internal('Failed to count promotion redemptions', 'DATABASE_ERROR');
+    }
+  }
+
+  private transform(promotion: any): Promotion {
+    return {
+      ...promotion,
+      value: Number(promotion.value),
+      maxDiscount: promotion.maxDiscount !== null ? Number(promotion.maxDiscount) : null,
+      minSubtotal: promotion.minSubtotal !== null ? Number(promotion.minSubtotal) : null,
+    };
+  }
+}
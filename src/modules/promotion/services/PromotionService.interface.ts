@@ -0,0 +1,31 @@
+import {
+  Promotion,
+  CreatePromotionDto,
+  UpdatePromotionDto,
+  PromotionQueryOptions,
+  PromotionLine,
+  PromotionResult,
+} from '../models/Promotion';
+import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
+
+export interface IPromotionService {
+  /**
+   * Discounts for a cart: the best automatic promotion plus the coupon, if one is given.
+   * Throws when the coupon cannot be used on this cart.
+   */
+  applyPromotions(
+    userId: string,
+    lines: PromotionLine[],
+    couponCode?: string,
+  ): Promise<PromotionResult>;
+
+  // Promotion management (admins for any seller, artisans for their own shop)
+  getPromotions(
+    userId: string,
+    options: PromotionQueryOptions,
+  ): Promise<PaginatedResult<Promotion>>;
+  getPromotion(id: string, userId: string): Promise<Promotion>;
+  createPromotion(userId: string, data: CreatePromotionDto): Promise<Promotion>;
+  updatePromotion(id: string, userId: string, data: UpdatePromotionDto): Promise<Promotion>;
+  deletePromotion(id: string, userId: string): Promise<void>;
+}
@@ -0,0 +1,338 @@
+import { IPromotionService } from './PromotionService.interface';
+import {
+  Promotion,
+  PromotionType,
+  CreatePromotionDto,
+  UpdatePromotionDto,
+  PromotionQueryOptions,
+  PromotionLine,
+  PromotionResult,
+  AppliedPromotion,
+} from '../models/Promotion';
+import { IPromotionRepository } from '../repositories/PromotionRepository.interface';
+import { IUserRepository } from '../../auth/repositories/UserRepository.interface';
+import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
+import { AppError } from '../../../core/errors/AppError';
+import { Logger } from '../../../core/logging/Logger';
+import container from '../../../core/di/container';
+
+interface PromotionEvaluation {
+  amount: number;
+  lineIndexes: number[];
+  error?: { message: string; code: string };
+}
+
+export class PromotionService implements IPromotionService {
+  private promotionRepository: IPromotionRepository;
+  private userRepository: IUserRepository;
+  private logger = Logger.getInstance();
+
+  constructor() {
+    this.promotionRepository = container.resolve<IPromotionRepository>('promotionRepository');
+    this.userRepository = container.resolve<IUserRepository>('userRepository');
+  }
+
+  async applyPromotions(
+    userId: string,
+    lines: PromotionLine[],
+    couponCode?: string,
+  ): Promise<PromotionResult> {
+    try {
+      if (lines.length === 0) {
+        return { discountAmount: 0, promotions: [], lineDiscounts: [] };
+      }
+
+      const sellerIds = [...new Set(lines.map((line) => line.sellerId))];
+      const automatic = await this.promotionRepository.findActiveAutomatic(sellerIds);
+
+      let coupon: Promotion | null = null;
+      if (couponCode) {
+        coupon = await this.promotionRepository.findByCode(couponCode);
+        if (!coupon || !coupon.isActive) {
+          throw AppError.badRequest('Coupon code is not valid', 'COUPON_NOT_FOUND');
+        }
+
+        const now = new Date();
+        if ((coupon.startsAt && coupon.startsAt > now) || (coupon.endsAt && coupon.endsAt < now)) {
+          throw AppError.badRequest('Coupon code is not valid at this time', 'COUPON_EXPIRED');
+        }
+      }
+
+      const candidates = coupon ? [...automatic, coupon] : automatic;
+      const productIds = [...new Set(lines.map((line) => line.productId).filter(Boolean))];
+      const [productCategories, userRedemptions] = await Promise.all([
+        candidates.some((promotion) => promotion.categoryId)
+          ? this.promotionRepository.getProductCategoryIds(productIds as string[])
+          : Promise.resolve({} as Record<string, string[]>),
+        this.promotionRepository.countUserRedemptions(
+          candidates.map((promotion) => promotion.id),
+          userId,
+        ),
+      ]);
+
+      const evaluate = (promotion: Promotion) =>
+        this.evaluate(promotion, lines, productCategories, userRedemptions[promotion.id] || 0);
+
+      // Only the best automatic promotion applies; a coupon stacks on top of it
+      const applicable: { promotion: Promotion; evaluation: PromotionEvaluation }[] = [];
+
+      const best = automatic
+        .map((promotion) => ({ promotion, evaluation: evaluate(promotion) }))
+        .filter(({ evaluation }) => !evaluation.error && evaluation.amount > 0)
+        .sort((a, b) => b.evaluation.amount - a.evaluation.amount)[0];
+      if (best) applicable.push(best);
+
+      if (coupon) {
+        const evaluation = evaluate(coupon);
+        if (evaluation.error) {
+          throw AppError.badRequest(evaluation.error.message, evaluation.error.code);
+        }
+        applicable.push({ promotion: coupon, evaluation });
+      }
+
+      return this.allocate(lines, applicable);
+    } catch (error) {
+      this.logger.error(`Error applying promotions: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to apply promotions', 'SERVICE_ERROR');
+    }
+  }
+
+  async getPromotions(
+    userId: string,
+    options: PromotionQueryOptions,
+  ): Promise<PaginatedResult<Promotion>> {
+    try {
+      const role = await this.getManagerRole(userId);
+
+      return await this.promotionRepository.getPromotions({
+        ...options,
+        sellerId: role === 'ARTISAN' ? userId : options.sellerId,
+      });
+    } catch (error) {
+      this.logger.error(`Error getting promotions: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to get promotions', 'SERVICE_ERROR');
+    }
+  }
+
+  async getPromotion(id: string, userId: string): Promise<Promotion> {
+    try {
+      return await this.getManagedPromotion(id, userId);
+    } catch (error) {
+      this.logger.error(`Error getting promotion: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to get promotion', 'SERVICE_ERROR');
+    }
+  }
+
+  async createPromotion(userId: string, data: CreatePromotionDto): Promise<Promotion> {
+    try {
+      const role = await this.getManagerRole(userId);
+
+      // Artisans can only discount their own products
+      const sellerId = role === 'ARTISAN' ? userId : data.sellerId;
+
+      if (data.code) {
+        const existing = await this.promotionRepository.findByCode(data.code);
+        if (existing) {
+          throw AppError.conflict(
+            'A promotion with this code already exists',
+            'PROMOTION_CODE_EXISTS',
+          );
+        }
+      }
+
+      const promotion = await this.promotionRepository.createPromotion({
+        ...data,
+        sellerId,
+        createdBy: userId,
+      });
+
+      this.logger.info(`Promotion created: ${promotion.id} (${promotion.code || 'automatic'})`);
+
+      return promotion;
+    } catch (error) {
+      this.logger.error(`Error creating promotion: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to create promotion', 'SERVICE_ERROR');
+    }
+  }
+
+  async updatePromotion(id: string, userId: string, data: UpdatePromotionDto): Promise<Promotion> {
+    try {
+      const promotion = await this.getManagedPromotion(id, userId);
+
+      const startsAt = data.startsAt !== undefined ? data.startsAt : promotion.startsAt;
+      const endsAt = data.endsAt !== undefined ? data.endsAt : promotion.endsAt;
+      if (startsAt && endsAt && endsAt <= startsAt) {
+        throw AppError.badRequest('End date must be after start date', 'INVALID_DATE_RANGE');
+      }
+
+      const value = data.value ?? promotion.value;
+      if (promotion.type === PromotionType.PERCENTAGE && value > 100) {
+        throw AppError.badRequest('Percentage cannot exceed 100', 'INVALID_PROMOTION_VALUE');
+      }
+
+      return await this.promotionRepository.updatePromotion(id, data);
+    } catch (error) {
+      this.logger.error(`Error updating promotion: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to update promotion', 'SERVICE_ERROR');
+    }
+  }
+
+  async deletePromotion(id: string, userId: string): Promise<void> {
+    try {
+      await this.getManagedPromotion(id, userId);
+
+      // Redeemed promotions stay for order history; they can only be deactivated
+      if (await this.promotionRepository.hasRedemptions(id)) {
+        throw AppError.conflict(
+          'Promotion has been redeemed; deactivate it instead',
+          'PROMOTION_IN_USE',
+        );
+      }
+
+      await this.promotionRepository.deletePromotion(id);
+    } catch (error) {
+      this.logger.error(`Error deleting promotion: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to delete promotion', 'SERVICE_ERROR');
+    }
+  }
+
+  private async getManagerRole(userId: string): Promise<string> {
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw AppError.notFound('User not found', 'USER_NOT_FOUND');
+    }
+
+    if (user.role !== 'ADMIN' && user.role !== 'ARTISAN') {
+      throw AppError.forbidden('Only admins and artisans can manage promotions', 'FORBIDDEN');
+    }
+
+    return user.role;
+  }
+
+  private async getManagedPromotion(id: string, userId: string): Promise<Promotion> {
+    const role = await this.getManagerRole(userId);
+
+    const promotion = await this.promotionRepository.findById(id);
+    if (!promotion) {
+      throw AppError.notFound('Promotion not found', 'PROMOTION_NOT_FOUND');
+    }
+
+    if (role === 'ARTISAN' && promotion.sellerId !== userId) {
+      throw AppError.forbidden('You can only manage your own promotions', 'FORBIDDEN');
+    }
+
+    return promotion;
+  }
+
+  private evaluate(
+    promotion: Promotion,
+    lines: PromotionLine[],
+    productCategories: Record<string, string[]>,
+    userRedemptions: number,
+  ): PromotionEvaluation {
+    const lineIndexes = lines
+      .map((line, index) => ({ line, index }))
+      .filter(({ line }) => !promotion.sellerId || line.sellerId === promotion.sellerId)
+      .filter(
+        ({ line }) =>
+          !promotion.categoryId ||
+          (!!line.productId &&
+            (productCategories[line.productId] || []).includes(promotion.categoryId)),
+      )
+      .map(({ index }) => index);
+
+    const subtotal = lineIndexes.reduce(
+      (sum, index) => sum + lines[index].price * lines[index].quantity,
+      0,
+    );
+
+    const fail = (message: string, code: string) => ({
+      amount: 0,
+      lineIndexes,
+      error: { message, code },
+    });
+
+    if (lineIndexes.length === 0) {
+      return fail('Coupon does not apply to any item in your cart', 'COUPON_NOT_APPLICABLE');
+    }
+    if (promotion.minSubtotal && subtotal < promotion.minSubtotal) {
+      return fail(
+        `Coupon requires a minimum of ${promotion.minSubtotal} on eligible items`,
+        'COUPON_MIN_SUBTOTAL',
+      );
+    }
+    if (promotion.usageLimit && promotion.usageCount >= promotion.usageLimit) {
+      return fail('Coupon has reached its usage limit', 'COUPON_USAGE_LIMIT');
+    }
+    if (promotion.perUserLimit && userRedemptions >= promotion.perUserLimit) {
+      return fail('You have already used this coupon', 'COUPON_USER_LIMIT');
+    }
+
+    let amount =
+      promotion.type === PromotionType.PERCENTAGE
+        ? (subtotal * promotion.value) / 100
+        : promotion.value;
+    if (promotion.maxDiscount) amount = Math.min(amount, promotion.maxDiscount);
+
+    return { amount: Math.min(amount, subtotal), lineIndexes };
+  }
+
+  /**
+   * Splits each promotion over its lines in proportion to what is still left to pay on them
+   */
+  private allocate(
+    lines: PromotionLine[],
+    applicable: { promotion: Promotion; evaluation: PromotionEvaluation }[],
+  ): PromotionResult {
+    const remaining = lines.map((line) => line.price * line.quantity);
+    const discounts = lines.map(() => 0);
+    const promotions: AppliedPromotion[] = [];
+
+    for (const { promotion, evaluation } of applicable) {
+      const base = evaluation.lineIndexes.reduce((sum, index) => sum + remaining[index], 0);
+      const amount = this.roundMoney(Math.min(evaluation.amount, base));
+      if (amount <= 0) continue;
+
+      let allocated = 0;
+      evaluation.lineIndexes.forEach((index, position) => {
+        const share =
+          position === evaluation.lineIndexes.length - 1
+            ? this.roundMoney(amount - allocated)
+            : this.roundMoney((amount * remaining[index]) / base);
+        allocated += share;
+        discounts[index] += share;
+        remaining[index] -= share;
+      });
+
+      promotions.push({
+        promotionId: promotion.id,
+        code: promotion.code,
+        name: promotion.name,
+        sellerId: promotion.sellerId,
+        amount,
+      });
+    }
+
+    return {
+      discountAmount: this.roundMoney(promotions.reduce((sum, p) => sum + p.amount, 0)),
+      promotions,
+      lineDiscounts: lines
+        .map((line, index) => ({
+          productId: line.productId,
+          variantId: line.variantId,
+          amount: this.roundMoney(discounts[index]),
+        }))
+        .filter((discount) => discount.amount > 0),
+    };
+  }
+
+  private roundMoney(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+}
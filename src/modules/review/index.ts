@@ -30,6 +30,9 @@ export function registerReviewModule() {
       'Product review statistics',
       'Purchase verification',
       'Review analytics',
+      'Helpful / not helpful votes',
+      'Seller replies',
+      'Review reports and moderation queue',
     ],
   };
 }
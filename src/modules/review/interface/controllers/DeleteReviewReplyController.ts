@@ -0,0 +1,26 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../shared/utils/ApiResponse';
+import { IReviewService } from '../../services/ReviewService.interface';
+import container from '../../../../core/di/container';
+
+export class DeleteReviewReplyController extends BaseController {
+  private reviewService: IReviewService;
+
+  constructor() {
+    super();
+    this.reviewService = container.resolve<IReviewService>('reviewService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      this.validateAuth(req);
+
+      const review = await this.reviewService.deleteReviewReply(req.params.id, req.user!.id);
+
+      ApiResponse.success(res, review, 'Reply deleted successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+}
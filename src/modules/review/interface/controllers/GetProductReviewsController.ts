@@ -2,14 +2,17 @@ import { Request, Response, NextFunction } from 'express';
 import { BaseController } from '../../../../shared/baseClasses/BaseController';
 import { ApiResponse } from '../../../../shared/utils/ApiResponse';
 import { IReviewService } from '../../services/ReviewService.interface';
+import { IProductQaService } from '../../../product-qa/services/ProductQaService.interface';
 import container from '../../../../core/di/container';
 
 export class GetProductReviewsController extends BaseController {
   private reviewService: IReviewService;
+  private productQaService: IProductQaService;
 
   constructor() {
     super();
     this.reviewService = container.resolve<IReviewService>('reviewService');
+    this.productQaService = container.resolve<IProductQaService>('productQaService');
   }
 
   protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
@@ -38,12 +41,15 @@ export class GetProductReviewsController extends BaseController {
         limit,
       });
 
-      // Get review statistics
-      const stats = await this.reviewService.getProductReviewStatistics(productId);
+      // Get review and Q&A statistics
+      const [stats, questionStats] = await Promise.all([
+        this.reviewService.getProductReviewStatistics(productId),
+        this.productQaService.getProductQaStatistics(productId),
+      ]);
 
       ApiResponse.success(
         res,
-        { reviews, statistics: stats },
+        { reviews, statistics: stats, questionStatistics: questionStats },
         'Product reviews retrieved successfully',
       );
     } catch (error) {
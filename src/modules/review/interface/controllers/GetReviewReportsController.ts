@@ -0,0 +1,31 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../shared/utils/ApiResponse';
+import { IReviewService } from '../../services/ReviewService.interface';
+import { ReviewReportStatus } from '../../models/Review';
+import container from '../../../../core/di/container';
+
+export class GetReviewReportsController extends BaseController {
+  private reviewService: IReviewService;
+
+  constructor() {
+    super();
+    this.reviewService = container.resolve<IReviewService>('reviewService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      this.validateAuth(req);
+
+      const reviews = await this.reviewService.getModerationQueue({
+        status: req.query.status as ReviewReportStatus,
+        page: req.query.page as unknown as number,
+        limit: req.query.limit as unknown as number,
+      });
+
+      ApiResponse.success(res, reviews, 'Reported reviews retrieved successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+}
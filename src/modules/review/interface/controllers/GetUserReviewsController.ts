@@ -21,6 +21,7 @@ export class GetUserReviewsController extends BaseController {
 
       const reviews = await this.reviewService.getReviews({
         userId: req.user!.id,
+        includeHidden: true, // Authors still see their hidden reviews
         page,
         limit,
         sortBy: 'createdAt',
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { validate } from '../../../../shared/middlewares/validate.middleware';
-import { authenticate } from '../../../../shared/middlewares/auth.middleware';
+import { authenticate, authorize } from '../../../../shared/middlewares/auth.middleware';
 import { validateIdParam } from '../../../../shared/middlewares/request-validation.middleware';
 
 // Controllers
@@ -14,12 +14,25 @@ import { GetUserReviewsController } from '../controllers/GetUserReviewsControlle
 import { GetProductReviewStatisticsController } from '../controllers/GetProductReviewStatisticsController';
 import { GetReviewableProductsController } from '../controllers/GetReviewableProductsController';
 import { GetUserProductReviewController } from '../controllers/GetUserProductReviewController';
+import { VoteReviewController } from '../controllers/VoteReviewController';
+import { RemoveReviewVoteController } from '../controllers/RemoveReviewVoteController';
+import { ReplyToReviewController } from '../controllers/ReplyToReviewController';
+import { DeleteReviewReplyController } from '../controllers/DeleteReviewReplyController';
+import { ReportReviewController } from '../controllers/ReportReviewController';
+import { GetReviewReportsController } from '../controllers/GetReviewReportsController';
+import { HideReviewController } from '../controllers/HideReviewController';
+import { RestoreReviewController } from '../controllers/RestoreReviewController';
 
 // Validators
 import {
   createReviewSchema,
   updateReviewSchema,
   getReviewsSchema,
+  voteReviewSchema,
+  reviewReplySchema,
+  reportReviewSchema,
+  reviewReportsQuerySchema,
+  hideReviewSchema,
 } from '../validators/review.validator';
 
 const router = Router();
@@ -35,6 +48,44 @@ const getUserReviewsController = new GetUserReviewsController();
 const getProductReviewStatisticsController = new GetProductReviewStatisticsController();
 const getReviewableProductsController = new GetReviewableProductsController();
 const getUserProductReviewController = new GetUserProductReviewController();
+const voteReviewController = new VoteReviewController();
+const removeReviewVoteController = new RemoveReviewVoteController();
+const replyToReviewController = new ReplyToReviewController();
+const deleteReviewReplyController = new DeleteReviewReplyController();
+const reportReviewController = new ReportReviewController();
+const getReviewReportsController = new GetReviewReportsController();
+const hideReviewController = new HideReviewController();
+const restoreReviewController = new RestoreReviewController();
+
+// === ADMIN MODERATION ROUTES ===
+
+// Reported reviews queue
+router.get(
+  '/admin/reports',
+  authenticate,
+  authorize(['ADMIN']),
+  validate(reviewReportsQuerySchema, 'query'),
+  getReviewReportsController.execute,
+);
+
+// Hide review from listings and ratings
+router.patch(
+  '/admin/:id/hide',
+  authenticate,
+  authorize(['ADMIN']),
+  validateIdParam(),
+  validate(hideReviewSchema),
+  hideReviewController.execute,
+);
+
+// Restore review and dismiss its open reports
+router.patch(
+  '/admin/:id/restore',
+  authenticate,
+  authorize(['ADMIN']),
+  validateIdParam(),
+  restoreReviewController.execute,
+);
 
 // === PUBLIC ROUTES ===
 
@@ -80,4 +131,30 @@ router.patch(
 // Delete review
 router.delete('/:id', validateIdParam(), deleteReviewController.execute);
 
+// Helpful / not helpful vote (one per user)
+router.put(
+  '/:id/vote',
+  validateIdParam(),
+  validate(voteReviewSchema),
+  voteReviewController.execute,
+);
+router.delete('/:id/vote', validateIdParam(), removeReviewVoteController.execute);
+
+// Seller reply (one per review)
+router.put(
+  '/:id/reply',
+  validateIdParam(),
+  validate(reviewReplySchema),
+  replyToReviewController.execute,
+);
+router.delete('/:id/reply', validateIdParam(), deleteReviewReplyController.execute);
+
+// Report review for moderation
+router.post(
+  '/:id/report',
+  validateIdParam(),
+  validate(reportReviewSchema),
+  reportReviewController.execute,
+);
+
 export default router;
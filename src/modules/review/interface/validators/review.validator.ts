@@ -1,4 +1,5 @@
 import Joi from 'joi';
+import { ReviewReportReason, ReviewReportStatus } from '../../models/Review';
 
 export const createReviewSchema = Joi.object({
   productId: Joi.string().uuid().required().messages({
@@ -64,3 +65,45 @@ export const getReviewsSchema = Joi.object({
   page: Joi.number().integer().min(1).default(1),
   limit: Joi.number().integer().min(1).max(100).default(10),
 });
+
+export const voteReviewSchema = Joi.object({
+  helpful: Joi.boolean().required().messages({
+    'boolean.base': 'helpful must be true or false',
+    'any.required': 'helpful is required',
+  }),
+});
+
+export const reviewReplySchema = Joi.object({
+  reply: Joi.string().trim().min(1).max(2000).required().messages({
+    'string.empty': 'Reply cannot be empty',
+    'string.max': 'Reply cannot exceed 2000 characters',
+    'any.required': 'Reply is required',
+  }),
+});
+
+export const reportReviewSchema = Joi.object({
+  reason: Joi.string()
+    .valid(...Object.values(ReviewReportReason))
+    .required()
+    .messages({
+      'any.only': `Reason must be one of: ${Object.values(ReviewReportReason).join(', ')}`,
+      'any.required': 'Reason is required',
+    }),
+  details: Joi.string().trim().max(500).allow('', null).messages({
+    'string.max': 'Details cannot exceed 500 characters',
+  }),
+});
+
+export const reviewReportsQuerySchema = Joi.object({
+  status: Joi.string()
+    .valid(...Object.values(ReviewReportStatus))
+    .default(ReviewReportStatus.PENDING),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(100).default(20),
+});
+
+export const hideReviewSchema = Joi.object({
+  reason: Joi.string().trim().max(500).allow('', null).messages({
+    'string.max': 'Reason cannot exceed 500 characters',
+  }),
+});
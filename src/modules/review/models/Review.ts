@@ -10,8 +10,15 @@ export interface Review {
   comment?: string | null;
   images: string[];
   helpfulCount: number;
+  notHelpfulCount: number;
   isVerifiedPurchase: boolean;
   orderItemId?: string | null;
+  sellerReply?: string | null; // One public reply from the product's seller
+  sellerRepliedAt?: Date | null;
+  reportCount: number;
+  isHidden: boolean; // Hidden by moderation; left out of listings and ratings
+  hiddenAt?: Date | null;
+  hiddenReason?: string | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -81,8 +88,90 @@ export interface ReviewFilterOptions {
   userId?: string;
   rating?: number;
   isVerifiedPurchase?: boolean;
+  includeHidden?: boolean;
   sortBy?: 'createdAt' | 'rating' | 'updatedAt' | 'helpfulCount';
   sortOrder?: 'asc' | 'desc';
   page?: number;
   limit?: number;
 }
+
+/**
+ * Review report reasons and moderation states
+ */
+export enum ReviewReportReason {
+  SPAM = 'SPAM',
+  OFFENSIVE = 'OFFENSIVE',
+  FAKE = 'FAKE',
+  OFF_TOPIC = 'OFF_TOPIC',
+  OTHER = 'OTHER',
+}
+
+export enum ReviewReportStatus {
+  PENDING = 'PENDING',
+  RESOLVED = 'RESOLVED', // Review hidden
+  DISMISSED = 'DISMISSED', // Review kept or restored
+}
+
+/**
+ * Review report entity
+ */
+export interface ReviewReport {
+  id: string;
+  reviewId: string;
+  userId: string;
+  reason: ReviewReportReason;
+  details?: string | null;
+  status: ReviewReportStatus;
+  resolvedBy?: string | null;
+  resolvedAt?: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * Report review DTO
+ */
+export interface CreateReviewReportDto {
+  reason: ReviewReportReason;
+  details?: string;
+}
+
+/**
+ * Review counters after a helpfulness vote; isHelpful is the caller's vote, null if removed
+ */
+export interface ReviewVoteResult {
+  isHelpful: boolean | null;
+  helpfulCount: number;
+  notHelpfulCount: number;
+}
+
+/**
+ * Reported review in the moderation queue
+ */
+export interface ReviewModerationItem extends ReviewWithDetails {
+  reports: Array<
+    ReviewReport & {
+      user: {
+        id: string;
+        firstName: string;
+        lastName: string;
+      };
+    }
+  >;
+}
+
+/**
+ * Moderation queue options
+ */
+export interface ReviewModerationQueryOptions {
+  status?: ReviewReportStatus;
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Rating over all visible reviews of a seller's products
+ */
+export interface SellerReviewStatistics {
+  totalReviews: number;
+  averageRating: number;
+}
@@ -1,5 +1,15 @@
 import { BaseRepository } from '../../../shared/interfaces/BaseRepository';
-import { Review, ReviewWithDetails, ReviewStatistics, ReviewFilterOptions } from '../models/Review';
+import {
+  Review,
+  ReviewWithDetails,
+  ReviewStatistics,
+  ReviewFilterOptions,
+  CreateReviewReportDto,
+  ReviewModerationItem,
+  ReviewModerationQueryOptions,
+  ReviewVoteResult,
+  SellerReviewStatistics,
+} from '../models/Review';
 import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
 
 export interface IReviewRepository extends BaseRepository<Review, string> {
@@ -35,8 +45,11 @@ export interface IReviewRepository extends BaseRepository<Review, string> {
       | 'createdAt'
       | 'updatedAt'
       | 'helpfulCount'
+      | 'notHelpfulCount'
       | 'isVerifiedPurchase'
       | 'orderItemId'
+      | 'reportCount'
+      | 'isHidden'
     >,
   ): Promise<ReviewWithDetails>;
 
@@ -66,4 +79,41 @@ export interface IReviewRepository extends BaseRepository<Review, string> {
    * Check if user has purchased product
    */
   hasUserPurchasedProduct(userId: string, productId: string): Promise<boolean>;
+
+  /**
+   * Get rating over visible reviews of all of a seller's products
+   */
+  getSellerReviewStatistics(sellerId: string): Promise<SellerReviewStatistics>;
+
+  /**
+   * Set, change or (with null) remove a user's helpfulness vote
+   */
+  setVote(reviewId: string, userId: string, isHelpful: boolean | null): Promise<ReviewVoteResult>;
+
+  /**
+   * Set or (with null) remove the seller reply
+   */
+  setSellerReply(id: string, reply: string | null): Promise<ReviewWithDetails>;
+
+  /**
+   * Report review; one report per user
+   */
+  createReport(reviewId: string, userId: string, data: CreateReviewReportDto): Promise<void>;
+
+  /**
+   * Get reported reviews with their reports
+   */
+  getModerationQueue(
+    options: ReviewModerationQueryOptions,
+  ): Promise<PaginatedResult<ReviewModerationItem>>;
+
+  /**
+   * Hide or restore review, settle its open reports and recalculate the product rating
+   */
+  setHidden(
+    id: string,
+    moderatorId: string,
+    hidden: boolean,
+    reason?: string,
+  ): Promise<ReviewWithDetails>;
 }
@@ -1,7 +1,18 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Prisma } from '@prisma/client';
 import { BasePrismaRepository } from '../../../shared/baseClasses/BasePrismaRepository';
 import { IReviewRepository } from './ReviewRepository.interface';
-import { Review, ReviewWithDetails, ReviewStatistics, ReviewFilterOptions } from '../models/Review';
+import {
+  Review,
+  ReviewWithDetails,
+  ReviewStatistics,
+  ReviewFilterOptions,
+  CreateReviewReportDto,
+  ReviewModerationItem,
+  ReviewModerationQueryOptions,
+  ReviewReportStatus,
+  ReviewVoteResult,
+  SellerReviewStatistics,
+} from '../models/Review';
 import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
 import { AppError } from '../../../core/errors/AppError';
 import { Logger } from '../../../core/logging/Logger';
@@ -113,6 +124,7 @@ export class ReviewRepository
         userId,
         rating,
         isVerifiedPurchase,
+        includeHidden = false,
         sortBy = 'createdAt',
         sortOrder = 'desc',
         page = 1,
@@ -125,6 +137,7 @@ export class ReviewRepository
       if (userId) where.userId = userId;
       if (rating) where.rating = rating;
       if (isVerifiedPurchase !== undefined) where.isVerifiedPurchase = isVerifiedPurchase;
+      if (!includeHidden) where.isHidden = false;
 
       const total = await this.prisma.review.count({ where });
       const skip = (page - 1) * limit;
@@ -185,11 +198,11 @@ export class ReviewRepository
     try {
       const [allReviews, verifiedCount] = await Promise.all([
         this.prisma.review.findMany({
-          where: { productId },
+          where: { productId, isHidden: false },
           select: { rating: true },
         }),
         this.prisma.review.count({
-          where: { productId, isVerifiedPurchase: true },
+          where: { productId, isHidden: false, isVerifiedPurchase: true },
         }),
       ]);
 
@@ -225,8 +238,11 @@ export class ReviewRepository
       | 'createdAt'
       | 'updatedAt'
       | 'helpfulCount'
+      | 'notHelpfulCount'
       | 'isVerifiedPurchase'
       | 'orderItemId'
+      | 'reportCount'
+      | 'isHidden'
     >,
   ): Promise<ReviewWithDetails> {
     try {
@@ -498,4 +514,215 @@ export class ReviewRepository
       return false;
     }
   }
+
+  async getSellerReviewStatistics(sellerId: string): Promise<SellerReviewStatistics> {
+    try {
+      const result = await this.prisma.review.aggregate({
+        where: { isHidden: false, product: { sellerId, deletedAt: null } },
+        _avg: { rating: true },
+        _count: { _all: true },
+      });
+
+      return {
+        totalReviews: result._count._all,
+        averageRating: result._avg.rating || 0,
+      };
+    } catch (error) {
+      this.logger.error(`Error getting seller review statistics: ${error}`);
+      throw new AppError('Failed to get seller review statistics', 500, 'DATABASE_ERROR');
+    }
+  }
+
+  async setVote(
+    reviewId: string,
+    userId: string,
+    isHelpful: boolean | null,
+  ): Promise<ReviewVoteResult> {
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        // Votes on the same review run one at a time so each recount sees the others
+        await tx.$queryRaw`SELECT id FROM "Review" WHERE id = ${reviewId} FOR UPDATE`;
+
+        if (isHelpful === null) {
+          await tx.reviewVote.deleteMany({ where: { reviewId, userId } });
+        } else {
+          await tx.reviewVote.upsert({
+            where: { reviewId_userId: { reviewId, userId } },
+            create: { reviewId, userId, isHelpful },
+            update: { isHelpful },
+          });
+        }
+
+        // Counters are recounted from the votes rather than adjusted, so they can't drift
+        const [helpfulCount, notHelpfulCount] = await Promise.all([
+          tx.reviewVote.count({ where: { reviewId, isHelpful: true } }),
+          tx.reviewVote.count({ where: { reviewId, isHelpful: false } }),
+        ]);
+
+        const review = await tx.review.update({
+          where: { id: reviewId },
+          data: { helpfulCount, notHelpfulCount },
+          select: { helpfulCount: true, notHelpfulCount: true },
+        });
+
+        return { isHelpful, ...review };
+      });
+    } catch (error) {
+      this.logger.error(`Error voting on review: ${error}`);
+      throw new AppError('Failed to vote on review', 500, 'DATABASE_ERROR');
+    }
+  }
+
+  async setSellerReply(id: string, reply: string | null): Promise<ReviewWithDetails> {
+    try {
+      const review = await this.prisma.review.update({
+        where: { id },
+        data: {
+          sellerReply: reply,
+          sellerRepliedAt: reply ? new Date() : null,
+        },
+        include: this.detailsInclude(),
+      });
+
+      return this.transformReview(review);
+    } catch (error) {
+      this.logger.error(`Error saving seller reply: ${error}`);
+      throw new AppError('Failed to save seller reply', 500, 'DATABASE_ERROR');
+    }
+  }
+
+  async createReport(reviewId: string, userId: string, data: CreateReviewReportDto): Promise<void> {
+    try {
+      await this.prisma.$transaction([
+        this.prisma.reviewReport.create({
+          data: { reviewId, userId, reason: data.reason, details: data.details },
+        }),
+        this.prisma.review.update({
+          where: { id: reviewId },
+          data: { reportCount: { increment: 1 } },
+        }),
+      ]);
+    } catch (error) {
+      this.logger.error(`Error reporting review: ${error}`);
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw AppError.conflict('You have already reported this review', 'ALREADY_REPORTED');
+      }
+      throw new AppError('Failed to report review', 500, 'DATABASE_ERROR');
+    }
+  }
+
+  async getModerationQueue(
+    options: ReviewModerationQueryOptions,
+  ): Promise<PaginatedResult<ReviewModerationItem>> {
+    try {
+      const { status = ReviewReportStatus.PENDING, page = 1, limit = 20 } = options;
+      const where: Prisma.ReviewWhereInput = { reports: { some: { status } } };
+
+      const [reviews, total] = await Promise.all([
+        this.prisma.review.findMany({
+          where,
+          include: {
+            ...this.detailsInclude(),
+            reports: {
+              where: { status },
+              orderBy: { createdAt: 'asc' },
+              include: {
+                user: { select: { id: true, firstName: true, lastName: true } },
+              },
+            },
+          },
+          // Most reported first
+          orderBy: [{ reportCount: 'desc' }, { updatedAt: 'asc' }],
+          skip: (page - 1) * limit,
+          take: limit,
+        }),
+        this.prisma.review.count({ where }),
+      ]);
+
+      return {
+        data: reviews.map((review) => this.transformReview(review) as ReviewModerationItem),
+        meta: {
+          total,
+          page,
+          limit,
+          totalPages: Math.ceil(total / limit),
+        },
+      };
+    } catch (error) {
+      this.logger.error(`Error getting review moderation queue: ${error}`);
+      throw new AppError('Failed to get reported reviews', 500, 'DATABASE_ERROR');
+    }
+  }
+
+  async setHidden(
+    id: string,
+    moderatorId: string,
+    hidden: boolean,
+    reason?: string,
+  ): Promise<ReviewWithDetails> {
+    try {
+      const [review] = await this.prisma.$transaction([
+        this.prisma.review.update({
+          where: { id },
+          data: {
+            isHidden: hidden,
+            hiddenAt: hidden ? new Date() : null,
+            hiddenReason: hidden ? reason || null : null,
+          },
+          include: this.detailsInclude(),
+        }),
+        // The decision settles every open report on the review
+        this.prisma.reviewReport.updateMany({
+          where: { reviewId: id, status: ReviewReportStatus.PENDING },
+          data: {
+            status: hidden ? ReviewReportStatus.RESOLVED : ReviewReportStatus.DISMISSED,
+            resolvedBy: moderatorId,
+            resolvedAt: new Date(),
+          },
+        }),
+      ]);
+
+      await this.updateProductRatingAndReviewCount(review.productId);
+
+      return this.transformReview(review);
+    } catch (error) {
+      this.logger.error(`Error changing review visibility: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to change review visibility', 500, 'DATABASE_ERROR');
+    }
+  }
+
+  private detailsInclude() {
+    return {
+      user: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          avatarUrl: true,
+        },
+      },
+      product: {
+        select: {
+          id: true,
+          name: true,
+          slug: true,
+          images: true,
+          price: true,
+          discountPrice: true,
+        },
+      },
+    } satisfies Prisma.ReviewInclude;
+  }
+
+  private transformReview(review: any): ReviewWithDetails {
+    return {
+      ...review,
+      product: {
+        ...review.product,
+        price: Number(review.product.price),
+        discountPrice: review.product.discountPrice ? Number(review.product.discountPrice) : null,
+      },
+    } as ReviewWithDetails;
+  }
 }
@@ -5,6 +5,10 @@ import {
   UpdateReviewDto,
   ReviewStatistics,
   ReviewFilterOptions,
+  CreateReviewReportDto,
+  ReviewModerationItem,
+  ReviewModerationQueryOptions,
+  ReviewVoteResult,
 } from '../models/Review';
 import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
 
@@ -50,4 +54,46 @@ export interface IReviewService {
   getReviewableProducts(
     userId: string,
   ): Promise<{ productId: string; orderId: string; orderDate: Date }[]>;
+
+  /**
+   * Mark a review helpful or not helpful; voting again changes the vote
+   */
+  voteReview(id: string, userId: string, isHelpful: boolean): Promise<ReviewVoteResult>;
+
+  /**
+   * Remove the user's helpfulness vote
+   */
+  removeReviewVote(id: string, userId: string): Promise<ReviewVoteResult>;
+
+  /**
+   * Add or edit the seller's public reply
+   */
+  replyToReview(id: string, sellerId: string, reply: string): Promise<ReviewWithDetails>;
+
+  /**
+   * Remove the seller's reply
+   */
+  deleteReviewReply(id: string, sellerId: string): Promise<ReviewWithDetails>;
+
+  /**
+   * Report a review for moderation
+   */
+  reportReview(id: string, userId: string, data: CreateReviewReportDto): Promise<void>;
+
+  /**
+   * Get reported reviews for moderation (admin)
+   */
+  getModerationQueue(
+    options: ReviewModerationQueryOptions,
+  ): Promise<PaginatedResult<ReviewModerationItem>>;
+
+  /**
+   * Hide a review from listings and ratings (admin)
+   */
+  hideReview(id: string, adminId: string, reason?: string): Promise<ReviewWithDetails>;
+
+  /**
+   * Make a review visible again and dismiss its open reports (admin)
+   */
+  restoreReview(id: string, adminId: string): Promise<ReviewWithDetails>;
 }
@@ -6,10 +6,15 @@ import {
   UpdateReviewDto,
   ReviewStatistics,
   ReviewFilterOptions,
+  CreateReviewReportDto,
+  ReviewModerationItem,
+  ReviewModerationQueryOptions,
+  ReviewVoteResult,
 } from '../models/Review';
 import { IReviewRepository } from '../repositories/ReviewRepository.interface';
 import { IUserRepository } from '../../auth/repositories/UserRepository.interface';
 import { IProductRepository } from '../../product/repositories/ProductRepository.interface';
+import { IArtisanProfileService } from '../../artisan/services/ArtisanProfileService.interface';
 import { AppError } from '../../../core/errors/AppError';
 import { Logger } from '../../../core/logging/Logger';
 import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
@@ -19,12 +24,14 @@ export class ReviewService implements IReviewService {
   private reviewRepository: IReviewRepository;
   private userRepository: IUserRepository;
   private productRepository: IProductRepository;
+  private artisanProfileService: IArtisanProfileService;
   private logger = Logger.getInstance();
 
   constructor() {
     this.reviewRepository = container.resolve<IReviewRepository>('reviewRepository');
     this.userRepository = container.resolve<IUserRepository>('userRepository');
     this.productRepository = container.resolve<IProductRepository>('productRepository');
+    this.artisanProfileService = container.resolve<IArtisanProfileService>('artisanProfileService');
   }
 
   /**
@@ -67,6 +74,8 @@ export class ReviewService implements IReviewService {
         images: data.images || [],
       });
 
+      await this.updateSellerRating(data.productId);
+
       this.logger.info(
         `User ${userId} created review for product ${data.productId} with rating ${data.rating}`,
       );
@@ -111,6 +120,7 @@ export class ReviewService implements IReviewService {
       // Log review update with specific changes
       let changesLog = '';
       if (data.rating && data.rating !== originalReview.rating) {
+        await this.updateSellerRating(originalReview.productId);
         changesLog += `rating changed from ${originalReview.rating} to ${data.rating}, `;
       }
       if (data.title !== undefined && data.title !== originalReview.title) {
@@ -153,6 +163,7 @@ export class ReviewService implements IReviewService {
       const result = await this.reviewRepository.deleteReview(id, userId);
 
       if (result) {
+        await this.updateSellerRating(review.productId);
         this.logger.info(`User ${userId} deleted review ${id} for product ${review.productId}`);
       }
 
@@ -169,7 +180,8 @@ export class ReviewService implements IReviewService {
    */
   async getReviewById(id: string): Promise<ReviewWithDetails | null> {
     try {
-      return await this.reviewRepository.findByIdWithDetails(id);
+      const review = await this.reviewRepository.findByIdWithDetails(id);
+      return review && !review.isHidden ? review : null;
     } catch (error) {
       this.logger.error(`Error getting review by ID: ${error}`);
       return null;
@@ -250,4 +262,194 @@ export class ReviewService implements IReviewService {
       throw AppError.internal('Failed to get reviewable products', 'SERVICE_ERROR');
     }
   }
+
+  /**
+   * Mark a review helpful or not helpful
+   */
+  async voteReview(id: string, userId: string, isHelpful: boolean): Promise<ReviewVoteResult> {
+    try {
+      const review = await this.getVisibleReviewOrThrow(id);
+
+      if (review.userId === userId) {
+        throw AppError.badRequest('You cannot vote on your own review', 'OWN_REVIEW');
+      }
+
+      return await this.reviewRepository.setVote(id, userId, isHelpful);
+    } catch (error) {
+      this.logger.error(`Error voting on review: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to vote on review', 'SERVICE_ERROR');
+    }
+  }
+
+  /**
+   * Remove the user's helpfulness vote
+   */
+  async removeReviewVote(id: string, userId: string): Promise<ReviewVoteResult> {
+    try {
+      await this.getVisibleReviewOrThrow(id);
+      return await this.reviewRepository.setVote(id, userId, null);
+    } catch (error) {
+      this.logger.error(`Error removing review vote: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to remove review vote', 'SERVICE_ERROR');
+    }
+  }
+
+  /**
+   * Add or edit the seller's public reply
+   */
+  async replyToReview(id: string, sellerId: string, reply: string): Promise<ReviewWithDetails> {
+    try {
+      await this.getSellerReviewOrThrow(id, sellerId);
+
+      const review = await this.reviewRepository.setSellerReply(id, reply);
+
+      this.logger.info(`Seller ${sellerId} replied to review ${id}`);
+
+      return review;
+    } catch (error) {
+      this.logger.error(`Error replying to review: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to reply to review', 'SERVICE_ERROR');
+    }
+  }
+
+  /**
+   * Remove the seller's reply
+   */
+  async deleteReviewReply(id: string, sellerId: string): Promise<ReviewWithDetails> {
+    try {
+      const review = await this.getSellerReviewOrThrow(id, sellerId);
+
+      if (!review.sellerReply) {
+        throw AppError.notFound('Review has no reply', 'REPLY_NOT_FOUND');
+      }
+
+      return await this.reviewRepository.setSellerReply(id, null);
+    } catch (error) {
+      this.logger.error(`Error deleting review reply: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to delete review reply', 'SERVICE_ERROR');
+    }
+  }
+
+  /**
+   * Report a review for moderation
+   */
+  async reportReview(id: string, userId: string, data: CreateReviewReportDto): Promise<void> {
+    try {
+      const review = await this.getVisibleReviewOrThrow(id);
+
+      if (review.userId === userId) {
+        throw AppError.badRequest('You cannot report your own review', 'OWN_REVIEW');
+      }
+
+      await this.reviewRepository.createReport(id, userId, data);
+
+      this.logger.info(`User ${userId} reported review ${id} for ${data.reason}`);
+    } catch (error) {
+      this.logger.error(`Error reporting review: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to report review', 'SERVICE_ERROR');
+    }
+  }
+
+  /**
+   * Get reported reviews for moderation
+   */
+  async getModerationQueue(
+    options: ReviewModerationQueryOptions,
+  ): Promise<PaginatedResult<ReviewModerationItem>> {
+    try {
+      return await this.reviewRepository.getModerationQueue(options);
+    } catch (error) {
+      this.logger.error(`Error getting review moderation queue: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to get reported reviews', 'SERVICE_ERROR');
+    }
+  }
+
+  /**
+   * Hide a review from listings and ratings
+   */
+  async hideReview(id: string, adminId: string, reason?: string): Promise<ReviewWithDetails> {
+    try {
+      const existing = await this.reviewRepository.findById(id);
+      if (!existing) {
+        throw AppError.notFound('Review not found', 'REVIEW_NOT_FOUND');
+      }
+
+      const review = await this.reviewRepository.setHidden(id, adminId, true, reason);
+      await this.updateSellerRating(review.productId);
+
+      this.logger.info(`Admin ${adminId} hid review ${id}${reason ? `: ${reason}` : ''}`);
+
+      return review;
+    } catch (error) {
+      this.logger.error(`Error hiding review: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to hide review', 'SERVICE_ERROR');
+    }
+  }
+
+  /**
+   * Make a review visible again and dismiss its open reports
+   */
+  async restoreReview(id: string, adminId: string): Promise<ReviewWithDetails> {
+    try {
+      const existing = await this.reviewRepository.findById(id);
+      if (!existing) {
+        throw AppError.notFound('Review not found', 'REVIEW_NOT_FOUND');
+      }
+
+      const review = await this.reviewRepository.setHidden(id, adminId, false);
+      await this.updateSellerRating(review.productId);
+
+      this.logger.info(`Admin ${adminId} restored review ${id}`);
+
+      return review;
+    } catch (error) {
+      this.logger.error(`Error restoring review: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to restore review', 'SERVICE_ERROR');
+    }
+  }
+
+  private async getVisibleReviewOrThrow(id: string): Promise<Review> {
+    const review = await this.reviewRepository.findById(id);
+    if (!review || review.isHidden) {
+      throw AppError.notFound('Review not found', 'REVIEW_NOT_FOUND');
+    }
+    return review;
+  }
+
+  private async getSellerReviewOrThrow(id: string, sellerId: string): Promise<Review> {
+    const review = await this.getVisibleReviewOrThrow(id);
+
+    const isOwner = await this.productRepository.isProductOwner(review.productId, sellerId);
+    if (!isOwner) {
+      throw AppError.forbidden('Only the seller of this product can reply', 'FORBIDDEN');
+    }
+
+    return review;
+  }
+
+  /**
+   * Recalculate the seller's artisan rating from the visible reviews of all their products
+   */
+  private async updateSellerRating(productId: string): Promise<void> {
+    const product = await this.productRepository.findById(productId);
+    if (!product) return;
+
+    const profile = await this.artisanProfileService.getArtisanProfileByUserId(product.sellerId);
+    if (!profile) return;
+
+    const stats = await this.reviewRepository.getSellerReviewStatistics(product.sellerId);
+    await this.artisanProfileService.updateArtisanRating(
+      profile.id,
+      stats.averageRating,
+      stats.totalReviews,
+    );
+  }
 }
@@ -0,0 +1,29 @@
+/**
+ * Search Module Exports
+ */
+
+// Export models
+export * from './models/Search';
+
+// Export service interfaces
+export * from './services/SearchService.interface';
+
+// Export repository interfaces
+export * from './repositories/SearchRepository.interface';
+
+// Export module registration function
+export function registerSearchModule() {
+  console.log('Search module registered');
+
+  return {
+    name: 'search',
+    description: 'Unified search across products, posts, artisans and users',
+    version: '1.0.0',
+    features: [
+      'One ranked result list with a type filter',
+      'Typeahead suggestions for products, shops and categories',
+      'Diacritic-insensitive matching for Vietnamese text',
+      'Typo tolerance with trigram similarity',
+    ],
+  };
+}
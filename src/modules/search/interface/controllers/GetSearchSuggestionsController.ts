@@ -0,0 +1,23 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../shared/utils/ApiResponse';
+import { ISearchService } from '../../services/SearchService.interface';
+import container from '../../../../core/di/container';
+
+export class GetSearchSuggestionsController extends BaseController {
+  private searchService: ISearchService;
+
+  constructor() {
+    super();
+    this.searchService = container.resolve<ISearchService>('searchService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const suggestions = await this.searchService.getSuggestions(
+      req.query.q as string,
+      req.query.limit as unknown as number,
+    );
+
+    ApiResponse.success(res, suggestions, 'Search suggestions retrieved successfully');
+  }
+}
@@ -0,0 +1,27 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../shared/utils/ApiResponse';
+import { ISearchService } from '../../services/SearchService.interface';
+import { SearchResultType } from '../../models/Search';
+import container from '../../../../core/di/container';
+
+export class SearchController extends BaseController {
+  private searchService: ISearchService;
+
+  constructor() {
+    super();
+    this.searchService = container.resolve<ISearchService>('searchService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const type = req.query.type as SearchResultType | SearchResultType[] | undefined;
+
+    const result = await this.searchService.search(req.query.q as string, {
+      types: type ? (Array.isArray(type) ? type : [type]) : undefined,
+      page: req.query.page as unknown as number,
+      limit: req.query.limit as unknown as number,
+    });
+
+    ApiResponse.success(res, result, 'Search results retrieved successfully');
+  }
+}
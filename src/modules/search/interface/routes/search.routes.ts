@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { validate } from '../../../../shared/middlewares/validate.middleware';
+import { searchQuerySchema, searchSuggestionsQuerySchema } from '../validators/search.validator';
+
+// Controllers
+import { SearchController } from '../controllers/SearchController';
+import { GetSearchSuggestionsController } from '../controllers/GetSearchSuggestionsController';
+
+const router = Router();
+
+// Initialize controllers
+const searchController = new SearchController();
+const getSearchSuggestionsController = new GetSearchSuggestionsController();
+
+// Products, posts, artisans and users in one ranked list
+router.get('/', validate(searchQuerySchema, 'query'), searchController.execute);
+
+// Typeahead
+router.get(
+  '/suggestions',
+  validate(searchSuggestionsQuerySchema, 'query'),
+  getSearchSuggestionsController.execute,
+);
+
+export default router;
@@ -0,0 +1,25 @@
+import Joi from 'joi';
+import { SearchResultType } from '../../models/Search';
+
+const searchQuery = Joi.string().trim().required().min(2).max(100).messages({
+  'string.min': 'Search query must be at least 2 characters',
+  'string.max': 'Search query cannot exceed 100 characters',
+  'any.required': 'Search query is required',
+});
+
+const resultType = Joi.string()
+  .uppercase()
+  .valid(...Object.values(SearchResultType));
+
+export const searchQuerySchema = Joi.object({
+  q: searchQuery,
+  // ?type=product or ?type=product&type=artisan
+  type: Joi.alternatives().try(resultType, Joi.array().items(resultType).unique()),
+  page: Joi.number().integer().min(1).default(1),
+  limit: Joi.number().integer().min(1).max(50).default(20),
+});
+
+export const searchSuggestionsQuerySchema = Joi.object({
+  q: searchQuery,
+  limit: Joi.number().integer().min(1).max(20).default(8),
+});
@@ -0,0 +1,41 @@
+import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
+
+export enum SearchResultType {
+  PRODUCT = 'PRODUCT',
+  POST = 'POST',
+  ARTISAN = 'ARTISAN',
+  USER = 'USER',
+}
+
+export enum SuggestionType {
+  PRODUCT = 'PRODUCT',
+  ARTISAN = 'ARTISAN',
+  CATEGORY = 'CATEGORY',
+}
+
+export interface SearchOptions {
+  types?: SearchResultType[]; // All types when empty
+  page?: number;
+  limit?: number;
+}
+
+export interface SearchResultItem {
+  type: SearchResultType;
+  id: string; // Product, post, user id; the artisan's user id for ARTISAN
+  title: string;
+  subtitle?: string | null;
+  imageUrl?: string | null;
+  slug?: string | null;
+  score: number;
+}
+
+export interface SearchResult extends PaginatedResult<SearchResultItem> {
+  counts: Record<SearchResultType, number>; // Matches per type, before pagination
+}
+
+export interface SearchSuggestion {
+  type: SuggestionType;
+  id: string;
+  text: string;
+  slug?: string | null;
+}
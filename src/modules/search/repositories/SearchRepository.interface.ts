@@ -0,0 +1,15 @@
+import {
+  SearchOptions,
+  SearchResultItem,
+  SearchResultType,
+  SearchSuggestion,
+} from '../models/Search';
+
+export interface ISearchRepository {
+  search(
+    query: string,
+    options: Required<SearchOptions>,
+  ): Promise<{ items: SearchResultItem[]; counts: Record<SearchResultType, number> }>;
+
+  suggest(query: string, limit: number): Promise<SearchSuggestion[]>;
+}
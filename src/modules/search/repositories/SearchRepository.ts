@@ -0,0 +1,192 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { ISearchRepository } from './SearchRepository.interface';
+import {
+  SearchOptions,
+  SearchResultItem,
+  SearchResultType,
+  SearchSuggestion,
+} from '../models/Search';
+import { SearchTextUtils } from '../../../shared/utils/SearchTextUtils';
+import { Logger } from '../../../core/logging/Logger';
+import { AppError } from '../../../core/errors/AppError';
+
+const USER_NAME = Prisma.sql`search_normalize(u."firstName" || ' ' || u."lastName" || ' ' || u.username)`;
+
+/**
+ * Search across products, posts, artisans and users. Text is compared without diacritics
+ * (search_normalize) and matched with pg_trgm word similarity, so "gom bat trang" finds
+ * "Gốm Bát Tràng" and small typos still match; products also match their full-text document.
+ */
+export class SearchRepository implements ISearchRepository {
+  private logger = Logger.getInstance();
+
+  constructor(private prisma: PrismaClient) {}
+
+  async search(
+    query: string,
+    options: Required<SearchOptions>,
+  ): Promise<{ items: SearchResultItem[]; counts: Record<SearchResultType, number> }> {
+    try {
+      const { types, page, limit } = options;
+      const results = Prisma.join(
+        types.map((type) => this.buildSection(type, query)),
+        ' UNION ALL ',
+      );
+
+      const [items, counts] = await Promise.all([
+        this.prisma.$queryRaw<SearchResultItem[]>`
+          WITH q AS (SELECT search_normalize(${query}) AS term)
+          SELECT * FROM (${results}) results
+          ORDER BY score DESC, title ASC, id ASC
+          LIMIT ${limit} OFFSET ${(page - 1) * limit}
+        `,
+        this.prisma.$queryRaw<Array<{ type: SearchResultType; count: number }>>`
+          WITH q AS (SELECT search_normalize(${query}) AS term)
+          SELECT type, COUNT(*)::int AS count FROM (${results}) results GROUP BY type
+        `,
+      ]);
+
+      return {
+        items,
+        counts: Object.fromEntries(
+          Object.values(SearchResultType).map((type) => [
+            type,
+            counts.find((row) => row.type === type)?.count || 0,
+          ]),
+        ) as Record<SearchResultType, number>,
+      };
+    } catch (error) {
+      this.logger.error(`Error in unified search: ${error}`);
+      throw AppError.internal('Failed to search', 'DATABASE_ERROR');
+    }
+  }
+
+  async suggest(query: string, limit: number): Promise<SearchSuggestion[]> {
+    try {
+      // Names starting with the input rank first, then words starting with it, then similar ones
+      const rank = (column: Prisma.Sql) => Prisma.sql`(
+        CASE
+          WHEN ${column} LIKE q.term || '%' THEN 1
+          WHEN ${column} LIKE '% ' || q.term || '%' THEN 0.5
+          ELSE 0
+        END + word_similarity(q.term, ${column})
+      )::float`;
+      const matches = (column: Prisma.Sql) =>
+        Prisma.sql`(q.term <% ${column} OR ${column} LIKE '%' || q.term || '%')`;
+
+      const productName = Prisma.sql`search_normalize(p.name)`;
+      const shopName = Prisma.sql`search_normalize(ap."shopName")`;
+      const categoryName = Prisma.sql`search_normalize(c.name)`;
+
+      const rows = await this.prisma.$queryRaw<Array<SearchSuggestion & { score: number }>>`
+        WITH q AS (SELECT search_normalize(${query}) AS term)
+        SELECT * FROM (
+          SELECT 'PRODUCT' AS type, p.id, p.name AS text, p.slug, ${rank(productName)} AS score
+          FROM "Product" p CROSS JOIN q
+          WHERE p."deletedAt" IS NULL
+            AND p.status IN ('PUBLISHED', 'OUT_OF_STOCK')
+            AND ${matches(productName)}
+          UNION ALL
+          SELECT 'ARTISAN', u.id, ap."shopName", u.username, ${rank(shopName)}
+          FROM "ArtisanProfile" ap
+          JOIN "User" u ON u.id = ap."userId"
+          CROSS JOIN q
+          WHERE u.status = 'ACTIVE' AND u."deletedAt" IS NULL AND ${matches(shopName)}
+          UNION ALL
+          SELECT 'CATEGORY', c.id, c.name, c.slug, ${rank(categoryName)}
+          FROM "Category" c CROSS JOIN q
+          WHERE c."isActive" = true AND ${matches(categoryName)}
+        ) suggestions
+        ORDER BY score DESC, length(text) ASC
+        LIMIT ${limit * 3}
+      `;
+
+      // Several products often share a name; keep the first of each
+      const seen = new Set<string>();
+      return rows
+        .filter((row) => {
+          const key = `${row.type}:${SearchTextUtils.normalize(row.text)}`;
+          if (seen.has(key)) return false;
+          seen.add(key);
+          return true;
+        })
+        .slice(0, limit)
+        .map(({ type, id, text, slug }) => ({ type, id, text, slug }));
+    } catch (error) {
+      this.logger.error(`Error getting search suggestions: ${error}`);
+      throw AppError.internal('Failed to get search suggestions', 'DATABASE_ERROR');
+    }
+  }
+
+  /**
+   * One SELECT per result type, all with the same named columns so they can be combined in
+   * any order
+   */
+  private buildSection(type: SearchResultType, query: string): Prisma.Sql {
+    switch (type) {
+      case SearchResultType.PRODUCT: {
+        const tsQuery = SearchTextUtils.toPrefixTsQuery(query);
+        const fullText = tsQuery
+          ? Prisma.sql`p."searchVector" @@ to_tsquery('simple', ${tsQuery})`
+          : Prisma.sql`false`;
+
+        return Prisma.sql`
+          SELECT 'PRODUCT' AS type, p.id, p.name AS title, ap."shopName" AS subtitle,
+            COALESCE(p."featuredImage", p.images[1]) AS "imageUrl", p.slug,
+            (${this.similarity(Prisma.sql`search_normalize(p.name)`)}
+              + CASE WHEN ${fullText} THEN 0.3 ELSE 0 END)::float AS score
+          FROM "Product" p
+          CROSS JOIN q
+          LEFT JOIN "ArtisanProfile" ap ON ap."userId" = p."sellerId"
+          WHERE p."deletedAt" IS NULL
+            AND p.status IN ('PUBLISHED', 'OUT_OF_STOCK')
+            AND (q.term <% search_normalize(p.name) OR ${fullText})
+        `;
+      }
+
+      case SearchResultType.POST:
+        return Prisma.sql`
+          SELECT 'POST' AS type, p.id, p.title AS title, p.summary AS subtitle,
+            COALESCE(p."thumbnailUrl", p."coverImage") AS "imageUrl", p.slug,
+            ${this.similarity(Prisma.sql`search_normalize(p.title)`)}::float AS score
+          FROM "Post" p
+          CROSS JOIN q
+          WHERE p."deletedAt" IS NULL
+            AND p.status = 'PUBLISHED'
+            AND (
+              q.term <% search_normalize(p.title)
+              OR EXISTS (SELECT 1 FROM unnest(p.tags) tag WHERE search_normalize(tag) = q.term)
+            )
+        `;
+
+      case SearchResultType.ARTISAN:
+        return Prisma.sql`
+          SELECT 'ARTISAN' AS type, u.id, ap."shopName" AS title,
+            left(ap."shopDescription", 160) AS subtitle,
+            COALESCE(ap."shopLogoUrl", u."avatarUrl") AS "imageUrl", u.username AS slug,
+            (${this.similarity(Prisma.sql`search_normalize(ap."shopName")`)}
+              + CASE WHEN ap."isVerified" THEN 0.05 ELSE 0 END)::float AS score
+          FROM "ArtisanProfile" ap
+          JOIN "User" u ON u.id = ap."userId"
+          CROSS JOIN q
+          WHERE u.status = 'ACTIVE'
+            AND u."deletedAt" IS NULL
+            AND q.term <% search_normalize(ap."shopName")
+        `;
+
+      case SearchResultType.USER:
+        return Prisma.sql`
+          SELECT 'USER' AS type, u.id, u."firstName" || ' ' || u."lastName" AS title,
+            '@' || u.username AS subtitle, u."avatarUrl" AS "imageUrl", u.username AS slug,
+            ${this.similarity(USER_NAME)}::float AS score
+          FROM "User" u
+          CROSS JOIN q
+          WHERE u.status = 'ACTIVE' AND u."deletedAt" IS NULL AND q.term <% ${USER_NAME}
+        `;
+    }
+  }
+
+  private similarity(column: Prisma.Sql): Prisma.Sql {
+    return Prisma.sql`GREATEST(word_similarity(q.term, ${column}), similarity(${column}, q.term))`;
+  }
+}
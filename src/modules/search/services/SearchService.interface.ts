@@ -0,0 +1,6 @@
+import { SearchOptions, SearchResult, SearchSuggestion } from '../models/Search';
+
+export interface ISearchService {
+  search(query: string, options?: SearchOptions): Promise<SearchResult>;
+  getSuggestions(query: string, limit?: number): Promise<SearchSuggestion[]>;
+}
@@ -0,0 +1,59 @@
+import { ISearchService } from './SearchService.interface';
+import { SearchOptions, SearchResult, SearchResultType, SearchSuggestion } from '../models/Search';
+import { ISearchRepository } from '../repositories/SearchRepository.interface';
+import { SearchTextUtils } from '../../../shared/utils/SearchTextUtils';
+import { PaginationUtils } from '../../../shared/utils/PaginationUtils';
+import { AppError } from '../../../core/errors/AppError';
+import { Logger } from '../../../core/logging/Logger';
+import container from '../../../core/di/container';
+
+export class SearchService implements ISearchService {
+  private searchRepository: ISearchRepository;
+  private logger = Logger.getInstance();
+
+  constructor() {
+    this.searchRepository = container.resolve<ISearchRepository>('searchRepository');
+  }
+
+  async search(query: string, options: SearchOptions = {}): Promise<SearchResult> {
+    try {
+      const text = this.validateQuery(query);
+      const page = options.page || 1;
+      const limit = options.limit || 20;
+      const types = options.types?.length ? options.types : Object.values(SearchResultType);
+
+      const { items, counts } = await this.searchRepository.search(text, { types, page, limit });
+      const total = types.reduce((sum, type) => sum + counts[type], 0);
+
+      return {
+        ...PaginationUtils.createPaginatedResult(items, total, page, limit),
+        counts,
+      };
+    } catch (error) {
+      this.logger.error(`Error searching: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to search', 'SERVICE_ERROR');
+    }
+  }
+
+  async getSuggestions(query: string, limit: number = 8): Promise<SearchSuggestion[]> {
+    try {
+      return await this.searchRepository.suggest(this.validateQuery(query), limit);
+    } catch (error) {
+      this.logger.error(`Error getting search suggestions: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to get search suggestions', 'SERVICE_ERROR');
+    }
+  }
+
+  private validateQuery(query: string): string {
+    const text = (query || '').trim();
+    if (SearchTextUtils.normalize(text).replace(/[^\p{L}\p{N}]/gu, '').length < 2) {
+      throw AppError.badRequest(
+        'Search query must contain at least 2 letters or digits',
+        'INVALID_QUERY',
+      );
+    }
+    return text;
+  }
+}
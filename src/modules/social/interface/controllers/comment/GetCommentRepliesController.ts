@@ -18,17 +18,28 @@ export class GetCommentRepliesController extends BaseController {
       const page = parseInt(req.query.page as string) || 1;
       const limit = parseInt(req.query.limit as string) || 10;
 
-      const replies = await this.commentService.getCommentReplies(
-        commentId,
-        {
-          page,
-          limit,
-          includeLikeStatus: !!req.user,
-        },
-        req.user?.id,
-      );
+      const replies = this.isCursorPagination(req)
+        ? await this.commentService.getCommentRepliesByCursor(
+            commentId,
+            {
+              cursor: req.query.cursor as string | undefined,
+              limit,
+              includeLikeStatus: !!req.user,
+              sortOrder: (req.query.sortOrder as any) || 'desc',
+            },
+            req.user?.id,
+          )
+        : await this.commentService.getCommentReplies(
+            commentId,
+            {
+              page,
+              limit,
+              includeLikeStatus: !!req.user,
+            },
+            req.user?.id,
+          );
 
-      ApiResponse.success(res, replies, 'Comment replies retrieved successfully');
+      ApiResponse.paginated(res, replies, 'Comment replies retrieved successfully');
     } catch (error) {
       next(error);
     }
@@ -17,21 +17,32 @@ export class GetPostCommentsController extends BaseController {
       const { postId } = req.params;
       const { parentId, page, limit, includeReplies, sortBy, sortOrder } = req.query;
 
-      const comments = await this.commentService.getPostComments(
-        postId,
-        {
-          parentId: parentId === 'null' ? null : (parentId as string),
-          page: parseInt(page as string) || 1,
-          limit: parseInt(limit as string) || 10,
-          includeReplies: includeReplies === 'true',
-          includeLikeStatus: !!req.user,
-          sortBy: (sortBy as any) || 'createdAt',
-          sortOrder: (sortOrder as any) || 'desc',
-        },
-        req.user?.id,
-      );
+      const options = {
+        parentId: parentId === 'null' ? null : (parentId as string),
+        limit: parseInt(limit as string) || 10,
+        includeReplies: String(includeReplies) === 'true',
+        includeLikeStatus: !!req.user,
+        sortOrder: (sortOrder as any) || 'desc',
+      };
 
-      ApiResponse.success(res, comments, 'Post comments retrieved successfully');
+      // Cursor pages are ordered by creation time and don't shift when new comments arrive
+      const comments = this.isCursorPagination(req)
+        ? await this.commentService.getPostCommentsByCursor(
+            postId,
+            { ...options, cursor: req.query.cursor as string | undefined },
+            req.user?.id,
+          )
+        : await this.commentService.getPostComments(
+            postId,
+            {
+              ...options,
+              page: parseInt(page as string) || 1,
+              sortBy: (sortBy as any) || 'createdAt',
+            },
+            req.user?.id,
+          );
+
+      ApiResponse.paginated(res, comments, 'Post comments retrieved successfully');
     } catch (error) {
       next(error);
     }
@@ -34,6 +34,8 @@ export const commentQuerySchema = Joi.object({
   parentId: Joi.string().uuid().allow(null),
   page: Joi.number().integer().min(1).default(1),
   limit: Joi.number().integer().min(1).max(100).default(10),
+  pagination: Joi.string().valid('offset', 'cursor').default('offset'),
+  cursor: Joi.string().max(200),
   includeReplies: Joi.boolean().default(false),
   sortBy: Joi.string().valid('createdAt', 'likeCount').default('createdAt'),
   sortOrder: Joi.string().valid('asc', 'desc').default('desc'),
@@ -1,3 +1,5 @@
+import { CursorPaginationOptions } from '../../../shared/interfaces/PaginatedResult';
+
 export interface Comment {
   id: string;
   postId: string;
@@ -51,6 +53,10 @@ export interface CommentQueryOptions {
   sortOrder?: 'asc' | 'desc';
 }
 
+// Cursor pages are always ordered by createdAt, in sortOrder
+export type CommentCursorOptions = Omit<CommentQueryOptions, 'page' | 'sortBy'> &
+  CursorPaginationOptions;
+
 export interface CommentPaginationResult {
   data: CommentWithUser[];
   meta: {
@@ -6,7 +6,9 @@ import {
   UpdateCommentDto,
   CommentQueryOptions,
   CommentPaginationResult,
+  CommentCursorOptions,
 } from '../models/Comment';
+import { CursorPaginatedResult } from '../../../shared/interfaces/PaginatedResult';
 
 export interface ICommentRepository extends BaseRepository<Comment, string> {
   findByIdWithUser(id: string, requestUserId?: string): Promise<CommentWithUser | null>;
@@ -17,6 +19,10 @@ export interface ICommentRepository extends BaseRepository<Comment, string> {
     options: CommentQueryOptions,
     requestUserId?: string,
   ): Promise<CommentPaginationResult>;
+  getCommentsByCursor(
+    options: CommentCursorOptions,
+    requestUserId?: string,
+  ): Promise<CursorPaginatedResult<CommentWithUser>>;
   getCommentReplies(
     commentId: string,
     options?: Omit<CommentQueryOptions, 'postId' | 'parentId'>,
@@ -8,7 +8,10 @@ import {
   UpdateCommentDto,
   CommentQueryOptions,
   CommentPaginationResult,
+  CommentCursorOptions,
 } from '../models/Comment';
+import { CursorPaginatedResult } from '../../../shared/interfaces/PaginatedResult';
+import { PaginationUtils } from '../../../shared/utils/PaginationUtils';
 import { AppError } from '../../../core/errors/AppError';
 import { Logger } from '../../../core/logging/Logger';
 
@@ -248,9 +251,6 @@ export class CommentRepository
   ): Promise<CommentPaginationResult> {
     try {
       const {
-        postId,
-        userId,
-        parentId = null,
         page = 1,
         limit = 10,
         includeLikeStatus = false,
@@ -259,59 +259,13 @@ export class CommentRepository
         sortOrder = 'desc',
       } = options;
 
-      const where: Prisma.CommentWhereInput = {
-        deletedAt: null,
-      };
-
-      if (postId) where.postId = postId;
-      if (userId) where.userId = userId;
-      where.parentId = parentId;
+      const where = this.buildWhere(options);
 
       const total = await this.prisma.comment.count({ where });
 
       const comments = await this.prisma.comment.findMany({
         where,
-        include: {
-          user: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              username: true,
-              avatarUrl: true,
-            },
-          },
-          likes:
-            includeLikeStatus && requestUserId
-              ? {
-                  where: { userId: requestUserId },
-                }
-              : undefined,
-          replies: includeReplies
-            ? {
-                where: { deletedAt: null },
-                take: 3,
-                orderBy: { createdAt: 'asc' },
-                include: {
-                  user: {
-                    select: {
-                      id: true,
-                      firstName: true,
-                      lastName: true,
-                      username: true,
-                      avatarUrl: true,
-                    },
-                  },
-                  likes:
-                    includeLikeStatus && requestUserId
-                      ? {
-                          where: { userId: requestUserId },
-                        }
-                      : undefined,
-                },
-              }
-            : undefined,
-        },
+        include: this.commentInclude(includeLikeStatus, includeReplies, requestUserId),
         orderBy: { [sortBy]: sortOrder },
         skip: (page - 1) * limit,
         take: limit,
@@ -334,6 +288,41 @@ export class CommentRepository
     }
   }
 
+  async getCommentsByCursor(
+    options: CommentCursorOptions,
+    requestUserId?: string,
+  ): Promise<CursorPaginatedResult<CommentWithUser>> {
+    const {
+      cursor,
+      limit = 10,
+      includeLikeStatus = false,
+      includeReplies = false,
+      sortOrder = 'desc',
+    } = options;
+    const after = PaginationUtils.cursorWhere(cursor, sortOrder);
+
+    try {
+      const comments = await this.prisma.comment.findMany({
+        where: { AND: [this.buildWhere(options), after] },
+        include: this.commentInclude(includeLikeStatus, includeReplies, requestUserId),
+        orderBy: PaginationUtils.cursorOrderBy(sortOrder),
+        take: limit + 1,
+      });
+
+      const result = PaginationUtils.createCursorPaginatedResult(comments, limit);
+
+      return {
+        ...result,
+        data: result.data.map((comment) =>
+          this.transformCommentWithUser(comment, requestUserId, includeReplies),
+        ),
+      };
+    } catch (error) {
+      this.logger.error(`Error getting comments: ${error}`);
+      throw new AppError('Failed to get comments', 500, 'DATABASE_ERROR');
+    }
+  }
+
   async getCommentReplies(
     commentId: string,
     options: Omit<CommentQueryOptions, 'postId' | 'parentId'> = {},
@@ -399,4 +388,66 @@ export class CommentRepository
 
     return result;
   }
+
+  private buildWhere(options: Pick<CommentQueryOptions, 'postId' | 'userId' | 'parentId'>) {
+    const { postId, userId, parentId = null } = options;
+
+    const where: Prisma.CommentWhereInput = {
+      deletedAt: null,
+    };
+
+    if (postId) where.postId = postId;
+    if (userId) where.userId = userId;
+    where.parentId = parentId;
+
+    return where;
+  }
+
+  private commentInclude(
+    includeLikeStatus: boolean,
+    includeReplies: boolean,
+    requestUserId?: string,
+  ) {
+    return {
+      user: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          username: true,
+          avatarUrl: true,
+        },
+      },
+      likes:
+        includeLikeStatus && requestUserId
+          ? {
+              where: { userId: requestUserId },
+            }
+          : undefined,
+      replies: includeReplies
+        ? {
+            where: { deletedAt: null },
+            take: 3,
+            orderBy: { createdAt: 'asc' },
+            include: {
+              user: {
+                select: {
+                  id: true,
+                  firstName: true,
+                  lastName: true,
+                  username: true,
+                  avatarUrl: true,
+                },
+              },
+              likes:
+                includeLikeStatus && requestUserId
+                  ? {
+                      where: { userId: requestUserId },
+                    }
+                  : undefined,
+            },
+          }
+        : undefined,
+    } satisfies Prisma.CommentInclude;
+  }
 }
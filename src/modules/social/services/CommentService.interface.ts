@@ -5,7 +5,9 @@ import {
   UpdateCommentDto,
   CommentQueryOptions,
   CommentPaginationResult,
+  CommentCursorOptions,
 } from '../models/Comment';
+import { CursorPaginatedResult } from '../../../shared/interfaces/PaginatedResult';
 
 export interface ICommentService {
   createComment(userId: string, data: CreateCommentDto): Promise<CommentWithUser>;
@@ -17,11 +19,21 @@ export interface ICommentService {
     options?: Omit<CommentQueryOptions, 'postId'>,
     requestUserId?: string,
   ): Promise<CommentPaginationResult>;
+  getPostCommentsByCursor(
+    postId: string,
+    options?: Omit<CommentCursorOptions, 'postId'>,
+    requestUserId?: string,
+  ): Promise<CursorPaginatedResult<CommentWithUser>>;
   getCommentReplies(
     commentId: string,
     options?: Omit<CommentQueryOptions, 'postId' | 'parentId'>,
     requestUserId?: string,
   ): Promise<CommentPaginationResult>;
+  getCommentRepliesByCursor(
+    commentId: string,
+    options?: Omit<CommentCursorOptions, 'postId' | 'parentId'>,
+    requestUserId?: string,
+  ): Promise<CursorPaginatedResult<CommentWithUser>>;
   getUserComments(
     userId: string,
     options?: Omit<CommentQueryOptions, 'userId'>,
@@ -6,7 +6,9 @@ import {
   UpdateCommentDto,
   CommentQueryOptions,
   CommentPaginationResult,
+  CommentCursorOptions,
 } from '../models/Comment';
+import { CursorPaginatedResult } from '../../../shared/interfaces/PaginatedResult';
 import { ICommentRepository } from '../repositories/CommentRepository.interface';
 import { IUserRepository } from '../../auth/repositories/UserRepository.interface';
 import { IPostRepository } from '../../post/repositories/PostRepository.interface';
@@ -112,6 +114,27 @@ export class CommentService implements ICommentService {
     }
   }
 
+  async getPostCommentsByCursor(
+    postId: string,
+    options: Omit<CommentCursorOptions, 'postId'> = {},
+    requestUserId?: string,
+  ): Promise<CursorPaginatedResult<CommentWithUser>> {
+    try {
+      return await this.commentRepository.getCommentsByCursor(
+        {
+          ...options,
+          postId,
+          parentId: options.parentId !== undefined ? options.parentId : null, // Default to top-level
+        },
+        requestUserId,
+      );
+    } catch (error) {
+      this.logger.error(`Error getting post comments: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to get post comments', 500, 'SERVICE_ERROR');
+    }
+  }
+
   async getCommentReplies(
     commentId: string,
     options: Omit<CommentQueryOptions, 'postId' | 'parentId'> = {},
@@ -126,6 +149,28 @@ export class CommentService implements ICommentService {
     }
   }
 
+  async getCommentRepliesByCursor(
+    commentId: string,
+    options: Omit<CommentCursorOptions, 'postId' | 'parentId'> = {},
+    requestUserId?: string,
+  ): Promise<CursorPaginatedResult<CommentWithUser>> {
+    try {
+      const parentComment = await this.commentRepository.findById(commentId);
+      if (!parentComment) {
+        throw new AppError('Parent comment not found', 404, 'COMMENT_NOT_FOUND');
+      }
+
+      return await this.commentRepository.getCommentsByCursor(
+        { ...options, postId: parentComment.postId, parentId: commentId },
+        requestUserId,
+      );
+    } catch (error) {
+      this.logger.error(`Error getting comment replies: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw new AppError('Failed to get comment replies', 500, 'SERVICE_ERROR');
+    }
+  }
+
   async getUserComments(
     userId: string,
     options: Omit<CommentQueryOptions, 'userId'> = {},
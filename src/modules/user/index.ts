@@ -7,12 +7,14 @@
 // Export models
 export * from './models/Profile';
 export * from './models/Address';
+export * from './models/PaymentMethod';
 export * from './models/Follow';
 export * from './models/UserDto';
 
 // Export repository interfaces
 export * from './repositories/ProfileRepository.interface';
 export * from './repositories/AddressRepository.interface';
+export * from './repositories/PaymentMethodRepository.interface';
 export * from './repositories/FollowRepository.interface';
 
 // Export service interfaces
@@ -27,6 +29,6 @@ export function registerUserModule() {
 
   return {
     name: 'user',
-    description: 'User (Profile, Address, Follow) module',
+    description: 'User (Profile, Address, Payment Method, Follow) module',
   };
 }
@@ -0,0 +1,26 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../../shared/utils/ApiResponse';
+import { IUserService } from '../../../services/UserService.interface';
+import container from '../../../../../core/di/container';
+
+export class CreatePaymentMethodController extends BaseController {
+  private userService: IUserService;
+
+  constructor() {
+    super();
+    this.userService = container.resolve<IUserService>('userService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      this.validateAuth(req);
+
+      const paymentMethod = await this.userService.createPaymentMethod(req.user!.id, req.body);
+
+      ApiResponse.created(res, paymentMethod, 'Payment method created successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,27 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../../shared/utils/ApiResponse';
+import { IUserService } from '../../../services/UserService.interface';
+import container from '../../../../../core/di/container';
+
+export class DeletePaymentMethodController extends BaseController {
+  private userService: IUserService;
+
+  constructor() {
+    super();
+    this.userService = container.resolve<IUserService>('userService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      this.validateAuth(req);
+
+      const { id } = req.params;
+      await this.userService.deletePaymentMethod(id, req.user!.id);
+
+      ApiResponse.success(res, null, 'Payment method deleted successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+}
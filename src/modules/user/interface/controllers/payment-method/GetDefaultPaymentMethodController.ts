@@ -0,0 +1,31 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../../shared/utils/ApiResponse';
+import { IUserService } from '../../../services/UserService.interface';
+import { AppError } from '../../../../../core/errors/AppError';
+import container from '../../../../../core/di/container';
+
+export class GetDefaultPaymentMethodController extends BaseController {
+  private userService: IUserService;
+
+  constructor() {
+    super();
+    this.userService = container.resolve<IUserService>('userService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      this.validateAuth(req);
+
+      const paymentMethod = await this.userService.getDefaultPaymentMethod(req.user!.id);
+
+      if (!paymentMethod) {
+        throw AppError.notFound('No default payment method found');
+      }
+
+      ApiResponse.success(res, paymentMethod, 'Default payment method retrieved successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../../shared/utils/ApiResponse';
+import { IUserService } from '../../../services/UserService.interface';
+import container from '../../../../../core/di/container';
+
+export class GetPaymentMethodsController extends BaseController {
+  private userService: IUserService;
+
+  constructor() {
+    super();
+    this.userService = container.resolve<IUserService>('userService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      this.validateAuth(req);
+
+      const paymentMethods = await this.userService.getPaymentMethods(req.user!.id);
+
+      ApiResponse.success(res, paymentMethods, 'Payment methods retrieved successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+}
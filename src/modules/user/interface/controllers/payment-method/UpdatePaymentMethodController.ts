@@ -0,0 +1,27 @@
+import { Request, Response, NextFunction } from 'express';
+import { BaseController } from '../../../../../shared/baseClasses/BaseController';
+import { ApiResponse } from '../../../../../shared/utils/ApiResponse';
+import { IUserService } from '../../../services/UserService.interface';
+import container from '../../../../../core/di/container';
+
+export class UpdatePaymentMethodController extends BaseController {
+  private userService: IUserService;
+
+  constructor() {
+    super();
+    this.userService = container.resolve<IUserService>('userService');
+  }
+
+  protected async executeImpl(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      this.validateAuth(req);
+
+      const { id } = req.params;
+      const paymentMethod = await this.userService.updatePaymentMethod(id, req.user!.id, req.body);
+
+      ApiResponse.success(res, paymentMethod, 'Payment method updated successfully');
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -8,6 +8,8 @@ import {
   searchUsersSchema,
   createAddressSchema,
   updateAddressSchema,
+  createPaymentMethodSchema,
+  updatePaymentMethodSchema,
 } from '../validators/user.validator';
 
 // User Controllers
@@ -28,6 +30,14 @@ import { DeleteAddressController } from '../controllers/address/DeleteAddressCon
 import { SetDefaultAddressController } from '../controllers/address/SetDefaultAddressController';
 import { GetDefaultAddressController } from '../controllers/address/GetDefaultAddressController';
 
+// Payment Method Controllers
+import { GetPaymentMethodsController } from '../controllers/payment-method/GetPaymentMethodsController';
+import { CreatePaymentMethodController } from '../controllers/payment-method/CreatePaymentMethodController';
+import { UpdatePaymentMethodController } from '../controllers/payment-method/UpdatePaymentMethodController';
+import { DeletePaymentMethodController } from '../controllers/payment-method/DeletePaymentMethodController';
+import { SetDefaultPaymentMethodController } from '../controllers/payment-method/SetDefaultPaymentMethodController';
+import { GetDefaultPaymentMethodController } from '../controllers/payment-method/GetDefaultPaymentMethodController';
+
 // Follow Controllers
 import { FollowUserController } from '../controllers/follow/FollowUserController';
 import { UnfollowUserController } from '../controllers/follow/UnfollowUserController';
@@ -60,6 +70,13 @@ const deleteAddressController = new DeleteAddressController();
 const setDefaultAddressController = new SetDefaultAddressController();
 const getDefaultAddressController = new GetDefaultAddressController();
 
+const getPaymentMethodsController = new GetPaymentMethodsController();
+const createPaymentMethodController = new CreatePaymentMethodController();
+const updatePaymentMethodController = new UpdatePaymentMethodController();
+const deletePaymentMethodController = new DeletePaymentMethodController();
+const setDefaultPaymentMethodController = new SetDefaultPaymentMethodController();
+const getDefaultPaymentMethodController = new GetDefaultPaymentMethodController();
+
 const followUserController = new FollowUserController();
 const unfollowUserController = new UnfollowUserController();
 const getFollowersController = new GetFollowersController();
@@ -116,6 +133,35 @@ router.post(
   setDefaultAddressController.execute,
 );
 
+// Payment method management (all specific routes)
+router.get('/payment-methods', authenticate, getPaymentMethodsController.execute);
+router.get('/payment-methods/default', authenticate, getDefaultPaymentMethodController.execute);
+router.post(
+  '/payment-methods',
+  authenticate,
+  validate(createPaymentMethodSchema),
+  createPaymentMethodController.execute,
+);
+router.patch(
+  '/payment-methods/:id',
+  authenticate,
+  validateIdParam(),
+  validate(updatePaymentMethodSchema),
+  updatePaymentMethodController.execute,
+);
+router.delete(
+  '/payment-methods/:id',
+  authenticate,
+  validateIdParam(),
+  deletePaymentMethodController.execute,
+);
+router.post(
+  '/payment-methods/:id/default',
+  authenticate,
+  validateIdParam(),
+  setDefaultPaymentMethodController.execute,
+);
+
 // Account management
 router.delete('/account', authenticate, deleteAccountController.execute);
 
@@ -1,4 +1,5 @@
 import Joi from 'joi';
+import { PaymentMethodType } from '../../../order/models/OrderEnums';
 
 // Update profile validation
 export const updateProfileSchema = Joi.object({
@@ -54,3 +55,56 @@ export const updateAddressSchema = Joi.object({
   country: Joi.string().max(50),
   isDefault: Joi.boolean(),
 }).min(1);
+
+// Create payment method validation
+export const createPaymentMethodSchema = Joi.object({
+  type: Joi.string()
+    .valid(...Object.values(PaymentMethodType))
+    .required(),
+  cardLast4: Joi.when('type', {
+    is: Joi.valid(PaymentMethodType.CREDIT_CARD, PaymentMethodType.DEBIT_CARD),
+    then: Joi.string()
+      .pattern(/^\d{4}$/)
+      .required(),
+    otherwise: Joi.forbidden(),
+  }).messages({
+    'string.pattern.base': 'Card last 4 must be exactly 4 digits',
+  }),
+  cardBrand: Joi.string().max(30),
+  expiryMonth: Joi.when('type', {
+    is: Joi.valid(PaymentMethodType.CREDIT_CARD, PaymentMethodType.DEBIT_CARD),
+    then: Joi.number().integer().min(1).max(12).required(),
+    otherwise: Joi.forbidden(),
+  }),
+  expiryYear: Joi.when('type', {
+    is: Joi.valid(PaymentMethodType.CREDIT_CARD, PaymentMethodType.DEBIT_CARD),
+    then: Joi.number().integer().min(2000).max(2100).required(),
+    otherwise: Joi.forbidden(),
+  }),
+  holderName: Joi.string().max(100),
+  bankName: Joi.when('type', {
+    is: PaymentMethodType.BANK_TRANSFER,
+    then: Joi.string().max(100).required(),
+    otherwise: Joi.forbidden(),
+  }),
+  accountLast4: Joi.when('type', {
+    is: PaymentMethodType.BANK_TRANSFER,
+    then: Joi.string()
+      .pattern(/^\d{4}$/)
+      .required(),
+    otherwise: Joi.forbidden(),
+  }).messages({
+    'string.pattern.base': 'Account last 4 must be exactly 4 digits',
+  }),
+  isDefault: Joi.boolean().default(false),
+});
+
+// Update payment method validation
+export const updatePaymentMethodSchema = Joi.object({
+  cardBrand: Joi.string().max(30),
+  expiryMonth: Joi.number().integer().min(1).max(12),
+  expiryYear: Joi.number().integer().min(2000).max(2100),
+  holderName: Joi.string().max(100).allow(null),
+  bankName: Joi.string().max(100),
+  isDefault: Joi.boolean(),
+}).min(1);
@@ -0,0 +1,50 @@
+import { PaymentMethodType } from '../../order/models/OrderEnums';
+
+/**
+ * Saved payment method. Only display data is stored (last 4 digits, brand, expiry);
+ * full card and account numbers never reach this service.
+ */
+export interface PaymentMethod {
+  id: string;
+  userId: string;
+  type: PaymentMethodType;
+  isDefault: boolean;
+  cardLast4?: string | null;
+  cardBrand?: string | null;
+  expiryMonth?: number | null;
+  expiryYear?: number | null;
+  holderName?: string | null;
+  bankName?: string | null;
+  accountLast4?: string | null;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreatePaymentMethodDto {
+  type: PaymentMethodType;
+  cardLast4?: string;
+  cardBrand?: string;
+  expiryMonth?: number;
+  expiryYear?: number;
+  holderName?: string;
+  bankName?: string;
+  accountLast4?: string;
+  isDefault?: boolean;
+}
+
+export interface UpdatePaymentMethodDto {
+  cardBrand?: string;
+  expiryMonth?: number;
+  expiryYear?: number;
+  holderName?: string | null;
+  bankName?: string;
+  isDefault?: boolean;
+}
+
+/**
+ * A card stays valid through the last day of its expiry month
+ */
+export const isExpired = (expiryMonth: number, expiryYear: number, now = new Date()): boolean => {
+  return new Date(expiryYear, expiryMonth, 1) <= now;
+};
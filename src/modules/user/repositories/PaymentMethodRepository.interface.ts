@@ -0,0 +1,16 @@
+import { BaseRepository } from '../../../shared/interfaces/BaseRepository';
+import {
+  PaymentMethod,
+  CreatePaymentMethodDto,
+  UpdatePaymentMethodDto,
+} from '../models/PaymentMethod';
+
+export interface IPaymentMethodRepository extends BaseRepository<PaymentMethod, string> {
+  getPaymentMethodsByUserId(userId: string): Promise<PaymentMethod[]>;
+  createPaymentMethod(userId: string, data: CreatePaymentMethodDto): Promise<PaymentMethod>;
+  updatePaymentMethod(id: string, data: UpdatePaymentMethodDto): Promise<PaymentMethod>;
+  deactivatePaymentMethod(id: string, userId: string): Promise<boolean>;
+  setAsDefault(id: string, userId: string): Promise<PaymentMethod>;
+  belongsToUser(id: string, userId: string): Promise<boolean>;
+  getDefaultPaymentMethod(userId: string): Promise<PaymentMethod | null>;
+}
@@ -0,0 +1,235 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { BasePrismaRepository } from '../../../shared/baseClasses/BasePrismaRepository';
+import { IPaymentMethodRepository } from './PaymentMethodRepository.interface';
+import {
+  PaymentMethod,
+  CreatePaymentMethodDto,
+  UpdatePaymentMethodDto,
+} from '../models/PaymentMethod';
+import { AppError } from '../../../core/errors/AppError';
+import { Logger } from '../../../core/logging/Logger';
+
+export class PaymentMethodRepository
+  extends BasePrismaRepository<PaymentMethod, string>
+  implements IPaymentMethodRepository
+{
+  private logger = Logger.getInstance();
+
+  constructor(prisma: PrismaClient) {
+    super(prisma, 'paymentMethod');
+  }
+
+  async getPaymentMethodsByUserId(userId: string): Promise<PaymentMethod[]> {
+    try {
+      const paymentMethods = await this.prisma.paymentMethod.findMany({
+        where: { userId, isActive: true },
+        orderBy: [{ isDefault: 'desc' }, { createdAt: 'desc' }],
+      });
+
+      return paymentMethods as PaymentMethod[];
+    } catch (error) {
+      this.logger.error(`Error getting payment methods by user ID: ${error}`);
+      throw AppError.internal('Failed to get payment methods', 'DATABASE_ERROR');
+    }
+  }
+
+  async createPaymentMethod(userId: string, data: CreatePaymentMethodDto): Promise<PaymentMethod> {
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        // If this is set as default, set all other payment methods as non-default
+        if (data.isDefault) {
+          await tx.paymentMethod.updateMany({
+            where: { userId },
+            data: { isDefault: false },
+          });
+        }
+
+        // If this is the first active payment method, make it default
+        const activeCount = await tx.paymentMethod.count({
+          where: { userId, isActive: true },
+        });
+
+        const makeDefault = data.isDefault || activeCount === 0;
+
+        const paymentMethod = await tx.paymentMethod.create({
+          data: {
+            userId,
+            type: data.type,
+            cardLast4: data.cardLast4,
+            cardBrand: data.cardBrand,
+            expiryMonth: data.expiryMonth,
+            expiryYear: data.expiryYear,
+            holderName: data.holderName,
+            bankName: data.bankName,
+            accountLast4: data.accountLast4,
+            isDefault: makeDefault,
+          },
+        });
+
+        return paymentMethod as PaymentMethod;
+      });
+    } catch (error) {
+      this.logger.error(`Error creating payment method: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to create payment method', 'DATABASE_ERROR');
+    }
+  }
+
+  async updatePaymentMethod(id: string, data: UpdatePaymentMethodDto): Promise<PaymentMethod> {
+    try {
+      const paymentMethod = await this.prisma.paymentMethod.findUnique({
+        where: { id },
+        select: { id: true, userId: true, isActive: true },
+      });
+
+      if (!paymentMethod || !paymentMethod.isActive) {
+        throw AppError.notFound('Payment method not found', 'PAYMENT_METHOD_NOT_FOUND');
+      }
+
+      // Update in transaction if isDefault is changing
+      if (data.isDefault) {
+        return await this.prisma.$transaction(async (tx) => {
+          // Set all other payment methods as non-default
+          await tx.paymentMethod.updateMany({
+            where: {
+              userId: paymentMethod.userId,
+              id: { not: id },
+            },
+            data: { isDefault: false },
+          });
+
+          const updatedPaymentMethod = await tx.paymentMethod.update({
+            where: { id },
+            data,
+          });
+
+          return updatedPaymentMethod as PaymentMethod;
+        });
+      } else {
+        return await this.prisma.$transaction(async (tx) => {
+          await tx.paymentMethod.update({
+            where: { id },
+            data,
+          });
+
+          // Unsetting the default hands it to another method; the only method stays default
+          if (data.isDefault === false) {
+            await this.promoteDefault(tx, paymentMethod.userId, id);
+          }
+
+          return (await tx.paymentMethod.findUnique({ where: { id } })) as PaymentMethod;
+        });
+      }
+    } catch (error) {
+      this.logger.error(`Error updating payment method: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to update payment method', 'DATABASE_ERROR');
+    }
+  }
+
+  async deactivatePaymentMethod(id: string, userId: string): Promise<boolean> {
+    try {
+      // Soft delete: past transactions keep pointing at the method
+      return await this.prisma.$transaction(async (tx) => {
+        const paymentMethod = await tx.paymentMethod.update({
+          where: { id },
+          data: { isActive: false, isDefault: false },
+        });
+
+        await this.promoteDefault(tx, userId);
+
+        return !paymentMethod.isActive;
+      });
+    } catch (error) {
+      this.logger.error(`Error deactivating payment method: ${error}`);
+      throw AppError.internal('Failed to delete payment method', 'DATABASE_ERROR');
+    }
+  }
+
+  async setAsDefault(id: string, userId: string): Promise<PaymentMethod> {
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        // Set all payment methods as non-default
+        await tx.paymentMethod.updateMany({
+          where: { userId },
+          data: { isDefault: false },
+        });
+
+        // Set the specified payment method as default
+        const paymentMethod = await tx.paymentMethod.update({
+          where: { id },
+          data: { isDefault: true },
+        });
+
+        return paymentMethod as PaymentMethod;
+      });
+    } catch (error) {
+      this.logger.error(`Error setting payment method as default: ${error}`);
+      throw AppError.internal('Failed to set payment method as default', 'DATABASE_ERROR');
+    }
+  }
+
+  async belongsToUser(id: string, userId: string): Promise<boolean> {
+    try {
+      const paymentMethod = await this.prisma.paymentMethod.findFirst({
+        where: {
+          id,
+          userId,
+          isActive: true,
+        },
+        select: { id: true },
+      });
+
+      return !!paymentMethod;
+    } catch (error) {
+      this.logger.error(`Error checking if payment method belongs to user: ${error}`);
+      return false;
+    }
+  }
+
+  async getDefaultPaymentMethod(userId: string): Promise<PaymentMethod | null> {
+    try {
+      const paymentMethod = await this.prisma.paymentMethod.findFirst({
+        where: {
+          userId,
+          isActive: true,
+          isDefault: true,
+        },
+      });
+
+      return paymentMethod as PaymentMethod | null;
+    } catch (error) {
+      this.logger.error(`Error getting default payment method: ${error}`);
+      return null;
+    }
+  }
+
+  /**
+   * Makes the most recent active method the default when the user has none. `unsetId` is the
+   * method the default was just taken from; it only gets it back if it is the only one left.
+   */
+  private async promoteDefault(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    unsetId?: string,
+  ): Promise<void> {
+    const hasDefault = await tx.paymentMethod.count({
+      where: { userId, isActive: true, isDefault: true },
+    });
+    if (hasDefault) return;
+
+    const next = await tx.paymentMethod.findFirst({
+      where: { userId, isActive: true, ...(unsetId ? { id: { not: unsetId } } : {}) },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true },
+    });
+
+    const promotedId = next?.id ?? unsetId;
+    if (promotedId) {
+      await tx.paymentMethod.update({
+        where: { id: promotedId },
+        data: { isDefault: true },
+      });
+    }
+  }
+}
@@ -2,6 +2,11 @@ import { SafeUser, UserUpdateAttributes, UserStatus } from '../../auth';
 import { UserProfileDto, UserListDto, UserSearchDto } from '../models/UserDto';
 import { ProfileWithUser, UpdateProfileDto } from '../models/Profile';
 import { Address, CreateAddressDto, UpdateAddressDto } from '../models/Address';
+import {
+  PaymentMethod,
+  CreatePaymentMethodDto,
+  UpdatePaymentMethodDto,
+} from '../models/PaymentMethod';
 import { Follow, FollowStatsDto } from '../models/Follow';
 import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
 import {
@@ -32,6 +37,18 @@ export interface IUserService {
   setAddressAsDefault(id: string, userId: string): Promise<Address>;
   getDefaultAddress(userId: string): Promise<Address | null>;
 
+  // Payment method management
+  getPaymentMethods(userId: string): Promise<PaymentMethod[]>;
+  createPaymentMethod(userId: string, data: CreatePaymentMethodDto): Promise<PaymentMethod>;
+  updatePaymentMethod(
+    id: string,
+    userId: string,
+    data: UpdatePaymentMethodDto,
+  ): Promise<PaymentMethod>;
+  deletePaymentMethod(id: string, userId: string): Promise<boolean>;
+  setPaymentMethodAsDefault(id: string, userId: string): Promise<PaymentMethod>;
+  getDefaultPaymentMethod(userId: string): Promise<PaymentMethod | null>;
+
   // Follow management
   followUser(followerId: string, followingId: string): Promise<Follow>;
   unfollowUser(followerId: string, followingId: string): Promise<boolean>;
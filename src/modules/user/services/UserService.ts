@@ -4,7 +4,14 @@ import { UserStatus } from '../../auth';
 import { UserProfileDto, UserListDto, UserSearchDto } from '../models/UserDto';
 import { ProfileWithUser, UpdateProfileDto } from '../models/Profile';
 import { Address, CreateAddressDto, UpdateAddressDto } from '../models/Address';
+import {
+  PaymentMethod,
+  CreatePaymentMethodDto,
+  UpdatePaymentMethodDto,
+  isExpired,
+} from '../models/PaymentMethod';
 import { Follow, FollowStatsDto } from '../models/Follow';
+import { PaymentMethodType } from '../../order/models/OrderEnums';
 import {
   AdminUserSearchDto,
   AdminUserListDto,
@@ -16,6 +23,7 @@ import { PaginatedResult } from '../../../shared/interfaces/PaginatedResult';
 import { IUserRepository } from '../../auth';
 import { IProfileRepository } from '../repositories/ProfileRepository.interface';
 import { IAddressRepository } from '../repositories/AddressRepository.interface';
+import { IPaymentMethodRepository } from '../repositories/PaymentMethodRepository.interface';
 import { IFollowRepository } from '../repositories/FollowRepository.interface';
 import { INotificationService } from '../../notification';
 import { AppError } from '../../../core/errors/AppError';
@@ -26,6 +34,7 @@ export class UserService implements IUserService {
   private userRepository: IUserRepository;
   private profileRepository: IProfileRepository;
   private addressRepository: IAddressRepository;
+  private paymentMethodRepository: IPaymentMethodRepository;
   private followRepository: IFollowRepository;
   private logger = Logger.getInstance();
 
@@ -33,6 +42,8 @@ export class UserService implements IUserService {
     this.userRepository = container.resolve<IUserRepository>('userRepository');
     this.profileRepository = container.resolve<IProfileRepository>('profileRepository');
     this.addressRepository = container.resolve<IAddressRepository>('addressRepository');
+    this.paymentMethodRepository =
+      container.resolve<IPaymentMethodRepository>('paymentMethodRepository');
     this.followRepository = container.resolve<IFollowRepository>('followRepository');
   }
 
@@ -339,6 +350,147 @@ export class UserService implements IUserService {
     }
   }
 
+  // Payment method management methods
+  async getPaymentMethods(userId: string): Promise<PaymentMethod[]> {
+    try {
+      return await this.paymentMethodRepository.getPaymentMethodsByUserId(userId);
+    } catch (error) {
+      this.logger.error(`Error getting payment methods: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to get payment methods', 'SERVICE_ERROR');
+    }
+  }
+
+  async createPaymentMethod(userId: string, data: CreatePaymentMethodDto): Promise<PaymentMethod> {
+    try {
+      if (data.expiryMonth && data.expiryYear) {
+        this.validateExpiry(data.expiryMonth, data.expiryYear);
+      }
+
+      const paymentMethod = await this.paymentMethodRepository.createPaymentMethod(userId, data);
+
+      this.logger.info(`Payment method created for user: ${userId}`);
+
+      return paymentMethod;
+    } catch (error) {
+      this.logger.error(`Error creating payment method: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to create payment method', 'SERVICE_ERROR');
+    }
+  }
+
+  async updatePaymentMethod(
+    id: string,
+    userId: string,
+    data: UpdatePaymentMethodDto,
+  ): Promise<PaymentMethod> {
+    try {
+      // Check if payment method belongs to this user
+      const belongsToUser = await this.paymentMethodRepository.belongsToUser(id, userId);
+      if (!belongsToUser) {
+        throw AppError.forbidden(
+          'You can only update your own payment methods',
+          'FORBIDDEN_ACTION',
+        );
+      }
+
+      const current = await this.paymentMethodRepository.findById(id);
+      if (!current) {
+        throw AppError.notFound('Payment method not found', 'PAYMENT_METHOD_NOT_FOUND');
+      }
+
+      // Only fields that exist for the stored method's type can change
+      const isCard =
+        current.type === PaymentMethodType.CREDIT_CARD ||
+        current.type === PaymentMethodType.DEBIT_CARD;
+      const invalidFields = [
+        ...(isCard ? [] : (['cardBrand', 'expiryMonth', 'expiryYear'] as const)),
+        ...(current.type === PaymentMethodType.BANK_TRANSFER ? [] : (['bankName'] as const)),
+      ].filter((field) => data[field] !== undefined);
+
+      if (invalidFields.length > 0) {
+        throw AppError.badRequest(
+          `${invalidFields.join(', ')} cannot be set on a ${current.type} payment method`,
+          'INVALID_PAYMENT_METHOD_FIELDS',
+        );
+      }
+
+      if (data.expiryMonth !== undefined || data.expiryYear !== undefined) {
+        const expiryMonth = data.expiryMonth ?? current.expiryMonth;
+        const expiryYear = data.expiryYear ?? current.expiryYear;
+        if (expiryMonth && expiryYear) {
+          this.validateExpiry(expiryMonth, expiryYear);
+        }
+      }
+
+      const updatedPaymentMethod = await this.paymentMethodRepository.updatePaymentMethod(id, data);
+
+      this.logger.info(`Payment method ${id} updated for user: ${userId}`);
+
+      return updatedPaymentMethod;
+    } catch (error) {
+      this.logger.error(`Error updating payment method: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to update payment method', 'SERVICE_ERROR');
+    }
+  }
+
+  async deletePaymentMethod(id: string, userId: string): Promise<boolean> {
+    try {
+      // Check if payment method belongs to this user
+      const belongsToUser = await this.paymentMethodRepository.belongsToUser(id, userId);
+      if (!belongsToUser) {
+        throw AppError.forbidden(
+          'You can only delete your own payment methods',
+          'FORBIDDEN_ACTION',
+        );
+      }
+
+      const result = await this.paymentMethodRepository.deactivatePaymentMethod(id, userId);
+
+      this.logger.info(`Payment method ${id} deleted for user: ${userId}`);
+
+      return result;
+    } catch (error) {
+      this.logger.error(`Error deleting payment method: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to delete payment method', 'SERVICE_ERROR');
+    }
+  }
+
+  async setPaymentMethodAsDefault(id: string, userId: string): Promise<PaymentMethod> {
+    try {
+      // Check if payment method belongs to this user
+      const belongsToUser = await this.paymentMethodRepository.belongsToUser(id, userId);
+      if (!belongsToUser) {
+        throw AppError.forbidden(
+          'You can only update your own payment methods',
+          'FORBIDDEN_ACTION',
+        );
+      }
+
+      const paymentMethod = await this.paymentMethodRepository.setAsDefault(id, userId);
+
+      this.logger.info(`Payment method ${id} set as default for user: ${userId}`);
+
+      return paymentMethod;
+    } catch (error) {
+      this.logger.error(`Error setting payment method as default: ${error}`);
+      if (error instanceof AppError) throw error;
+      throw AppError.internal('Failed to set payment method as default', 'SERVICE_ERROR');
+    }
+  }
+
+  async getDefaultPaymentMethod(userId: string): Promise<PaymentMethod | null> {
+    try {
+      return await this.paymentMethodRepository.getDefaultPaymentMethod(userId);
+    } catch (error) {
+      this.logger.error(`Error getting default payment method: ${error}`);
+      if (error instanceof AppError) throw error;
+      return null;
+    }
+  }
+
   // Follow management methods
   async followUser(followerId: string, followingId: string): Promise<Follow> {
     try {
@@ -637,4 +789,11 @@ export class UserService implements IUserService {
       throw AppError.internal('Failed to get user statistics', 'SERVICE_ERROR');
     }
   }
+
+  // Private helper methods
+  private validateExpiry(expiryMonth: number, expiryYear: number): void {
+    if (isExpired(expiryMonth, expiryYear)) {
+      throw AppError.badRequest('Payment method has expired', 'PAYMENT_METHOD_EXPIRED');
+    }
+  }
 }
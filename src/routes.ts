@@ -15,9 +15,18 @@ import cartRoutes from './modules/cart/interface/routes/cart.routes';
 import negotiationRoutes from './modules/price-negotiation/interface/routes/negotiation.routes';
 import customOrderRoutes from './modules/custom-order/interface/routes/custom-order.routes';
 import orderRoutes from './modules/order/interface/routes/order.routes';
+import paymentRoutes from './modules/payment/interface/routes/payment.routes';
+import jobRoutes from './modules/job/interface/routes/job.routes';
+import pricingRoutes from './modules/pricing/interface/routes/pricing.routes';
+import promotionRoutes from './modules/promotion/interface/routes/promotion.routes';
+import inventoryRoutes from './modules/inventory/interface/routes/inventory.routes';
 import reviewRoutes from './modules/review/interface/routes/review.routes';
+import productQaRoutes from './modules/product-qa/interface/routes/productQa.routes';
+import searchRoutes from './modules/search/interface/routes/search.routes';
+import feedRoutes from './modules/feed/interface/routes/feed.routes';
 import notificationRoutes from './modules/notification/interface/routes/notification.routes';
 import messageRoutes from './modules/messaging/interface/routes/message.routes';
+import conversationRoutes from './modules/messaging/interface/routes/conversation.routes';
 import uploadRoutes from './modules/upload/interface/routes/upload.routes';
 import adminPostRoutes from './modules/post/interface/routes/admin-post.routes';
 import adminProductRoutes from './modules/product/interface/routes/admin.routes';
@@ -42,14 +51,23 @@ export const registerRoutes = (app: Express) => {
     app.use(`${apiPrefix}/cart`, cartRoutes);
     app.use(`${apiPrefix}/customs`, customOrderRoutes);
     app.use(`${apiPrefix}/orders`, orderRoutes);
+    app.use(`${apiPrefix}/payments`, paymentRoutes);
+    app.use(`${apiPrefix}/promotions`, promotionRoutes);
+    app.use(`${apiPrefix}/inventory`, inventoryRoutes);
     app.use(`${apiPrefix}/reviews`, reviewRoutes);
+    app.use(`${apiPrefix}/questions`, productQaRoutes);
+    app.use(`${apiPrefix}/search`, searchRoutes);
+    app.use(`${apiPrefix}/feed`, feedRoutes);
 
     app.use(`${apiPrefix}/notifications`, notificationRoutes);
     app.use(`${apiPrefix}/messages`, messageRoutes);
+    app.use(`${apiPrefix}/conversations`, conversationRoutes);
 
     app.use(`${apiPrefix}/upload`, uploadRoutes);
     // Thêm routes khác
     app.use(`${apiPrefix}/admin/posts`, adminPostRoutes);
+    app.use(`${apiPrefix}/admin/jobs`, jobRoutes);
+    app.use(`${apiPrefix}/admin/pricing`, pricingRoutes);
     app.use(`${apiPrefix}/admin`, adminProductRoutes);
 
     // API documentation route
@@ -67,13 +85,20 @@ export const registerRoutes = (app: Express) => {
           products: `${apiPrefix}/products`,
           categories: `${apiPrefix}/categories`,
           orders: `${apiPrefix}/orders`,
+          payments: `${apiPrefix}/payments`,
+          promotions: `${apiPrefix}/promotions`,
+          inventory: `${apiPrefix}/inventory`,
           negotiations: `${apiPrefix}/negotiations`,
           cart: `${apiPrefix}/cart`,
           customs: `${apiPrefix}/customs`,
           reviews: `${apiPrefix}/reviews`,
+          questions: `${apiPrefix}/questions`,
+          search: `${apiPrefix}/search`,
+          feed: `${apiPrefix}/feed`,
           analytics: `${apiPrefix}/analytics`,
           notifications: `${apiPrefix}/notifications`,
           messages: `${apiPrefix}/messages`,
+          conversations: `${apiPrefix}/conversations`,
           upload: `${apiPrefix}/upload`,
         },
         documentation: `${apiPrefix}/docs`,
@@ -62,6 +62,14 @@ export abstract class BaseController {
     }
   }
 
+  /**
+   * Whether a list request asked for cursor pagination (?pagination=cursor or ?cursor=...)
+   * instead of page numbers
+   */
+  protected isCursorPagination(req: Request): boolean {
+    return req.query.pagination === 'cursor' || typeof req.query.cursor === 'string';
+  }
+
   /**
    * Create handler method to wrap controller methods
    */
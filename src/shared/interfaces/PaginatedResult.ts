@@ -10,3 +10,25 @@ export interface PaginatedResult<T> {
     totalPages: number;
   };
 }
+
+/**
+ * Cursor (keyset) paginated result interface
+ *
+ * `nextCursor` is opaque to clients; pass it back as `cursor` for the next page
+ */
+export interface CursorPaginatedResult<T> {
+  data: T[];
+  meta: {
+    limit: number;
+    nextCursor: string | null;
+    hasMore: boolean;
+  };
+}
+
+/**
+ * Cursor pagination options; no cursor means the first page
+ */
+export interface CursorPaginationOptions {
+  cursor?: string;
+  limit?: number;
+}
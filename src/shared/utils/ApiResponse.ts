@@ -1,4 +1,5 @@
 import { Response } from 'express';
+import { PaginatedResult, CursorPaginatedResult } from '../interfaces/PaginatedResult';
 
 /**
  * Standardized API response handler
@@ -22,6 +23,17 @@ export class ApiResponse {
     });
   }
 
+  /**
+   * Paginated list response; offset and cursor pages share the { data, meta } shape
+   */
+  static paginated<T>(
+    res: Response,
+    result: PaginatedResult<T> | CursorPaginatedResult<T>,
+    message: string = 'Success',
+  ): Response {
+    return this.success(res, { data: result.data, meta: result.meta }, message);
+  }
+
   /**
    * Created response (201)
    */
@@ -0,0 +1,90 @@
+export interface CsvRecord {
+  row: number; // 1-based record number in the file, the header being row 1
+  values: Record<string, string>;
+}
+
+export class CsvUtils {
+  /**
+   * Parse CSV text (RFC 4180: quoted fields, doubled quotes, CRLF or LF line endings)
+   */
+  static parse(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+    for (let i = 0; i < input.length; i++) {
+      const char = input[i];
+
+      if (inQuotes) {
+        if (char === '"' && input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && input[i + 1] === '\n') i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (field !== '' || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    return rows;
+  }
+
+  /**
+   * Parse CSV text into records keyed by the header row; blank lines are skipped
+   */
+  static parseRecords(text: string): { headers: string[]; records: CsvRecord[] } {
+    const [headerRow = [], ...rows] = this.parse(text);
+    const headers = headerRow.map((header) => header.trim());
+
+    const records = rows
+      .map((values, index) => ({ values, row: index + 2 }))
+      .filter(({ values }) => values.some((value) => value.trim() !== ''))
+      .map(({ values, row }) => ({
+        row,
+        values: Object.fromEntries(headers.map((header, i) => [header, (values[i] ?? '').trim()])),
+      }));
+
+    return { headers, records };
+  }
+
+  /**
+   * Build CSV text with the given columns; missing values are left empty
+   */
+  static stringify(columns: string[], rows: Record<string, unknown>[]): string {
+    const lines = [columns, ...rows.map((row) => columns.map((column) => row[column]))];
+
+    return lines.map((values) => values.map((value) => this.escape(value)).join(',')).join('\n');
+  }
+
+  private static escape(value: unknown): string {
+    if (value === undefined || value === null) return '';
+
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return /[",\r\n]/.test(text) || text.trim() !== text ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
@@ -1,4 +1,13 @@
-import { PaginatedResult } from '../interfaces/PaginatedResult';
+import { PaginatedResult, CursorPaginatedResult } from '../interfaces/PaginatedResult';
+import { AppError } from '../../core/errors/AppError';
+
+/**
+ * Keyset position: the createdAt and id of the last row of a page
+ */
+export interface CursorPosition {
+  createdAt: Date;
+  id: string;
+}
 
 export class PaginationUtils {
   /**
@@ -54,4 +63,66 @@ export class PaginationUtils {
       limit: Math.min(100, Math.max(1, limit || 10)),
     };
   }
+
+  /**
+   * Encode a row's keyset position as an opaque cursor
+   */
+  static encodeCursor(row: CursorPosition): string {
+    return Buffer.from(`${row.createdAt.toISOString()}|${row.id}`).toString('base64url');
+  }
+
+  /**
+   * Decode a cursor created by encodeCursor
+   */
+  static decodeCursor(cursor: string): CursorPosition {
+    const [createdAt, id] = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+    const date = new Date(createdAt);
+
+    if (!id || Number.isNaN(date.getTime())) {
+      throw AppError.badRequest('Invalid pagination cursor', 'INVALID_CURSOR');
+    }
+
+    return { createdAt: date, id };
+  }
+
+  /**
+   * Prisma where clause for the rows after a cursor, in (createdAt, id) order
+   */
+  static cursorWhere(cursor: string | undefined, direction: 'asc' | 'desc' = 'desc') {
+    if (!cursor) return {};
+
+    const { createdAt, id } = this.decodeCursor(cursor);
+
+    return direction === 'desc'
+      ? { OR: [{ createdAt: { lt: createdAt } }, { createdAt, id: { lt: id } }] }
+      : { OR: [{ createdAt: { gt: createdAt } }, { createdAt, id: { gt: id } }] };
+  }
+
+  /**
+   * Prisma orderBy matching cursorWhere; id breaks createdAt ties
+   */
+  static cursorOrderBy(direction: 'asc' | 'desc' = 'desc') {
+    return [{ createdAt: direction }, { id: direction }];
+  }
+
+  /**
+   * Create cursor paginated result from rows fetched with `take: limit + 1`
+   */
+  static createCursorPaginatedResult<T extends CursorPosition>(
+    rows: T[],
+    limit: number,
+  ): CursorPaginatedResult<T> {
+    const hasMore = rows.length > limit;
+    const data = rows.slice(0, limit);
+    const last = data[data.length - 1];
+
+    return {
+      data,
+      meta: {
+        limit,
+        nextCursor: hasMore && last ? this.encodeCursor(last) : null,
+        hasMore,
+      },
+    };
+  }
 }
@@ -0,0 +1,30 @@
+export class SearchTextUtils {
+  /**
+   * Lowercase and strip diacritics, matching the search_normalize() SQL function
+   * ("Gốm Bát Tràng" -> "gom bat trang")
+   */
+  static normalize(text: string): string {
+    return text
+      .normalize('NFD')
+      .replace(/\p{M}/gu, '')
+      .replace(/đ/g, 'd')
+      .replace(/Đ/g, 'D')
+      .toLowerCase();
+  }
+
+  /**
+   * Build a to_tsquery() expression where every word must match, the last one as a prefix
+   * so partial input still finds results. Returns null when the text has no words.
+   */
+  static toPrefixTsQuery(text?: string): string | null {
+    const words = this.normalize(text || '')
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(Boolean);
+
+    if (words.length === 0) return null;
+
+    return words
+      .map((word, index) => (index === words.length - 1 ? `${word}:*` : word))
+      .join(' & ');
+  }
+}